@@ -0,0 +1,1129 @@
+/**
+ * Shared finance calculations for the Cloud Functions API
+ *
+ * Functions are deployed from this directory alone and cannot import the web
+ * app's modules, so these mirror TransactionUtils (filterTransactions,
+ * calculateSummary, calculateNextDueDate) and BudgetUtils
+ * (calculateBudgetStatus) from src/modules, plus the currency conversion in
+ * src/shared/utils/currency.ts, the budget alert thresholds in
+ * src/shared/utils/budget.ts, the reminder timing in
+ * src/shared/utils/schedules.ts, the categorization rules in
+ * src/shared/utils/rules.ts, the category classifier in
+ * src/shared/utils/classifier.ts and the parent category roll-up and alias
+ * lookup in src/shared/utils/categories.ts. Keep both copies in sync so the
+ * API and the app agree.
+ */
+
+import {Timestamp} from "firebase-admin/firestore";
+
+// Budget "near limit" threshold, matches BUDGET_CONSTANTS.WARNING_THRESHOLD
+const WARNING_THRESHOLD = 0.7;
+
+// Alert percentages for budgets without their own, matches
+// DEFAULT_BUDGET_ALERT_THRESHOLDS
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+export type TransactionDate =
+  | Timestamp
+  | Date
+  | string
+  | {seconds: number; nanoseconds: number}
+  | null;
+
+// Transfers move money between accounts and count as neither income nor
+// expense, matching TransactionType in src/shared/types
+export type TransactionType = "income" | "expense" | "transfer";
+
+export interface TransactionSplitRecord {
+  Category: string;
+  Amount: number;
+  Notes: string;
+}
+
+export interface TransactionRecord {
+  id: string;
+  Date: TransactionDate;
+  Amount: number;
+  Type: TransactionType;
+  Category: string;
+  Notes: string;
+  accountId?: string | null;
+  toAccountId?: string | null;
+  currency?: string | null; // ISO 4217 code, missing means base currency
+  splits?: TransactionSplitRecord[] | null; // Add up to Amount
+  tags?: string[];
+}
+
+export interface ExchangeRateRecord {
+  currency: string;
+  rate: number; // Value of 1 unit of currency in baseCurrency
+  baseCurrency: string;
+}
+
+// Value of 1 unit of each currency in the base currency
+export type ExchangeRateMap = Record<string, number>;
+
+export const DEFAULT_BASE_CURRENCY = "USD";
+
+export interface TransactionFilters {
+  dateRange?: {start: Date; end: Date};
+  categories?: string[];
+  types?: TransactionType[];
+  amountRange?: {min: number; max: number};
+  searchTerm?: string;
+  tags?: string[]; // Any of these, ignoring case
+}
+
+export interface TransactionSummary {
+  totalIncome: number;
+  totalExpenses: number;
+  netAmount: number;
+  transactionCount: number;
+  averageTransaction: number;
+  largestTransaction: number;
+  smallestTransaction: number;
+}
+
+export interface BudgetStatus {
+  spent: number;
+  remaining: number;
+  percentage: number;
+  isOverBudget: boolean;
+  isNearLimit: boolean;
+}
+
+/**
+ * Normalize the different stored date formats to a Date
+ * @param {TransactionDate} date - Firestore Timestamp, ISO string or Date
+ * @return {Date} The parsed date
+ */
+export function parseDate(date: TransactionDate): Date {
+  if (!date) return new Date();
+
+  if (date instanceof Date) return date;
+
+  if (date instanceof Timestamp) return date.toDate();
+
+  if (typeof date === "string") return new Date(date);
+
+  if (typeof date === "object" && "seconds" in date) {
+    return new Date(date.seconds * 1000);
+  }
+
+  return new Date();
+}
+
+/**
+ * Filter transactions with the same rules as TransactionUtils
+ * @param {TransactionRecord[]} transactions - Transactions to filter
+ * @param {TransactionFilters} filters - Filter criteria
+ * @return {TransactionRecord[]} Matching transactions
+ */
+export function filterTransactions(
+  transactions: TransactionRecord[],
+  filters: TransactionFilters,
+): TransactionRecord[] {
+  return transactions.filter((transaction) => {
+    if (filters.dateRange) {
+      const transactionDate = parseDate(transaction.Date);
+      if (transactionDate < filters.dateRange.start ||
+        transactionDate > filters.dateRange.end) {
+        return false;
+      }
+    }
+
+    if (filters.categories && filters.categories.length > 0) {
+      const categories = transaction.splits?.length ?
+        transaction.splits.map((split) => split.Category) :
+        [transaction.Category];
+      if (!categories.some((c) => filters.categories?.includes(c))) {
+        return false;
+      }
+    }
+
+    if (filters.types && filters.types.length > 0) {
+      if (!filters.types.includes(transaction.Type)) {
+        return false;
+      }
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      const wanted = filters.tags.map((tag) => tag.toLowerCase());
+      const tags = (transaction.tags || []).map((tag) => tag.toLowerCase());
+      if (!tags.some((tag) => wanted.includes(tag))) {
+        return false;
+      }
+    }
+
+    if (filters.amountRange) {
+      if (transaction.Amount < filters.amountRange.min ||
+        transaction.Amount > filters.amountRange.max) {
+        return false;
+      }
+    }
+
+    if (filters.searchTerm) {
+      const searchTerm = filters.searchTerm.toLowerCase();
+      const tags = (transaction.tags || []).join(" ");
+      const searchableText =
+        `${transaction.Category} ${transaction.Notes} ${tags}`.toLowerCase();
+      if (!searchableText.includes(searchTerm)) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Totals for a set of transactions, same shape as TransactionSummary
+ * @param {TransactionRecord[]} transactions - Transactions to summarize
+ * @return {TransactionSummary} The summary
+ */
+export function calculateSummary(
+  transactions: TransactionRecord[],
+): TransactionSummary {
+  const income = transactions
+    .filter((t) => t.Type === "income")
+    .reduce((sum, t) => sum + t.Amount, 0);
+
+  const expenses = transactions
+    .filter((t) => t.Type === "expense")
+    .reduce((sum, t) => sum + t.Amount, 0);
+
+  const amounts = transactions.map((t) => t.Amount);
+
+  return {
+    totalIncome: income,
+    totalExpenses: expenses,
+    netAmount: income - expenses,
+    transactionCount: transactions.length,
+    averageTransaction: transactions.length > 0 ?
+      amounts.reduce((sum, amount) => sum + amount, 0) / transactions.length :
+      0,
+    largestTransaction: amounts.length > 0 ? Math.max(...amounts) : 0,
+    smallestTransaction: amounts.length > 0 ? Math.min(...amounts) : 0,
+  };
+}
+
+/**
+ * Rates against baseCurrency, converting rates entered against an earlier
+ * base currency through that currency's rate, same as buildRateMap
+ * @param {ExchangeRateRecord[]} rates - The user's stored rates
+ * @param {string} baseCurrency - The user's base currency
+ * @return {ExchangeRateMap} Rate per currency code
+ */
+export function buildRateMap(
+  rates: ExchangeRateRecord[],
+  baseCurrency: string,
+): ExchangeRateMap {
+  const map: ExchangeRateMap = {};
+
+  rates.forEach((rate) => {
+    if (rate.baseCurrency === baseCurrency && rate.rate > 0) {
+      map[rate.currency] = rate.rate;
+    }
+  });
+
+  rates.forEach((rate) => {
+    if (rate.currency === baseCurrency &&
+      rate.baseCurrency !== baseCurrency && rate.rate > 0) {
+      map[rate.baseCurrency] = map[rate.baseCurrency] || 1 / rate.rate;
+    }
+  });
+
+  rates.forEach((rate) => {
+    if (rate.baseCurrency === baseCurrency ||
+      rate.currency === baseCurrency || map[rate.currency]) return;
+    const pivot = map[rate.baseCurrency];
+    if (pivot && rate.rate > 0) {
+      map[rate.currency] = rate.rate * pivot;
+    }
+  });
+
+  return map;
+}
+
+/**
+ * Convert an amount to the base currency, unchanged when there is no rate
+ * @param {number} amount - Amount in the transaction's currency
+ * @param {string | null | undefined} currency - The transaction's currency
+ * @param {string} baseCurrency - The user's base currency
+ * @param {ExchangeRateMap} rates - Rates from buildRateMap
+ * @return {number} The amount in the base currency
+ */
+export function convertToBase(
+  amount: number,
+  currency: string | null | undefined,
+  baseCurrency: string,
+  rates: ExchangeRateMap,
+): number {
+  if (!currency || currency === baseCurrency) return amount;
+  const rate = rates[currency];
+  return rate ? amount * rate : amount;
+}
+
+/**
+ * Copies of the transactions with Amount in the base currency
+ * @param {TransactionRecord[]} transactions - Transactions to convert
+ * @param {string} baseCurrency - The user's base currency
+ * @param {ExchangeRateMap} rates - Rates from buildRateMap
+ * @return {TransactionRecord[]} The converted transactions
+ */
+export function toBaseCurrency(
+  transactions: TransactionRecord[],
+  baseCurrency: string,
+  rates: ExchangeRateMap,
+): TransactionRecord[] {
+  return transactions.map((transaction) => {
+    if (!transaction.currency || transaction.currency === baseCurrency) {
+      return transaction;
+    }
+    const currency = transaction.currency;
+    return {
+      ...transaction,
+      Amount: convertToBase(transaction.Amount, currency, baseCurrency, rates),
+      splits: transaction.splits?.map((split) => ({
+        ...split,
+        Amount: convertToBase(split.Amount, currency, baseCurrency, rates),
+      })) || null,
+    };
+  });
+}
+
+/**
+ * One entry per category amount, same rules as expandSplits in the app:
+ * split transactions become one copy per split
+ * @param {TransactionRecord[]} transactions - Transactions to expand
+ * @return {TransactionRecord[]} Transactions for per-category totals
+ */
+export function expandSplits(
+  transactions: TransactionRecord[],
+): TransactionRecord[] {
+  return transactions.flatMap((transaction) =>
+    transaction.splits?.length ?
+      transaction.splits.map((split) => ({
+        ...transaction,
+        Category: split.Category,
+        Amount: split.Amount,
+        Notes: split.Notes || transaction.Notes,
+        splits: null,
+      })) :
+      [transaction],
+  );
+}
+
+// One budget in a stored month, as BudgetSnapshotEntry in src/shared/types
+export interface BudgetSnapshotEntryRecord {
+  Category: string;
+  budgeted: number;
+  rollover: "none" | "surplus" | "both";
+  carriedIn: number;
+  spent: number;
+  carriedOut: number;
+}
+
+// Child category name to parent category name, missing means top level
+export type CategoryParents = Record<string, string>;
+
+/**
+ * Parents of a category, nearest first, stopping at a loop
+ * @param {string} category - The category
+ * @param {CategoryParents} parents - Parent of each child category
+ * @return {string[]} The category's parents
+ */
+export function getCategoryAncestors(
+  category: string,
+  parents: CategoryParents,
+): string[] {
+  const ancestors: string[] = [];
+  let parent = parents[category];
+  while (parent && parent !== category && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = parents[parent];
+  }
+  return ancestors;
+}
+
+/**
+ * Amounts per category with each child's added to all its parents
+ * @param {Record<string, number>} amounts - Amount per category
+ * @param {CategoryParents} parents - Parent of each child category
+ * @return {Record<string, number>} Amounts including child categories
+ */
+export function rollUpAmounts(
+  amounts: Record<string, number>,
+  parents: CategoryParents,
+): Record<string, number> {
+  const rolledUp: Record<string, number> = {};
+  Object.entries(amounts).forEach(([category, amount]) => {
+    [category, ...getCategoryAncestors(category, parents)].forEach((name) => {
+      rolledUp[name] = (rolledUp[name] || 0) + amount;
+    });
+  });
+  return rolledUp;
+}
+
+/**
+ * The name a category goes by now, following renames and merges
+ * @param {string} category - The category name, possibly an old one
+ * @param {Record<string, string>} aliases - New name for each old name
+ * @return {string} The current category name
+ */
+export function resolveCategoryAlias(
+  category: string,
+  aliases: Record<string, string>,
+): string {
+  const seen: string[] = [];
+  let name = category;
+  while (aliases[name] && !seen.includes(name)) {
+    seen.push(name);
+    name = aliases[name];
+  }
+  return name;
+}
+
+/**
+ * Budget status for a category, same rules as BudgetUtils
+ * @param {number} monthlyBudget - The category's monthly budget
+ * @param {number} spent - Amount spent this month
+ * @return {BudgetStatus} The budget status
+ */
+export function calculateBudgetStatus(
+  monthlyBudget: number,
+  spent: number,
+): BudgetStatus {
+  const remaining = Math.max(0, monthlyBudget - spent);
+  const percentage = monthlyBudget > 0 ? (spent / monthlyBudget) * 100 : 0;
+  const isOverBudget = spent > monthlyBudget;
+  const isNearLimit =
+    percentage >= (WARNING_THRESHOLD * 100) && !isOverBudget;
+
+  return {
+    spent,
+    remaining,
+    percentage,
+    isOverBudget,
+    isNearLimit,
+  };
+}
+
+/**
+ * Percentages that push an alert for a budget, same rules as
+ * getAlertThresholds in the app
+ * @param {number[] | undefined} thresholds - The budget's own, if set
+ * @return {number[]} The thresholds, lowest first
+ */
+export function getAlertThresholds(thresholds?: number[] | null): number[] {
+  return [...(thresholds || DEFAULT_ALERT_THRESHOLDS)]
+    .map(Number)
+    .filter((threshold) => threshold > 0)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Thresholds a budget has reached that haven't been alerted yet
+ * @param {number} percentage - Share of the budget spent, in percent
+ * @param {number[]} thresholds - The budget's alert thresholds
+ * @param {number[]} sent - Thresholds already alerted this month
+ * @return {number[]} Newly reached thresholds, lowest first
+ */
+export function getNewAlertThresholds(
+  percentage: number,
+  thresholds: number[],
+  sent: number[],
+): number[] {
+  return thresholds.filter((threshold) =>
+    percentage >= threshold && !sent.includes(threshold));
+}
+
+export type RecurringFrequency = "weekly" | "monthly" | "yearly";
+
+export type RecurrenceMonthRule =
+  | {type: "day-of-month"; day: number}
+  | {type: "last-day"}
+  | {type: "last-business-day"}
+  | {type: "nth-weekday"; week: 1 | 2 | 3 | 4 | -1; weekday: number};
+
+export interface RecurrenceRule {
+  frequency: RecurringFrequency;
+  interval?: number;
+  monthRule?: RecurrenceMonthRule | null;
+  endDate?: Date | null;
+  maxOccurrences?: number | null;
+  timeZone?: string; // IANA zone its days are counted in, UTC if missing
+}
+
+/**
+ * The wall clock date and time of an instant in a time zone, held in the
+ * UTC fields of a Date so calendar maths doesn't depend on the server's zone
+ * @param {Date} date - The instant
+ * @param {string} timeZone - IANA time zone
+ * @return {Date} The wall clock date
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day,
+    parts.hour, parts.minute, date.getUTCSeconds(),
+    date.getUTCMilliseconds()));
+}
+
+/**
+ * Reverse of toWallClock
+ * @param {Date} wallClock - A wall clock date from toWallClock
+ * @param {string} timeZone - IANA time zone
+ * @return {Date} The instant
+ */
+function fromWallClock(wallClock: Date, timeZone: string): Date {
+  const instant = zonedTimeToDate(wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth() + 1, wallClock.getUTCDate(),
+    wallClock.getUTCHours(), wallClock.getUTCMinutes(), timeZone);
+  return new Date(instant.getTime() + wallClock.getUTCSeconds() * 1000 +
+    wallClock.getUTCMilliseconds());
+}
+
+/**
+ * Pick the day within the month of monthStart according to the rule,
+ * same as applyMonthRule in src/shared/utils/recurrence.ts
+ * @param {Date} monthStart - Any wall clock date in the target month
+ * @param {RecurrenceMonthRule} monthRule - The month rule
+ * @return {Date} The occurrence in that month, as a wall clock date
+ */
+function applyMonthRule(
+  monthStart: Date,
+  monthRule: RecurrenceMonthRule,
+): Date {
+  const result = new Date(monthStart);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(),
+    result.getUTCMonth() + 1, 0)).getUTCDate();
+
+  switch (monthRule.type) {
+  case "day-of-month":
+    result.setUTCDate(Math.min(Math.max(monthRule.day, 1), daysInMonth));
+    break;
+  case "last-day":
+    result.setUTCDate(daysInMonth);
+    break;
+  case "last-business-day":
+    result.setUTCDate(daysInMonth);
+    while (result.getUTCDay() === 0 || result.getUTCDay() === 6) {
+      result.setUTCDate(result.getUTCDate() - 1);
+    }
+    break;
+  case "nth-weekday":
+    if (monthRule.week === -1) {
+      result.setUTCDate(daysInMonth);
+      result.setUTCDate(
+        daysInMonth - ((result.getUTCDay() - monthRule.weekday + 7) % 7));
+    } else {
+      result.setUTCDate(1);
+      const offset = (monthRule.weekday - result.getUTCDay() + 7) % 7;
+      result.setUTCDate(1 + offset + (monthRule.week - 1) * 7);
+    }
+    break;
+  }
+
+  return result;
+}
+
+/**
+ * Next occurrence after a due date, same rules as
+ * TransactionUtils.calculateNextDueDate (getNextOccurrence). Days are
+ * counted in the rule's time zone, so both pick the same instant.
+ * @param {Date} currentDue - The occurrence that was just processed
+ * @param {RecurrenceRule} rule - Frequency, interval, month rule and zone
+ * @return {Date} The following due date
+ */
+export function calculateNextDueDate(
+  currentDue: Date,
+  rule: RecurrenceRule,
+): Date {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const timeZone = rule.timeZone || "UTC";
+  const wallClock = toWallClock(currentDue, timeZone);
+
+  if (rule.frequency === "weekly") {
+    const nextDue = new Date(wallClock);
+    nextDue.setUTCDate(wallClock.getUTCDate() + 7 * interval);
+    return fromWallClock(nextDue, timeZone);
+  }
+
+  const monthsToAdd = rule.frequency === "yearly" ? 12 * interval : interval;
+  const monthStart = new Date(wallClock);
+  monthStart.setUTCDate(1);
+  monthStart.setUTCMonth(wallClock.getUTCMonth() + monthsToAdd);
+
+  return fromWallClock(applyMonthRule(
+    monthStart,
+    rule.monthRule || {type: "day-of-month", day: wallClock.getUTCDate()},
+  ), timeZone);
+}
+
+/**
+ * Whether an occurrence on date is still part of the series
+ * @param {RecurrenceRule} rule - End date and occurrence limit
+ * @param {Date} date - The candidate occurrence
+ * @param {number} occurrenceCount - Occurrences already posted
+ * @return {boolean} False once the series has ended
+ */
+export function isWithinRecurrence(
+  rule: RecurrenceRule,
+  date: Date,
+  occurrenceCount: number,
+): boolean {
+  if (rule.maxOccurrences && occurrenceCount >= rule.maxOccurrences) {
+    return false;
+  }
+  if (rule.endDate && date > rule.endDate) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Deterministic transaction id for one occurrence of a recurring
+ * transaction, so re-running the scheduler never posts it twice. Same as
+ * getRecurringOccurrenceId in the app: the date is the rule's local date.
+ * @param {string} recurringId - The recurring transaction id
+ * @param {Date} dueDate - The occurrence's due date
+ * @param {string} timeZone - IANA time zone the rule's days are counted in
+ * @return {string} The transaction document id
+ */
+export function getRecurringOccurrenceId(
+  recurringId: string,
+  dueDate: Date,
+  timeZone: string,
+): string {
+  return `recurring_${recurringId}_${getZonedDateKey(dueDate, timeZone)}`;
+}
+
+export interface RuleConditionRecord {
+  field: "notes" | "amount" | "type";
+  operator: "contains" | "startsWith" | "equals" | "greaterThan" | "lessThan";
+  value: string;
+}
+
+export interface CategoryRuleRecord {
+  id: string;
+  conditions: RuleConditionRecord[];
+  actions: {
+    category?: string | null;
+    type?: "income" | "expense" | null;
+    notes?: string | null;
+    tags?: string[] | null;
+  };
+  order: number;
+  isActive: boolean;
+}
+
+export interface RuleTarget {
+  Amount: number;
+  Type: TransactionType;
+  Notes: string;
+}
+
+export interface RuleChanges {
+  Category?: string;
+  Type?: "income" | "expense";
+  Notes?: string;
+  tags?: string[];
+}
+
+// Amounts may differ from the rule by rounding, matches the app
+const RULE_AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * Lowercase with single spaces, for case-insensitive text conditions
+ * @param {string} text - Text to normalize
+ * @return {string} The normalized text
+ */
+function normalizeRuleText(text: string | undefined): string {
+  return (text || "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Whether one rule condition holds, same rules as matchesCondition
+ * @param {RuleConditionRecord} condition - The condition
+ * @param {RuleTarget} target - The transaction being categorized
+ * @return {boolean} True if the condition holds
+ */
+export function matchesCondition(
+  condition: RuleConditionRecord,
+  target: RuleTarget,
+): boolean {
+  if (condition.field === "amount") {
+    const value = parseFloat(condition.value);
+    if (isNaN(value)) return false;
+
+    const amount = Math.abs(target.Amount);
+    if (condition.operator === "greaterThan") return amount > value;
+    if (condition.operator === "lessThan") return amount < value;
+    return Math.abs(amount - value) < RULE_AMOUNT_TOLERANCE;
+  }
+
+  const text = normalizeRuleText(
+    condition.field === "type" ? target.Type : target.Notes);
+  const value = normalizeRuleText(condition.value);
+  if (condition.operator === "contains") return text.includes(value);
+  if (condition.operator === "startsWith") return text.startsWith(value);
+  return text === value;
+}
+
+/**
+ * Tidied tags without blanks or repeats, same rules as cleanTags in the app:
+ * no leading "#", single spaces, and repeats found ignoring case
+ * @param {string[]} tags - Tags as given
+ * @return {string[]} The tags, keeping each one's first spelling
+ */
+export function cleanTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.replace(/^#+/, "").replace(/\s+/g, " ").trim())
+    .filter((tag) => {
+      if (!tag || seen.has(tag.toLowerCase())) return false;
+      seen.add(tag.toLowerCase());
+      return true;
+    });
+}
+
+/**
+ * Run the rules in order, same rules as applyRules in the app: each change
+ * comes from the first matching rule that sets it, except tags, which every
+ * matching rule adds to
+ * @param {CategoryRuleRecord[]} rules - The user's rules
+ * @param {RuleTarget} target - The transaction being categorized
+ * @return {object} The changes and the ids of the rules that made them
+ */
+export function applyCategoryRules(
+  rules: CategoryRuleRecord[],
+  target: RuleTarget,
+): {changes: RuleChanges; ruleIds: string[]} {
+  const changes: RuleChanges = {};
+  const ruleIds: string[] = [];
+  if (target.Type === "transfer") return {changes, ruleIds};
+
+  [...rules]
+    .sort((a, b) => a.order - b.order)
+    .filter((rule) => rule.isActive && rule.conditions.length > 0 &&
+      rule.conditions.every((c) => matchesCondition(c, target)))
+    .forEach((rule) => {
+      const {category, type, notes, tags} = rule.actions;
+      let applied = false;
+      if (category && changes.Category === undefined) {
+        changes.Category = category;
+        applied = true;
+      }
+      if (type && changes.Type === undefined) {
+        changes.Type = type;
+        applied = true;
+      }
+      if (notes && changes.Notes === undefined) {
+        changes.Notes = notes;
+        applied = true;
+      }
+      if (tags?.length) {
+        changes.tags = cleanTags([...(changes.tags || []), ...tags]);
+        applied = true;
+      }
+      if (applied) ruleIds.push(rule.id);
+    });
+
+  return {changes, ruleIds};
+}
+
+// Learned categories, matches LEARNED_CATEGORIES in src/shared/constants
+export const LEARNED_MIN_EXAMPLES = 20;
+export const LEARNED_MIN_CONFIDENCE = 0.6;
+
+// Upper bounds of the amount buckets, matches the app's classifier
+const AMOUNT_BUCKETS = [5, 10, 20, 50, 100, 250, 500, 1000];
+
+interface CategoryModelEntry {
+  examples: number;
+  featureTotal: number;
+  counts: Record<string, number>;
+  types: Record<"income" | "expense", number>;
+}
+
+export interface CategoryModel {
+  examples: number;
+  categories: Record<string, CategoryModelEntry>;
+  vocabulary: Set<string>;
+}
+
+/**
+ * Classifier features, same as getClassifierFeatures in the app. Times of
+ * day are in the server's time zone, which only has to agree with itself.
+ * @param {string} notes - The transaction notes
+ * @param {number} amount - The transaction amount
+ * @param {Date | null} date - When it happened, if known
+ * @return {string[]} Word, amount bucket and time of day features
+ */
+export function getClassifierFeatures(
+  notes: string,
+  amount: number,
+  date: Date | null,
+): string[] {
+  const words = Array.from(
+    new Set((notes || "").toLowerCase().match(/[a-z0-9]+/g) || []));
+  const bucket = AMOUNT_BUCKETS.find((limit) => Math.abs(amount) < limit);
+  const features = [
+    ...words.map((word) => `w:${word}`),
+    `a:${bucket ? `<${bucket}` :
+      `${AMOUNT_BUCKETS[AMOUNT_BUCKETS.length - 1]}+`}`,
+  ];
+
+  if (date && !isNaN(date.getTime())) {
+    const hour = date.getHours();
+    const timeOfDay = hour < 6 ? "night" : hour < 12 ? "morning" :
+      hour < 18 ? "afternoon" : "evening";
+    features.push(`t:${timeOfDay}`);
+  }
+  return features;
+}
+
+/**
+ * Naive Bayes counts over a user's history, one example per split.
+ * Transfers are left out, like in the app.
+ * @param {TransactionRecord[]} transactions - The user's transactions
+ * @return {CategoryModel} The trained model
+ */
+export function trainCategoryModel(
+  transactions: TransactionRecord[],
+): CategoryModel {
+  const model: CategoryModel = {
+    examples: 0,
+    categories: {},
+    vocabulary: new Set(),
+  };
+
+  expandSplits(transactions.filter((t) => t.Type !== "transfer" && t.Category))
+    .forEach((transaction) => {
+      if (!model.categories[transaction.Category]) {
+        model.categories[transaction.Category] = {
+          examples: 0,
+          featureTotal: 0,
+          counts: {},
+          types: {income: 0, expense: 0},
+        };
+      }
+      const entry = model.categories[transaction.Category];
+      model.examples++;
+      entry.examples++;
+      entry.types[transaction.Type as "income" | "expense"]++;
+      getClassifierFeatures(
+        transaction.Notes,
+        transaction.Amount,
+        transaction.Date ? parseDate(transaction.Date) : null,
+      ).forEach((feature) => {
+        entry.counts[feature] = (entry.counts[feature] || 0) + 1;
+        entry.featureTotal++;
+        model.vocabulary.add(feature);
+      });
+    });
+
+  return model;
+}
+
+/**
+ * The most likely category, same scoring as predictCategories in the app
+ * @param {CategoryModel} model - Model from trainCategoryModel
+ * @param {string[]} features - Features of the new transaction
+ * @return {object | null} The category, its usual type and probability,
+ * or null when the model has too little history
+ */
+export function predictCategory(
+  model: CategoryModel,
+  features: string[],
+): {category: string; type: "income" | "expense"; probability: number} |
+  null {
+  const entries = Object.entries(model.categories);
+  if (model.examples < LEARNED_MIN_EXAMPLES || entries.length < 2) {
+    return null;
+  }
+
+  const vocabularySize = model.vocabulary.size + 1;
+  const scores = entries.map(([category, entry]) => ({
+    category,
+    entry,
+    score: Math.log(entry.examples / model.examples) + features.reduce(
+      (sum, feature) => sum + Math.log(((entry.counts[feature] || 0) + 1) /
+        (entry.featureTotal + vocabularySize)),
+      0,
+    ),
+  }));
+
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const total = scores.reduce(
+    (sum, s) => sum + Math.exp(s.score - best.score), 0);
+  return {
+    category: best.category,
+    type: best.entry.types.income > best.entry.types.expense ?
+      "income" : "expense",
+    probability: 1 / total,
+  };
+}
+
+// When a reminder runs, as NotificationSchedule in src/shared/types
+export interface ScheduleTimingRecord {
+  frequency: "once" | "daily" | "weekly" | "monthly";
+  time: string; // "HH:mm" in the user's time zone
+  daysOfWeek?: number[];
+  dayOfMonth?: number;
+  date?: string;
+}
+
+// "HH:mm" in the user's time zone, may run past midnight
+export interface QuietHoursRecord {
+  start: string;
+  end: string;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 is Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Looked at day by day, so a year and a month covers every gap
+const MAX_DAYS_AHEAD = 400;
+
+/**
+ * Wall clock date and time of an instant in a time zone, same rules as
+ * getZonedParts in the app. Unknown zones fall back to UTC.
+ * @param {Date} date - The instant
+ * @param {string} timeZone - IANA time zone, e.g. "Asia/Singapore"
+ * @return {ZonedParts} The local date and time
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+  } catch {
+    return getZonedParts(date, "UTC");
+  }
+
+  const parts: Record<string, string> = {};
+  format.formatToParts(date).forEach((part) => {
+    parts[part.type] = part.value;
+  });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * The instant a wall clock time happens in a time zone
+ * @param {number} year - Local year
+ * @param {number} month - Local month, 1-12
+ * @param {number} day - Local day of the month
+ * @param {number} hour - Local hour
+ * @param {number} minute - Local minute
+ * @param {string} timeZone - IANA time zone
+ * @return {Date} The instant
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour,
+      parts.minute) - instant;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  // Checked again at the guess, in case it crossed a change in offset
+  return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * Hours and minutes of an "HH:mm" time
+ * @param {string} time - The time
+ * @return {{hour: number, minute: number} | null} Null if it isn't one
+ */
+export function parseTime(
+  time: string,
+): {hour: number; minute: number} | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? {hour, minute} : null;
+}
+
+/**
+ * The calendar date of an instant in a time zone
+ * @param {Date} date - The instant
+ * @param {string} timeZone - IANA time zone
+ * @param {number} addDays - Days to move the date by
+ * @return {string} The date as yyyy-MM-dd
+ */
+export function getZonedDateKey(
+  date: Date,
+  timeZone: string,
+  addDays = 0,
+): string {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day + addDays))
+    .toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a reminder runs on a local calendar day
+ * @param {ScheduleTimingRecord} timing - The reminder's timing
+ * @param {number} year - Local year
+ * @param {number} month - Local month, 1-12
+ * @param {number} day - Local day of the month
+ * @return {boolean} True if it runs that day
+ */
+function matchesScheduleDay(
+  timing: ScheduleTimingRecord,
+  year: number,
+  month: number,
+  day: number,
+): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  switch (timing.frequency) {
+  case "once":
+    return date.toISOString().slice(0, 10) === timing.date;
+  case "daily":
+    return true;
+  case "weekly":
+    return (timing.daysOfWeek || []).includes(date.getUTCDay());
+  case "monthly": {
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return day === Math.min(Math.max(timing.dayOfMonth || 1, 1), daysInMonth);
+  }
+  default:
+    return false;
+  }
+}
+
+/**
+ * When a reminder is next due, same rules as getNextRunAt in the app
+ * @param {ScheduleTimingRecord} timing - The reminder's timing
+ * @param {Date} after - Due strictly after this instant
+ * @param {string} timeZone - IANA time zone its time is in
+ * @return {Date | null} Null if it never runs again
+ */
+export function getNextRunAt(
+  timing: ScheduleTimingRecord,
+  after: Date,
+  timeZone: string,
+): Date | null {
+  const time = parseTime(timing.time);
+  if (!time) return null;
+
+  const today = getZonedParts(after, timeZone);
+  for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+    const day = new Date(
+      Date.UTC(today.year, today.month - 1, today.day + offset));
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    if (!matchesScheduleDay(timing, year, month, day.getUTCDate())) continue;
+
+    const runAt = zonedTimeToDate(year, month, day.getUTCDate(), time.hour,
+      time.minute, timeZone);
+    if (runAt > after) return runAt;
+  }
+  return null;
+}
+
+/**
+ * When a weekly or monthly reminder was last due, at or before an instant.
+ * Used by the digests, which work out their own timing.
+ * @param {ScheduleTimingRecord} timing - The reminder's timing
+ * @param {Date} at - Due at or before this instant
+ * @param {string} timeZone - IANA time zone its time is in
+ * @return {Date | null} Null if it wasn't due in the last month
+ */
+export function getLastRunAt(
+  timing: ScheduleTimingRecord,
+  at: Date,
+  timeZone: string,
+): Date | null {
+  // A month and a day covers the longest gap between two runs
+  let next = getNextRunAt(timing,
+    new Date(at.getTime() - 32 * 24 * 60 * 60 * 1000), timeZone);
+  let last: Date | null = null;
+  while (next && next <= at) {
+    last = next;
+    next = getNextRunAt(timing, next, timeZone);
+  }
+  return last;
+}
+
+/**
+ * Minutes since midnight of an "HH:mm" time
+ * @param {string} time - The time
+ * @return {number | null} Null if it isn't a time
+ */
+function toMinutes(time: string): number | null {
+  const parsed = parseTime(time);
+  return parsed ? parsed.hour * 60 + parsed.minute : null;
+}
+
+/**
+ * Whether an instant falls in the quiet hours
+ * @param {Date} date - The instant
+ * @param {QuietHoursRecord | null | undefined} quietHours - The quiet hours
+ * @param {string} timeZone - IANA time zone they're in
+ * @return {boolean} True if reminders should wait
+ */
+export function isInQuietHours(
+  date: Date,
+  quietHours: QuietHoursRecord | null | undefined,
+  timeZone: string,
+): boolean {
+  if (!quietHours) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const parts = getZonedParts(date, timeZone);
+  const minutes = parts.hour * 60 + parts.minute;
+  return start < end ?
+    minutes >= start && minutes < end :
+    minutes >= start || minutes < end;
+}
+
+/**
+ * The next time quiet hours end
+ * @param {Date} date - The instant to look from
+ * @param {QuietHoursRecord} quietHours - The quiet hours
+ * @param {string} timeZone - IANA time zone they're in
+ * @return {Date} When they end
+ */
+export function getQuietHoursEnd(
+  date: Date,
+  quietHours: QuietHoursRecord,
+  timeZone: string,
+): Date {
+  return getNextRunAt({frequency: "daily", time: quietHours.end}, date,
+    timeZone) || date;
+}
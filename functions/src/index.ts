@@ -1,14 +1,63 @@
 /**
  * Firebase Functions for Apple Shortcuts Integration
- * Provides API endpoints for external transaction input
+ * Provides API endpoints for external transaction input and queries
  */
 
 import {onRequest} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
 import * as logger from "firebase-functions/logger";
 import {initializeApp} from "firebase-admin/app";
-import {getFirestore} from "firebase-admin/firestore";
+import {
+  DocumentData,
+  DocumentReference,
+  Timestamp,
+  getFirestore,
+} from "firebase-admin/firestore";
 import {getAuth} from "firebase-admin/auth";
 import * as webpush from "web-push";
+import {createHash, randomUUID} from "crypto";
+import {
+  BudgetSnapshotEntryRecord,
+  CategoryParents,
+  CategoryRuleRecord,
+  DEFAULT_BASE_CURRENCY,
+  ExchangeRateRecord,
+  LEARNED_MIN_CONFIDENCE,
+  QuietHoursRecord,
+  RecurrenceRule,
+  ScheduleTimingRecord,
+  TransactionFilters,
+  TransactionRecord,
+  TransactionType,
+  applyCategoryRules,
+  buildRateMap,
+  calculateBudgetStatus,
+  calculateNextDueDate,
+  calculateSummary,
+  cleanTags,
+  expandSplits,
+  filterTransactions,
+  getAlertThresholds,
+  getCategoryAncestors,
+  getClassifierFeatures,
+  getLastRunAt,
+  getNewAlertThresholds,
+  getNextRunAt,
+  getQuietHoursEnd,
+  getRecurringOccurrenceId,
+  getZonedDateKey,
+  getZonedParts,
+  isInQuietHours,
+  isWithinRecurrence,
+  parseDate,
+  predictCategory,
+  resolveCategoryAlias,
+  rollUpAmounts,
+  toBaseCurrency,
+  trainCategoryModel,
+  zonedTimeToDate,
+} from "./calculations";
 
 initializeApp();
 
@@ -82,23 +131,535 @@ function initializeVapidIfNeeded() {
 // Transaction data interface matching Apple Shortcuts format
 interface TransactionData {
   Amount: number;
-  Category: string;
+  Category?: string; // Optional when a categorization rule sets it
   Notes: string;
-  Type: "income" | "expense";
+  Type?: "income" | "expense"; // Optional when a categorization rule sets it
+  Currency?: string; // ISO 4217 code, defaults to the user's base currency
+  Tags?: string[] | string; // A list or comma separated, e.g. "JB trip"
 }
 
 interface AppleShortcutRequest {
-  UserID: string;
   Data: TransactionData;
 }
 
+// Scopes granted to per-user API tokens (see src/shared/types/data.ts)
+type ApiTokenScope =
+  | "transactions:write"
+  | "transactions:read"
+  | "budgets:read"
+  | "profile:write";
+
+type AuthResult =
+  | {ok: true; userId: string; tokenId: string}
+  | {ok: false; status: 401 | 403; error: string};
+
 // CORS headers for external API access
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
+/**
+ * Resolve the caller from an `Authorization: Bearer <token>` header.
+ * Tokens are stored hashed under users/{uid}/apiTokens, so the lookup is a
+ * collection group query on the SHA-256 of the presented token.
+ * @param {string | undefined} authorization - The raw Authorization header
+ * @param {ApiTokenScope} requiredScope - Scope the endpoint needs
+ * @return {Promise<AuthResult>} The owning user or the error to return
+ */
+async function authenticateRequest(
+  authorization: string | undefined,
+  requiredScope: ApiTokenScope,
+): Promise<AuthResult> {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return {ok: false, status: 401, error: "Missing bearer token"};
+  }
+
+  const tokenHash = createHash("sha256").update(match[1]).digest("hex");
+  const db = getFirestore();
+  const snapshot = await db
+    .collectionGroup("apiTokens")
+    .where("tokenHash", "==", tokenHash)
+    .limit(1)
+    .get();
+
+  const tokenDoc = snapshot.docs[0];
+  const userRef = tokenDoc?.ref.parent.parent;
+  if (!tokenDoc || !userRef) {
+    return {ok: false, status: 401, error: "Invalid API token"};
+  }
+
+  const tokenData = tokenDoc.data();
+  if (tokenData.revokedAt) {
+    return {ok: false, status: 401, error: "API token has been revoked"};
+  }
+
+  const scopes: ApiTokenScope[] = tokenData.scopes || [];
+  if (!scopes.includes(requiredScope)) {
+    return {
+      ok: false,
+      status: 403,
+      error: `API token is missing the '${requiredScope}' scope`,
+    };
+  }
+
+  try {
+    await tokenDoc.ref.update({lastUsedAt: new Date()});
+  } catch (error) {
+    // Don't reject the request if only the usage stamp fails
+    logger.warn("Failed to update API token lastUsedAt", {
+      tokenId: tokenDoc.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return {ok: true, userId: userRef.id, tokenId: tokenDoc.id};
+}
+
+// Page size bounds for the transaction list endpoint
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Read a query string parameter as a single string
+ * @param {unknown} value - The raw req.query value
+ * @return {string | undefined} The first value, if any
+ */
+function queryParam(value: unknown): string | undefined {
+  if (Array.isArray(value)) return queryParam(value[0]);
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Parse a comma separated query parameter into a list
+ * @param {unknown} value - The raw req.query value
+ * @return {string[] | undefined} The trimmed, non-empty items
+ */
+function queryList(value: unknown): string[] | undefined {
+  const raw = queryParam(value);
+  if (!raw) return undefined;
+  const items = raw.split(",").map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Build TransactionFilters from query parameters.
+ * Supports start, end, categories, tags, types, minAmount, maxAmount and
+ * search.
+ * @param {Record<string, unknown>} query - The request query
+ * @return {TransactionFilters | string} The filters or a validation error
+ */
+function parseTransactionFilters(
+  query: Record<string, unknown>,
+): TransactionFilters | string {
+  const filters: TransactionFilters = {};
+
+  const start = queryParam(query.start);
+  const end = queryParam(query.end);
+  if (start || end) {
+    const startDate = start ? new Date(start) : new Date(0);
+    const endDate = end ? new Date(end) : new Date();
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return "start and end must be ISO dates";
+    }
+    filters.dateRange = {start: startDate, end: endDate};
+  }
+
+  filters.categories = queryList(query.categories);
+  filters.tags = queryList(query.tags);
+
+  const types = queryList(query.types);
+  if (types) {
+    const validTypes = ["income", "expense", "transfer"];
+    if (types.some((type) => !validTypes.includes(type))) {
+      return "types must be 'income', 'expense' and/or 'transfer'";
+    }
+    filters.types = types as TransactionType[];
+  }
+
+  const minAmount = queryParam(query.minAmount);
+  const maxAmount = queryParam(query.maxAmount);
+  if (minAmount || maxAmount) {
+    const min = minAmount ? Number(minAmount) : 0;
+    const max = maxAmount ? Number(maxAmount) : Number.MAX_SAFE_INTEGER;
+    if (isNaN(min) || isNaN(max)) {
+      return "minAmount and maxAmount must be numbers";
+    }
+    filters.amountRange = {min, max};
+  }
+
+  filters.searchTerm = queryParam(query.search);
+
+  return filters;
+}
+
+/**
+ * Start and end of the calendar month containing the given date, in the
+ * user's time zone as the app works them out
+ * @param {Date} date - Any date in the month
+ * @param {string} timeZone - The user's time zone
+ * @return {{start: Date, end: Date}} The month boundaries
+ */
+function getMonthRange(
+  date: Date,
+  timeZone: string,
+): {start: Date; end: Date} {
+  const {year, month} = getZonedParts(date, timeZone);
+  const start = zonedTimeToDate(year, month, 1, 0, 0, timeZone);
+  const nextStart = zonedTimeToDate(year, month + 1, 1, 0, 0, timeZone);
+  return {start, end: new Date(nextStart.getTime() - 1)};
+}
+
+/**
+ * Key of the month a date falls in, as budget snapshots are stored
+ * @param {Date} date - Any date in the month
+ * @param {string} timeZone - The user's time zone
+ * @return {string} The month key, e.g. "2025-03"
+ */
+function getMonthKey(date: Date, timeZone: string): string {
+  const {year, month} = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+/**
+ * The time zone a user's months and days are counted in, the one saved
+ * with their reminders
+ * @param {DocumentData | undefined} userData - The user's document
+ * @return {string} IANA time zone, UTC if none is saved
+ */
+function getUserTimeZone(userData: DocumentData | undefined): string {
+  return (userData?.notificationSettings?.timeZone as string) || "UTC";
+}
+
+/**
+ * Load every transaction for a user, newest first
+ * @param {string} userId - The user ID
+ * @return {Promise<TransactionRecord[]>} The user's transactions
+ */
+async function loadTransactions(userId: string): Promise<TransactionRecord[]> {
+  const snapshot = await getFirestore()
+    .collection(`users/${userId}/transactions`)
+    .orderBy("Date", "desc")
+    .get();
+
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  }) as TransactionRecord);
+}
+
+/**
+ * Load every transaction for a user with amounts converted to the user's
+ * base currency, for totals
+ * @param {string} userId - The user ID
+ * @return {Promise<object>} The base currency, time zone and converted
+ * transactions
+ */
+async function loadBaseTransactions(userId: string): Promise<{
+  baseCurrency: string;
+  categoryParents: CategoryParents;
+  timeZone: string;
+  transactions: TransactionRecord[];
+}> {
+  const db = getFirestore();
+  const [userDoc, ratesSnapshot, transactions] = await Promise.all([
+    db.collection("users").doc(userId).get(),
+    db.collection(`users/${userId}/exchangeRates`).get(),
+    loadTransactions(userId),
+  ]);
+
+  const baseCurrency =
+    (userDoc.data()?.baseCurrency as string) || DEFAULT_BASE_CURRENCY;
+  const rates = buildRateMap(
+    ratesSnapshot.docs.map((doc) => doc.data() as ExchangeRateRecord),
+    baseCurrency,
+  );
+
+  return {
+    baseCurrency,
+    categoryParents:
+      (userDoc.data()?.categoryParents as CategoryParents) || {},
+    timeZone: getUserTimeZone(userDoc.data()),
+    transactions: toBaseCurrency(transactions, baseCurrency, rates),
+  };
+}
+
+/**
+ * Load a user's active categorization rules, in the order they run
+ * @param {string} userId - The user ID
+ * @return {Promise<CategoryRuleRecord[]>} The active rules
+ */
+async function loadCategoryRules(
+  userId: string,
+): Promise<CategoryRuleRecord[]> {
+  const snapshot = await getFirestore()
+    .collection(`users/${userId}/categoryRules`)
+    .where("isActive", "==", true)
+    .get();
+
+  return snapshot.docs
+    .map((doc) => ({id: doc.id, ...doc.data()}) as CategoryRuleRecord)
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Month-to-date status of each of a user's expense budgets, with rollover
+ * from last month's snapshot and child categories' spending included
+ * @param {string} userId - The user ID
+ * @param {Date} now - Any date in the month
+ * @return {Promise<object>} The month key, base currency, statuses and the
+ * converted transactions they were worked out from
+ */
+async function loadBudgetStatuses(userId: string, now: Date) {
+  const db = getFirestore();
+  const [
+    budgetsSnapshot,
+    {baseCurrency, categoryParents, timeZone, transactions},
+  ] = await Promise.all([
+    db.collection(`users/${userId}/budgets`).get(),
+    loadBaseTransactions(userId),
+  ]);
+  // The user's month, as the app keys its snapshots
+  const monthRange = getMonthRange(now, timeZone);
+  const lastMonth = await db.collection(`users/${userId}/budgetSnapshots`)
+    .doc(getMonthKey(new Date(monthRange.start.getTime() - 1), timeZone))
+    .get();
+
+  const budgets = budgetsSnapshot.docs
+    .map((doc) => ({
+      category: (doc.data().Category as string) || doc.id,
+      monthlyBudget: Number(doc.data().MonthlyBudget) || 0,
+      type: (doc.data().type as string) || "expense",
+      alertThresholds:
+        getAlertThresholds(doc.data().alertThresholds as number[]),
+    }))
+    .filter((budget) => budget.type === "expense");
+
+  // Budgets with rollover start the month with what last month passed on
+  const carriedOut = new Map<string, number>(
+    ((lastMonth.data()?.entries || []) as BudgetSnapshotEntryRecord[])
+      .map((entry) => [entry.Category, Number(entry.carriedOut) || 0]),
+  );
+  const monthExpenses = expandSplits(filterTransactions(
+    transactions,
+    {dateRange: monthRange, types: ["expense"]},
+  ));
+  // Parent budgets cover their child categories' spending too
+  const spentByCategory = rollUpAmounts(
+    monthExpenses.reduce((spent, t) => {
+      spent[t.Category] = (spent[t.Category] || 0) + t.Amount;
+      return spent;
+    }, {} as Record<string, number>),
+    categoryParents,
+  );
+
+  const statuses = budgets.map((budget) => {
+    const spent = spentByCategory[budget.category] || 0;
+    const carriedIn = carriedOut.get(budget.category) || 0;
+    return {
+      category: budget.category,
+      parent: categoryParents[budget.category] || null,
+      monthlyBudget: budget.monthlyBudget,
+      carriedIn,
+      alertThresholds: budget.alertThresholds,
+      ...calculateBudgetStatus(budget.monthlyBudget + carriedIn, spent),
+    };
+  });
+
+  return {
+    month: getMonthKey(monthRange.start, timeZone),
+    baseCurrency,
+    categoryParents,
+    statuses,
+    transactions,
+  };
+}
+
+/**
+ * Whether a transaction write could change what its budgets have spent, so
+ * edits to notes or tags don't recompute every budget
+ * @param {TransactionRecord | undefined} before - The old data, if any
+ * @param {TransactionRecord} after - The new data
+ * @return {boolean} True if amounts, categories, type or date changed
+ */
+function affectsSpending(
+  before: TransactionRecord | undefined,
+  after: TransactionRecord,
+): boolean {
+  if (!before) return true;
+  const key = (t: TransactionRecord) => JSON.stringify([
+    t.Amount,
+    t.Type,
+    t.Category,
+    t.currency || null,
+    parseDate(t.Date).getTime(),
+    (t.splits || []).map((split) => [split.Category, split.Amount]),
+  ]);
+  return key(before) !== key(after);
+}
+
+/**
+ * Format an amount in its currency for notifications
+ * @param {number} amount - The amount
+ * @param {string} currency - ISO 4217 currency code
+ * @return {string} The formatted amount, e.g. "S$12.50"
+ */
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * Convert a transaction to its JSON response shape
+ * @param {TransactionRecord} transaction - The stored transaction
+ * @return {object} The transaction with an ISO date
+ */
+function serializeTransaction(transaction: TransactionRecord) {
+  return {
+    id: transaction.id,
+    Date: parseDate(transaction.Date).toISOString(),
+    Amount: transaction.Amount,
+    Type: transaction.Type,
+    Category: transaction.Category,
+    Notes: transaction.Notes || "",
+    accountId: transaction.accountId || null,
+    toAccountId: transaction.toAccountId || null,
+    currency: transaction.currency || null,
+    splits: transaction.splits || null,
+    tags: transaction.tags || [],
+  };
+}
+
+// Upper bound on missed periods posted for one recurring transaction per run
+const MAX_CATCH_UP_OCCURRENCES = 366;
+
+/**
+ * Revision fields for a server-side update, so offline edits made against
+ * the previous version are caught as conflicts by the app.
+ * @param {DocumentData} current - The document being updated
+ * @return {object} New revision and the revision it replaces
+ */
+function nextRevision(current: DocumentData) {
+  return {revision: randomUUID(), baseRevision: current.revision || null};
+}
+
+interface PostedRecurringTransaction {
+  Amount: number;
+  Category: string;
+  Type: TransactionType;
+  Notes: string;
+  Date: Date;
+  accountId: string | null;
+  currency: string | null;
+}
+
+/**
+ * Post every due occurrence of a recurring transaction and advance its
+ * nextDueDate. Occurrences use deterministic ids and run in a Firestore
+ * transaction, so overlapping or repeated runs never post duplicates.
+ * The series is deactivated once its end date or occurrence limit is hit.
+ * @param {DocumentReference} recurringRef - The recurring transaction doc
+ * @param {Date} now - Occurrences due at or before this time are posted
+ * @return {Promise<PostedRecurringTransaction[]>} Newly created entries
+ */
+async function materializeRecurringTransaction(
+  recurringRef: DocumentReference,
+  now: Date,
+): Promise<PostedRecurringTransaction[]> {
+  const db = getFirestore();
+  const userRef = recurringRef.parent.parent;
+  if (!userRef) return [];
+
+  return db.runTransaction(async (tx) => {
+    const [recurringSnapshot, userSnapshot] =
+      await tx.getAll(recurringRef, userRef);
+    const recurring = recurringSnapshot.data();
+    if (!recurring || !recurring.isActive) return [];
+
+    // Older series without a zone use the one the user's reminders are in
+    const timeZone: string = recurring.timeZone ||
+      userSnapshot.data()?.notificationSettings?.timeZone || "UTC";
+    const rule: RecurrenceRule = {
+      frequency: recurring.frequency,
+      interval: recurring.interval,
+      monthRule: recurring.monthRule,
+      endDate: recurring.endDate ? parseDate(recurring.endDate) : null,
+      maxOccurrences: recurring.maxOccurrences,
+      timeZone,
+    };
+
+    const dueDates: Date[] = [];
+    let occurrenceCount: number = recurring.occurrenceCount || 0;
+    let nextDueDate = parseDate(recurring.nextDueDate);
+    while (
+      nextDueDate <= now &&
+      dueDates.length < MAX_CATCH_UP_OCCURRENCES &&
+      isWithinRecurrence(rule, nextDueDate, occurrenceCount)
+    ) {
+      dueDates.push(nextDueDate);
+      occurrenceCount++;
+      nextDueDate = calculateNextDueDate(nextDueDate, rule);
+    }
+    if (dueDates.length === 0) {
+      // Already past its end, stop picking it up on every run
+      if (!isWithinRecurrence(rule, nextDueDate, occurrenceCount)) {
+        tx.update(recurringRef, {isActive: false, ...nextRevision(recurring)});
+      }
+      return [];
+    }
+
+    const occurrenceRefs = dueDates.map((dueDate) =>
+      userRef
+        .collection("transactions")
+        .doc(getRecurringOccurrenceId(recurringRef.id, dueDate, timeZone))
+    );
+    const occurrenceSnapshots = await tx.getAll(...occurrenceRefs);
+
+    const posted: PostedRecurringTransaction[] = [];
+    occurrenceSnapshots.forEach((snapshot, index) => {
+      if (snapshot.exists) return;
+
+      const entry: PostedRecurringTransaction = {
+        Amount: recurring.Amount,
+        Category: recurring.Category,
+        Type: recurring.Type,
+        Notes: recurring.Notes || "",
+        Date: dueDates[index],
+        accountId: recurring.accountId || null,
+        currency: recurring.currency || null,
+      };
+      tx.set(snapshot.ref, {
+        ...entry,
+        createdAt: now,
+        updatedAt: now,
+        userId: userRef.id,
+        ...(recurring.createdBy && {createdBy: recurring.createdBy}),
+        recurringTransactionId: recurringRef.id,
+      });
+      posted.push(entry);
+    });
+
+    tx.update(recurringRef, {
+      nextDueDate,
+      occurrenceCount,
+      isActive: isWithinRecurrence(rule, nextDueDate, occurrenceCount),
+      lastProcessed: now,
+      ...(!recurring.timeZone && {timeZone}),
+      ...nextRevision(recurring),
+    });
+
+    return posted;
+  });
+}
+
 /**
  * Push notification helper function
  * Sends push notifications to all user's registered devices using Web Push
@@ -109,6 +670,7 @@ async function sendPushNotification(userId: string, notification: {
   title: string;
   body: string;
   data?: Record<string, string>;
+  url?: string;
 }) {
   const db = getFirestore();
 
@@ -128,7 +690,7 @@ async function sendPushNotification(userId: string, notification: {
     body: notification.body,
     data: notification.data || {},
     timestamp: Date.now(),
-    url: "/", // Default URL for notification click
+    url: notification.url || "/", // Opened when the notification is tapped
   });
 
   logger.info("Sending push notifications", {
@@ -200,6 +762,434 @@ async function sendPushNotification(userId: string, notification: {
   });
 }
 
+// A stored reminder, as NotificationSchedule in src/shared/types
+interface NotificationScheduleRecord extends ScheduleTimingRecord {
+  kind:
+    | "log-reminder"
+    | "bill-reminder"
+    | "weekly-digest"
+    | "monthly-digest"
+    | "custom";
+  title?: string;
+  body?: string;
+  dataOwnerId?: string;
+  isActive: boolean;
+}
+
+type DigestPeriod = "weekly" | "monthly";
+
+interface DigestTotalsRecord {
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+// A stored digest, as DigestReport in src/shared/types
+interface DigestReportRecord {
+  period: DigestPeriod;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  totals: DigestTotalsRecord;
+  previousTotals: DigestTotalsRecord;
+  topCategories: {
+    category: string;
+    amount: number;
+    previousAmount: number;
+  }[];
+  budgetsAtRisk: {
+    category: string;
+    budgeted: number;
+    spent: number;
+    percentage: number;
+    isOverBudget: boolean;
+  }[];
+  upcomingRecurring: {
+    description: string;
+    category: string;
+    amount: number;
+    currency: string;
+    type: TransactionType;
+    dueDate: Date;
+  }[];
+  dataOwnerId: string;
+  createdAt: Date;
+}
+
+// The schedule each digest's day and time are kept on
+const DIGEST_KINDS: Record<DigestPeriod, NotificationScheduleRecord["kind"]> = {
+  weekly: "weekly-digest",
+  monthly: "monthly-digest",
+};
+// Until changed on the digests page, matches DIGEST_DEFAULTS
+const DIGEST_DEFAULT_WEEKDAY = 1;
+const DIGEST_DEFAULT_TIME = "09:00";
+// Digests this late, e.g. held by quiet hours, are skipped rather than sent
+const DIGEST_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+// gRPC status Firestore fails a create with when the document exists
+const ALREADY_EXISTS = 6;
+const DIGEST_TOP_CATEGORIES = 5;
+const DIGEST_UPCOMING_SHOWN = 10;
+// How far ahead each digest looks for recurring items
+const DIGEST_UPCOMING_DAYS: Record<DigestPeriod, number> = {
+  weekly: 7,
+  monthly: 30,
+};
+
+/**
+ * What a digest covers in the user's time zone: the seven days before
+ * today or last calendar month, and the same span before that to compare
+ * @param {DigestPeriod} period - Weekly or monthly
+ * @param {Date} now - When the digest is built
+ * @param {string} timeZone - The user's time zone
+ * @return {object} The start, exclusive end and previous period's start
+ */
+function getDigestPeriod(period: DigestPeriod, now: Date, timeZone: string) {
+  const today = getZonedParts(now, timeZone);
+  const midnight = (month: number, day: number) =>
+    zonedTimeToDate(today.year, month, day, 0, 0, timeZone);
+
+  if (period === "monthly") {
+    return {
+      start: midnight(today.month - 1, 1),
+      end: midnight(today.month, 1),
+      previousStart: midnight(today.month - 2, 1),
+    };
+  }
+  return {
+    start: midnight(today.month, today.day - 7),
+    end: midnight(today.month, today.day),
+    previousStart: midnight(today.month, today.day - 14),
+  };
+}
+
+/**
+ * Build a digest of a user's finances: totals against the period before,
+ * top categories, budgets near or over their limit and recurring items
+ * coming up
+ * @param {DigestPeriod} period - Weekly or monthly
+ * @param {string} ownerId - Whose data it covers
+ * @param {Date} now - When it's built
+ * @param {string} timeZone - The user's time zone
+ * @return {Promise<DigestReportRecord>} The report, ready to store
+ */
+async function buildDigestReport(
+  period: DigestPeriod,
+  ownerId: string,
+  now: Date,
+  timeZone: string,
+): Promise<DigestReportRecord> {
+  const {start, end, previousStart} = getDigestPeriod(period, now, timeZone);
+  const [{baseCurrency, statuses, transactions}, recurringSnapshot] =
+    await Promise.all([
+      // A monthly digest shows how the month it covers ended
+      loadBudgetStatuses(ownerId,
+        period === "monthly" ? new Date(end.getTime() - 1) : now),
+      getFirestore()
+        .collection(`users/${ownerId}/recurringTransactions`)
+        .where("isActive", "==", true)
+        .get(),
+    ]);
+
+  const between = (from: Date, to: Date) => filterTransactions(
+    transactions,
+    {dateRange: {start: from, end: new Date(to.getTime() - 1)}},
+  );
+  const totalsOf = (list: TransactionRecord[]): DigestTotalsRecord => {
+    const summary = calculateSummary(list);
+    return {
+      income: summary.totalIncome,
+      expenses: summary.totalExpenses,
+      net: summary.totalIncome - summary.totalExpenses,
+    };
+  };
+  const spentByCategory = (list: TransactionRecord[]) =>
+    expandSplits(list.filter((t) => t.Type === "expense"))
+      .reduce((spent, t) => {
+        spent[t.Category] = (spent[t.Category] || 0) + t.Amount;
+        return spent;
+      }, {} as Record<string, number>);
+
+  const current = between(start, end);
+  const previous = between(previousStart, start);
+  const spent = spentByCategory(current);
+  const spentBefore = spentByCategory(previous);
+
+  const upcomingEnd = new Date(now.getTime() +
+    DIGEST_UPCOMING_DAYS[period] * 24 * 60 * 60 * 1000);
+  const upcomingRecurring = recurringSnapshot.docs
+    .map((doc) => doc.data())
+    .filter((recurring) => recurring.Type !== "transfer")
+    .map((recurring) => ({
+      description: (recurring.Notes as string) ||
+        (recurring.Category as string),
+      category: recurring.Category as string,
+      amount: Number(recurring.Amount) || 0,
+      currency: (recurring.currency as string) || baseCurrency,
+      type: recurring.Type as TransactionType,
+      dueDate: parseDate(recurring.nextDueDate),
+    }))
+    .filter((item) => item.dueDate >= now && item.dueDate <= upcomingEnd)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+    .slice(0, DIGEST_UPCOMING_SHOWN);
+
+  return {
+    period,
+    periodStart: start,
+    periodEnd: end,
+    currency: baseCurrency,
+    totals: totalsOf(current),
+    previousTotals: totalsOf(previous),
+    topCategories: Object.entries(spent)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, DIGEST_TOP_CATEGORIES)
+      .map(([category, amount]) => ({
+        category,
+        amount,
+        previousAmount: spentBefore[category] || 0,
+      })),
+    budgetsAtRisk: statuses
+      .filter((status) => status.isNearLimit || status.isOverBudget)
+      .sort((a, b) => b.percentage - a.percentage)
+      .map((status) => ({
+        category: status.category,
+        budgeted: status.monthlyBudget + status.carriedIn,
+        spent: status.spent,
+        percentage: status.percentage,
+        isOverBudget: status.isOverBudget,
+      })),
+    upcomingRecurring,
+    dataOwnerId: ownerId,
+    createdAt: now,
+  };
+}
+
+/**
+ * Notification words for a digest
+ * @param {DigestReportRecord} report - The digest
+ * @param {string} timeZone - The user's time zone, for the month's name
+ * @return {object} Title and body
+ */
+function describeDigest(
+  report: DigestReportRecord,
+  timeZone: string,
+): {title: string; body: string} {
+  const {currency, totals, previousTotals, topCategories} = report;
+  const periodName = report.period === "monthly" ? "month" : "week";
+  const change = previousTotals.expenses > 0 ?
+    ` (${totals.expenses >= previousTotals.expenses ? "up" : "down"} ${
+      Math.round(Math.abs(totals.expenses - previousTotals.expenses) /
+        previousTotals.expenses * 100)}% on the ${periodName} before)` :
+    "";
+  const [top] = topCategories;
+  const atRisk = report.budgetsAtRisk.length;
+
+  let month = "";
+  try {
+    month = report.periodStart.toLocaleString("en-US",
+      {month: "long", timeZone});
+  } catch {
+    month = report.periodStart.toLocaleString("en-US", {month: "long"});
+  }
+
+  return {
+    title: report.period === "monthly" ?
+      `Your ${month} in review` :
+      "Your week in review",
+    body: `${formatAmount(totals.expenses, currency)} spent${change}.` +
+      (top ?
+        ` Most on ${top.category}, ${formatAmount(top.amount, currency)}.` :
+        "") +
+      (atRisk > 0 ?
+        ` ${atRisk} ${atRisk === 1 ? "budget" : "budgets"} at risk.` :
+        ""),
+  };
+}
+
+/**
+ * Whose data a reminder may read: the user's own, or a household's they're
+ * a member of. dataOwnerId is written by the app, so it's checked here
+ * rather than trusted.
+ * @param {string} userId - Who gets the reminder
+ * @param {string | undefined} dataOwnerId - Whose data it asks for
+ * @return {Promise<string | null>} The owner, or null if the user can't
+ * read their data
+ */
+async function resolveScheduleOwner(
+  userId: string,
+  dataOwnerId: string | undefined,
+): Promise<string | null> {
+  if (!dataOwnerId || dataOwnerId === userId) return userId;
+
+  const household = await getFirestore()
+    .collection("households")
+    .doc(dataOwnerId)
+    .get();
+  return household.data()?.members?.[userId] ? dataOwnerId : null;
+}
+
+/**
+ * Words for a reminder that's due, worked out from the data it checks
+ * @param {NotificationScheduleRecord} schedule - The reminder
+ * @param {string} ownerId - Whose transactions and bills it checks
+ * @param {Date} now - The time it's sent
+ * @param {string} timeZone - The user's time zone
+ * @return {Promise<object | null>} Title and body, or null if there's
+ * nothing to say this time
+ */
+async function buildScheduledNotification(
+  schedule: NotificationScheduleRecord,
+  ownerId: string,
+  now: Date,
+  timeZone: string,
+): Promise<{title: string; body: string} | null> {
+  switch (schedule.kind) {
+  case "log-reminder": {
+    // Quiet when something was already logged today
+    const today = getZonedDateKey(now, timeZone);
+    const transactions = await loadTransactions(ownerId);
+    const loggedToday = transactions.some((transaction) =>
+      getZonedDateKey(parseDate(transaction.Date), timeZone) === today);
+    return loggedToday ? null : {
+      title: "Did you log today's spending?",
+      body: "Nothing's been added today. Add what you spent so your " +
+        "budgets stay accurate.",
+    };
+  }
+  case "bill-reminder": {
+    const tomorrow = getZonedDateKey(now, timeZone, 1);
+    const recurringSnapshot = await getFirestore()
+      .collection(`users/${ownerId}/recurringTransactions`)
+      .where("isActive", "==", true)
+      .get();
+    const bills = recurringSnapshot.docs
+      .map((doc) => doc.data())
+      .filter((recurring) => recurring.Type === "expense" &&
+        getZonedDateKey(parseDate(recurring.nextDueDate), timeZone) ===
+          tomorrow);
+    if (bills.length === 0) return null;
+
+    const describe = (bill: DocumentData) =>
+      `${bill.Notes || bill.Category} ${formatAmount(
+        Number(bill.Amount) || 0, bill.currency || DEFAULT_BASE_CURRENCY)}`;
+    return {
+      title: bills.length === 1 ?
+        "Bill due tomorrow" :
+        `${bills.length} bills due tomorrow`,
+      body: bills.map(describe).join(", "),
+    };
+  }
+  case "custom":
+    return schedule.title ?
+      {title: schedule.title, body: schedule.body || ""} :
+      null;
+  default:
+    return null;
+  }
+}
+
+/**
+ * A digest's day and time, from its schedule or the defaults
+ * @param {DigestPeriod} period - Weekly or monthly
+ * @param {NotificationScheduleRecord} schedule - The user's choice, if any
+ * @return {ScheduleTimingRecord} When it's due
+ */
+function getDigestTiming(
+  period: DigestPeriod,
+  schedule: NotificationScheduleRecord | undefined,
+): ScheduleTimingRecord {
+  const time = schedule?.time || DIGEST_DEFAULT_TIME;
+  return period === "monthly" ?
+    {frequency: "monthly", time, dayOfMonth: 1} :
+    {
+      frequency: "weekly",
+      time,
+      daysOfWeek: schedule?.daysOfWeek?.length ?
+        schedule.daysOfWeek :
+        [DIGEST_DEFAULT_WEEKDAY],
+    };
+}
+
+/**
+ * Build, store and push a user's digest if one is due and not yet built.
+ * Reports have one id per period and are created, never overwritten, so
+ * of two overlapping runs only the first pushes, and a failed push isn't
+ * retried.
+ * @param {string} userId - Who gets it
+ * @param {DigestPeriod} period - Weekly or monthly
+ * @param {object} schedule - The digest's schedule and id, if the user
+ * has set it up
+ * @param {DocumentData} userData - The user's document
+ * @param {Date} now - When this runs
+ * @return {Promise<string | null>} The report id, if one was built
+ */
+async function deliverDigest(
+  userId: string,
+  period: DigestPeriod,
+  schedule: {id: string; data: NotificationScheduleRecord} | undefined,
+  userData: DocumentData,
+  now: Date,
+): Promise<string | null> {
+  const db = getFirestore();
+  const settings = (userData.notificationSettings || {}) as DocumentData;
+  const timeZone = (settings.timeZone as string) || "UTC";
+  const quietHours = settings.quietHours as QuietHoursRecord | null;
+
+  const dueAt =
+    getLastRunAt(getDigestTiming(period, schedule?.data), now, timeZone);
+  if (!dueAt || now.getTime() - dueAt.getTime() > DIGEST_MAX_DELAY_MS) {
+    return null;
+  }
+
+  const reportId = `${period}_${getZonedDateKey(dueAt, timeZone)}`;
+  const reportRef = db.collection(`users/${userId}/reports`).doc(reportId);
+  if ((await reportRef.get()).exists) return null;
+  // Held until they end, on a later run
+  if (quietHours && isInQuietHours(now, quietHours, timeZone)) return null;
+
+  const ownerId = await resolveScheduleOwner(userId,
+    schedule?.data.dataOwnerId || (userData.householdId as string) || userId);
+  if (!ownerId) {
+    logger.warn("Digest reads data its user can't access", {userId, period});
+    return null;
+  }
+
+  // Built as of when it was due, so a late one covers the same days
+  const report = await buildDigestReport(period, ownerId, dueAt, timeZone);
+  const message = describeDigest(report, timeZone);
+  const historyRef = db.collection(`users/${userId}/notificationHistory`)
+    .doc(`digest_${reportId}`);
+  const batch = db.batch();
+  batch.create(reportRef, {...report, createdAt: now});
+  // Marked opened by the app when the notification is tapped
+  batch.set(historyRef, {
+    scheduleId: schedule?.id || null,
+    kind: DIGEST_KINDS[period],
+    title: message.title,
+    sentAt: now,
+    openedAt: null,
+  });
+  try {
+    await batch.commit();
+  } catch (error) {
+    // Another run built it since the check above
+    if ((error as {code?: unknown}).code === ALREADY_EXISTS) return null;
+    throw error;
+  }
+
+  await sendPushNotification(userId, {
+    ...message,
+    data: {
+      kind: DIGEST_KINDS[period],
+      notificationId: historyRef.id,
+      reportId,
+    },
+    // Opens the report
+    url: `/?notification=${historyRef.id}&report=${reportId}`,
+  });
+  return reportId;
+}
+
 // Initialize user document endpoint
 export const initializeUser = onRequest({
   cors: true,
@@ -221,14 +1211,19 @@ export const initializeUser = onRequest({
   }
 
   try {
-    const {UserID, Name} = req.body as {UserID: string; Name?: string};
-
-    if (!UserID) {
+    const authResult = await authenticateRequest(
+      req.get("Authorization"),
+      "profile:write",
+    );
+    if (!authResult.ok) {
       res.set(corsHeaders);
-      res.status(400).json({error: "UserID is required"});
+      res.status(authResult.status).json({error: authResult.error});
       return;
     }
 
+    const UserID = authResult.userId;
+    const {Name} = req.body as {Name?: string};
+
     // Verify user exists in Firebase Auth
     const auth = getAuth();
     try {
@@ -236,7 +1231,7 @@ export const initializeUser = onRequest({
     } catch (error) {
       logger.error("User verification failed:", error);
       res.set(corsHeaders);
-      res.status(400).json({error: "Invalid UserID"});
+      res.status(401).json({error: "Token owner no longer exists"});
       return;
     }
 
@@ -316,33 +1311,49 @@ export const transactions = onRequest({
   }
 
   try {
+    const authResult = await authenticateRequest(
+      req.get("Authorization"),
+      "transactions:write",
+    );
+    if (!authResult.ok) {
+      res.set(corsHeaders);
+      res.status(authResult.status).json({error: authResult.error});
+      return;
+    }
+
+    const UserID = authResult.userId;
     const body = req.body as AppleShortcutRequest;
 
     // Validate request body
-    if (!body.UserID || !body.Data) {
+    if (!body.Data) {
       res.set(corsHeaders);
-      res.status(400).json({error: "Missing UserID or Data"});
+      res.status(400).json({error: "Missing Data"});
       return;
     }
 
-    const {UserID, Data} = body;
-    const {Amount, Category, Notes, Type} = Data;
+    const {Data} = body;
+    const {Amount, Currency} = Data;
 
     // Validate transaction data
-    if (!Amount || !Category || !Type) {
+    if (!Amount) {
       res.set(corsHeaders);
-      res.status(400).json({
-        error: "Missing required fields: Amount, Category, Type",
-      });
+      res.status(400).json({error: "Missing required field: Amount"});
       return;
     }
 
-    if (!["income", "expense"].includes(Type)) {
+    if (Data.Type && !["income", "expense"].includes(Data.Type)) {
       res.set(corsHeaders);
       res.status(400).json({error: "Type must be 'income' or 'expense'"});
       return;
     }
 
+    const currency = Currency ? String(Currency).toUpperCase() : null;
+    if (currency && !/^[A-Z]{3}$/.test(currency)) {
+      res.set(corsHeaders);
+      res.status(400).json({error: "Currency must be a 3-letter ISO code"});
+      return;
+    }
+
     // Verify user exists in Firebase Auth
     const auth = getAuth();
     try {
@@ -350,17 +1361,60 @@ export const transactions = onRequest({
     } catch (error) {
       logger.error("User verification failed:", error);
       res.set(corsHeaders);
-      res.status(401).json({error: "Invalid UserID"});
+      res.status(401).json({error: "Token owner no longer exists"});
       return;
     }
 
-    // Create transaction document
+    // Category names from before a rename or merge still work
     const db = getFirestore();
+    const requestedCategory = Data.Category && resolveCategoryAlias(
+      Data.Category,
+      (await db.collection("users").doc(UserID).get())
+        .data()?.categoryAliases || {},
+    );
+
+    // Rules fill in what the request leaves out, clean up the notes and add
+    // tags
+    const {changes, ruleIds} = applyCategoryRules(
+      await loadCategoryRules(UserID),
+      {Amount, Type: Data.Type || "expense", Notes: Data.Notes || ""},
+    );
+    // Then the user's history, when it is confident enough
+    const learned = requestedCategory || changes.Category ? null :
+      predictCategory(
+        trainCategoryModel(await loadTransactions(UserID)),
+        getClassifierFeatures(Data.Notes || "", Amount, new Date()),
+      );
+    const predicted = learned &&
+      learned.probability >= LEARNED_MIN_CONFIDENCE &&
+      (!Data.Type || learned.type === Data.Type) ? learned : null;
+    const Category =
+      requestedCategory || changes.Category || predicted?.category;
+    const Type = Data.Type || changes.Type || predicted?.type;
+    const Notes = changes.Notes || Data.Notes;
+    if (!Category || !Type) {
+      res.set(corsHeaders);
+      res.status(400).json({
+        error: "Missing Category or Type, and no rule or past " +
+          "transaction suggests them",
+      });
+      return;
+    }
+
+    const tags = cleanTags([
+      ...(Array.isArray(Data.Tags) ? Data.Tags : (Data.Tags || "").split(","))
+        .map((tag) => String(tag)),
+      ...(changes.tags || []),
+    ]);
+
+    // Create transaction document
     const transactionData = {
       Amount: Math.abs(Amount), // Ensure positive number
       Category: Category,
       Notes: Notes || "",
       Type: Type,
+      ...(currency && {currency}),
+      ...(tags.length > 0 && {tags}),
       Date: new Date(),
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -380,16 +1434,17 @@ export const transactions = onRequest({
       amount: Amount,
       category: Category,
       type: Type,
+      ruleIds,
+      learned: !!predicted,
+      tokenId: authResult.tokenId,
     });
 
     // Send push notification
     try {
       // Create professional notification message
       const transactionType = Type === "expense" ? "Expense" : "Income";
-      const formattedAmount = new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency: "USD",
-      }).format(Amount);
+      const formattedAmount = formatAmount(
+        Amount, currency || DEFAULT_BASE_CURRENCY);
 
       const title = `${transactionType} Recorded`;
       const body = `${formattedAmount} transaction in ${Category}${
@@ -416,6 +1471,8 @@ export const transactions = onRequest({
     res.status(201).json({
       success: true,
       transactionId: transactionRef.id,
+      category: Category,
+      type: Type,
       message: "Transaction created successfully",
     });
   } catch (error) {
@@ -424,3 +1481,524 @@ export const transactions = onRequest({
     res.status(500).json({error: "Internal server error"});
   }
 });
+
+// Paginated transaction list, filtered like TransactionUtils.filterTransactions
+export const listTransactions = onRequest({
+  cors: true,
+  timeoutSeconds: 60,
+  memory: "512MiB",
+}, async (req, res) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    res.set(corsHeaders);
+    res.status(204).send("");
+    return;
+  }
+
+  // Only allow GET requests
+  if (req.method !== "GET") {
+    res.set(corsHeaders);
+    res.status(405).json({error: "Method not allowed"});
+    return;
+  }
+
+  try {
+    const authResult = await authenticateRequest(
+      req.get("Authorization"),
+      "transactions:read",
+    );
+    if (!authResult.ok) {
+      res.set(corsHeaders);
+      res.status(authResult.status).json({error: authResult.error});
+      return;
+    }
+
+    const filters = parseTransactionFilters(req.query);
+    if (typeof filters === "string") {
+      res.set(corsHeaders);
+      res.status(400).json({error: filters});
+      return;
+    }
+
+    const requestedLimit = Number(queryParam(req.query.limit));
+    const pageSize = requestedLimit > 0 ?
+      Math.min(Math.floor(requestedLimit), MAX_PAGE_SIZE) :
+      DEFAULT_PAGE_SIZE;
+
+    // The cursor is the id of the last transaction on the previous page
+    const cursor = queryParam(req.query.cursor);
+    const allTransactions = await loadTransactions(authResult.userId);
+    const startIndex = cursor ?
+      allTransactions.findIndex((t) => t.id === cursor) + 1 :
+      0;
+
+    if (cursor && startIndex === 0) {
+      res.set(corsHeaders);
+      res.status(400).json({error: "Invalid cursor"});
+      return;
+    }
+
+    const matching = filterTransactions(
+      allTransactions.slice(startIndex),
+      filters,
+    );
+    const page = matching.slice(0, pageSize);
+    const hasMore = matching.length > pageSize;
+
+    res.set(corsHeaders);
+    res.status(200).json({
+      success: true,
+      transactions: page.map(serializeTransaction),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    logger.error("Error listing transactions:", error);
+    res.set(corsHeaders);
+    res.status(500).json({error: "Internal server error"});
+  }
+});
+
+// TransactionSummary for a date range (defaults to the current month)
+export const transactionSummary = onRequest({
+  cors: true,
+  timeoutSeconds: 60,
+  memory: "512MiB",
+}, async (req, res) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    res.set(corsHeaders);
+    res.status(204).send("");
+    return;
+  }
+
+  // Only allow GET requests
+  if (req.method !== "GET") {
+    res.set(corsHeaders);
+    res.status(405).json({error: "Method not allowed"});
+    return;
+  }
+
+  try {
+    const authResult = await authenticateRequest(
+      req.get("Authorization"),
+      "transactions:read",
+    );
+    if (!authResult.ok) {
+      res.set(corsHeaders);
+      res.status(authResult.status).json({error: authResult.error});
+      return;
+    }
+
+    const filters = parseTransactionFilters(req.query);
+    if (typeof filters === "string") {
+      res.set(corsHeaders);
+      res.status(400).json({error: filters});
+      return;
+    }
+    const {baseCurrency, timeZone, transactions} =
+      await loadBaseTransactions(authResult.userId);
+    filters.dateRange =
+      filters.dateRange || getMonthRange(new Date(), timeZone);
+
+    const summary = calculateSummary(
+      filterTransactions(transactions, filters),
+    );
+
+    res.set(corsHeaders);
+    res.status(200).json({
+      success: true,
+      start: filters.dateRange.start.toISOString(),
+      end: filters.dateRange.end.toISOString(),
+      currency: baseCurrency,
+      summary,
+    });
+  } catch (error) {
+    logger.error("Error calculating transaction summary:", error);
+    res.set(corsHeaders);
+    res.status(500).json({error: "Internal server error"});
+  }
+});
+
+// Per-category BudgetStatus for the current month
+export const budgetStatus = onRequest({
+  cors: true,
+  timeoutSeconds: 60,
+  memory: "512MiB",
+}, async (req, res) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    res.set(corsHeaders);
+    res.status(204).send("");
+    return;
+  }
+
+  // Only allow GET requests
+  if (req.method !== "GET") {
+    res.set(corsHeaders);
+    res.status(405).json({error: "Method not allowed"});
+    return;
+  }
+
+  try {
+    const authResult = await authenticateRequest(
+      req.get("Authorization"),
+      "budgets:read",
+    );
+    if (!authResult.ok) {
+      res.set(corsHeaders);
+      res.status(authResult.status).json({error: authResult.error});
+      return;
+    }
+
+    const userId = authResult.userId;
+    const category = queryParam(req.query.category);
+    const {month, baseCurrency, statuses: allStatuses} =
+      await loadBudgetStatuses(userId, new Date());
+    const statuses = allStatuses.filter((status) => !category ||
+      status.category.toLowerCase() === category.toLowerCase());
+
+    if (category && statuses.length === 0) {
+      res.set(corsHeaders);
+      res.status(404).json({error: `No budget found for '${category}'`});
+      return;
+    }
+
+    res.set(corsHeaders);
+    res.status(200).json({
+      success: true,
+      month,
+      currency: baseCurrency,
+      budgets: statuses,
+    });
+  } catch (error) {
+    logger.error("Error calculating budget status:", error);
+    res.set(corsHeaders);
+    res.status(500).json({error: "Internal server error"});
+  }
+});
+
+// Pushes an alert the first time a budget passes each of its thresholds in
+// a month, however the transaction was written. Thresholds already alerted
+// are kept per month in budgetAlerts, so repeated writes stay quiet.
+export const budgetAlerts = onDocumentWritten({
+  document: "users/{userId}/transactions/{transactionId}",
+  timeoutSeconds: 60,
+  memory: "512MiB",
+}, async (event) => {
+  const after = event.data?.after.data() as TransactionRecord | undefined;
+  const before = event.data?.before.data() as TransactionRecord | undefined;
+  // Deleted transactions and income only ever lower what's spent
+  if (!after || after.Type !== "expense" || !affectsSpending(before, after)) {
+    return;
+  }
+
+  const now = new Date();
+  const userId = event.params.userId;
+  const db = getFirestore();
+
+  try {
+    // Only this month's spending counts, in the user's time zone
+    const userDoc = await db.collection("users").doc(userId).get();
+    const monthRange = getMonthRange(now, getUserTimeZone(userDoc.data()));
+    const date = parseDate(after.Date);
+    if (date < monthRange.start || date > monthRange.end) return;
+
+    const {month, baseCurrency, categoryParents, statuses} =
+      await loadBudgetStatuses(userId, now);
+
+    // The transaction's categories, and the parents their spending rolls up to
+    const affected = new Set<string>();
+    (after.splits?.length ?
+      after.splits.map((split) => split.Category) :
+      [after.Category]
+    ).forEach((category) => {
+      [category, ...getCategoryAncestors(category, categoryParents)]
+        .forEach((name) => affected.add(name));
+    });
+
+    const alertsRef = db.collection(`users/${userId}/budgetAlerts`).doc(month);
+    const alerts = await db.runTransaction(async (tx) => {
+      const alertsDoc = await tx.get(alertsRef);
+      const sent = (alertsDoc.data()?.sent || {}) as Record<string, number[]>;
+
+      const reached = statuses
+        .filter((status) => affected.has(status.category))
+        .map((status) => ({
+          status,
+          thresholds: getNewAlertThresholds(
+            status.percentage,
+            status.alertThresholds,
+            sent[status.category] || [],
+          ),
+        }))
+        .filter((alert) => alert.thresholds.length > 0);
+      if (reached.length === 0) return [];
+
+      reached.forEach(({status, thresholds}) => {
+        sent[status.category] =
+          [...(sent[status.category] || []), ...thresholds];
+      });
+      tx.set(alertsRef, {month, sent, updatedAt: new Date()});
+      return reached;
+    });
+
+    // One push per budget, for the highest threshold it just passed
+    for (const {status, thresholds} of alerts) {
+      const threshold = thresholds[thresholds.length - 1];
+      const type = threshold >= 100 ? "exceeded" : "warning";
+      const available = status.monthlyBudget + status.carriedIn;
+      await sendPushNotification(userId, {
+        title: type === "exceeded" ?
+          `Budget Exceeded: ${status.category}` :
+          `Budget Alert: ${status.category}`,
+        body: `${formatAmount(status.spent, baseCurrency)} of ` +
+          `${formatAmount(available, baseCurrency)} spent ` +
+          `(${Math.round(status.percentage)}%)`,
+        data: {
+          category: status.category,
+          type,
+          threshold: threshold.toString(),
+          percentage: status.percentage.toFixed(1),
+          month,
+        },
+      });
+    }
+  } catch (error) {
+    logger.error("Failed to check budget alerts:", error);
+  }
+});
+
+// Posts due recurring transactions even when nobody opens the app
+export const processRecurringTransactions = onSchedule({
+  schedule: "every 1 hours",
+  timeoutSeconds: 540,
+  memory: "512MiB",
+}, async () => {
+  const db = getFirestore();
+  const now = new Date();
+
+  const dueSnapshot = await db
+    .collectionGroup("recurringTransactions")
+    .where("isActive", "==", true)
+    .where("nextDueDate", "<=", Timestamp.fromDate(now))
+    .get();
+
+  logger.info("Processing due recurring transactions", {
+    dueCount: dueSnapshot.size,
+  });
+
+  const postedByUser = new Map<string, PostedRecurringTransaction[]>();
+
+  for (const recurringDoc of dueSnapshot.docs) {
+    const userId = recurringDoc.ref.parent.parent?.id;
+    if (!userId) continue;
+
+    try {
+      const posted = await materializeRecurringTransaction(
+        recurringDoc.ref,
+        now,
+      );
+      if (posted.length > 0) {
+        postedByUser.set(userId, [
+          ...(postedByUser.get(userId) || []),
+          ...posted,
+        ]);
+      }
+    } catch (error) {
+      // Leave nextDueDate untouched so the next run retries this one
+      logger.error("Failed to process recurring transaction", {
+        userId,
+        recurringId: recurringDoc.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  for (const [userId, posted] of postedByUser) {
+    logger.info("Recurring transactions posted", {
+      userId,
+      count: posted.length,
+    });
+
+    try {
+      const describe = (entry: PostedRecurringTransaction) =>
+        `${entry.Category} ${formatAmount(
+          entry.Amount, entry.currency || DEFAULT_BASE_CURRENCY)}`;
+      const [first] = posted;
+      const body = posted.length === 1 ?
+        `${describe(first)}${first.Notes ? ` - ${first.Notes}` : ""}` :
+        `${posted.length} entries posted: ${posted.map(describe).join(", ")}`;
+
+      await sendPushNotification(userId, {
+        title: "Recurring Transactions Posted",
+        body,
+        data: {count: posted.length.toString()},
+      });
+    } catch (notificationError) {
+      logger.error("Failed to send recurring summary notification:",
+        notificationError);
+    }
+  }
+});
+
+// Sends reminders that are due, even with the app closed. Ones due in the
+// user's quiet hours wait until they end; late ones are sent once, not
+// caught up. Digests are sent by deliverDigests.
+export const deliverScheduledNotifications = onSchedule({
+  schedule: "every 15 minutes",
+  timeoutSeconds: 540,
+  memory: "512MiB",
+}, async () => {
+  const db = getFirestore();
+  const now = new Date();
+
+  const dueSnapshot = await db
+    .collectionGroup("notificationSchedules")
+    .where("isActive", "==", true)
+    .where("nextRunAt", "<=", Timestamp.fromDate(now))
+    .get();
+
+  logger.info("Delivering scheduled notifications", {
+    dueCount: dueSnapshot.size,
+  });
+
+  const settingsByUser = new Map<string, DocumentData>();
+
+  for (const scheduleDoc of dueSnapshot.docs) {
+    const userId = scheduleDoc.ref.parent.parent?.id;
+    if (!userId) continue;
+
+    try {
+      if (!settingsByUser.has(userId)) {
+        const userDoc = await db.collection("users").doc(userId).get();
+        settingsByUser.set(userId, userDoc.data()?.notificationSettings || {});
+      }
+      const settings = settingsByUser.get(userId) || {};
+      const timeZone = (settings.timeZone as string) || "UTC";
+      const quietHours = settings.quietHours as QuietHoursRecord | null;
+
+      if (quietHours && isInQuietHours(now, quietHours, timeZone)) {
+        await scheduleDoc.ref.update({
+          nextRunAt: Timestamp.fromDate(
+            getQuietHoursEnd(now, quietHours, timeZone)),
+        });
+        continue;
+      }
+
+      const schedule = scheduleDoc.data() as NotificationScheduleRecord;
+      if (Object.values(DIGEST_KINDS).includes(schedule.kind)) {
+        // Saved before digests had their own job, only their timing is used
+        await scheduleDoc.ref.update({nextRunAt: null});
+        continue;
+      }
+
+      const ownerId = await resolveScheduleOwner(userId, schedule.dataOwnerId);
+      if (!ownerId) {
+        // Left the household, or never in it; nothing is sent
+        logger.warn("Reminder reads data its user can't access", {
+          userId,
+          scheduleId: scheduleDoc.id,
+          dataOwnerId: schedule.dataOwnerId,
+        });
+      }
+      const content = ownerId ?
+        await buildScheduledNotification(schedule, ownerId, now, timeZone) :
+        null;
+
+      if (content) {
+        // One entry per run time, so a retry after a failed push overwrites
+        // it. Marked opened by the app when the notification is tapped.
+        const runAt = parseDate(scheduleDoc.get("nextRunAt"));
+        const historyRef = db.collection(`users/${userId}/notificationHistory`)
+          .doc(`${scheduleDoc.id}_${runAt.getTime()}`);
+        await historyRef.set({
+          scheduleId: scheduleDoc.id,
+          kind: schedule.kind,
+          title: content.title,
+          sentAt: now,
+          openedAt: null,
+        });
+        await sendPushNotification(userId, {
+          ...content,
+          data: {
+            scheduleId: scheduleDoc.id,
+            kind: schedule.kind,
+            notificationId: historyRef.id,
+          },
+          url: `/?notification=${historyRef.id}`,
+        });
+      }
+
+      const nextRunAt = getNextRunAt(schedule, now, timeZone);
+      await scheduleDoc.ref.update({
+        nextRunAt: nextRunAt ? Timestamp.fromDate(nextRunAt) : null,
+        ...(!nextRunAt && {isActive: false}),
+        ...(content && {lastSentAt: now}),
+      });
+    } catch (error) {
+      // Leave nextRunAt untouched so the next run retries this one
+      logger.error("Failed to deliver scheduled notification", {
+        userId,
+        scheduleId: scheduleDoc.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+});
+
+// Builds each user's weekly and monthly digests within the hour after the
+// day and time they chose on the digests page, or the defaults until they
+// do. Digests are on unless switched off there.
+export const deliverDigests = onSchedule({
+  schedule: "every 1 hours",
+  timeoutSeconds: 540,
+  memory: "512MiB",
+}, async () => {
+  const db = getFirestore();
+  const now = new Date();
+
+  const [usersSnapshot, schedulesSnapshot] = await Promise.all([
+    db.collection("users").select("notificationSettings", "householdId").get(),
+    db.collectionGroup("notificationSchedules")
+      .where("kind", "in", Object.values(DIGEST_KINDS))
+      .get(),
+  ]);
+
+  const schedulesByUser = new Map<string,
+    {id: string; data: NotificationScheduleRecord}[]>();
+  schedulesSnapshot.docs.forEach((scheduleDoc) => {
+    const userId = scheduleDoc.ref.parent.parent?.id;
+    if (!userId) return;
+    schedulesByUser.set(userId, [
+      ...(schedulesByUser.get(userId) || []),
+      {
+        id: scheduleDoc.id,
+        data: scheduleDoc.data() as NotificationScheduleRecord,
+      },
+    ]);
+  });
+
+  let built = 0;
+  for (const userDoc of usersSnapshot.docs) {
+    const schedules = schedulesByUser.get(userDoc.id) || [];
+    for (const period of ["weekly", "monthly"] as DigestPeriod[]) {
+      const schedule = schedules
+        .find((entry) => entry.data.kind === DIGEST_KINDS[period]);
+      if (schedule && !schedule.data.isActive) continue;
+
+      try {
+        const reportId = await deliverDigest(
+          userDoc.id, period, schedule, userDoc.data(), now);
+        if (reportId) built++;
+      } catch (error) {
+        logger.error("Failed to deliver digest", {
+          userId: userDoc.id,
+          period,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  logger.info("Digests delivered", {users: usersSnapshot.size, built});
+});
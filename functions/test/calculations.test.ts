@@ -0,0 +1,443 @@
+import {describe, expect, it} from "@jest/globals";
+import {
+  applyCategoryRules,
+  buildRateMap,
+  calculateBudgetStatus,
+  calculateNextDueDate,
+  calculateSummary,
+  expandSplits,
+  filterTransactions,
+  getAlertThresholds,
+  getClassifierFeatures,
+  getLastRunAt,
+  getNewAlertThresholds,
+  getNextRunAt,
+  getQuietHoursEnd,
+  getRecurringOccurrenceId,
+  getZonedDateKey,
+  getZonedParts,
+  isInQuietHours,
+  isWithinRecurrence,
+  matchesCondition,
+  predictCategory,
+  resolveCategoryAlias,
+  rollUpAmounts,
+  toBaseCurrency,
+  trainCategoryModel,
+  zonedTimeToDate,
+  type CategoryRuleRecord,
+  type RecurrenceRule,
+  type TransactionRecord,
+} from "../src/calculations";
+
+const transaction = (
+  fields: Partial<TransactionRecord>,
+): TransactionRecord => ({
+  id: "t",
+  Date: "2025-03-10T12:00:00.000Z",
+  Amount: 10,
+  Type: "expense",
+  Category: "Food",
+  Notes: "",
+  ...fields,
+});
+
+const at = (iso: string) => new Date(iso);
+
+describe("filterTransactions", () => {
+  const transactions = [
+    transaction({id: "a", Category: "Food", Notes: "Lunch", tags: ["Work"]}),
+    transaction({
+      id: "b",
+      Category: "Split",
+      splits: [
+        {Category: "Rent", Amount: 6, Notes: ""},
+        {Category: "Fun", Amount: 4, Notes: ""},
+      ],
+    }),
+    transaction({id: "c", Type: "income", Amount: 100,
+      Date: "2025-04-01T00:00:00.000Z"}),
+  ];
+  const ids = (filtered: TransactionRecord[]) => filtered.map((t) => t.id);
+
+  it("matches split categories", () => {
+    expect(ids(filterTransactions(transactions, {categories: ["Fun"]})))
+      .toEqual(["b"]);
+  });
+
+  it("matches tags ignoring case, in filters and search", () => {
+    expect(ids(filterTransactions(transactions, {tags: ["work"]})))
+      .toEqual(["a"]);
+    expect(ids(filterTransactions(transactions, {searchTerm: "WORK"})))
+      .toEqual(["a"]);
+  });
+
+  it("filters by date, type and amount", () => {
+    expect(ids(filterTransactions(transactions, {
+      dateRange: {start: at("2025-03-01"), end: at("2025-03-31")},
+    }))).toEqual(["a", "b"]);
+    expect(ids(filterTransactions(transactions, {types: ["income"]})))
+      .toEqual(["c"]);
+    expect(ids(filterTransactions(transactions,
+      {amountRange: {min: 50, max: 200}}))).toEqual(["c"]);
+  });
+});
+
+describe("calculateSummary", () => {
+  it("totals income and expenses, leaving transfers out", () => {
+    expect(calculateSummary([
+      transaction({Type: "income", Amount: 100}),
+      transaction({Amount: 30}),
+      transaction({Type: "transfer", Amount: 20}),
+    ])).toEqual({
+      totalIncome: 100,
+      totalExpenses: 30,
+      netAmount: 70,
+      transactionCount: 3,
+      averageTransaction: 50,
+      largestTransaction: 100,
+      smallestTransaction: 20,
+    });
+  });
+
+  it("is all zeros without transactions", () => {
+    expect(calculateSummary([]).averageTransaction).toBe(0);
+    expect(calculateSummary([]).largestTransaction).toBe(0);
+  });
+});
+
+describe("currency conversion", () => {
+  const rates = buildRateMap([
+    {currency: "EUR", rate: 1.1, baseCurrency: "USD"},
+    {currency: "USD", rate: 0.8, baseCurrency: "GBP"},
+    {currency: "JPY", rate: 0.01, baseCurrency: "EUR"},
+  ], "USD");
+
+  it("uses direct, inverted and pivoted rates", () => {
+    expect(rates.EUR).toBe(1.1);
+    expect(rates.GBP).toBe(1.25);
+    expect(rates.JPY).toBeCloseTo(0.011);
+  });
+
+  it("converts amounts and splits, keeping unknown currencies", () => {
+    const [eur, chf, usd] = toBaseCurrency([
+      transaction({currency: "EUR", Amount: 10,
+        splits: [{Category: "Food", Amount: 10, Notes: ""}]}),
+      transaction({currency: "CHF", Amount: 10}),
+      transaction({currency: "USD", Amount: 10}),
+    ], "USD", rates);
+    expect(eur.Amount).toBeCloseTo(11);
+    expect(eur.splits?.[0].Amount).toBeCloseTo(11);
+    expect(chf.Amount).toBe(10);
+    expect(usd.Amount).toBe(10);
+  });
+});
+
+describe("expandSplits", () => {
+  it("makes one copy per split with the split's notes or the parent's", () => {
+    const expanded = expandSplits([
+      transaction({
+        Notes: "Shop",
+        splits: [
+          {Category: "Food", Amount: 6, Notes: "Bread"},
+          {Category: "Home", Amount: 4, Notes: ""},
+        ],
+      }),
+      transaction({Category: "Fun"}),
+    ]);
+    expect(expanded.map((t) => [t.Category, t.Amount, t.Notes])).toEqual([
+      ["Food", 6, "Bread"],
+      ["Home", 4, "Shop"],
+      ["Fun", 10, ""],
+    ]);
+    expect(expanded[0].splits).toBeNull();
+  });
+});
+
+describe("categories", () => {
+  it("adds child amounts to every parent, stopping at a loop", () => {
+    expect(rollUpAmounts({Coffee: 5, Food: 10, Rent: 100},
+      {Coffee: "Food", Food: "Living"})).toEqual({
+      Coffee: 5,
+      Food: 15,
+      Living: 15,
+      Rent: 100,
+    });
+    expect(rollUpAmounts({A: 1}, {A: "B", B: "A"})).toEqual({A: 1, B: 1});
+  });
+
+  it("follows renames, stopping at a loop", () => {
+    expect(resolveCategoryAlias("Old", {Old: "Mid", Mid: "New"}))
+      .toBe("New");
+    expect(resolveCategoryAlias("A", {A: "B", B: "A"})).toBe("A");
+    expect(resolveCategoryAlias("Food", {})).toBe("Food");
+  });
+});
+
+describe("budgets", () => {
+  it("is near the limit from 70% and over it past 100%", () => {
+    expect(calculateBudgetStatus(100, 69).isNearLimit).toBe(false);
+    expect(calculateBudgetStatus(100, 70).isNearLimit).toBe(true);
+    expect(calculateBudgetStatus(100, 120)).toEqual({
+      spent: 120,
+      remaining: 0,
+      percentage: 120,
+      isOverBudget: true,
+      isNearLimit: false,
+    });
+    expect(calculateBudgetStatus(0, 10).percentage).toBe(0);
+  });
+
+  it("sorts thresholds and falls back to the defaults", () => {
+    expect(getAlertThresholds([100, 50, 0])).toEqual([50, 100]);
+    expect(getAlertThresholds(null)).toEqual([80, 100]);
+  });
+
+  it("alerts only thresholds reached and not sent yet", () => {
+    expect(getNewAlertThresholds(95, [50, 80, 100], [50])).toEqual([80]);
+    expect(getNewAlertThresholds(40, [50, 80], [])).toEqual([]);
+  });
+});
+
+describe("calculateNextDueDate", () => {
+  const next = (iso: string, rule: RecurrenceRule) =>
+    calculateNextDueDate(at(iso), rule).toISOString();
+
+  it("keeps the day of the month, clamped to short months", () => {
+    expect(next("2025-01-31T00:00:00.000Z", {frequency: "monthly"}))
+      .toBe("2025-02-28T00:00:00.000Z");
+    expect(next("2024-02-29T00:00:00.000Z", {frequency: "yearly"}))
+      .toBe("2025-02-28T00:00:00.000Z");
+  });
+
+  it("adds the interval", () => {
+    expect(next("2025-01-01T00:00:00.000Z",
+      {frequency: "weekly", interval: 2})).toBe("2025-01-15T00:00:00.000Z");
+    expect(next("2025-01-15T00:00:00.000Z",
+      {frequency: "monthly", interval: 3})).toBe("2025-04-15T00:00:00.000Z");
+  });
+
+  it("applies month rules", () => {
+    const from = "2025-07-15T00:00:00.000Z";
+    expect(next(from, {frequency: "monthly", monthRule: {type: "last-day"}}))
+      .toBe("2025-08-31T00:00:00.000Z");
+    expect(next(from,
+      {frequency: "monthly", monthRule: {type: "last-business-day"}}))
+      .toBe("2025-08-29T00:00:00.000Z");
+    expect(next(from, {frequency: "monthly",
+      monthRule: {type: "nth-weekday", week: 2, weekday: 2}}))
+      .toBe("2025-08-12T00:00:00.000Z");
+    expect(next(from, {frequency: "monthly",
+      monthRule: {type: "nth-weekday", week: -1, weekday: 5}}))
+      .toBe("2025-08-29T00:00:00.000Z");
+  });
+
+  it("counts days in the rule's time zone", () => {
+    // Midnight on the 15th in Singapore is the 14th in UTC
+    expect(next("2025-01-14T16:00:00.000Z", {frequency: "monthly",
+      monthRule: {type: "day-of-month", day: 15},
+      timeZone: "Asia/Singapore"})).toBe("2025-02-14T16:00:00.000Z");
+    expect(next("2025-01-30T16:00:00.000Z", {frequency: "monthly",
+      monthRule: {type: "last-day"},
+      timeZone: "Asia/Singapore"})).toBe("2025-02-27T16:00:00.000Z");
+  });
+
+  it("keeps the local time across a change in offset", () => {
+    expect(next("2025-03-03T14:00:00.000Z",
+      {frequency: "weekly", timeZone: "America/New_York"}))
+      .toBe("2025-03-10T13:00:00.000Z");
+  });
+});
+
+describe("recurrence limits", () => {
+  it("ends after the end date or the last occurrence", () => {
+    const rule = {frequency: "monthly" as const, maxOccurrences: 3,
+      endDate: at("2025-06-30T00:00:00.000Z")};
+    expect(isWithinRecurrence(rule, at("2025-06-01"), 2)).toBe(true);
+    expect(isWithinRecurrence(rule, at("2025-06-01"), 3)).toBe(false);
+    expect(isWithinRecurrence(rule, at("2025-07-01"), 0)).toBe(false);
+  });
+
+  it("names each occurrence by its date in the rule's time zone", () => {
+    const dueDate = at("2025-02-14T16:00:00.000Z");
+    expect(getRecurringOccurrenceId("r1", dueDate, "UTC"))
+      .toBe("recurring_r1_2025-02-14");
+    // Midnight on the 15th in Singapore
+    expect(getRecurringOccurrenceId("r1", dueDate, "Asia/Singapore"))
+      .toBe("recurring_r1_2025-02-15");
+  });
+});
+
+describe("category rules", () => {
+  const rule = (
+    id: string,
+    order: number,
+    actions: CategoryRuleRecord["actions"],
+    value = "coffee",
+  ): CategoryRuleRecord => ({
+    id,
+    order,
+    actions,
+    isActive: true,
+    conditions: [{field: "notes", operator: "contains", value}],
+  });
+
+  it("takes each change from the first matching rule that sets it", () => {
+    expect(applyCategoryRules([
+      rule("late", 2, {category: "Treats", notes: "Coffee"}),
+      rule("early", 1, {category: "Drinks"}),
+      rule("other", 0, {category: "Travel"}, "train"),
+    ], {Amount: 4, Type: "expense", Notes: "Morning  COFFEE"})).toEqual({
+      changes: {Category: "Drinks", Notes: "Coffee"},
+      ruleIds: ["early", "late"],
+    });
+  });
+
+  it("adds the tags of every matching rule", () => {
+    expect(applyCategoryRules([
+      rule("first", 0, {category: "Drinks", tags: ["#Work", "caffeine"]}),
+      rule("second", 1, {tags: ["work", "Reimbursable"]}),
+    ], {Amount: 4, Type: "expense", Notes: "coffee"})).toEqual({
+      changes: {Category: "Drinks", tags: ["Work", "caffeine", "Reimbursable"]},
+      ruleIds: ["first", "second"],
+    });
+  });
+
+  it("leaves transfers alone", () => {
+    expect(applyCategoryRules([rule("r", 0, {category: "Drinks"})],
+      {Amount: 4, Type: "transfer", Notes: "coffee"}).ruleIds).toEqual([]);
+  });
+
+  it("compares amounts without their sign, within rounding", () => {
+    const target = {Amount: -12.004, Type: "expense" as const, Notes: ""};
+    expect(matchesCondition(
+      {field: "amount", operator: "equals", value: "12"}, target)).toBe(true);
+    expect(matchesCondition(
+      {field: "amount", operator: "greaterThan", value: "12.5"}, target))
+      .toBe(false);
+    expect(matchesCondition(
+      {field: "amount", operator: "lessThan", value: "abc"}, target))
+      .toBe(false);
+  });
+});
+
+describe("category classifier", () => {
+  const history = [
+    ...Array.from({length: 12}, () =>
+      transaction({Category: "Coffee", Notes: "Cafe latte", Amount: 4,
+        Date: null})),
+    ...Array.from({length: 8}, () =>
+      transaction({Category: "Salary", Type: "income", Notes: "Payroll",
+        Amount: 3000, Date: null})),
+  ];
+
+  it("buckets amounts and ignores repeated words", () => {
+    expect(getClassifierFeatures("Cafe cafe!", -7, null))
+      .toEqual(["w:cafe", "a:<10"]);
+    expect(getClassifierFeatures("", 5000, null)).toEqual(["a:1000+"]);
+  });
+
+  it("predicts the likeliest category and its usual type", () => {
+    const prediction = predictCategory(trainCategoryModel(history),
+      getClassifierFeatures("payroll march", 3100, null));
+    expect(prediction?.category).toBe("Salary");
+    expect(prediction?.type).toBe("income");
+    expect(prediction?.probability).toBeGreaterThan(0.9);
+  });
+
+  it("waits for enough history", () => {
+    expect(predictCategory(trainCategoryModel(history.slice(1)),
+      ["w:payroll"])).toBeNull();
+  });
+});
+
+describe("time zones", () => {
+  it("reads the local date and time, falling back to UTC", () => {
+    expect(getZonedParts(at("2025-01-14T16:30:00.000Z"), "Asia/Singapore"))
+      .toEqual({year: 2025, month: 1, day: 15, hour: 0, minute: 30,
+        weekday: 3});
+    expect(getZonedParts(at("2025-01-14T16:30:00.000Z"), "Not/AZone").hour)
+      .toBe(16);
+  });
+
+  it("finds the instant of a local time", () => {
+    expect(zonedTimeToDate(2025, 3, 10, 9, 0, "America/New_York")
+      .toISOString()).toBe("2025-03-10T13:00:00.000Z");
+    expect(zonedTimeToDate(2025, 3, 7, 9, 0, "America/New_York")
+      .toISOString()).toBe("2025-03-07T14:00:00.000Z");
+  });
+
+  it("gives the local calendar date", () => {
+    const date = at("2025-01-31T20:00:00.000Z");
+    expect(getZonedDateKey(date, "Asia/Tokyo")).toBe("2025-02-01");
+    expect(getZonedDateKey(date, "Asia/Tokyo", -1)).toBe("2025-01-31");
+  });
+});
+
+describe("reminder timing", () => {
+  const tz = "America/New_York";
+  const nextRun = (
+    timing: Parameters<typeof getNextRunAt>[0],
+    after: string,
+  ) => getNextRunAt(timing, at(after), tz)?.toISOString() ?? null;
+
+  it("runs daily at the local time", () => {
+    expect(nextRun({frequency: "daily", time: "09:00"},
+      "2025-03-09T12:00:00.000Z")).toBe("2025-03-09T13:00:00.000Z");
+    expect(nextRun({frequency: "daily", time: "09:00"},
+      "2025-03-09T13:00:00.000Z")).toBe("2025-03-10T13:00:00.000Z");
+  });
+
+  it("runs weekly and monthly on the chosen days", () => {
+    // Sunday 9 March, so the next Wednesday is the 12th
+    expect(nextRun({frequency: "weekly", time: "18:30", daysOfWeek: [3]},
+      "2025-03-09T12:00:00.000Z")).toBe("2025-03-12T22:30:00.000Z");
+    expect(nextRun({frequency: "monthly", time: "08:00", dayOfMonth: 31},
+      "2025-02-01T12:00:00.000Z")).toBe("2025-02-28T13:00:00.000Z");
+  });
+
+  it("runs once, and never again after that", () => {
+    const once = {frequency: "once" as const, time: "10:00",
+      date: "2025-03-20"};
+    expect(nextRun(once, "2025-03-01T00:00:00.000Z"))
+      .toBe("2025-03-20T14:00:00.000Z");
+    expect(nextRun(once, "2025-03-20T14:00:00.000Z")).toBeNull();
+    expect(nextRun({frequency: "daily", time: "25:00"},
+      "2025-03-01T00:00:00.000Z")).toBeNull();
+  });
+
+  it("finds when it was last due", () => {
+    const weekly = {frequency: "weekly" as const, time: "09:00",
+      daysOfWeek: [1]};
+    expect(getLastRunAt(weekly, at("2025-03-12T00:00:00.000Z"), tz)
+      ?.toISOString()).toBe("2025-03-10T13:00:00.000Z");
+    expect(getLastRunAt(weekly, at("2025-03-10T13:00:00.000Z"), tz)
+      ?.toISOString()).toBe("2025-03-10T13:00:00.000Z");
+  });
+});
+
+describe("quiet hours", () => {
+  const overnight = {start: "22:00", end: "07:00"};
+  const tz = "Europe/London";
+
+  it("spans midnight", () => {
+    expect(isInQuietHours(at("2025-01-10T23:00:00.000Z"), overnight, tz))
+      .toBe(true);
+    expect(isInQuietHours(at("2025-01-10T06:59:00.000Z"), overnight, tz))
+      .toBe(true);
+    expect(isInQuietHours(at("2025-01-10T07:00:00.000Z"), overnight, tz))
+      .toBe(false);
+  });
+
+  it("is off when unset or empty", () => {
+    const date = at("2025-01-10T23:00:00.000Z");
+    expect(isInQuietHours(date, null, tz)).toBe(false);
+    expect(isInQuietHours(date, {start: "22:00", end: "22:00"}, tz))
+      .toBe(false);
+  });
+
+  it("ends at the next end time", () => {
+    expect(getQuietHoursEnd(at("2025-07-10T22:00:00.000Z"), overnight, tz)
+      .toISOString()).toBe("2025-07-11T06:00:00.000Z");
+  });
+});
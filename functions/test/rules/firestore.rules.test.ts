@@ -0,0 +1,193 @@
+/**
+ * Household sharing rules in firestore.rules, run against the Firestore
+ * emulator with `npm run test:rules`. The emulator needs Java.
+ */
+
+import {readFileSync} from "fs";
+import {resolve} from "path";
+import {afterAll, beforeAll, beforeEach, describe, it} from "@jest/globals";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import firebase from "firebase/compat/app";
+
+const OWNER = "owner";
+const EDITOR = "editor";
+const VIEWER = "viewer";
+const OUTSIDER = "outsider";
+const INVITEE = "invitee";
+const INVITE_EMAIL = "invitee@example.com";
+
+let testEnv: RulesTestEnvironment;
+
+const as = (uid: string, email?: string, emailVerified = true) =>
+  testEnv.authenticatedContext(uid, email ?
+    {email, email_verified: emailVerified} : {}).firestore();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-household-rules",
+    firestore: {
+      rules: readFileSync(resolve(__dirname, "../../../firestore.rules"),
+        "utf8"),
+    },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await db.doc(`users/${OWNER}`).set({name: "Owner", householdId: OWNER});
+    await db.doc(`users/${OWNER}/transactions/t1`).set({
+      Amount: 12,
+      Type: "expense",
+      Category: "Food",
+      revision: 1,
+    });
+    await db.doc(`households/${OWNER}`).set({
+      name: "Home",
+      ownerId: OWNER,
+      members: {
+        [OWNER]: {role: "owner", name: "Owner"},
+        [EDITOR]: {role: "editor", name: "Editor"},
+        [VIEWER]: {role: "viewer", name: "Viewer"},
+      },
+    });
+    await db.doc(`households/${OWNER}/invites/${INVITE_EMAIL}`).set({
+      email: INVITE_EMAIL,
+      role: "viewer",
+      householdId: OWNER,
+    });
+  });
+});
+
+describe("shared data", () => {
+  const transaction = `users/${OWNER}/transactions/t1`;
+
+  it("lets the owner read and write", async () => {
+    const db = as(OWNER);
+    await assertSucceeds(db.doc(transaction).get());
+    await assertSucceeds(db.doc(transaction).update({Amount: 15}));
+  });
+
+  it("lets an editor read and write", async () => {
+    const db = as(EDITOR);
+    await assertSucceeds(db.doc(transaction).get());
+    await assertSucceeds(db.doc(transaction).update({Amount: 15}));
+    await assertSucceeds(db.doc(`users/${OWNER}/transactions/t2`)
+      .set({Amount: 3, Type: "expense", Category: "Food"}));
+  });
+
+  it("lets a viewer read but not write", async () => {
+    const db = as(VIEWER);
+    await assertSucceeds(db.doc(transaction).get());
+    await assertFails(db.doc(transaction).update({Amount: 15}));
+    await assertFails(db.doc(transaction).delete());
+  });
+
+  it("keeps others out", async () => {
+    const db = as(OUTSIDER);
+    await assertFails(db.doc(transaction).get());
+    await assertFails(db.doc(transaction).update({Amount: 15}));
+  });
+
+  it("rejects a write based on an old revision", async () => {
+    await assertFails(as(EDITOR).doc(transaction)
+      .update({Amount: 15, revision: 3, baseRevision: 2}));
+    await assertSucceeds(as(EDITOR).doc(transaction)
+      .update({Amount: 15, revision: 2, baseRevision: 1}));
+  });
+
+  it("doesn't let an editor move the owner to another household", async () => {
+    await assertFails(as(EDITOR).doc(`users/${OWNER}`)
+      .update({householdId: EDITOR}));
+  });
+});
+
+describe("household members", () => {
+  it("lets the owner change a member's role", async () => {
+    await assertSucceeds(as(OWNER).doc(`households/${OWNER}`)
+      .update({[`members.${VIEWER}.role`]: "editor"}));
+  });
+
+  it("doesn't let the owner hand the household over", async () => {
+    await assertFails(as(OWNER).doc(`households/${OWNER}`).update({
+      ownerId: EDITOR,
+      [`members.${OWNER}.role`]: "editor",
+      [`members.${EDITOR}.role`]: "owner",
+    }));
+  });
+
+  it("doesn't let an editor manage members", async () => {
+    await assertFails(as(EDITOR).doc(`households/${OWNER}`)
+      .update({[`members.${VIEWER}.role`]: "editor"}));
+    await assertFails(as(EDITOR).doc(`households/${OWNER}`)
+      .update({[`members.${EDITOR}.role`]: "owner"}));
+  });
+
+  it("lets a member leave", async () => {
+    await assertSucceeds(as(VIEWER).doc(`households/${OWNER}`)
+      .update({[`members.${VIEWER}`]: firebase.firestore.FieldValue.delete()}));
+  });
+
+  it("doesn't let a member remove someone else", async () => {
+    await assertFails(as(VIEWER).doc(`households/${OWNER}`)
+      .update({[`members.${EDITOR}`]: firebase.firestore.FieldValue.delete()}));
+  });
+});
+
+describe("invites", () => {
+  const invite = `households/${OWNER}/invites/${INVITE_EMAIL}`;
+  const join = (role: string) => ({
+    [`members.${INVITEE}`]: {role, name: "Invitee"},
+  });
+
+  it("lets a verified invitee see and accept the invite", async () => {
+    const db = as(INVITEE, "Invitee@Example.com");
+    await assertSucceeds(db.doc(invite).get());
+    await assertSucceeds(db.collectionGroup("invites")
+      .where("email", "==", INVITE_EMAIL).get());
+
+    const batch = db.batch();
+    batch.update(db.doc(`households/${OWNER}`), join("viewer"));
+    batch.delete(db.doc(invite));
+    await assertSucceeds(batch.commit());
+  });
+
+  it("only joins with the invited role", async () => {
+    await assertFails(as(INVITEE, INVITE_EMAIL).doc(`households/${OWNER}`)
+      .update(join("editor")));
+  });
+
+  it("ignores an unverified email", async () => {
+    const db = as(INVITEE, INVITE_EMAIL, false);
+    await assertFails(db.doc(invite).get());
+    await assertFails(db.collectionGroup("invites")
+      .where("email", "==", INVITE_EMAIL).get());
+    await assertFails(db.doc(`households/${OWNER}`).update(join("viewer")));
+    await assertFails(db.doc(invite).delete());
+  });
+
+  it("doesn't let others accept", async () => {
+    await assertFails(as(OUTSIDER, "outsider@example.com")
+      .doc(`households/${OWNER}`).update({
+        [`members.${OUTSIDER}`]: {role: "viewer", name: "Outsider"},
+      }));
+  });
+
+  it("lets only the owner invite, as an editor or viewer", async () => {
+    const data = {email: "new@example.com", householdId: OWNER, role: "editor"};
+    const path = `households/${OWNER}/invites/new@example.com`;
+    await assertSucceeds(as(OWNER).doc(path).set(data));
+    await assertFails(as(OWNER).doc(path).set({...data, role: "owner"}));
+    await assertFails(as(EDITOR).doc(path).set(data));
+  });
+});
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { doc } from 'firebase/firestore';
 import { FullScreenLoader } from '@/components/ui/full-screen-loader';
+import { HouseholdProvider } from '@/features/household/hooks';
 import { Dashboard } from './dashboard';
 import { type User as UserData } from '@/shared/types';
 
@@ -110,8 +111,13 @@ export function AuthGuard() {
   }
 
   // If user is authenticated and has user data, render the dashboard
+  // over their household's shared data, if they are in one
   if (user && userData) {
-    return <Dashboard />;
+    return (
+      <HouseholdProvider householdId={userData.householdId}>
+        <Dashboard />
+      </HouseholdProvider>
+    );
   }
 
   // Fallback loader for any edge cases
@@ -3,14 +3,23 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import dynamic from "next/dynamic";
-import { type Transaction, type Budget, type User as UserData, type CategoryType } from "@/shared/types";
+import { type Transaction, type Budget, type BudgetRolloverMode, type User as UserData, type CategoryType } from "@/shared/types";
 import { type DateRange } from "@/components/dashboard/date-filter";
 import { Balance } from "@/components/dashboard/balance";
 import { TransactionsTable } from "@/components/dashboard/transactions-table";
+import { SavingsGoals } from "@/components/dashboard/savings-goals";
 import type { AddTransactionFormProps } from "@/components/dashboard/add-transaction-form";
 import type { BudgetPageProps } from "@/components/dashboard/budget-page";
+import type { AccountsPageProps } from "@/components/dashboard/accounts-page";
+import type { CurrencySettingsPageProps } from "@/components/dashboard/currency-settings-page";
+import type { ImportWizardProps } from "@/components/dashboard/import-wizard";
 import type { ReportsPageProps } from "@/components/dashboard/reports-page";
+import type { TrendsPageProps } from "@/components/dashboard/trends-page";
+import type { SyncIssuesPageProps } from "@/components/dashboard/sync-issues-page";
 import type { RecurringTransactionsPageProps } from "@/components/dashboard/recurring-transactions-page";
+import type { CategoryRulesPageProps } from "@/components/dashboard/category-rules-page";
+import type { NotificationSchedulesPageProps } from "@/components/dashboard/notification-schedules-page";
+import type { DigestReportsPageProps } from "@/components/dashboard/digest-reports-page";
 import type { NotificationPermissionDialogProps } from "@/components/dashboard/notification-permission-dialog";
 import type { DeleteTransactionDialogProps } from "@/components/dashboard/delete-transaction-dialog";
 import type { UserSettingsDialogProps } from "@/components/dashboard/user-settings-dialog";
@@ -41,13 +50,15 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
-import { Plus, Settings, Wallet, User as UserIcon, LogOut, FileText, Bell, Smartphone, Repeat } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Settings, Wallet, User as UserIcon, LogOut, FileText, Bell, Smartphone, Repeat, KeyRound, Coins, Upload, RefreshCw, Users, Wand2, BellRing, Newspaper, TrendingUp } from "lucide-react";
 import { EmptyTransactions } from "@/components/dashboard/empty-states";
 import { FullScreenLoader } from "@/components/ui/full-screen-loader";
 import { useAuth, useUser, useFirestore, useMemoFirebase, useCollection, useDoc } from "@/firebase";
-import { doc, collection, setDoc } from 'firebase/firestore';
+import { doc, collection } from 'firebase/firestore';
 import { signOut } from "firebase/auth";
-import { deleteDocumentNonBlocking, updateDocumentNonBlocking } from "@/firebase/non-blocking-updates";
+import { updateDocumentNonBlocking } from "@/firebase/non-blocking-updates";
+import { backgroundSyncManager } from "@/lib/background-sync";
 import {
   requestNotificationPermission,
   unsubscribeFromNotifications,
@@ -61,7 +72,18 @@ import { Switch } from "@/components/ui/switch";
 
 // Import from new feature-based structure
 import { useTransactions } from "@/features/transactions/hooks";
-import { DEFAULT_INCOME_CATEGORIES } from "@/shared/constants";
+import { useAccounts } from "@/features/wallet/hooks";
+import { useExchangeRates } from "@/features/currency/hooks";
+import { useOutbox } from "@/features/sync/hooks";
+import { useHouseholdScope } from "@/features/household/hooks";
+import { useCategoryModel } from "@/features/rules/hooks";
+import { useBudgetRollover } from "@/features/budgets/hooks";
+import { useNotificationOpens } from "@/features/notifications/hooks";
+import { useDigestReportLink } from "@/features/reports/hooks";
+import { DEFAULT_INCOME_CATEGORIES, DEFAULT_BASE_CURRENCY, ALL_MEMBERS } from "@/shared/constants";
+import { toBaseCurrency } from "@/shared/utils/currency";
+import { getAllTags } from "@/shared/utils/tags";
+import { getPickerCategories, getTopLevelBudgets, removeFromTree } from "@/shared/utils/categories";
 
 export type SortOption = 'latest' | 'highest' | 'category';
 
@@ -92,6 +114,14 @@ const BudgetPage = dynamic<BudgetPageProps>(
   { loading: DrawerContentFallback, ssr: false }
 );
 
+const AccountsPage = dynamic<AccountsPageProps>(
+  () =>
+    import("@/components/dashboard/accounts-page").then(
+      (mod) => mod.AccountsPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
 const ReportsPage = dynamic<ReportsPageProps>(
   () =>
     import("@/components/dashboard/reports-page").then(
@@ -100,6 +130,14 @@ const ReportsPage = dynamic<ReportsPageProps>(
   { loading: DrawerContentFallback, ssr: false }
 );
 
+const TrendsPage = dynamic<TrendsPageProps>(
+  () =>
+    import("@/components/dashboard/trends-page").then(
+      (mod) => mod.TrendsPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
 const RecurringTransactionsPage = dynamic<RecurringTransactionsPageProps>(
   () =>
     import("@/components/dashboard/recurring-transactions-page").then(
@@ -108,6 +146,70 @@ const RecurringTransactionsPage = dynamic<RecurringTransactionsPageProps>(
   { loading: DrawerContentFallback, ssr: false }
 );
 
+const CategoryRulesPage = dynamic<CategoryRulesPageProps>(
+  () =>
+    import("@/components/dashboard/category-rules-page").then(
+      (mod) => mod.CategoryRulesPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
+const NotificationSchedulesPage = dynamic<NotificationSchedulesPageProps>(
+  () =>
+    import("@/components/dashboard/notification-schedules-page").then(
+      (mod) => mod.NotificationSchedulesPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
+const DigestReportsPage = dynamic<DigestReportsPageProps>(
+  () =>
+    import("@/components/dashboard/digest-reports-page").then(
+      (mod) => mod.DigestReportsPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
+const CurrencySettingsPage = dynamic<CurrencySettingsPageProps>(
+  () =>
+    import("@/components/dashboard/currency-settings-page").then(
+      (mod) => mod.CurrencySettingsPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
+const ImportWizard = dynamic<ImportWizardProps>(
+  () =>
+    import("@/components/dashboard/import-wizard").then(
+      (mod) => mod.ImportWizard
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
+const ApiTokensPage = dynamic(
+  () =>
+    import("@/components/dashboard/api-tokens-page").then(
+      (mod) => mod.ApiTokensPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
+const SyncIssuesPage = dynamic<SyncIssuesPageProps>(
+  () =>
+    import("@/components/dashboard/sync-issues-page").then(
+      (mod) => mod.SyncIssuesPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
+const HouseholdPage = dynamic(
+  () =>
+    import("@/components/dashboard/household-page").then(
+      (mod) => mod.HouseholdPage
+    ),
+  { loading: DrawerContentFallback, ssr: false }
+);
+
 const NotificationPermissionDialog = dynamic<NotificationPermissionDialogProps>(
   () =>
     import("@/components/dashboard/notification-permission-dialog").then(
@@ -147,7 +249,17 @@ export function Dashboard() {
   const [isAddTransactionOpen, setAddTransactionOpen] = useState(false);
   const [isBudgetOpen, setBudgetOpen] = useState(false);
   const [isReportsOpen, setReportsOpen] = useState(false);
+  const [isTrendsOpen, setTrendsOpen] = useState(false);
   const [isRecurringOpen, setRecurringOpen] = useState(false);
+  const [isRulesOpen, setRulesOpen] = useState(false);
+  const [isRemindersOpen, setRemindersOpen] = useState(false);
+  const [isDigestsOpen, setDigestsOpen] = useState(false);
+  const [isApiTokensOpen, setApiTokensOpen] = useState(false);
+  const [isCurrencyOpen, setCurrencyOpen] = useState(false);
+  const [isImportOpen, setImportOpen] = useState(false);
+  const [isSyncOpen, setSyncOpen] = useState(false);
+  const [isHouseholdOpen, setHouseholdOpen] = useState(false);
+  const [memberFilter, setMemberFilter] = useState<string>(ALL_MEMBERS);
   const [isSettingsOpen, setSettingsOpen] = useState(false);
   
   const [showIosPwaInstructions, setShowIosPwaInstructions] = useState(false);
@@ -166,16 +278,40 @@ export function Dashboard() {
   const { user, isUserLoading } = useUser();
   const firestore = useFirestore();
   const router = useRouter();
+  const { dataOwnerId, household, canEdit } = useHouseholdScope();
 
+  // Budget settings and categories come from whoever owns the data in scope,
+  // the name and profile always from the signed-in user
   const userDocRef = useMemoFirebase(
+    () => (firestore && dataOwnerId ? doc(firestore, 'users', dataOwnerId) : null),
+    [firestore, dataOwnerId]
+  );
+  const { data: userData, isLoading: isUserDataLoading } = useDoc<UserData>(userDocRef);
+
+  const profileDocRef = useMemoFirebase(
     () => (firestore && user ? doc(firestore, 'users', user.uid) : null),
     [firestore, user]
   );
-  const { data: userData, isLoading: isUserDataLoading } = useDoc<UserData>(userDocRef);
+  const { data: profileData } = useDoc<UserData>(profileDocRef);
+
+  const memberNames = useMemo(
+    () => (household ? Object.fromEntries(Object.entries(household.members).map(([id, member]) => [id, member.name])) : undefined),
+    [household]
+  );
+
+  // A member filter left over from a household the user is no longer in shows everyone
+  const activeMemberFilter = memberNames && memberNames[memberFilter] ? memberFilter : ALL_MEMBERS;
+
+  // Totals are converted to the user's base currency
+  const baseCurrency = userData?.baseCurrency || DEFAULT_BASE_CURRENCY;
+  const { rateMap } = useExchangeRates(baseCurrency);
+  const conversion = useMemo(() => ({ baseCurrency, rates: rateMap }), [baseCurrency, rateMap]);
 
   // Use the transactions hook with dateRange
   const {
     transactions,
+    allTransactions,
+    baseAllTransactions,
     isTransactionsLoading,
     visibleTransactions,
     sortOption,
@@ -189,15 +325,49 @@ export function Dashboard() {
     getTotalIncome,
     getNetIncome,
     getAggregatedData,
-  } = useTransactions(dateRange);
+  } = useTransactions(dateRange, conversion, activeMemberFilter);
+
+  const categoryModel = useCategoryModel(allTransactions || []);
+  const tagOptions = useMemo(() => getAllTags(allTransactions || []), [allTransactions]);
 
   const budgetsQuery = useMemoFirebase(
-    () => (firestore && user ? collection(firestore, `users/${user.uid}/budgets`) : null),
-    [firestore, user]
+    () => (firestore && dataOwnerId ? collection(firestore, `users/${dataOwnerId}/budgets`) : null),
+    [firestore, dataOwnerId]
   );
   const { data: budgets } = useCollection<Budget>(budgetsQuery);
 
+  const { accounts, activeAccounts } = useAccounts();
+
+  const {
+    pendingCount,
+    deadLetterCount,
+    deadLetters,
+    conflictCount,
+    conflicts,
+    retryDeadLetter,
+    discardDeadLetter,
+    resolveConflict,
+    syncNow,
+  } = useOutbox();
+
+  // Reminders opened from a notification count towards suggested send times
+  useNotificationOpens();
+
+  // Digest notifications open their report
+  const { reportId: linkedReportId, clearReportId } = useDigestReportLink();
+  useEffect(() => {
+    if (linkedReportId) setDigestsOpen(true);
+  }, [linkedReportId]);
+
   const finalUserData = userData;
+  const categoryParents = useMemo(() => finalUserData?.categoryParents || {}, [finalUserData?.categoryParents]);
+
+  // Rollover is worked out from the whole household's spending, not one member's
+  const { snapshots: budgetSnapshots, carriedIn, monthlyTrend: budgetTrend } = useBudgetRollover(
+    budgets || null,
+    activeMemberFilter === ALL_MEMBERS ? baseAllTransactions || null : null,
+    categoryParents
+  );
 
   // Move all useMemo and useCallback hooks before any early returns
   const getDisplayDate = useCallback((range: DateRange): string => {
@@ -227,9 +397,13 @@ export function Dashboard() {
     if (!budgets || budgets.length === 0) return 0;
     
     // Get monthly expense budget
-    const monthlyExpenseBudget = budgets
-      .filter(budget => (budget.type || 'expense') === 'expense')
+    const topLevelExpenseBudgets = getTopLevelBudgets(budgets, categoryParents)
+      .filter(budget => (budget.type || 'expense') === 'expense');
+    const monthlyExpenseBudget = topLevelExpenseBudgets
       .reduce((total, budget) => total + (budget.MonthlyBudget || 0), 0);
+    // This month also has what rolled over from last month
+    const thisMonthBudget = topLevelExpenseBudgets
+      .reduce((total, budget) => total + (carriedIn[budget.Category] || 0), monthlyExpenseBudget);
     
     // Adjust budget based on date range
     const now = new Date();
@@ -237,11 +411,11 @@ export function Dashboard() {
     
     switch (dateRange) {
       case 'daily':
-        return monthlyExpenseBudget / daysInMonth;
+        return thisMonthBudget / daysInMonth;
       case 'week':
-        return (monthlyExpenseBudget / daysInMonth) * 7;
+        return (thisMonthBudget / daysInMonth) * 7;
       case 'month':
-        return monthlyExpenseBudget;
+        return thisMonthBudget;
       case 'yearly':
         return monthlyExpenseBudget * 12;
       case 'all':
@@ -249,15 +423,28 @@ export function Dashboard() {
       default:
         return monthlyExpenseBudget;
     }
-  }, [budgets, dateRange]);
+  }, [budgets, dateRange, categoryParents, carriedIn]);
+
+  // This month's expense budget with rollover, for the trends pace line
+  const monthExpenseBudget = useMemo(() => {
+    if (!budgets || budgets.length === 0) return 0;
+    return getTopLevelBudgets(budgets, categoryParents)
+      .filter(budget => (budget.type || 'expense') === 'expense')
+      .reduce((total, budget) => total + (budget.MonthlyBudget || 0) + (carriedIn[budget.Category] || 0), 0);
+  }, [budgets, categoryParents, carriedIn]);
 
   const budgetIncome = useMemo(() => {
     if (!budgets || budgets.length === 0) return 0;
     // Sum income budgets separately
-    return budgets
+    return getTopLevelBudgets(budgets, categoryParents)
       .filter(budget => budget.type === 'income')
       .reduce((total, budget) => total + (budget.MonthlyBudget || 0), 0);
-  }, [budgets]);
+  }, [budgets, categoryParents]);
+
+  const filteredTransactionIds = useMemo(
+    () => filteredTransactions.map(transaction => transaction.id),
+    [filteredTransactions]
+  );
 
   const expenseTransactions = useMemo(() => 
     getExpenseTransactions ? getExpenseTransactions(filteredTransactions) : [],
@@ -284,8 +471,20 @@ export function Dashboard() {
     [getNetIncome, filteredTransactions]
   );
 
+  const reportTransactions = useMemo(
+    () => toBaseCurrency(transactions || [], baseCurrency, rateMap),
+    [transactions, baseCurrency, rateMap]
+  );
+
   const categories = useMemo(() => finalUserData?.categories || [], [finalUserData?.categories]);
   const incomeCategories = useMemo(() => finalUserData?.incomeCategories || DEFAULT_INCOME_CATEGORIES, [finalUserData?.incomeCategories]);
+  const archivedCategories = useMemo(() => finalUserData?.archivedCategories || [], [finalUserData?.archivedCategories]);
+  // Archived categories keep their history but aren't offered for new choices
+  const activeCategories = useMemo(() => getPickerCategories(categories, archivedCategories), [categories, archivedCategories]);
+  const activeIncomeCategories = useMemo(
+    () => getPickerCategories([...incomeCategories], archivedCategories),
+    [incomeCategories, archivedCategories]
+  );
   
   const categoryColors = useMemo(() => {
     const colors: Record<string, string> = {};
@@ -335,17 +534,21 @@ export function Dashboard() {
 
   // Confirm transaction deletion
   const handleConfirmTransactionDelete = useCallback(async () => {
-    if (!transactionToDelete || !user || !firestore) return;
+    if (!transactionToDelete || !dataOwnerId) return;
     
     try {
-      const docRef = doc(firestore, `users/${user.uid}/transactions`, transactionToDelete.id);
-      await deleteDocumentNonBlocking(docRef);
+      await backgroundSyncManager.queueWrite({
+        userId: dataOwnerId,
+        collection: 'transactions',
+        docId: transactionToDelete.id,
+        operation: 'delete',
+      });
     } catch (error) {
       console.error("Failed to delete transaction:", error);
     } finally {
       setTransactionToDelete(null);
     }
-  }, [transactionToDelete, user, firestore]);
+  }, [transactionToDelete, dataOwnerId]);
 
   const handleUpdateIncome = useCallback(async (newIncome: number) => {
     if (!userDocRef) return;
@@ -371,15 +574,15 @@ export function Dashboard() {
   // Auto-calculate savings goal when budgets change
   useEffect(() => {
     const calculateAndUpdateSavings = async () => {
-      if (!userDocRef || !budgets || budgets.length === 0) return;
+      if (!userDocRef || !canEdit || !budgets || budgets.length === 0) return;
       
       try {
         // Calculate savings goal: Income Budget - Expense Budget
-        const totalIncomeBudget = budgets
+        const totalIncomeBudget = getTopLevelBudgets(budgets, categoryParents)
           .filter(budget => budget.type === 'income')
           .reduce((total, budget) => total + (budget.MonthlyBudget || 0), 0);
         
-        const totalExpenseBudget = budgets
+        const totalExpenseBudget = getTopLevelBudgets(budgets, categoryParents)
           .filter(budget => (budget.type || 'expense') === 'expense')
           .reduce((total, budget) => total + (budget.MonthlyBudget || 0), 0);
         
@@ -395,21 +598,30 @@ export function Dashboard() {
     };
     
     calculateAndUpdateSavings();
-  }, [budgets, userDocRef, finalUserData?.savings]);
+  }, [budgets, categoryParents, userDocRef, canEdit, finalUserData?.savings]);
 
-  const handleUpdateBudget = useCallback(async (category: string, newBudget: number, type?: CategoryType) => {
-    if (!user || !firestore) return;
+  const handleUpdateBudget = useCallback(async (category: string, newBudget: number, type?: CategoryType, rollover?: BudgetRolloverMode, alertThresholds?: number[]) => {
+    if (!dataOwnerId) return;
     
     try {
-      const budgetRef = doc(firestore, `users/${user.uid}/budgets`, category);
       const budgetData = { 
         Category: category, 
         MonthlyBudget: newBudget,
         type: type || 'expense', // Default to expense if no type provided
+        ...(rollover && { rollover }),
+        ...(alertThresholds && { alertThresholds }),
         updatedAt: new Date(),
       };
       
-      await setDoc(budgetRef, budgetData, { merge: true });
+      await backgroundSyncManager.queueWrite({
+        userId: dataOwnerId,
+        collection: 'budgets',
+        docId: category,
+        operation: 'update',
+        data: budgetData,
+        upsert: true,
+        base: budgets?.find(budget => budget.id === category) || null,
+      });
       
       // Auto-calculate and update savings goal after budget update
       if (userDocRef && budgets) {
@@ -431,11 +643,11 @@ export function Dashboard() {
         }
         
         // Calculate new savings goal: Income Budget - Expense Budget
-        const totalIncomeBudget = updatedBudgets
+        const totalIncomeBudget = getTopLevelBudgets(updatedBudgets, categoryParents)
           .filter(budget => budget.type === 'income')
           .reduce((total, budget) => total + (budget.MonthlyBudget || 0), 0);
         
-        const totalExpenseBudget = updatedBudgets
+        const totalExpenseBudget = getTopLevelBudgets(updatedBudgets, categoryParents)
           .filter(budget => (budget.type || 'expense') === 'expense')
           .reduce((total, budget) => total + (budget.MonthlyBudget || 0), 0);
         
@@ -447,7 +659,7 @@ export function Dashboard() {
     } catch (error) {
       console.error("Failed to update budget:", error);
     }
-  }, [user, firestore, userDocRef, budgets]);
+  }, [dataOwnerId, userDocRef, budgets, categoryParents]);
 
   const handleAddCategory = useCallback(async (category: string, type?: CategoryType) => {
     if (!userDocRef || !finalUserData) return;
@@ -472,7 +684,7 @@ export function Dashboard() {
   }, [userDocRef, finalUserData, handleUpdateBudget]);
 
   const handleDeleteCategory = useCallback(async (category: string) => {
-    if (!userDocRef || !user || !firestore || !finalUserData) return;
+    if (!userDocRef || !dataOwnerId || !finalUserData) return;
     
     try {
       // Remove from user categories
@@ -481,27 +693,46 @@ export function Dashboard() {
       
       await updateDocumentNonBlocking(userDocRef, {
         categories: updatedCategories,
-        incomeCategories: updatedIncomeCategories
+        incomeCategories: updatedIncomeCategories,
+        categoryParents: removeFromTree(category, categoryParents), // Children move up a level
+        archivedCategories: archivedCategories.filter(c => c !== category),
       });
 
       // Remove budget if exists
-      const budgetRef = doc(firestore, `users/${user.uid}/budgets`, category);
-      await deleteDocumentNonBlocking(budgetRef);
+      await backgroundSyncManager.queueWrite({
+        userId: dataOwnerId,
+        collection: 'budgets',
+        docId: category,
+        operation: 'delete',
+      });
     } catch (error) {
       console.error("Failed to delete category:", error);
     }
-   }, [userDocRef, user, firestore, finalUserData]);
+   }, [userDocRef, dataOwnerId, finalUserData, categoryParents, archivedCategories]);
 
-  const handleUpdateUser = useCallback(async (name: string) => {
+  const handleSetCategoryParent = useCallback(async (category: string, parent: string | null) => {
     if (!userDocRef) return;
+
+    const others = Object.fromEntries(Object.entries(categoryParents).filter(([child]) => child !== category));
+    try {
+      await updateDocumentNonBlocking(userDocRef, {
+        categoryParents: parent ? { ...others, [category]: parent } : others,
+      });
+    } catch (error) {
+      console.error("Failed to move category:", error);
+    }
+  }, [userDocRef, categoryParents]);
+
+  const handleUpdateUser = useCallback(async (name: string) => {
+    if (!profileDocRef) return;
     
     try {
-      await updateDocumentNonBlocking(userDocRef, { name });
+      await updateDocumentNonBlocking(profileDocRef, { name });
       setUserSettingsOpen(false);
     } catch (error) {
       console.error("Failed to update profile:", error);
     }
-  }, [userDocRef]);
+  }, [profileDocRef]);
 
   const handleLogout = async () => {
     try {
@@ -684,7 +915,7 @@ export function Dashboard() {
            <Dialog open={isUserSettingsOpen} onOpenChange={setUserSettingsOpen}>
             <DialogContent>
               <UserSettingsDialog
-                  user={finalUserData}
+                  user={profileData || finalUserData}
                   userId={user?.uid}
                   onSave={handleUpdateUser}
                   onCopyUserId={handleCopyUserIdToast}
@@ -710,7 +941,7 @@ export function Dashboard() {
           <div className="flex justify-between items-start mb-4">
             <div>
               <h1 className="text-2xl font-bold">Welcome,</h1>
-              <h1 className="text-primary text-3xl font-bold">{finalUserData?.name || 'User'}</h1>
+              <h1 className="text-primary text-3xl font-bold">{profileData?.name || finalUserData?.name || 'User'}</h1>
             </div>
             <div className="flex flex-col items-end">
                 <div className="flex items-center gap-2">
@@ -720,6 +951,7 @@ export function Dashboard() {
                         <DrawerTitle>Wallet</DrawerTitle>
                       </DrawerHeader>
                       <ScrollArea className="h-[70vh] scrollbar-hide">
+                        <AccountsPage transactions={baseAllTransactions || []} currency={baseCurrency} />
                         <BudgetPage 
                           user={finalUserData}
                           budgets={budgets || []} 
@@ -728,6 +960,10 @@ export function Dashboard() {
                           onUpdateBudget={handleUpdateBudget} 
                           onAddCategory={handleAddCategory}
                           onDeleteCategory={handleDeleteCategory}
+                          onSetCategoryParent={handleSetCategoryParent}
+                          snapshots={budgetSnapshots}
+                          monthlyTrend={budgetTrend}
+                          carriedIn={carriedIn}
                         />
                       </ScrollArea>
                     </DrawerContent>
@@ -765,7 +1001,20 @@ export function Dashboard() {
                                   <Wallet className="mr-4 h-5 w-5" />
                                   <div className="text-left">
                                       <p className="font-semibold">Wallet</p>
-                                      <p className="text-xs text-muted-foreground">Manage income, savings, and budgets.</p>
+                                      <p className="text-xs text-muted-foreground">Manage accounts, income, savings, and budgets.</p>
+                                  </div>
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  className="justify-start p-4 h-auto"
+                                  onClick={() => { setSettingsOpen(false); setHouseholdOpen(true); }}
+                                >
+                                  <Users className="mr-4 h-5 w-5" />
+                                  <div className="text-left">
+                                      <p className="font-semibold">Household</p>
+                                      <p className="text-xs text-muted-foreground">
+                                        {household ? `Sharing ${household.name}.` : 'Share your budget with family or a partner.'}
+                                      </p>
                                   </div>
                                 </Button>
                                 <Button
@@ -779,6 +1028,17 @@ export function Dashboard() {
                                       <p className="text-xs text-muted-foreground">Generate spending reports.</p>
                                   </div>
                                 </Button>
+                                <Button
+                                  variant="ghost"
+                                  className="justify-start p-4 h-auto"
+                                  onClick={() => { setSettingsOpen(false); setTrendsOpen(true); }}
+                                >
+                                  <TrendingUp className="mr-4 h-5 w-5" />
+                                  <div className="text-left">
+                                      <p className="font-semibold">Trends</p>
+                                      <p className="text-xs text-muted-foreground">Compare months and see spending pace.</p>
+                                  </div>
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   className="justify-start p-4 h-auto"
@@ -790,6 +1050,93 @@ export function Dashboard() {
                                       <p className="text-xs text-muted-foreground">Manage automatic recurring payments.</p>
                                   </div>
                                 </Button>
+                                <Button
+                                  variant="ghost"
+                                  className="justify-start p-4 h-auto"
+                                  onClick={() => { setSettingsOpen(false); setRulesOpen(true); }}
+                                >
+                                  <Wand2 className="mr-4 h-5 w-5" />
+                                  <div className="text-left">
+                                      <p className="font-semibold">Rules</p>
+                                      <p className="text-xs text-muted-foreground">Categorize new and imported transactions automatically.</p>
+                                  </div>
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  className="justify-start p-4 h-auto"
+                                  onClick={() => { setSettingsOpen(false); setRemindersOpen(true); }}
+                                >
+                                  <BellRing className="mr-4 h-5 w-5" />
+                                  <div className="text-left">
+                                      <p className="font-semibold">Reminders</p>
+                                      <p className="text-xs text-muted-foreground">Scheduled check-ins and bill reminders.</p>
+                                  </div>
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  className="justify-start p-4 h-auto"
+                                  onClick={() => { setSettingsOpen(false); setDigestsOpen(true); }}
+                                >
+                                  <Newspaper className="mr-4 h-5 w-5" />
+                                  <div className="text-left">
+                                      <p className="font-semibold">Digests</p>
+                                      <p className="text-xs text-muted-foreground">Weekly and monthly summaries of your spending and budgets.</p>
+                                  </div>
+                                </Button>
+                                {canEdit && (
+                                  <Button
+                                    variant="ghost"
+                                    className="justify-start p-4 h-auto"
+                                    onClick={() => { setSettingsOpen(false); setImportOpen(true); }}
+                                  >
+                                    <Upload className="mr-4 h-5 w-5" />
+                                    <div className="text-left">
+                                        <p className="font-semibold">Import Statement</p>
+                                        <p className="text-xs text-muted-foreground">Add transactions from a CSV, OFX or QIF file.</p>
+                                    </div>
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  className="justify-start p-4 h-auto"
+                                  onClick={() => { setSettingsOpen(false); setCurrencyOpen(true); }}
+                                >
+                                  <Coins className="mr-4 h-5 w-5" />
+                                  <div className="text-left">
+                                      <p className="font-semibold">Currencies</p>
+                                      <p className="text-xs text-muted-foreground">Base currency and exchange rates.</p>
+                                  </div>
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  className="justify-start p-4 h-auto"
+                                  onClick={() => { setSettingsOpen(false); setApiTokensOpen(true); }}
+                                >
+                                  <KeyRound className="mr-4 h-5 w-5" />
+                                  <div className="text-left">
+                                      <p className="font-semibold">API Tokens</p>
+                                      <p className="text-xs text-muted-foreground">Connect Apple Shortcuts securely.</p>
+                                  </div>
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  className="justify-start p-4 h-auto"
+                                  onClick={() => { setSettingsOpen(false); setSyncOpen(true); }}
+                                >
+                                  <RefreshCw className="mr-4 h-5 w-5" />
+                                  <div className="text-left">
+                                      <p className="font-semibold">Sync</p>
+                                      <p className={`text-xs ${deadLetterCount + conflictCount > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                                        {conflictCount > 0
+                                          ? `${conflictCount} change${conflictCount === 1 ? '' : 's'} need${conflictCount === 1 ? 's' : ''} review.`
+                                          : deadLetterCount > 0
+                                            ? `${deadLetterCount} change${deadLetterCount === 1 ? '' : 's'} failed to sync.`
+                                            : pendingCount > 0
+                                              ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync.`
+                                              : 'All changes are synced.'}
+                                      </p>
+                                  </div>
+                                </Button>
                                 <div className="flex items-center justify-between p-4 h-auto">
                                     <div className="flex items-center space-x-4">
                                       <Bell className="h-5 w-5" />
@@ -821,6 +1168,21 @@ export function Dashboard() {
               </div>
           </div>
           
+          {/* Member filter, for households with more than one member */}
+          {memberNames && Object.keys(memberNames).length > 1 && (
+            <Select value={activeMemberFilter} onValueChange={setMemberFilter}>
+              <SelectTrigger className="w-full" aria-label="Show transactions by member">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MEMBERS}>All members</SelectItem>
+                {Object.entries(memberNames).map(([id, name]) => (
+                  <SelectItem key={id} value={id}>{id === user?.uid ? `${name} (you)` : name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
           {/* Balance Component */}
           <Balance
             totalSpending={totalSpent}
@@ -833,8 +1195,12 @@ export function Dashboard() {
             dateRange={dateRange}
             onDateRangeChange={setDateRange}
             displayDate={displayDate}
+            currency={baseCurrency}
           />
 
+          {/* Savings Goals */}
+          <SavingsGoals userId={dataOwnerId} transactions={allTransactions || []} currency={baseCurrency} />
+
           {/* Transactions Table */}
           {transactions && transactions.length > 0 ? (
             <TransactionsTable 
@@ -846,44 +1212,140 @@ export function Dashboard() {
               onSortChange={setSortOption}
               onEdit={handleTransactionEdit}
               onDelete={handleTransactionDelete}
+              baseCurrency={baseCurrency}
+              rates={rateMap}
+              userId={dataOwnerId}
+              filterTransactionIds={filteredTransactionIds}
+              categories={activeCategories}
+              incomeCategories={activeIncomeCategories}
+              readOnly={!canEdit}
+              memberNames={memberNames}
             />
           ) : (
             <EmptyTransactions 
-              onAddTransaction={() => setAddTransactionOpen(true)}
+              onAddTransaction={canEdit ? () => setAddTransactionOpen(true) : undefined}
             />
           )}
         </main>
 
         <Drawer open={isAddTransactionOpen} onOpenChange={handleDrawerOpenChange}>
-            <DrawerTrigger asChild>
-                <Button 
-                    variant="default"
-                    className="fixed bottom-[calc(env(safe-area-inset-bottom)+1rem)] right-6 h-16 w-16 rounded-full shadow-lg z-50"
-                    style={{ backgroundColor: 'hsl(var(--primary))' }}
-                >
-                    <Plus className="h-8 w-8" />
-                </Button>
-            </DrawerTrigger>
+            {canEdit && (
+              <DrawerTrigger asChild>
+                  <Button 
+                      variant="default"
+                      className="fixed bottom-[calc(env(safe-area-inset-bottom)+1rem)] right-6 h-16 w-16 rounded-full shadow-lg z-50"
+                      style={{ backgroundColor: 'hsl(var(--primary))' }}
+                  >
+                      <Plus className="h-8 w-8" />
+                  </Button>
+              </DrawerTrigger>
+            )}
             <DrawerContent>
                 <AddTransactionForm 
-                  userId={user?.uid}
+                  userId={dataOwnerId}
                   setOpen={setAddTransactionOpen}
                   transactionToEdit={transactionToEdit}
                   categories={categories}
                   incomeCategories={incomeCategories}
+                  accounts={activeAccounts}
+                  baseCurrency={baseCurrency}
+                  categoryModel={categoryModel}
+                  tagOptions={tagOptions}
+                  archivedCategories={archivedCategories}
                 />
             </DrawerContent>
         </Drawer>
 
         <Drawer open={isReportsOpen} onOpenChange={setReportsOpen}>
           <DrawerContent>
-            <ReportsPage allTransactions={transactions || []} categories={categories} />
+            <ReportsPage userId={dataOwnerId} allTransactions={reportTransactions} categories={categories} categoryParents={categoryParents} accounts={accounts} currency={baseCurrency} />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer open={isTrendsOpen} onOpenChange={setTrendsOpen}>
+          <DrawerContent>
+            <TrendsPage transactions={reportTransactions} monthlyBudget={monthExpenseBudget} currency={baseCurrency} />
           </DrawerContent>
         </Drawer>
 
         <Drawer open={isRecurringOpen} onOpenChange={setRecurringOpen}>
           <DrawerContent>
-            <RecurringTransactionsPage categories={categories} incomeCategories={incomeCategories} />
+            <RecurringTransactionsPage categories={activeCategories} incomeCategories={activeIncomeCategories} />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer open={isRulesOpen} onOpenChange={setRulesOpen}>
+          <DrawerContent>
+            <CategoryRulesPage
+              categories={activeCategories}
+              incomeCategories={activeIncomeCategories}
+              transactions={allTransactions || []}
+              categoryModel={categoryModel}
+            />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer open={isRemindersOpen} onOpenChange={setRemindersOpen}>
+          <DrawerContent>
+            <NotificationSchedulesPage isPushSubscribed={isPushSubscribed} />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer
+          open={isDigestsOpen}
+          onOpenChange={(open) => {
+            setDigestsOpen(open);
+            if (!open) clearReportId();
+          }}
+        >
+          <DrawerContent>
+            <DigestReportsPage isPushSubscribed={isPushSubscribed} reportId={linkedReportId} />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer open={isImportOpen} onOpenChange={setImportOpen}>
+          <DrawerContent>
+            <ImportWizard
+              userId={dataOwnerId}
+              transactions={allTransactions || []}
+              categories={categories}
+              incomeCategories={incomeCategories}
+              categoryAliases={finalUserData?.categoryAliases}
+              accounts={activeAccounts}
+              onComplete={() => setImportOpen(false)}
+            />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer open={isCurrencyOpen} onOpenChange={setCurrencyOpen}>
+          <DrawerContent>
+            <CurrencySettingsPage baseCurrency={baseCurrency} transactions={allTransactions || []} />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer open={isHouseholdOpen} onOpenChange={setHouseholdOpen}>
+          <DrawerContent>
+            <HouseholdPage />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer open={isApiTokensOpen} onOpenChange={setApiTokensOpen}>
+          <DrawerContent>
+            <ApiTokensPage />
+          </DrawerContent>
+        </Drawer>
+
+        <Drawer open={isSyncOpen} onOpenChange={setSyncOpen}>
+          <DrawerContent>
+            <SyncIssuesPage
+              pendingCount={pendingCount}
+              deadLetters={deadLetters}
+              conflicts={conflicts}
+              onRetry={retryDeadLetter}
+              onDiscard={discardDeadLetter}
+              onResolveConflict={resolveConflict}
+              onSyncNow={syncNow}
+            />
           </DrawerContent>
         </Drawer>
 
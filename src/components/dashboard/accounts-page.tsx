@@ -0,0 +1,377 @@
+"use client";
+
+import { useState } from "react";
+import { type Account, type AccountType, type Transaction } from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Banknote, Landmark, CreditCard, Scale, Archive, Loader2, Inbox } from "lucide-react";
+import { format, toDate } from "date-fns";
+import { useAccounts } from "@/features/wallet/hooks/useAccounts";
+import { useToast } from "@/shared/hooks";
+import { ACCOUNT_TYPES, UNASSIGNED_ACCOUNT_ID } from "@/shared/constants";
+import { getAccountTransactions, getAccountAmount } from "@/shared/utils/accounts";
+import { formatCurrency } from "@/shared/utils/currency";
+
+export interface AccountsPageProps {
+  transactions: Transaction[]; // Amounts in the base currency
+  currency?: string;
+}
+
+const ACCOUNT_ICONS: Record<AccountType, typeof Banknote> = {
+  'cash': Banknote,
+  'bank': Landmark,
+  'credit-card': CreditCard,
+};
+
+// Recent activity shown under a selected account
+const RECENT_ACTIVITY_LIMIT = 10;
+
+type TimestampLike = Date | { seconds: number; nanoseconds: number } | string | null | undefined;
+
+const formatTimestamp = (value: TimestampLike) => {
+  if (!value) return 'Never';
+  const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : toDate(value.seconds * 1000);
+  return format(date, 'MMM d, yyyy');
+};
+
+export function AccountsPage({ transactions, currency }: AccountsPageProps) {
+  const [isCreateDialogOpen, setCreateDialogOpen] = useState(false);
+  const [accountName, setAccountName] = useState("");
+  const [accountType, setAccountType] = useState<AccountType>('bank');
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [accountToReconcile, setAccountToReconcile] = useState<Account | null>(null);
+  const [statementBalance, setStatementBalance] = useState("");
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const formatBalance = (amount: number) => formatCurrency(amount, currency);
+
+  const {
+    activeAccounts,
+    balances,
+    unassignedBalance,
+    totalBalance,
+    isAccountsLoading,
+    createAccount,
+    archiveAccount,
+    reconcileAccount,
+  } = useAccounts(transactions);
+
+  const hasUnassignedTransactions = transactions.some(t => !t.accountId);
+
+  const resetCreateForm = () => {
+    setAccountName("");
+    setAccountType('bank');
+    setOpeningBalance("");
+  };
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    try {
+      await createAccount({
+        name: accountName,
+        type: accountType,
+        openingBalance: parseFloat(openingBalance) || 0,
+      });
+      setCreateDialogOpen(false);
+      resetCreateForm();
+    } catch (error) {
+      console.error('Failed to create account:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create account. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReconcile = async () => {
+    if (!accountToReconcile) return;
+
+    const balance = parseFloat(statementBalance);
+    if (isNaN(balance)) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Enter the balance shown on your statement.",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await reconcileAccount(accountToReconcile, balance);
+      toast({
+        title: "Account Reconciled",
+        description: `"${accountToReconcile.name}" now matches your statement.`,
+      });
+      setAccountToReconcile(null);
+      setStatementBalance("");
+    } catch (error) {
+      console.error('Failed to reconcile account:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to reconcile account. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleArchive = async (account: Account) => {
+    try {
+      await archiveAccount(account.id);
+      if (selectedAccountId === account.id) setSelectedAccountId(null);
+      toast({
+        title: "Account Archived",
+        description: `"${account.name}" is hidden but its history is kept.`,
+      });
+    } catch (error) {
+      console.error('Failed to archive account:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to archive account. Please try again.",
+      });
+    }
+  };
+
+  const reconcileDifference = accountToReconcile && statementBalance !== "" && !isNaN(parseFloat(statementBalance))
+    ? parseFloat(statementBalance) - (balances[accountToReconcile.id] || 0)
+    : null;
+
+  const renderActivity = (accountId: string) => {
+    const activity = getAccountTransactions(accountId, transactions).slice(0, RECENT_ACTIVITY_LIMIT);
+    if (activity.length === 0) {
+      return <p className="text-xs text-muted-foreground">No transactions yet</p>;
+    }
+
+    return (
+      <div className="space-y-1">
+        {activity.map((transaction) => {
+          const amount = getAccountAmount(accountId, transaction);
+          return (
+            <div key={transaction.id} className="flex items-center justify-between text-sm">
+              <span className="truncate">
+                {transaction.Notes || transaction.Category}
+                <span className="text-xs text-muted-foreground ml-2">{formatTimestamp(transaction.Date)}</span>
+              </span>
+              <span className={amount >= 0 ? 'text-green-600' : 'text-red-600'}>
+                {amount >= 0 ? '+' : '-'}{formatBalance(Math.abs(amount))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 px-4">
+      <Dialog
+        open={!!accountToReconcile}
+        onOpenChange={(open) => { if (!open) { setAccountToReconcile(null); setStatementBalance(""); } }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reconcile {accountToReconcile?.name}</DialogTitle>
+            <DialogDescription>
+              Tracked balance is {formatBalance(accountToReconcile ? balances[accountToReconcile.id] || 0 : 0)}. Enter the balance on your statement.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="statement-balance">Statement Balance</Label>
+            <Input
+              id="statement-balance"
+              type="number"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={statementBalance}
+              onChange={(e) => setStatementBalance(e.target.value)}
+            />
+            {reconcileDifference !== null && reconcileDifference !== 0 && (
+              <p className="text-xs text-muted-foreground">
+                The opening balance will be adjusted by {formatBalance(reconcileDifference)}.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button onClick={handleReconcile} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reconcile
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Card className="border-none shadow-none">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Accounts</CardTitle>
+              <CardDescription>Total balance {formatBalance(totalBalance)}</CardDescription>
+            </div>
+            <Dialog
+              open={isCreateDialogOpen}
+              onOpenChange={(open) => { setCreateDialogOpen(open); if (!open) resetCreateForm(); }}
+            >
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Account
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Account</DialogTitle>
+                  <DialogDescription>
+                    Track a cash wallet, bank account or credit card.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="account-name">Name</Label>
+                    <Input
+                      id="account-name"
+                      placeholder="e.g., Everyday Savings"
+                      value={accountName}
+                      onChange={(e) => setAccountName(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select value={accountType} onValueChange={(value: AccountType) => setAccountType(value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACCOUNT_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="opening-balance">Opening Balance</Label>
+                    <Input
+                      id="opening-balance"
+                      type="number"
+                      inputMode="decimal"
+                      placeholder="0.00"
+                      value={openingBalance}
+                      onChange={(e) => setOpeningBalance(e.target.value)}
+                    />
+                    {accountType === 'credit-card' && (
+                      <p className="text-xs text-muted-foreground">Enter an amount owed as a negative number.</p>
+                    )}
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button onClick={handleCreate} disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Add Account
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isAccountsLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : activeAccounts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Landmark className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No accounts yet</p>
+              <p className="text-sm">Add one to track balances and transfers</p>
+            </div>
+          ) : (
+            activeAccounts.map((account) => {
+              const Icon = ACCOUNT_ICONS[account.type] || Landmark;
+              const balance = balances[account.id] || 0;
+              const isSelected = selectedAccountId === account.id;
+
+              return (
+                <div key={account.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <button
+                      type="button"
+                      className="flex items-center gap-3 text-left"
+                      onClick={() => setSelectedAccountId(isSelected ? null : account.id)}
+                    >
+                      <Icon className="h-5 w-5 text-primary" />
+                      <div>
+                        <p className="font-medium">{account.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Reconciled {formatTimestamp(account.lastReconciledAt)}
+                        </p>
+                      </div>
+                    </button>
+                    <div className="flex items-center gap-1">
+                      <span className={`font-semibold mr-2 ${balance < 0 ? 'text-red-600' : ''}`}>
+                        {formatBalance(balance)}
+                      </span>
+                      <Button variant="ghost" size="icon" onClick={() => setAccountToReconcile(account)} aria-label="Reconcile account">
+                        <Scale className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleArchive(account)} aria-label="Archive account">
+                        <Archive className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {isSelected && renderActivity(account.id)}
+                </div>
+              );
+            })
+          )}
+
+          {hasUnassignedTransactions && (
+            <div className="p-3 border border-dashed rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  className="flex items-center gap-3 text-left"
+                  onClick={() => setSelectedAccountId(selectedAccountId === UNASSIGNED_ACCOUNT_ID ? null : UNASSIGNED_ACCOUNT_ID)}
+                >
+                  <Inbox className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">Unassigned</p>
+                    <p className="text-xs text-muted-foreground">Transactions without an account</p>
+                  </div>
+                </button>
+                <span className="font-semibold">{formatBalance(unassignedBalance)}</span>
+              </div>
+              {selectedAccountId === UNASSIGNED_ACCOUNT_ID && renderActivity(UNASSIGNED_ACCOUNT_ID)}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 "use client";
 
 import { useEffect, useState, useRef } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -16,38 +16,84 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/shared/hooks";
-import { Loader2, ArrowLeft } from "lucide-react";
-import { addDocumentNonBlocking, useFirestore, updateDocumentNonBlocking } from "@/firebase";
-import { collection, doc } from "firebase/firestore";
-import { type Transaction } from "@/shared/types";
+import { Loader2, ArrowLeft, Plus, X, Wand2, Tag } from "lucide-react";
+import { backgroundSyncManager } from "@/lib/background-sync";
+import { useUser } from "@/firebase";
+import { useCategoryRules, type CategoryModelState } from "@/features/rules/hooks";
+import { type Transaction, type Account, type TransactionType } from "@/shared/types";
+import { TRANSFER_CATEGORY, UNASSIGNED_ACCOUNT_ID, DEFAULT_BASE_CURRENCY, SUPPORTED_CURRENCIES, LEARNED_CATEGORIES } from "@/shared/constants";
+import { getCurrencySymbol } from "@/shared/utils/currency";
+import { getPrimarySplitCategory, getSplitTotal, hasSplits, validateSplits } from "@/shared/utils/splits";
+import { getPickerCategories } from "@/shared/utils/categories";
+import { applyRules } from "@/shared/utils/rules";
+import { cleanTags, hasTag, normalizeTag } from "@/shared/utils/tags";
 import { DrawerHeader, DrawerTitle } from "../ui/drawer";
 
 const formSchema = z.object({
   Amount: z.coerce.number().positive({ message: "Amount must be positive" }),
   Category: z.string().min(1, { message: "Category is required" }),
   Notes: z.string().min(1, { message: "Notes are required" }),
+  currency: z.string().length(3),
+  accountId: z.string().default(UNASSIGNED_ACCOUNT_ID),
+  isTransfer: z.boolean().default(false),
+  toAccountId: z.string().optional(),
   isRecurring: z.boolean().default(false),
   frequency: z.enum(['weekly', 'monthly', 'yearly']).optional(),
   nextDueDate: z.date().optional(),
+  tags: z.array(z.string()).default([]),
+  isSplit: z.boolean().default(false),
+  splits: z.array(z.object({
+    Category: z.string(),
+    Amount: z.coerce.number(),
+    Notes: z.string(),
+  })).default([]),
+}).superRefine((values, ctx) => {
+  if (values.isSplit) {
+    const splitError = validateSplits(values.splits, values.Amount);
+    if (splitError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['splits'], message: splitError });
+    }
+  }
+  if (!values.isTransfer) return;
+  if (values.accountId === UNASSIGNED_ACCOUNT_ID) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['accountId'], message: "Choose the account to transfer from" });
+  }
+  if (!values.toAccountId || values.toAccountId === values.accountId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['toAccountId'], message: "Choose a different account to transfer to" });
+  }
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
+const emptySplit = (Category = ""): FormValues['splits'][number] => ({
+  Category,
+  Amount: '' as unknown as number,
+  Notes: "",
+});
+
 export interface AddTransactionFormProps {
   setOpen: (open: boolean) => void;
   userId?: string;
   transactionToEdit?: Transaction | null;
   categories: string[];
   incomeCategories: string[];
+  accounts?: Account[];
+  baseCurrency?: string;
+  categoryModel?: CategoryModelState; // Learned suggestions; none are shown without it
+  tagOptions?: string[]; // Tags already in use, most used first, for autocomplete
+  archivedCategories?: string[]; // Hidden from the pickers unless the transaction already uses one
 }
 
-export function AddTransactionForm({ setOpen, userId, transactionToEdit, categories, incomeCategories }: AddTransactionFormProps) {
+export function AddTransactionForm({ setOpen, userId, transactionToEdit, categories, incomeCategories, accounts = [], baseCurrency = DEFAULT_BASE_CURRENCY, categoryModel, tagOptions = [], archivedCategories = [] }: AddTransactionFormProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [tagInput, setTagInput] = useState("");
   const [step, setStep] = useState(0);
   const { toast } = useToast();
-  const firestore = useFirestore();
+  const { user } = useUser();
+  const { activeRules } = useCategoryRules();
   const amountInputRef = useRef<HTMLInputElement | null>(null);
   const notesInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -57,43 +103,92 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
       Amount: '' as unknown as FormValues['Amount'],
       Category: "",
       Notes: "",
+      currency: baseCurrency,
+      accountId: UNASSIGNED_ACCOUNT_ID,
+      isTransfer: false,
       isRecurring: false,
       frequency: 'monthly',
       nextDueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // Default to 30 days from now
+      tags: [],
+      isSplit: false,
+      splits: [],
     },
     mode: "onChange",
   });
+  const { fields: splitFields, append: appendSplit, remove: removeSplit, replace: replaceSplits } = useFieldArray({
+    control: form.control,
+    name: 'splits',
+  });
 
   const isRecurring = form.watch('isRecurring');
+  const isTransfer = form.watch('isTransfer');
+  const selectedCurrency = form.watch('currency');
+  const isSplit = form.watch('isSplit');
+  const splits = form.watch('splits');
+  const tags = form.watch('tags');
+  // Existing tags starting with what's typed, or the most used ones before anything is
+  const tagSuggestions = tagOptions
+    .filter(tag => !hasTag({ tags }, tag) && tag.toLowerCase().startsWith(normalizeTag(tagInput).toLowerCase()))
+    .slice(0, 5);
+  const splitRemaining = Number(form.watch('Amount') || 0) -
+    getSplitTotal(splits.map(split => ({ ...split, Amount: Number(split.Amount) || 0 })));
+
+  // The base currency is always selectable, even if it's not in the common list
+  const currencyOptions = SUPPORTED_CURRENCIES.some(c => c.code === baseCurrency)
+    ? SUPPORTED_CURRENCIES.map(c => c.code)
+    : [baseCurrency, ...SUPPORTED_CURRENCIES.map(c => c.code)];
 
   useEffect(() => {
     if (transactionToEdit) {
       form.reset({
         ...transactionToEdit,
         Amount: transactionToEdit.Amount,
+        currency: transactionToEdit.currency || baseCurrency,
+        accountId: transactionToEdit.accountId || UNASSIGNED_ACCOUNT_ID,
+        toAccountId: transactionToEdit.toAccountId || undefined,
+        isTransfer: transactionToEdit.Type === 'transfer',
         isRecurring: false, // Existing transactions are not recurring
+        tags: transactionToEdit.tags || [],
+        isSplit: hasSplits(transactionToEdit),
+        splits: transactionToEdit.splits || [],
       });
     } else {
       form.reset({
         Amount: '' as unknown as FormValues['Amount'],
         Category: "",
         Notes: "",
+        currency: baseCurrency,
+        accountId: UNASSIGNED_ACCOUNT_ID,
+        toAccountId: undefined,
+        isTransfer: false,
         isRecurring: false,
         frequency: 'monthly',
         nextDueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        tags: [],
+        isSplit: false,
+        splits: [],
       });
     }
+    setTagInput("");
     setStep(0);
     setTimeout(() => {
       amountInputRef.current?.focus();
     }, 100);
-  }, [transactionToEdit, form]);
+  }, [transactionToEdit, form, baseCurrency]);
 
   const nextStep = async (field?: keyof FormValues) => {
+    if (field === 'Category' && form.getValues('isSplit')) {
+        const isValid = await applySplits();
+        if (!isValid) return;
+    }
     if (field) {
         const isValid = await form.trigger(field);
         if (!isValid) return;
     }
+    if (field === 'Category' && form.getValues('isTransfer')) {
+        const isValid = await form.trigger(['accountId', 'toAccountId']);
+        if (!isValid) return;
+    }
     setStep((s) => s + 1);
 
     if (field === 'Category') {
@@ -108,54 +203,149 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
   };
 
   // Determine transaction type based on selected category
-  const getTransactionType = (category: string): 'income' | 'expense' => {
+  const getTransactionType = (category: string, isTransfer: boolean): TransactionType => {
+    if (isTransfer) return 'transfer';
     return incomeCategories.includes(category) ? 'income' : 'expense';
   };
 
+  // Rules only suggest a category, notes and tags here; the user decides
+  const notesValue = form.watch('Notes');
+  const categoryValue = form.watch('Category');
+  const { changes: ruleChanges } = applyRules(activeRules, {
+    Amount: Number(form.watch('Amount')) || 0,
+    Type: getTransactionType(categoryValue, isTransfer),
+    Notes: notesValue,
+  });
+  // Archived categories are only offered when the transaction being edited uses them
+  const inUseCategories = transactionToEdit
+    ? [transactionToEdit.Category, ...(transactionToEdit.splits || []).map(split => split.Category)]
+    : [];
+  const pickerCategories = getPickerCategories(categories, archivedCategories, inUseCategories);
+  const pickerIncomeCategories = getPickerCategories(incomeCategories, archivedCategories, inUseCategories);
+
+  const suggestedCategory = !isTransfer && !isSplit && ruleChanges.Category && ruleChanges.Category !== categoryValue &&
+    [...pickerCategories, ...pickerIncomeCategories].includes(ruleChanges.Category)
+    ? ruleChanges.Category
+    : null;
+  const suggestedNotes = ruleChanges.Notes && ruleChanges.Notes !== notesValue ? ruleChanges.Notes : null;
+  const suggestedTags = (ruleChanges.tags || []).filter(tag => !hasTag({ tags }, tag));
+
+  // Learned from history: ranks the category chips, and stands in for a rule once notes are typed
+  const learnedSuggestions = categoryModel?.suggestCategories(
+    { Notes: notesValue, Amount: Number(form.watch('Amount')) || 0, Date: transactionToEdit?.Date || new Date() },
+    [...pickerCategories, ...pickerIncomeCategories]
+  ) || [];
+  const learnedCategory = !suggestedCategory && !isTransfer && !isSplit && notesValue.trim() &&
+    learnedSuggestions[0] && learnedSuggestions[0].probability >= LEARNED_CATEGORIES.MIN_CONFIDENCE &&
+    learnedSuggestions[0].category !== categoryValue
+    ? learnedSuggestions[0].category
+    : null;
+
+  const applyRuleSuggestion = () => {
+    if (suggestedCategory) form.setValue("Category", suggestedCategory, { shouldValidate: true });
+    if (suggestedNotes) form.setValue("Notes", suggestedNotes, { shouldValidate: true });
+    if (suggestedTags.length > 0) form.setValue("tags", cleanTags([...form.getValues("tags"), ...suggestedTags]));
+  };
+
+  // A split transaction is listed under its largest split, and is all income or all spending
+  const applySplits = async () => {
+    const isValid = await form.trigger('splits');
+    if (!isValid) return false;
+
+    const values = form.getValues('splits').map(split => ({ ...split, Amount: Number(split.Amount) }));
+    const types = new Set(values.map(split => getTransactionType(split.Category, false)));
+    if (types.size > 1) {
+      form.setError('splits', { message: "Split between expense categories or between income categories, not both" });
+      return false;
+    }
+    form.setValue("Category", getPrimarySplitCategory(values), { shouldValidate: true });
+    return true;
+  };
+
+  const addTag = (tag: string) => {
+    form.setValue("tags", cleanTags([...form.getValues("tags"), tag]));
+    setTagInput("");
+  };
+
+  const removeTag = (tag: string) => {
+    form.setValue("tags", form.getValues("tags").filter(t => t !== tag));
+  };
+
   async function onSubmit(values: FormValues) {
-    if (!userId || !firestore) {
+    if (!userId) {
         return;
     }
     setIsLoading(true);
 
-    const transactionType = getTransactionType(values.Category);
+    const { isTransfer, accountId, toAccountId, isSplit, splits, tags, ...formValues } = values;
+    const transactionType = getTransactionType(values.Category, isTransfer);
+    const accountFields = {
+        accountId: accountId === UNASSIGNED_ACCOUNT_ID ? null : accountId,
+        toAccountId: isTransfer ? toAccountId || null : null,
+    };
     
     const transactionData = {
-        ...values,
+        ...formValues,
+        ...accountFields,
+        splits: isSplit ? splits : null,
+        tags: cleanTags([...tags, tagInput]), // A tag still being typed is kept
         Date: transactionToEdit ? transactionToEdit.Date : new Date(), // Preserve original date when editing
         Type: transactionType,
         userId,
     };
+    // Who entered it, for household attribution. Edits keep the original author.
+    const authorFields = user ? { createdBy: user.uid } : {};
     
     try {
         if (transactionToEdit) {
-            const transactionRef = doc(firestore, `users/${userId}/transactions`, transactionToEdit.id);
-            await updateDocumentNonBlocking(transactionRef, transactionData);
+            await backgroundSyncManager.queueWrite({
+                userId,
+                collection: 'transactions',
+                docId: transactionToEdit.id,
+                operation: 'update',
+                data: transactionData,
+                base: transactionToEdit,
+            });
             toast({
                 title: "Success",
                 description: "Transaction updated successfully.",
             });
         } else {
-            const transactionsCollection = collection(firestore, `users/${userId}/transactions`);
-            await addDocumentNonBlocking(transactionsCollection, transactionData);
+            await backgroundSyncManager.queueWrite({
+                userId,
+                collection: 'transactions',
+                docId: backgroundSyncManager.generateId(),
+                operation: 'create',
+                data: { ...transactionData, ...authorFields },
+                base: null,
+            });
         }
 
         // Handle recurring transaction creation (only for new transactions)
-        if (!transactionToEdit && values.isRecurring && values.frequency && values.nextDueDate) {
+        if (!transactionToEdit && !isTransfer && !isSplit && values.isRecurring && values.frequency && values.nextDueDate) {
           const recurringTransactionData = {
             Amount: values.Amount,
             Type: transactionType,
             Category: values.Category,
             Notes: values.Notes,
+            currency: values.currency,
+            accountId: accountFields.accountId,
             frequency: values.frequency,
             nextDueDate: values.nextDueDate,
             isActive: true,
             createdAt: new Date(),
             userId,
+            ...authorFields,
           };
 
-          const recurringCollection = collection(firestore, `users/${userId}/recurringTransactions`);
-          await addDocumentNonBlocking(recurringCollection, recurringTransactionData);
+          await backgroundSyncManager.queueWrite({
+              userId,
+              collection: 'recurringTransactions',
+              docId: backgroundSyncManager.generateId(),
+              operation: 'create',
+              data: recurringTransactionData,
+              base: null,
+          });
           
           toast({
               title: "Success",
@@ -176,10 +366,65 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
   }
 
   const handleCategorySelect = (category: string) => {
+    form.setValue("isTransfer", false);
+    form.setValue("isSplit", false);
     form.setValue("Category", category, { shouldValidate: true });
     nextStep('Category');
   };
 
+  // Transfers stay on the category step until both accounts are picked
+  const handleTransferSelect = () => {
+    form.setValue("isTransfer", true);
+    form.setValue("isSplit", false);
+    form.setValue("isRecurring", false); // Transfers can't repeat yet
+    form.setValue("Category", TRANSFER_CATEGORY, { shouldValidate: true });
+  };
+
+  // Splits stay on the category step until they add up to the amount
+  const handleSplitSelect = () => {
+    const category = form.getValues('isTransfer') ? "" : form.getValues('Category');
+    form.setValue("isTransfer", false);
+    form.setValue("isSplit", true);
+    form.setValue("isRecurring", false); // Split transactions can't repeat yet
+    replaceSplits([emptySplit(category), emptySplit()]);
+  };
+
+  const handleSplitCancel = () => {
+    form.setValue("isSplit", false);
+    replaceSplits([]);
+    form.clearErrors('splits');
+  };
+
+  const renderAccountSelect = (name: 'accountId' | 'toAccountId', label: string, allowUnassigned: boolean) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an account" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {allowUnassigned && (
+                <SelectItem value={UNASSIGNED_ACCOUNT_ID}>No account</SelectItem>
+              )}
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
   return (
     <>
       <DrawerHeader className="text-left relative">
@@ -205,7 +450,7 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
                           <FormItem className="flex flex-col justify-center">
                               <FormControl>
                                 <div className="relative">
-                                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-3xl text-muted-foreground">$</span>
+                                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-3xl text-muted-foreground">{getCurrencySymbol(selectedCurrency)}</span>
                                   <Input
                                     {...fieldProps}
                                     type="text"
@@ -240,8 +485,33 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
                   />
                 </div>
 
-                {/* Recurring Toggle - Scrollable Section */}
+                {/* Currency, Account and Recurring Toggle - Scrollable Section */}
                 <div className="flex-shrink-0 space-y-4 mt-4 pb-4">
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between">
+                        <FormLabel className="text-base">Currency</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {currencyOptions.map((code) => (
+                              <SelectItem key={code} value={code}>
+                                {code}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  {accounts.length > 0 && !isTransfer && renderAccountSelect('accountId', 'Account', true)}
+
                   <FormField
                     control={form.control}
                     name="isRecurring"
@@ -323,15 +593,35 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
                   <fieldset className="space-y-6">
                       <legend className="text-sm font-medium text-center mb-4">Category</legend>
                       
+                      {/* Most likely categories, learned from past transactions */}
+                      {learnedSuggestions.length > 0 && (
+                        <div className="space-y-3">
+                          <h3 className="text-sm font-medium text-muted-foreground">Suggested</h3>
+                          <div className="flex flex-wrap gap-2 justify-center">
+                              {learnedSuggestions.map(({ category }) => (
+                                  <Button
+                                      type="button"
+                                      key={category}
+                                      variant={!isSplit && form.watch("Category") === category ? "default" : "secondary"}
+                                      onClick={() => handleCategorySelect(category)}
+                                      className="h-auto py-3 px-4"
+                                  >
+                                      {category}
+                                  </Button>
+                              ))}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Expense Categories */}
                       <div className="space-y-3">
                         <h3 className="text-sm font-medium text-muted-foreground">Expenses</h3>
                         <div className="flex flex-wrap gap-2 justify-center">
-                            {categories.map((cat) => (
+                            {pickerCategories.map((cat) => (
                                 <Button
                                     type="button"
                                     key={cat}
-                                    variant={form.watch("Category") === cat ? "default" : "outline"}
+                                    variant={!isSplit && form.watch("Category") === cat ? "default" : "outline"}
                                     onClick={() => handleCategorySelect(cat)}
                                     className="h-auto py-3 px-4"
                                 >
@@ -345,11 +635,11 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
                       <div className="space-y-3">
                         <h3 className="text-sm font-medium text-muted-foreground">Income</h3>
                         <div className="flex flex-wrap gap-2 justify-center">
-                            {incomeCategories.map((cat) => (
+                            {pickerIncomeCategories.map((cat) => (
                                 <Button
                                     type="button"
                                     key={cat}
-                                    variant={form.watch("Category") === cat ? "default" : "outline"}
+                                    variant={!isSplit && form.watch("Category") === cat ? "default" : "outline"}
                                     onClick={() => handleCategorySelect(cat)}
                                     className="h-auto py-3 px-4"
                                 >
@@ -359,6 +649,140 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
                         </div>
                       </div>
 
+                      {/* Split across categories */}
+                      <div className="space-y-3">
+                        <h3 className="text-sm font-medium text-muted-foreground">Split</h3>
+                        {!isSplit ? (
+                          <div className="flex flex-wrap gap-2 justify-center">
+                              <Button
+                                  type="button"
+                                  variant="outline"
+                                  onClick={handleSplitSelect}
+                                  className="h-auto py-3 px-4"
+                              >
+                                  Across categories
+                              </Button>
+                          </div>
+                        ) : (
+                          <div className="space-y-3">
+                            <p className="text-xs text-muted-foreground text-center">Split transactions are recorded once and can&apos;t be made recurring.</p>
+                            {splitFields.map((splitField, index) => (
+                              <div key={splitField.id} className="flex items-start gap-2">
+                                <FormField
+                                  control={form.control}
+                                  name={`splits.${index}.Category`}
+                                  render={({ field }) => (
+                                    <FormItem className="flex-1 min-w-0">
+                                      <Select onValueChange={field.onChange} value={field.value}>
+                                        <FormControl>
+                                          <SelectTrigger aria-label={`Split ${index + 1} category`}>
+                                            <SelectValue placeholder="Category" />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          <SelectGroup>
+                                            <SelectLabel>Expenses</SelectLabel>
+                                            {pickerCategories.map((cat) => (
+                                              <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                                            ))}
+                                          </SelectGroup>
+                                          {pickerIncomeCategories.length > 0 && (
+                                            <SelectGroup>
+                                              <SelectLabel>Income</SelectLabel>
+                                              {pickerIncomeCategories.map((cat) => (
+                                                <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                                              ))}
+                                            </SelectGroup>
+                                          )}
+                                        </SelectContent>
+                                      </Select>
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={form.control}
+                                  name={`splits.${index}.Amount`}
+                                  render={({ field }) => (
+                                    <FormItem className="w-24">
+                                      <FormControl>
+                                        <Input
+                                          {...field}
+                                          type="text"
+                                          inputMode="decimal"
+                                          placeholder="0.00"
+                                          aria-label={`Split ${index + 1} amount`}
+                                          onChange={(e) => field.onChange(e.target.value.replace(/[^0-9.]/g, ''))}
+                                        />
+                                      </FormControl>
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={form.control}
+                                  name={`splits.${index}.Notes`}
+                                  render={({ field }) => (
+                                    <FormItem className="flex-1 min-w-0">
+                                      <FormControl>
+                                        <Input {...field} placeholder="Note" aria-label={`Split ${index + 1} note`} />
+                                      </FormControl>
+                                    </FormItem>
+                                  )}
+                                />
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => removeSplit(index)}
+                                  disabled={splitFields.length <= 2}
+                                  aria-label={`Remove split ${index + 1}`}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ))}
+                            <div className="flex items-center justify-between">
+                              <Button type="button" variant="ghost" size="sm" onClick={() => appendSplit(emptySplit())}>
+                                <Plus className="mr-1 h-4 w-4" />
+                                Add split
+                              </Button>
+                              <span className={`text-xs ${Math.abs(splitRemaining) < 0.005 ? 'text-muted-foreground' : 'text-destructive'}`}>
+                                {splitRemaining < 0
+                                  ? `${getCurrencySymbol(selectedCurrency)}${Math.abs(splitRemaining).toFixed(2)} over`
+                                  : `${getCurrencySymbol(selectedCurrency)}${splitRemaining.toFixed(2)} left`}
+                              </span>
+                            </div>
+                            <FormMessage className="text-center">{form.formState.errors.splits?.message || form.formState.errors.splits?.root?.message}</FormMessage>
+                            <Button type="button" variant="ghost" size="sm" onClick={handleSplitCancel} className="w-full">
+                              Don&apos;t split
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Transfer between accounts */}
+                      {accounts.length >= 2 && (
+                        <div className="space-y-3">
+                          <h3 className="text-sm font-medium text-muted-foreground">Transfer</h3>
+                          <div className="flex flex-wrap gap-2 justify-center">
+                              <Button
+                                  type="button"
+                                  variant={isTransfer ? "default" : "outline"}
+                                  onClick={handleTransferSelect}
+                                  className="h-auto py-3 px-4"
+                              >
+                                  Between accounts
+                              </Button>
+                          </div>
+                          {isTransfer && (
+                            <div className="space-y-4">
+                              <p className="text-xs text-muted-foreground text-center">Transfers are recorded once and can&apos;t be made recurring.</p>
+                              {renderAccountSelect('accountId', 'From', false)}
+                              {renderAccountSelect('toAccountId', 'To', false)}
+                            </div>
+                          )}
+                        </div>
+                      )}
+
                       <FormMessage className="text-center">{form.formState.errors.Category?.message}</FormMessage>
                   </fieldset>
                   
@@ -368,7 +792,7 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
                         type="button"
                         onClick={() => nextStep('Category')} 
                         className="w-full"
-                        disabled={!form.watch('Category')}
+                        disabled={!isSplit && !form.watch('Category')}
                     >
                         Next
                     </Button>
@@ -400,6 +824,73 @@ export function AddTransactionForm({ setOpen, userId, transactionToEdit, categor
                       );
                     }}
                 />
+                <div className="space-y-2 pb-4">
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="gap-1">
+                          {tag}
+                          <button type="button" onClick={() => removeTag(tag)} aria-label={`Remove tag ${tag}`}>
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <Input
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if ((e.key === 'Enter' || e.key === ',') && normalizeTag(tagInput)) {
+                        e.preventDefault();
+                        addTag(tagInput);
+                      }
+                    }}
+                    placeholder="Add tags, e.g. JB trip"
+                    aria-label="Add a tag"
+                    className="text-center"
+                  />
+                  {tagSuggestions.length > 0 && (
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {tagSuggestions.map(tag => (
+                        <Button key={tag} type="button" variant="outline" size="sm" className="h-7" onClick={() => addTag(tag)}>
+                          <Tag className="mr-1 h-3 w-3" />
+                          {tag}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {learnedCategory && (
+                  <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                    <Wand2 className="h-4 w-4 shrink-0" />
+                    <span className="truncate">Usually {learnedCategory}</span>
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      onClick={() => form.setValue("Category", learnedCategory, { shouldValidate: true })}
+                      className="px-1"
+                    >
+                      Use
+                    </Button>
+                  </div>
+                )}
+                {(suggestedCategory || suggestedNotes || suggestedTags.length > 0) && (
+                  <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                    <Wand2 className="h-4 w-4 shrink-0" />
+                    <span className="truncate">
+                      Rule suggests {[
+                        suggestedCategory,
+                        suggestedNotes && `"${suggestedNotes}"`,
+                        ...suggestedTags.map(tag => `#${tag}`),
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                    <Button type="button" variant="link" size="sm" onClick={applyRuleSuggestion} className="px-1">
+                      Use
+                    </Button>
+                  </div>
+                )}
                  <Button 
                     type="submit" 
                     className="w-full mt-auto" 
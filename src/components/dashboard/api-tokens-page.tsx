@@ -0,0 +1,302 @@
+"use client";
+
+import { useState } from "react";
+import { type ApiToken, type ApiTokenScope } from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import { Plus, Copy, KeyRound, RotateCw, Ban, Loader2 } from "lucide-react";
+import { format, toDate } from "date-fns";
+import { useApiTokens } from "@/features/auth/hooks/useApiTokens";
+import { useToast } from "@/shared/hooks";
+import { API_TOKEN_SCOPES, API_TOKEN_PRESETS } from "@/shared/constants";
+
+type TimestampLike = Date | { seconds: number; nanoseconds: number } | null | undefined;
+
+const formatTimestamp = (value: TimestampLike) => {
+  if (!value) return 'Never';
+  const date = value instanceof Date ? value : toDate(value.seconds * 1000);
+  return format(date, 'MMM d, yyyy HH:mm');
+};
+
+const scopeLabel = (scope: ApiTokenScope) => {
+  return API_TOKEN_SCOPES.find(s => s.value === scope)?.label || scope;
+};
+
+export function ApiTokensPage() {
+  const [isCreateDialogOpen, setCreateDialogOpen] = useState(false);
+  const [tokenName, setTokenName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<ApiTokenScope[]>([...API_TOKEN_PRESETS.CREATE_ONLY]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [revealedToken, setRevealedToken] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const {
+    activeTokens,
+    revokedTokens,
+    isTokensLoading,
+    createToken,
+    revokeToken,
+    rotateToken,
+  } = useApiTokens();
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setSelectedScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const resetCreateForm = () => {
+    setTokenName("");
+    setSelectedScopes([...API_TOKEN_PRESETS.CREATE_ONLY]);
+  };
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    try {
+      const token = await createToken(tokenName, selectedScopes);
+      setCreateDialogOpen(false);
+      resetCreateForm();
+      setRevealedToken(token);
+    } catch (error) {
+      console.error('Failed to create API token:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API token. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    try {
+      await revokeToken(token.id);
+      toast({
+        title: "Token Revoked",
+        description: `"${token.name}" can no longer access your account.`,
+      });
+    } catch (error) {
+      console.error('Failed to revoke API token:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to revoke API token. Please try again.",
+      });
+    }
+  };
+
+  const handleRotate = async (token: ApiToken) => {
+    try {
+      const newToken = await rotateToken(token);
+      setRevealedToken(newToken);
+    } catch (error) {
+      console.error('Failed to rotate API token:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to rotate API token. Please try again.",
+      });
+    }
+  };
+
+  const handleCopyToken = () => {
+    if (!revealedToken) return;
+    navigator.clipboard.writeText(revealedToken);
+    toast({
+      title: "Copied",
+      description: "Token copied to clipboard.",
+    });
+  };
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>API Tokens</DrawerTitle>
+        <DrawerDescription>Tokens let Apple Shortcuts and widgets access your account.</DrawerDescription>
+      </DrawerHeader>
+
+      <Dialog open={!!revealedToken} onOpenChange={(open) => { if (!open) setRevealedToken(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your New Token</DialogTitle>
+            <DialogDescription>
+              Send it as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center w-full gap-2">
+            <Input readOnly value={revealedToken || ""} className="text-xs font-mono" />
+            <Button variant="outline" size="icon" type="button" onClick={handleCopyToken}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Active Tokens</CardTitle>
+                    <CardDescription>{activeTokens.length} active</CardDescription>
+                  </div>
+                  <Dialog
+                    open={isCreateDialogOpen}
+                    onOpenChange={(open) => { setCreateDialogOpen(open); if (!open) resetCreateForm(); }}
+                  >
+                    <DialogTrigger asChild>
+                      <Button>
+                        <Plus className="h-4 w-4 mr-2" />
+                        New Token
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Create API Token</DialogTitle>
+                        <DialogDescription>
+                          Only grant the scopes the Shortcut needs.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="token-name">Name</Label>
+                          <Input
+                            id="token-name"
+                            placeholder="e.g., iPhone Shortcut"
+                            value={tokenName}
+                            onChange={(e) => setTokenName(e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Scopes</Label>
+                          <div className="flex gap-2">
+                            <Button type="button" size="sm" variant="outline" onClick={() => setSelectedScopes([...API_TOKEN_PRESETS.CREATE_ONLY])}>
+                              Create only
+                            </Button>
+                            <Button type="button" size="sm" variant="outline" onClick={() => setSelectedScopes([...API_TOKEN_PRESETS.READ_ONLY])}>
+                              Read only
+                            </Button>
+                            <Button type="button" size="sm" variant="outline" onClick={() => setSelectedScopes([...API_TOKEN_PRESETS.FULL_ACCESS])}>
+                              Full
+                            </Button>
+                          </div>
+                          {API_TOKEN_SCOPES.map((scope) => (
+                            <div key={scope.value} className="flex items-center gap-2">
+                              <Checkbox
+                                id={`scope-${scope.value}`}
+                                checked={selectedScopes.includes(scope.value)}
+                                onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                              />
+                              <Label htmlFor={`scope-${scope.value}`} className="font-normal">
+                                {scope.label}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                      <DialogFooter>
+                        <Button onClick={handleCreate} disabled={isSubmitting}>
+                          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Create Token
+                        </Button>
+                      </DialogFooter>
+                    </DialogContent>
+                  </Dialog>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {isTokensLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : activeTokens.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <KeyRound className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No API tokens yet</p>
+                    <p className="text-sm">Create one to connect an Apple Shortcut</p>
+                  </div>
+                ) : (
+                  activeTokens.map((token) => (
+                    <div key={token.id} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{token.name}</p>
+                          <p className="text-xs text-muted-foreground font-mono">{token.prefix}…</p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => handleRotate(token)} aria-label="Rotate token">
+                            <RotateCw className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleRevoke(token)} aria-label="Revoke token">
+                            <Ban className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="text-xs">
+                            {scopeLabel(scope)}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Created {formatTimestamp(token.createdAt)} · Last used {formatTimestamp(token.lastUsedAt)}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {revokedTokens.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Revoked Tokens</CardTitle>
+                  <CardDescription>These tokens are rejected by the API.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {revokedTokens.map((token) => (
+                    <div key={token.id} className="flex items-center justify-between p-3 border rounded-lg opacity-60">
+                      <div>
+                        <p className="font-medium">{token.name}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{token.prefix}…</p>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Revoked {formatTimestamp(token.revokedAt)}
+                      </p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+}
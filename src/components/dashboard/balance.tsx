@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/shared/utils";
+import { formatCurrency } from "@/shared/utils/currency";
 import { Button } from "../ui/button";
 import { ChevronDown, TrendingUp, TrendingDown } from "lucide-react";
 import { type ChartConfig } from "../ui/chart";
@@ -27,6 +28,7 @@ interface BalanceProps {
   dateRange: DateRange;
   onDateRangeChange: (value: DateRange) => void;
   displayDate: string;
+  currency?: string; // Base currency all amounts are already converted to
 }
 
 export function Balance({
@@ -39,7 +41,8 @@ export function Balance({
   chartConfig,
   dateRange,
   onDateRangeChange,
-  displayDate
+  displayDate,
+  currency
 }: BalanceProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [viewMode, setViewMode] = useState<'spent' | 'left' | 'reality'>(() => {
@@ -79,18 +82,18 @@ export function Balance({
     switch (viewMode) {
       case 'left':
         return {
-          main: `$${Math.abs(amountLeft).toFixed(2)}`,
+          main: formatCurrency(Math.abs(amountLeft), currency),
           suffix: amountLeft >= 0 ? ' left in budget' : ' over budget'
         };
       case 'reality':
         return {
-          main: `$${Math.abs(realityAmount).toFixed(2)}`,
+          main: formatCurrency(Math.abs(realityAmount), currency),
           suffix: realityAmount >= 0 ? ' left after savings' : ' deficit'
         };
       default: // 'spent'
         return {
-          main: `$${totalSpending.toFixed(2)}`,
-          suffix: `/$${budget.toFixed(2)}`
+          main: formatCurrency(totalSpending, currency),
+          suffix: `/${formatCurrency(budget, currency)}`
         };
     }
   };
@@ -151,7 +154,7 @@ export function Balance({
                   <span>Income</span>
                 </div>
                 <div className="text-2xl font-bold text-green-600">
-                  +${realIncome.toFixed(2)}
+                  +{formatCurrency(realIncome, currency)}
                 </div>
               </div>
               <div className="space-y-2 text-right">
@@ -160,7 +163,7 @@ export function Balance({
                   <TrendingDown className="h-4 w-4 text-red-500" />
                 </div>
                 <div className="text-2xl font-bold text-red-600">
-                  -${totalSpending.toFixed(2)}
+                  -{formatCurrency(totalSpending, currency)}
                 </div>
               </div>
             </div>
@@ -178,7 +181,7 @@ export function Balance({
                     <span className="text-muted-foreground">{item.category}</span>
                   </div>
                   <span className="font-medium">
-                    ${item.amount.toFixed(2)}
+                    {formatCurrency(item.amount, currency)}
                   </span>
                 </div>
               ))}
@@ -2,7 +2,15 @@
 "use client";
 
 import { useState, useMemo, useEffect } from "react";
-import { type Budget, type User, type CategoryType } from "@/shared/types";
+import {
+  type Budget,
+  type BudgetRolloverMode,
+  type BudgetSnapshot,
+  type User,
+  type CategoryType,
+  type CategoryOperation,
+  type CategoryOperationKind,
+} from "@/shared/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -29,43 +37,102 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Pencil, Trash2, Plus, TrendingUp, TrendingDown } from "lucide-react";
+import { Pencil, Plus, TrendingUp, TrendingDown, GripVertical, MoreHorizontal, Loader2 } from "lucide-react";
 import { BudgetService } from "@/features/budgets/services/BudgetService";
-import { getBudgetStatus, formatBudgetAmount, validateCategoryName, getCategoryTypeInfo } from "@/shared/utils/budget";
+import { type BudgetAnalytics } from "@/modules/budgets";
+import { useCategoryOperations } from "@/features/categories/hooks";
+import { useToast } from "@/shared/hooks";
+import {
+  getBudgetStatus,
+  formatBudgetAmount,
+  validateCategoryName,
+  getCategoryTypeInfo,
+  getAlertThresholds,
+  formatAlertThresholds,
+  parseAlertThresholds,
+} from "@/shared/utils/budget";
 import { DEFAULT_EXPENSE_CATEGORIES, DEFAULT_INCOME_CATEGORIES } from "@/shared/constants/budget";
+import { BUDGET_ROLLOVER_LABELS, CATEGORY_OPERATIONS, DEFAULT_BASE_CURRENCY } from "@/shared/constants";
+import { getCurrencySymbol } from "@/shared/utils/currency";
+import { canReparent, formatCategoryPath, getCategoryTree } from "@/shared/utils/categories";
+
+// Select value for "no parent", since Select items can't have an empty value
+const TOP_LEVEL = "__top-level__";
 
 export interface BudgetPageProps {
   user: User;
   budgets: Budget[];
   onUpdateIncome: (newIncome: number) => void; // Kept for compatibility but unused
   onUpdateSavings: (newSavings: number) => void; // Kept for compatibility but unused
-  onUpdateBudget: (category: string, newBudget: number, type?: CategoryType) => void;
+  onUpdateBudget: (category: string, newBudget: number, type?: CategoryType, rollover?: BudgetRolloverMode, alertThresholds?: number[]) => void;
   onAddCategory: (category: string, type?: CategoryType) => void;
   onDeleteCategory: (category: string) => void;
+  onSetCategoryParent: (category: string, parent: string | null) => void;
+  snapshots?: Array<Pick<BudgetSnapshot, 'month' | 'entries'>>; // Oldest first, ending with this month
+  monthlyTrend?: BudgetAnalytics['monthlyTrend'];
+  carriedIn?: Record<string, number>; // Rolled over into this month, per category
 }
 
 interface BudgetEditDrawerProps {
   category: string;
   currentBudget: number;
   currentType: CategoryType;
-  onUpdateBudget: (category: string, newBudget: number, type: CategoryType) => void;
+  onUpdateBudget: (category: string, newBudget: number, type: CategoryType, rollover: BudgetRolloverMode, alertThresholds?: number[]) => void;
+  currentRollover: BudgetRolloverMode;
+  currentAlertThresholds: number[];
+  carriedIn: number;
+  currentParent: string | null;
+  parentOptions: string[]; // Categories it can be moved under
+  onSetParent: (category: string, parent: string | null) => void;
+  currency: string;
 }
 
-function BudgetEditDrawer({ category, currentBudget, currentType, onUpdateBudget }: BudgetEditDrawerProps) {
+function BudgetEditDrawer({ category, currentBudget, currentType, onUpdateBudget, currentRollover, currentAlertThresholds, carriedIn, currentParent, parentOptions, onSetParent, currency }: BudgetEditDrawerProps) {
   const [budgetValue, setBudgetValue] = useState(String(currentBudget));
   const [categoryType, setCategoryType] = useState<CategoryType>(currentType);
+  const [rollover, setRollover] = useState<BudgetRolloverMode>(currentRollover);
+  // Compared as text, since the thresholds array is rebuilt on every render
+  const currentAlertText = formatAlertThresholds(currentAlertThresholds);
+  const [alertText, setAlertText] = useState(currentAlertText);
+  const [parent, setParent] = useState(currentParent || TOP_LEVEL);
 
   // Reset state when category changes
   useEffect(() => {
     setBudgetValue(String(currentBudget));
     setCategoryType(currentType);
-  }, [category, currentBudget, currentType]);
+    setRollover(currentRollover);
+    setAlertText(currentAlertText);
+    setParent(currentParent || TOP_LEVEL);
+  }, [category, currentBudget, currentType, currentRollover, currentAlertText, currentParent]);
+
+  const alertThresholds = parseAlertThresholds(alertText);
 
   const handleUpdate = () => {
     const newValue = parseFloat(budgetValue);
-    if (!isNaN(newValue) && newValue >= 0) {
-      onUpdateBudget(category, newValue, categoryType);
+    if (!isNaN(newValue) && newValue >= 0 && alertThresholds) {
+      const newParent = parent === TOP_LEVEL ? null : parent;
+      if (newParent !== currentParent) {
+        onSetParent(category, newParent);
+      }
+      // Untouched thresholds aren't saved, so budgets keep following the defaults
+      const alertsChanged = formatAlertThresholds(alertThresholds) !== currentAlertText;
+      onUpdateBudget(category, newValue, categoryType, rollover, alertsChanged ? alertThresholds : undefined);
     }
   };
 
@@ -110,11 +177,76 @@ function BudgetEditDrawer({ category, currentBudget, currentType, onUpdateBudget
           </Select>
         </div>
 
+        {/* Parent Category */}
+        {parentOptions.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Parent Category</label>
+            <Select value={parent} onValueChange={setParent}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                {parentOptions.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Spending here also counts towards the parent&apos;s budget.
+            </p>
+          </div>
+        )}
+
+        {/* Rollover */}
+        {categoryType === 'expense' && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Rollover</label>
+            <Select value={rollover} onValueChange={(value: BudgetRolloverMode) => setRollover(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(BUDGET_ROLLOVER_LABELS) as BudgetRolloverMode[]).map(mode => (
+                  <SelectItem key={mode} value={mode}>{BUDGET_ROLLOVER_LABELS[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {carriedIn !== 0 && (
+              <p className="text-xs text-muted-foreground">
+                {formatBudgetAmount(carriedIn, true, currency)} rolled over from last month.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Alert Thresholds */}
+        {categoryType === 'expense' && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Alert at (%)</label>
+            <Input
+              value={alertText}
+              onChange={(e) => setAlertText(e.target.value)}
+              placeholder="e.g. 80, 100"
+              inputMode="numeric"
+            />
+            {alertThresholds ? (
+              <p className="text-xs text-muted-foreground">
+                A push notification is sent the first time spending passes each percentage in a month. Leave empty for no alerts.
+              </p>
+            ) : (
+              <p className="text-xs text-destructive">
+                Enter whole percentages between 1 and 1000, separated by commas.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Budget Amount */}
         <div className="space-y-2">
           <label className="text-sm font-medium">Monthly Budget</label>
           <div className="relative">
-            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-3xl text-muted-foreground font-bold">$</span>
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-3xl text-muted-foreground font-bold">{getCurrencySymbol(currency)}</span>
             <Input
               type="number"
               step="0.01"
@@ -131,7 +263,7 @@ function BudgetEditDrawer({ category, currentBudget, currentType, onUpdateBudget
         </div>
       </div>
       <div className="p-4 pt-0">
-        <Button className="w-full" onClick={handleUpdate}>
+        <Button className="w-full" onClick={handleUpdate} disabled={!alertThresholds}>
           Update Budget
         </Button>
       </div>
@@ -144,30 +276,53 @@ export function BudgetPage({
   budgets, 
   onUpdateBudget, 
   onAddCategory, 
-  onDeleteCategory 
+  onDeleteCategory,
+  onSetCategoryParent,
+  snapshots = [],
+  monthlyTrend = [],
+  carriedIn = {},
 }: BudgetPageProps) {
   const [newCategory, setNewCategory] = useState("");
   const [newCategoryType, setNewCategoryType] = useState<CategoryType>("expense");
   const [isCategoryManagerOpen, setCategoryManagerOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<string | null>(null);
   const [validationError, setValidationError] = useState<string>("");
+  const [draggedCategory, setDraggedCategory] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [categoryAction, setCategoryAction] = useState<{ kind: CategoryOperationKind; category: string } | null>(null);
+  const [actionValue, setActionValue] = useState("");
+  const [historyMonth, setHistoryMonth] = useState<string | null>(null);
+  const { toast } = useToast();
+  const {
+    activeOperation,
+    interruptedOperations,
+    canEdit,
+    renameCategory,
+    mergeCategories,
+    resumeOperation,
+    setCategoryArchived,
+  } = useCategoryOperations();
   
   // Get all categories (user categories + default income categories)
   const userCategories = user?.categories || [];
   const userIncomeCategories = user?.incomeCategories || DEFAULT_INCOME_CATEGORIES;
+  const baseCurrency = user?.baseCurrency || DEFAULT_BASE_CURRENCY;
   const allCategories = [...userCategories, ...userIncomeCategories];
+  const archivedCategories = user?.archivedCategories || [];
+  const categoryParents = useMemo(() => user?.categoryParents || {}, [user?.categoryParents]);
+  const categoryTree = getCategoryTree(allCategories, categoryParents);
 
   // Calculate totals using BudgetService
   const totalIncomeBudget = useMemo(() => 
-    BudgetService.getTotalIncomeBudget(budgets), [budgets]
+    BudgetService.getTotalIncomeBudget(budgets, categoryParents), [budgets, categoryParents]
   );
   
   const totalExpenseBudget = useMemo(() => 
-    BudgetService.getTotalExpenseBudget(budgets), [budgets]
+    BudgetService.getTotalExpenseBudget(budgets, categoryParents), [budgets, categoryParents]
   );
   
   const plannedSavings = useMemo(() => 
-    BudgetService.getPlannedSavings(budgets), [budgets]
+    BudgetService.getPlannedSavings(budgets, categoryParents), [budgets, categoryParents]
   );
 
   const budgetStatus = getBudgetStatus(totalIncomeBudget, totalExpenseBudget);
@@ -198,28 +353,130 @@ export function BudgetPage({
     return budgets.find(b => b.Category === category)?.type ?? 'expense';
   };
   
-  const handleUpdateAndCloseDrawer = (category: string, newBudget: number, type: CategoryType) => {
-    onUpdateBudget(category, newBudget, type);
+  // Parents are categories of the same type that aren't inside the category itself
+  const getParentOptions = (category: string) => {
+    const incomeList: string[] = [...userIncomeCategories];
+    const sameType = incomeList.includes(category) ? incomeList : userCategories;
+    return sameType.filter(option => option !== category && canReparent(category, option, categoryParents, sameType));
+  };
+
+  const canDropOn = (target: string | null) => {
+    if (!draggedCategory || target === draggedCategory) return false;
+    if (target === null) return !!categoryParents[draggedCategory];
+    return getParentOptions(draggedCategory).includes(target) && categoryParents[draggedCategory] !== target;
+  };
+
+  const handleDrop = (target: string | null) => {
+    if (draggedCategory && canDropOn(target)) {
+      onSetCategoryParent(draggedCategory, target);
+    }
+    setDraggedCategory(null);
+    setDropTarget(null);
+  };
+
+  // Categories of the same type another can be merged into
+  const getMergeOptions = (category: string) => {
+    const incomeList: string[] = [...userIncomeCategories];
+    const sameType = incomeList.includes(category) ? incomeList : userCategories;
+    return sameType.filter(option => option !== category);
+  };
+
+  const openCategoryAction = (kind: CategoryOperationKind, category: string) => {
+    setCategoryAction({ kind, category });
+    setActionValue(kind === 'rename' ? category : "");
+  };
+
+  const showOperationResult = (operation: CategoryOperation) => {
+    toast({
+      title: operation.kind === 'rename' ? "Category Renamed" : "Categories Merged",
+      description: `"${operation.from}" is now "${operation.to}" across ${operation.processed} transactions.`,
+    });
+  };
+
+  const handleCategoryAction = async () => {
+    if (!categoryAction || !actionValue.trim()) return;
+    const { kind, category } = categoryAction;
+    setCategoryAction(null);
+    try {
+      const operation = kind === 'rename'
+        ? await renameCategory(category, actionValue)
+        : await mergeCategories(category, actionValue);
+      showOperationResult(operation);
+    } catch (error) {
+      console.error(`Failed to ${kind} category:`, error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${kind} category. Please try again.`,
+      });
+    }
+  };
+
+  const handleResume = async (operation: CategoryOperation) => {
+    try {
+      showOperationResult(await resumeOperation(operation));
+    } catch (error) {
+      console.error('Failed to resume category change:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resume. Please try again.",
+      });
+    }
+  };
+
+  const handleToggleArchived = async (category: string) => {
+    const archive = !archivedCategories.includes(category);
+    try {
+      await setCategoryArchived(category, archive);
+      toast({
+        title: archive ? "Category Archived" : "Category Restored",
+        description: archive
+          ? `"${category}" is hidden from pickers but its history is kept.`
+          : `"${category}" can be picked again.`,
+      });
+    } catch (error) {
+      console.error('Failed to archive category:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to archive category. Please try again.",
+      });
+    }
+  };
+
+  const handleUpdateAndCloseDrawer = (category: string, newBudget: number, type: CategoryType, rollover: BudgetRolloverMode, alertThresholds?: number[]) => {
+    onUpdateBudget(category, newBudget, type, rollover, alertThresholds);
     setEditingCategory(null);
   };
 
+  // Month history, newest first; this month is shown until another is picked
+  const historyMonths = [...monthlyTrend].reverse();
+  const selectedMonth = historyMonth || historyMonths[0]?.month;
+  const selectedTrend = historyMonths.find(month => month.month === selectedMonth);
+  const selectedSnapshot = snapshots.find(snapshot => snapshot.month === selectedMonth);
+  const formatMonth = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  };
+
   // Group categories by type for display
   const incomeBudgets = budgets.filter(b => b.type === 'income');
   const expenseBudgets = budgets.filter(b => (b.type || 'expense') === 'expense');
   
   // Add default income categories that don't have budgets yet
   const defaultIncomeCategoriesToShow = DEFAULT_INCOME_CATEGORIES.filter(
-    category => !budgets.some(b => b.Category === category)
+    category => !budgets.some(b => b.Category === category) && !archivedCategories.includes(category)
   );
 
   // Add default expense categories that don't have budgets yet
   const defaultExpenseCategoriesToShow = DEFAULT_EXPENSE_CATEGORIES.filter(
-    category => !budgets.some(b => b.Category === category)
+    category => !budgets.some(b => b.Category === category) && !archivedCategories.includes(category)
   );
 
   // Add user expense categories that don't have budgets yet
   const userExpenseCategoriesToShow = userCategories.filter(
-    category => !budgets.some(b => b.Category === category)
+    category => !budgets.some(b => b.Category === category) && !archivedCategories.includes(category)
   );
 
   return (
@@ -235,13 +492,13 @@ export function BudgetPage({
             <div className="space-y-1">
               <div className="text-sm text-muted-foreground">Total Income Budget</div>
               <div className="text-2xl font-bold text-green-600">
-                {formatBudgetAmount(totalIncomeBudget)}
+                {formatBudgetAmount(totalIncomeBudget, false, baseCurrency)}
               </div>
             </div>
             <div className="space-y-1">
               <div className="text-sm text-muted-foreground">Total Expense Budget</div>
               <div className="text-2xl font-bold text-red-600">
-                {formatBudgetAmount(totalExpenseBudget)}
+                {formatBudgetAmount(totalExpenseBudget, false, baseCurrency)}
               </div>
             </div>
           </div>
@@ -251,7 +508,7 @@ export function BudgetPage({
               <div className="space-y-1">
                 <div className="text-sm text-muted-foreground">Planned Savings</div>
                 <div className={`text-xl font-bold ${budgetStatus.color}`}>
-                  {formatBudgetAmount(plannedSavings, true)}
+                  {formatBudgetAmount(plannedSavings, true, baseCurrency)}
                 </div>
               </div>
               <Badge variant="outline" className={`${budgetStatus.bgColor} ${budgetStatus.color}`}>
@@ -281,7 +538,7 @@ export function BudgetPage({
             <DrawerContent>
               <DrawerHeader>
                 <DrawerTitle>Manage Categories</DrawerTitle>
-                <DrawerDescription>Add or remove budget categories</DrawerDescription>
+                <DrawerDescription>Add or remove budget categories. Drag one onto another to nest it.</DrawerDescription>
               </DrawerHeader>
               <div className="px-4 space-y-4">
                 {/* Add Category Form */}
@@ -315,35 +572,113 @@ export function BudgetPage({
                     <p className="text-sm text-red-600">{validationError}</p>
                   )}
                 </div>
+
+                {/* Rename and merge progress */}
+                {activeOperation && (
+                  <div className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2 font-medium">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        {CATEGORY_OPERATIONS.LABELS[activeOperation.kind]} &quot;{activeOperation.from}&quot; to &quot;{activeOperation.to}&quot;
+                      </span>
+                      <span className="text-muted-foreground">
+                        {activeOperation.processed}/{activeOperation.total}
+                      </span>
+                    </div>
+                    <Progress value={activeOperation.total ? (activeOperation.processed / activeOperation.total) * 100 : 0} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      Updating {activeOperation.step === 'done' ? 'complete' : activeOperation.step}. You can resume later if this is interrupted.
+                    </p>
+                  </div>
+                )}
+                {!activeOperation && interruptedOperations.map(operation => (
+                  <div key={operation.id} className="flex items-center justify-between gap-2 rounded-md border border-dashed p-3 text-sm">
+                    <span>
+                      {CATEGORY_OPERATIONS.LABELS[operation.kind]} &quot;{operation.from}&quot; to &quot;{operation.to}&quot; was interrupted
+                      {operation.total > 0 && ` at ${operation.processed}/${operation.total}`}.
+                    </span>
+                    <Button size="sm" variant="outline" disabled={!canEdit} onClick={() => handleResume(operation)}>
+                      Resume
+                    </Button>
+                  </div>
+                ))}
               </div>
               
               {/* Categories List */}
               <ScrollArea className="h-[60vh] mt-4 scrollbar-hide">
                 <div className="space-y-2 px-4">
-                  {allCategories.map((category: string) => {
+                  {draggedCategory && categoryParents[draggedCategory] && (
+                    <div
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDropTarget(TOP_LEVEL);
+                      }}
+                      onDragLeave={() => setDropTarget(null)}
+                      onDrop={() => handleDrop(null)}
+                      className={`rounded-md border border-dashed p-3 text-center text-sm text-muted-foreground ${dropTarget === TOP_LEVEL ? 'bg-muted' : ''}`}
+                    >
+                      Drop here to move to the top level
+                    </div>
+                  )}
+                  {categoryTree.map(({ name: category, depth }) => {
                     const categoryType = getCategoryType(category);
                     const typeInfo = getCategoryTypeInfo(categoryType);
-                    // Allow deletion of all categories now - no restrictions
-                    const isDeletable = true;
+                    const isArchived = archivedCategories.includes(category);
                     
                     return (
-                      <div key={category} className="flex items-center justify-between rounded-md border p-3">
+                      <div
+                        key={category}
+                        draggable
+                        onDragStart={() => setDraggedCategory(category)}
+                        onDragEnd={() => {
+                          setDraggedCategory(null);
+                          setDropTarget(null);
+                        }}
+                        onDragOver={(e) => {
+                          if (!canDropOn(category)) return;
+                          e.preventDefault();
+                          setDropTarget(category);
+                        }}
+                        onDragLeave={() => setDropTarget(null)}
+                        onDrop={() => handleDrop(category)}
+                        style={{ marginLeft: `${depth * 1.5}rem` }}
+                        className={`flex items-center justify-between rounded-md border p-3 ${dropTarget === category ? 'border-primary bg-muted' : ''} ${draggedCategory === category ? 'opacity-50' : ''}`}
+                      >
                         <div className="flex items-center gap-2">
+                          <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
                           <span className="font-medium text-sm">{category}</span>
                           <Badge variant="outline" className={`text-xs ${typeInfo.badgeClass}`}>
                             {typeInfo.label}
                           </Badge>
+                          {isArchived && (
+                            <Badge variant="secondary" className="text-xs">
+                              Archived
+                            </Badge>
+                          )}
                         </div>
-                        {isDeletable && (
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            className="h-8 w-8 text-destructive" 
-                            onClick={() => onDeleteCategory(category)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        )}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={!canEdit || !!activeOperation} aria-label={`More options for ${category}`}>
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onSelect={() => openCategoryAction('rename', category)}>
+                              Rename
+                            </DropdownMenuItem>
+                            {getMergeOptions(category).length > 0 && (
+                              <DropdownMenuItem onSelect={() => openCategoryAction('merge', category)}>
+                                Merge into...
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem onSelect={() => handleToggleArchived(category)}>
+                              {isArchived ? 'Unarchive' : 'Archive'}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => onDeleteCategory(category)} className="text-destructive">
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       </div>
                     );
                   })}
@@ -360,6 +695,47 @@ export function BudgetPage({
         </CardHeader>
 
         <CardContent className="space-y-6 pb-4">
+          {/* Rename and Merge Dialog */}
+          <Dialog open={!!categoryAction} onOpenChange={(open) => !open && setCategoryAction(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {categoryAction?.kind === 'merge' ? 'Merge' : 'Rename'} {categoryAction?.category}
+                </DialogTitle>
+                <DialogDescription>
+                  {categoryAction?.kind === 'merge'
+                    ? 'Its transactions, recurring items, rules and budget move to the category you pick.'
+                    : 'Its transactions, recurring items, rules and budget are updated to the new name.'}
+                </DialogDescription>
+              </DialogHeader>
+              {categoryAction?.kind === 'merge' ? (
+                <Select value={actionValue} onValueChange={setActionValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getMergeOptions(categoryAction.category).map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  value={actionValue}
+                  onChange={(e) => setActionValue(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCategoryAction()}
+                  placeholder="New category name..."
+                  autoFocus
+                />
+              )}
+              <DialogFooter>
+                <Button onClick={handleCategoryAction} disabled={!actionValue.trim() || actionValue === categoryAction?.category}>
+                  {categoryAction?.kind === 'merge' ? 'Merge' : 'Rename'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
           {/* Budget Edit Drawer */}
           <Drawer open={!!editingCategory} onOpenChange={(isOpen) => !isOpen && setEditingCategory(null)}>
             {editingCategory && (
@@ -368,6 +744,13 @@ export function BudgetPage({
                 currentBudget={getBudgetForCategory(editingCategory)}
                 currentType={getCategoryType(editingCategory)}
                 onUpdateBudget={handleUpdateAndCloseDrawer}
+                currentRollover={budgets.find(b => b.Category === editingCategory)?.rollover || 'none'}
+                currentAlertThresholds={getAlertThresholds(budgets.find(b => b.Category === editingCategory))}
+                carriedIn={carriedIn[editingCategory] || 0}
+                currentParent={categoryParents[editingCategory] || null}
+                parentOptions={getParentOptions(editingCategory)}
+                onSetParent={onSetCategoryParent}
+                currency={baseCurrency}
               />
             )}
           </Drawer>
@@ -387,10 +770,10 @@ export function BudgetPage({
                     onClick={() => setEditingCategory(budget.Category)}
                     className="flex items-center justify-between gap-4 w-full p-3 rounded-md border hover:bg-muted/50 transition-colors"
                   >
-                    <span className="font-medium truncate pr-2">{budget.Category}</span>
+                    <span className="font-medium truncate pr-2">{formatCategoryPath(budget.Category, categoryParents, allCategories)}</span>
                     <div className="flex items-center gap-2 flex-shrink-0">
                       <span className="font-medium">
-                        ${formatBudgetAmount(budget.MonthlyBudget).replace('$', '')}
+                        {formatBudgetAmount(budget.MonthlyBudget, false, baseCurrency)}
                       </span>
                     </div>
                   </button>
@@ -403,10 +786,10 @@ export function BudgetPage({
                     onClick={() => setEditingCategory(category)}
                     className="flex items-center justify-between gap-4 w-full p-3 rounded-md border hover:bg-muted/50 transition-colors"
                   >
-                    <span className="font-medium truncate pr-2">{category}</span>
+                    <span className="font-medium truncate pr-2">{formatCategoryPath(category, categoryParents, allCategories)}</span>
                     <div className="flex items-center gap-2 flex-shrink-0">
                       <span className="font-medium text-muted-foreground">
-                        ${formatBudgetAmount(0).replace('$', '')}
+                        {formatBudgetAmount(0, false, baseCurrency)}
                       </span>
                     </div>
                   </button>
@@ -430,11 +813,21 @@ export function BudgetPage({
                     onClick={() => setEditingCategory(budget.Category)}
                     className="flex items-center justify-between gap-4 w-full p-3 rounded-md border hover:bg-muted/50 transition-colors"
                   >
-                    <span className="font-medium truncate pr-2">{budget.Category}</span>
+                    <span className="font-medium truncate pr-2">{formatCategoryPath(budget.Category, categoryParents, allCategories)}</span>
                     <div className="flex items-center gap-2 flex-shrink-0">
+                      {!!carriedIn[budget.Category] && (
+                        <span className={`text-xs ${carriedIn[budget.Category] > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatBudgetAmount(carriedIn[budget.Category], true, baseCurrency)}
+                        </span>
+                      )}
                       <span className="font-medium">
-                        ${formatBudgetAmount(budget.MonthlyBudget).replace('$', '')}
+                        {formatBudgetAmount(budget.MonthlyBudget, false, baseCurrency)}
                       </span>
+                      {budget.rollover && budget.rollover !== 'none' && (
+                        <Badge variant="outline" className="text-xs">
+                          Rollover
+                        </Badge>
+                      )}
                     </div>
                   </button>
                 ))}
@@ -446,10 +839,10 @@ export function BudgetPage({
                     onClick={() => setEditingCategory(category)}
                     className="flex items-center justify-between gap-4 w-full p-3 rounded-md border hover:bg-muted/50 transition-colors"
                   >
-                    <span className="font-medium truncate pr-2">{category}</span>
+                    <span className="font-medium truncate pr-2">{formatCategoryPath(category, categoryParents, allCategories)}</span>
                     <div className="flex items-center gap-2 flex-shrink-0">
                       <span className="font-medium text-muted-foreground">
-                        ${formatBudgetAmount(0).replace('$', '')}
+                        {formatBudgetAmount(0, false, baseCurrency)}
                       </span>
                       <Badge variant="outline" className="text-xs">
                         Custom
@@ -465,10 +858,10 @@ export function BudgetPage({
                     onClick={() => setEditingCategory(category)}
                     className="flex items-center justify-between gap-4 w-full p-3 rounded-md border hover:bg-muted/50 transition-colors"
                   >
-                    <span className="font-medium truncate pr-2">{category}</span>
+                    <span className="font-medium truncate pr-2">{formatCategoryPath(category, categoryParents, allCategories)}</span>
                     <div className="flex items-center gap-2 flex-shrink-0">
                       <span className="font-medium text-muted-foreground">
-                        ${formatBudgetAmount(0).replace('$', '')}
+                        {formatBudgetAmount(0, false, baseCurrency)}
                       </span>
                     </div>
                   </button>
@@ -494,6 +887,65 @@ export function BudgetPage({
           )}
         </CardContent>
       </Card>
+
+      {/* Month-by-month history */}
+      {selectedTrend && (
+        <Card className="border-none shadow-none">
+          <CardHeader className="flex-row items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Budget History</CardTitle>
+              <CardDescription>What each month had, spent and rolled over</CardDescription>
+            </div>
+            <Select value={selectedMonth} onValueChange={setHistoryMonth}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {historyMonths.map(({ month }) => (
+                  <SelectItem key={month} value={month}>{formatMonth(month)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="space-y-4 pb-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">Budgeted</div>
+                <div className="font-bold">{formatBudgetAmount(selectedTrend.budgeted, false, baseCurrency)}</div>
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">Spent</div>
+                <div className="font-bold">{formatBudgetAmount(selectedTrend.spent, false, baseCurrency)}</div>
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">Left</div>
+                <div className={`font-bold ${selectedTrend.remaining < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatBudgetAmount(selectedTrend.remaining, true, baseCurrency)}
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              {(selectedSnapshot?.entries || []).map(entry => (
+                <div key={entry.Category} className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{formatCategoryPath(entry.Category, categoryParents, allCategories)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatBudgetAmount(entry.budgeted, false, baseCurrency)} budgeted
+                      {entry.carriedIn !== 0 && `, ${formatBudgetAmount(entry.carriedIn, true, baseCurrency)} rolled in`}
+                      {`, ${formatBudgetAmount(entry.spent, false, baseCurrency)} spent`}
+                    </div>
+                  </div>
+                  {entry.rollover !== 'none' && (
+                    <span className={`flex-shrink-0 text-xs ${entry.carriedOut < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatBudgetAmount(entry.carriedOut, true, baseCurrency)} to next month
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,241 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
+import { ChevronDown, Loader2, X } from "lucide-react";
+import { useFirestore } from "@/firebase";
+import { useToast } from "@/shared/hooks";
+import {
+  BULK_CONSTANTS,
+  TRANSACTION_SUCCESS_MESSAGES,
+  TransactionService,
+  useBulkTransactions,
+  type BulkOperationResult,
+  type BulkTransactionOperation,
+} from "@/modules/transactions";
+
+export interface BulkActionsBarProps {
+  userId?: string;
+  selectedIds: string[];
+  filterCount: number; // Transactions in the current period, loaded or not
+  onSelectAllInFilter: () => void;
+  onClearSelection: () => void;
+  categories: string[];
+  incomeCategories: string[];
+}
+
+type BulkAction = Exclude<BulkTransactionOperation['type'], 'update'> | 'changeType';
+
+const ACTION_TITLES: Record<BulkAction, string> = {
+  categorize: 'Recategorize',
+  changeType: 'Change Type',
+  shiftDates: 'Shift Dates',
+  delete: 'Delete',
+};
+
+export function BulkActionsBar({
+  userId,
+  selectedIds,
+  filterCount,
+  onSelectAllInFilter,
+  onClearSelection,
+  categories,
+  incomeCategories,
+}: BulkActionsBarProps) {
+  const firestore = useFirestore();
+  const transactionService = useMemo(() => new TransactionService(firestore), [firestore]);
+  const { isApplying, applyOperation, undoOperation } = useBulkTransactions({ transactionService, userId });
+  const { toast } = useToast();
+
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [category, setCategory] = useState("");
+  const [type, setType] = useState<'income' | 'expense'>('expense');
+  const [shiftDays, setShiftDays] = useState("1");
+
+  const allCategories = useMemo(
+    () => Array.from(new Set([...categories, ...incomeCategories])),
+    [categories, incomeCategories]
+  );
+  const typeCategories = type === 'income' ? incomeCategories : categories;
+  const count = selectedIds.length;
+  const label = `${count} transaction${count === 1 ? '' : 's'}`;
+
+  const openAction = (nextAction: BulkAction) => {
+    setCategory("");
+    setShiftDays("1");
+    setAction(nextAction);
+  };
+
+  const buildOperation = (): BulkTransactionOperation | null => {
+    switch (action) {
+      case 'categorize':
+        return { type: 'categorize', transactionIds: selectedIds, updateData: { Category: category } };
+      case 'changeType':
+        return { type: 'update', transactionIds: selectedIds, updateData: { Type: type, Category: category } };
+      case 'shiftDates':
+        return { type: 'shiftDates', transactionIds: selectedIds, shiftDays: parseInt(shiftDays, 10) };
+      case 'delete':
+        return { type: 'delete', transactionIds: selectedIds };
+      default:
+        return null;
+    }
+  };
+
+  // One toast per operation, with a single undo for everything it changed
+  const showResult = (result: BulkOperationResult) => {
+    const message = result.type === 'delete'
+      ? TRANSACTION_SUCCESS_MESSAGES.BULK_DELETED
+      : TRANSACTION_SUCCESS_MESSAGES.BULK_UPDATED;
+
+    toast({
+      title: "Success",
+      description: `${message} (${result.affected} changed${result.skipped ? `, ${result.skipped} transfers skipped` : ''})`,
+      duration: BULK_CONSTANTS.UNDO_TOAST_DURATION,
+      ...(result.affected > 0 && {
+        action: (
+          <ToastAction altText="Undo" onClick={() => { undoOperation(result).catch(() => {}); }}>
+            Undo
+          </ToastAction>
+        ),
+      }),
+    });
+  };
+
+  const handleApply = async () => {
+    const operation = buildOperation();
+    if (!operation) return;
+
+    try {
+      const result = await applyOperation(operation);
+      setAction(null);
+      onClearSelection();
+      showResult(result);
+    } catch {
+      // useBulkTransactions already shows the error
+    }
+  };
+
+  const needsCategory = action === 'categorize' || action === 'changeType';
+
+  return (
+    <div className="flex items-center justify-between gap-2 rounded-[var(--radius)] bg-primary/10 px-3 py-2 mb-2">
+      <div className="text-sm">
+        <span className="font-medium">{count} selected</span>
+        {count < filterCount && (
+          <Button variant="link" size="sm" className="h-auto p-0 ml-2" onClick={onSelectAllInFilter}>
+            Select all {filterCount}
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" disabled={count === 0 || isApplying}>
+              {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Actions
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => openAction('categorize')}>Recategorize</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => openAction('changeType')}>Change type</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => openAction('shiftDates')}>Shift dates</DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => openAction('delete')} className="text-destructive">
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClearSelection} aria-label="Clear selection">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={!!action} onOpenChange={(open) => { if (!open) setAction(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action ? ACTION_TITLES[action] : ''}</DialogTitle>
+            <DialogDescription>
+              {action === 'delete'
+                ? `Delete ${label}? You can undo this right after.`
+                : `Applies to ${label}. Transfers keep their own type and category.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {action === 'changeType' && (
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(value) => { setType(value as 'income' | 'expense'); setCategory(""); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {needsCategory && (
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(action === 'changeType' ? typeCategories : allCategories).map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {action === 'shiftDates' && (
+              <div className="space-y-2">
+                <Label htmlFor="shift-days">Days</Label>
+                <Input
+                  id="shift-days"
+                  type="number"
+                  inputMode="numeric"
+                  value={shiftDays}
+                  onChange={(e) => setShiftDays(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Use a negative number to move dates earlier.</p>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleApply}
+              disabled={isApplying || (needsCategory && !category)}
+              variant={action === 'delete' ? 'destructive' : 'default'}
+            >
+              {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {action === 'delete' ? 'Delete' : 'Apply'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
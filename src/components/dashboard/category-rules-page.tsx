@@ -0,0 +1,562 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  type CategoryRule,
+  type CategoryType,
+  type RuleCondition,
+  type RuleConditionField,
+  type RuleConditionOperator,
+  type Transaction,
+} from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, X, Loader2, Wand2 } from "lucide-react";
+import { useCategoryRules, type CategoryModelState } from "@/features/rules/hooks";
+import { type CategoryRuleDto } from "@/features/rules/services";
+import { useToast } from "@/shared/hooks";
+import { LEARNED_CATEGORIES, RULE_CONDITION_FIELDS, RULE_OPERATOR_LABELS } from "@/shared/constants";
+import { formatCurrency } from "@/shared/utils/currency";
+import { getRuleChanges, previewRule, validateRule } from "@/shared/utils/rules";
+import { formatTags, parseTags } from "@/shared/utils/tags";
+
+export interface CategoryRulesPageProps {
+  categories: string[];
+  incomeCategories: string[];
+  transactions: Transaction[]; // History the rule preview is checked against
+  categoryModel?: CategoryModelState;
+}
+
+const NEW_RULE = 'new';
+const KEEP = 'keep';
+const PREVIEW_LIMIT = 5;
+
+const emptyCondition = (): RuleCondition => ({ field: 'notes', operator: 'contains', value: '' });
+
+const emptyDraft = (): CategoryRuleDto => ({
+  name: '',
+  conditions: [emptyCondition()],
+  actions: { category: null, type: null, notes: null, tags: null },
+});
+
+const fieldLabel = (field: RuleConditionField) =>
+  RULE_CONDITION_FIELDS.find(f => f.value === field)?.label || field;
+
+const describeCondition = (condition: RuleCondition) =>
+  `${fieldLabel(condition.field)} ${RULE_OPERATOR_LABELS[condition.operator]} "${condition.value}"`;
+
+const describeActions = (rule: CategoryRuleDto) =>
+  [
+    rule.actions.category ? `Category: ${rule.actions.category}` : rule.actions.type ? `Type: ${rule.actions.type}` : null,
+    rule.actions.notes ? `Notes: "${rule.actions.notes}"` : null,
+    rule.actions.tags?.length ? `Tags: ${formatTags(rule.actions.tags)}` : null,
+  ].filter(Boolean).join(' · ');
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+export function CategoryRulesPage({ categories, incomeCategories, transactions, categoryModel }: CategoryRulesPageProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CategoryRuleDto>(emptyDraft);
+  // As typed, so commas and spaces aren't tidied away mid-word
+  const [tagsText, setTagsText] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<CategoryRule | null>(null);
+  const { toast } = useToast();
+
+  const {
+    rules,
+    canEdit,
+    isRulesLoading,
+    createRule,
+    updateRule,
+    setRuleActive,
+    deleteRule,
+    moveRule,
+  } = useCategoryRules();
+
+  const draftError = validateRule(draft);
+
+  // Checked against history as soon as every condition has a value
+  const previewRuleDraft = useMemo(() => {
+    const canPreview = draft.conditions.length > 0 && draft.conditions.every(condition => condition.value.trim());
+    if (!canPreview) return null;
+    return { ...draft, id: NEW_RULE, order: 0, isActive: true, createdAt: new Date() };
+  }, [draft]);
+
+  // Leave-one-out over the latest transactions, worked out when the page opens
+  const accuracy = useMemo(
+    () => (categoryModel?.isReady ? categoryModel.getAccuracy() : null),
+    [categoryModel]
+  );
+
+  const affected = useMemo(
+    () => (previewRuleDraft ? previewRule(previewRuleDraft, transactions) : []),
+    [previewRuleDraft, transactions]
+  );
+
+  // Runs a rule action, reporting failures with the given message
+  const run = async (action: () => Promise<void>, failure: string, success?: { title: string; description: string }) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      if (success) toast(success);
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startEditing = (rule?: CategoryRule) => {
+    setEditingId(rule?.id || NEW_RULE);
+    setDraft(rule
+      ? { name: rule.name, conditions: rule.conditions.map(condition => ({ ...condition })), actions: { ...rule.actions } }
+      : emptyDraft());
+    setTagsText(formatTags(rule?.actions.tags));
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setDraft(emptyDraft());
+    setTagsText("");
+  };
+
+  const handleSave = () => run(
+    async () => {
+      if (editingId === NEW_RULE) {
+        await createRule(draft);
+      } else if (editingId) {
+        await updateRule(editingId, draft);
+      }
+      stopEditing();
+    },
+    "Failed to save rule. Please try again.",
+    { title: "Rule Saved", description: "It applies to transactions added from now on." }
+  );
+
+  const handleDelete = () => {
+    const rule = ruleToDelete;
+    setRuleToDelete(null);
+    if (rule) {
+      void run(() => deleteRule(rule.id), "Failed to delete rule. Please try again.");
+    }
+  };
+
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    setDraft(current => ({
+      ...current,
+      conditions: current.conditions.map((condition, i) => {
+        if (i !== index) return condition;
+        const updated = { ...condition, ...changes };
+        // A new field starts with its first operator, and type conditions with a type
+        if (changes.field && changes.field !== condition.field) {
+          const field = RULE_CONDITION_FIELDS.find(f => f.value === changes.field);
+          updated.operator = field?.operators[0] || 'equals';
+          updated.value = changes.field === 'type' ? 'expense' : '';
+        }
+        return updated;
+      }),
+    }));
+  };
+
+  // Categories imply the type, so only rules without one set it directly
+  const setCategoryAction = (value: string) => {
+    setDraft(current => ({
+      ...current,
+      actions: {
+        ...current.actions,
+        category: value === KEEP ? null : value,
+        type: value === KEEP ? null : incomeCategories.includes(value) ? 'income' : 'expense',
+      },
+    }));
+  };
+
+  const renderConditionValue = (condition: RuleCondition, index: number) => {
+    if (condition.field === 'type') {
+      return (
+        <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+          <SelectTrigger className="flex-1 min-w-0" aria-label={`Condition ${index + 1} value`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="expense">Expense</SelectItem>
+            <SelectItem value="income">Income</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        className="flex-1 min-w-0"
+        value={condition.value}
+        inputMode={condition.field === 'amount' ? 'decimal' : undefined}
+        placeholder={condition.field === 'amount' ? '0.00' : 'e.g., grab'}
+        onChange={(e) => updateCondition(index, { value: e.target.value })}
+        aria-label={`Condition ${index + 1} value`}
+      />
+    );
+  };
+
+  const renderEditor = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{editingId === NEW_RULE ? 'New Rule' : 'Edit Rule'}</CardTitle>
+        <CardDescription>When every condition holds, the rule makes its changes.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="rule-name">Name</Label>
+          <Input
+            id="rule-name"
+            placeholder="e.g., Grab rides"
+            value={draft.name}
+            onChange={(e) => setDraft(current => ({ ...current, name: e.target.value }))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Conditions</Label>
+          {draft.conditions.map((condition, index) => {
+            const field = RULE_CONDITION_FIELDS.find(f => f.value === condition.field);
+            return (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={condition.field}
+                  onValueChange={(value) => updateCondition(index, { field: value as RuleConditionField })}
+                >
+                  <SelectTrigger className="w-[100px] shrink-0" aria-label={`Condition ${index + 1} field`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RULE_CONDITION_FIELDS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={condition.operator}
+                  onValueChange={(value) => updateCondition(index, { operator: value as RuleConditionOperator })}
+                >
+                  <SelectTrigger className="w-[110px] shrink-0" aria-label={`Condition ${index + 1} operator`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(field?.operators || []).map((operator) => (
+                      <SelectItem key={operator} value={operator}>{RULE_OPERATOR_LABELS[operator]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderConditionValue(condition, index)}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={draft.conditions.length <= 1}
+                  onClick={() => setDraft(current => ({
+                    ...current,
+                    conditions: current.conditions.filter((_, i) => i !== index),
+                  }))}
+                  aria-label={`Remove condition ${index + 1}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft(current => ({ ...current, conditions: [...current.conditions, emptyCondition()] }))}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add condition
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Set category</Label>
+          <Select value={draft.actions.category || KEEP} onValueChange={setCategoryAction}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>Don&apos;t change</SelectItem>
+              <SelectGroup>
+                <SelectLabel>Expenses</SelectLabel>
+                {categories.map((category) => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectGroup>
+              {incomeCategories.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Income</SelectLabel>
+                  {incomeCategories.map((category) => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!draft.actions.category && (
+          <div className="space-y-2">
+            <Label>Set type</Label>
+            <Select
+              value={draft.actions.type || KEEP}
+              onValueChange={(value) => setDraft(current => ({
+                ...current,
+                actions: { ...current.actions, type: value === KEEP ? null : value as CategoryType },
+              }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP}>Don&apos;t change</SelectItem>
+                <SelectItem value="expense">Expense</SelectItem>
+                <SelectItem value="income">Income</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-notes">Rename notes to</Label>
+          <Input
+            id="rule-notes"
+            placeholder="Leave empty to keep them"
+            value={draft.actions.notes || ''}
+            onChange={(e) => setDraft(current => ({ ...current, actions: { ...current.actions, notes: e.target.value } }))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-tags">Add tags</Label>
+          <Input
+            id="rule-tags"
+            placeholder="e.g. JB trip, reimbursable"
+            value={tagsText}
+            onChange={(e) => {
+              const text = e.target.value;
+              setTagsText(text);
+              setDraft(current => ({ ...current, actions: { ...current.actions, tags: parseTags(text) } }));
+            }}
+          />
+        </div>
+
+        {previewRuleDraft && (
+          <div className="space-y-2 p-3 border rounded-lg">
+            <p className="text-sm font-medium">
+              This rule would change {affected.length} transaction{affected.length === 1 ? '' : 's'}
+            </p>
+            {affected.slice(0, PREVIEW_LIMIT).map((transaction) => {
+              const changes = getRuleChanges(previewRuleDraft, transaction);
+              return (
+                <div key={transaction.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate text-muted-foreground">
+                    {transaction.Notes} · {transaction.Category}
+                    {changes.Category ? ` → ${changes.Category}` : ''}
+                    {changes.tags ? ` + ${changes.tags.map(tag => `#${tag}`).join(' ')}` : ''}
+                  </span>
+                  <span className="whitespace-nowrap">{formatCurrency(transaction.Amount, transaction.currency)}</span>
+                </div>
+              );
+            })}
+            {affected.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">and {affected.length - PREVIEW_LIMIT} more</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={stopEditing} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleSave} disabled={isSubmitting || !!draftError}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Rule
+          </Button>
+        </div>
+        {draftError && draft.name.trim() && (
+          <p className="text-xs text-muted-foreground text-center">{draftError}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>Categorization Rules</DrawerTitle>
+        <DrawerDescription>
+          Rules run top to bottom and the first to set a field wins. They apply to Shortcuts and imports, and suggest a category when you add one.
+        </DrawerDescription>
+      </DrawerHeader>
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => { if (!open) setRuleToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this rule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Transactions it already categorized keep their category.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-4 pb-4">
+            {editingId ? renderEditor() : (
+              <>
+                {canEdit && (
+                  <Button onClick={() => startEditing()} className="w-full">
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Rule
+                  </Button>
+                )}
+
+                {!isRulesLoading && rules.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Wand2 className="h-8 w-8 mx-auto mb-2" />
+                    <p className="text-sm">No rules yet. Add one to categorize transactions automatically.</p>
+                  </div>
+                )}
+
+                {rules.map((rule, index) => (
+                  <div key={rule.id} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                          {rule.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {rule.conditions.map(describeCondition).join(' and ')}
+                        </p>
+                        <p className="text-xs">{describeActions(rule)}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {!rule.isActive && <Badge variant="secondary">Paused</Badge>}
+                        <Switch
+                          checked={rule.isActive}
+                          disabled={!canEdit || isSubmitting}
+                          onCheckedChange={(checked) => run(
+                            () => setRuleActive(rule.id, checked),
+                            "Failed to update rule. Please try again."
+                          )}
+                          aria-label={`${rule.isActive ? 'Pause' : 'Resume'} ${rule.name}`}
+                        />
+                      </div>
+                    </div>
+                    {canEdit && (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={isSubmitting || index === 0}
+                          onClick={() => run(() => moveRule(rule.id, -1), "Failed to reorder rules. Please try again.")}
+                          aria-label={`Run ${rule.name} earlier`}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={isSubmitting || index === rules.length - 1}
+                          onClick={() => run(() => moveRule(rule.id, 1), "Failed to reorder rules. Please try again.")}
+                          aria-label={`Run ${rule.name} later`}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => startEditing(rule)} aria-label={`Edit ${rule.name}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={isSubmitting}
+                          onClick={() => setRuleToDelete(rule)}
+                          aria-label={`Delete ${rule.name}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Learned Suggestions</CardTitle>
+                    <CardDescription>
+                      Learned on this device from your notes, amounts and times of day. Used when no rule matches.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2 text-sm">
+                    {accuracy ? (
+                      <>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">First suggestion right</span>
+                          <span className="font-medium">{formatPercent(accuracy.topOne)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Right category in top {LEARNED_CATEGORIES.SUGGESTION_COUNT}</span>
+                          <span className="font-medium">{formatPercent(accuracy.topThree)}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Learned from {categoryModel?.examples} transactions, checked against your latest {accuracy.checked}.
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-muted-foreground">
+                        Suggestions start after {LEARNED_CATEGORIES.MIN_EXAMPLES} categorized transactions
+                        ({categoryModel?.examples || 0} so far).
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+}
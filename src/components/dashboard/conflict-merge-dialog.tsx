@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/shared/hooks";
+import { getChangedFields, mergeRevisions, REVISION_IGNORED_FIELDS } from "@/shared/utils/revision";
+import type { ConflictEntry, OutboxCollection } from "@/lib/background-sync";
+
+export interface ConflictMergeDialogProps {
+  conflict: ConflictEntry | null;
+  onOpenChange: (open: boolean) => void;
+  onResolve: (id: string, resolution: Record<string, unknown> | null) => Promise<void>;
+}
+
+type Side = 'local' | 'server';
+
+const COLLECTION_LABELS: Record<OutboxCollection, string> = {
+  transactions: 'transaction',
+  budgets: 'budget',
+  recurringTransactions: 'recurring transaction',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  accountId: 'Account',
+  toAccountId: 'To account',
+  currency: 'Currency',
+  MonthlyBudget: 'Monthly budget',
+  type: 'Type',
+  frequency: 'Frequency',
+  nextDueDate: 'Next due date',
+  isActive: 'Active',
+  endDate: 'End date',
+  maxOccurrences: 'Max occurrences',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (value instanceof Date) return format(value, 'MMM d, yyyy HH:mm');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export function ConflictMergeDialog({ conflict, onOpenChange, onResolve }: ConflictMergeDialogProps) {
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Default every conflicting field to this device's value
+  useEffect(() => {
+    setChoices(Object.fromEntries((conflict?.conflicts || []).map(field => [field, 'local' as Side])));
+  }, [conflict]);
+
+  const merge = useMemo(
+    () => (conflict?.server ? mergeRevisions(conflict.base || {}, conflict.data || {}, conflict.server) : null),
+    [conflict]
+  );
+
+  // Every field either side changed, conflicts first
+  const fields = useMemo(() => {
+    if (!conflict) return [];
+    const base = conflict.base || {};
+    const changed = new Set([
+      ...getChangedFields(base, conflict.data || {}),
+      ...(conflict.server ? getChangedFields(base, conflict.server, true) : []),
+    ]);
+    return [...conflict.conflicts, ...Array.from(changed).filter(field => !conflict.conflicts.includes(field))];
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const base = conflict.base || {};
+  const local = conflict.data || {};
+  const server = conflict.server;
+
+  const resolve = async (resolution: Record<string, unknown> | null) => {
+    setIsSaving(true);
+    try {
+      await onResolve(conflict.id, resolution);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to resolve conflict', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save your choice. Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveMerged = () => {
+    if (!server) {
+      // Recreate the document as this device last had it
+      const restored = Object.fromEntries(
+        Object.entries({ ...base, ...local }).filter(([key]) => !REVISION_IGNORED_FIELDS.includes(key))
+      );
+      return resolve(restored);
+    }
+
+    const chosen = Object.fromEntries(
+      conflict.conflicts.filter(field => choices[field] === 'local').map(field => [field, local[field]])
+    );
+    return resolve({ ...merge?.changes, ...chosen });
+  };
+
+  const mergedSide = (field: string): Side =>
+    merge && field in merge.changes ? 'local' : 'server';
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve Conflict</DialogTitle>
+          <DialogDescription>
+            {server
+              ? `This ${COLLECTION_LABELS[conflict.collection]} was also changed on another device. Pick the value to keep for each field.`
+              : `This ${COLLECTION_LABELS[conflict.collection]} was deleted on another device after you edited it.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 text-xs font-medium text-muted-foreground px-1">
+            <span>Field</span>
+            <span>This device</span>
+            <span>Other device</span>
+          </div>
+          {fields.map(field => {
+            const isConflict = conflict.conflicts.includes(field);
+            const selected = isConflict ? choices[field] : mergedSide(field);
+
+            return (
+              <div key={field} className="grid grid-cols-[1fr_1fr_1fr] gap-2 items-center rounded-lg border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{FIELD_LABELS[field] || field}</p>
+                  {server && (
+                    <Badge variant={isConflict ? "destructive" : "secondary"} className="mt-1">
+                      {isConflict ? 'Conflict' : 'Merged'}
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  variant={selected === 'local' ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-auto min-h-8 whitespace-normal break-words justify-start text-left"
+                  disabled={!isConflict}
+                  onClick={() => setChoices(prev => ({ ...prev, [field]: 'local' }))}
+                >
+                  {formatValue(local[field] ?? base[field])}
+                </Button>
+                <Button
+                  variant={selected === 'server' ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-auto min-h-8 whitespace-normal break-words justify-start text-left"
+                  disabled={!isConflict}
+                  onClick={() => setChoices(prev => ({ ...prev, [field]: 'server' }))}
+                >
+                  {server ? formatValue(server[field]) : 'Deleted'}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => resolve(null)} disabled={isSaving}>
+            {server ? "Keep Other Version" : "Keep Deleted"}
+          </Button>
+          <Button onClick={handleSaveMerged} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {server ? "Save Merged" : "Restore Mine"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { type Transaction } from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import { Trash2, Loader2, AlertTriangle, Upload } from "lucide-react";
+import { format, toDate } from "date-fns";
+import { useExchangeRates } from "@/features/currency/hooks/useExchangeRates";
+import { useToast } from "@/shared/hooks";
+import { SUPPORTED_CURRENCIES } from "@/shared/constants";
+import { getMissingRates, parseExchangeRates } from "@/shared/utils/currency";
+
+export interface CurrencySettingsPageProps {
+  baseCurrency: string;
+  transactions: Transaction[];
+}
+
+type TimestampLike = Date | { seconds: number; nanoseconds: number } | null | undefined;
+
+const formatTimestamp = (value: TimestampLike) => {
+  if (!value) return '';
+  const date = value instanceof Date ? value : toDate(value.seconds * 1000);
+  return format(date, 'MMM d, yyyy');
+};
+
+export function CurrencySettingsPage({ baseCurrency, transactions }: CurrencySettingsPageProps) {
+  const [newCurrency, setNewCurrency] = useState("");
+  const [newRate, setNewRate] = useState("");
+  const [importText, setImportText] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const {
+    exchangeRates,
+    rateMap,
+    isRatesLoading,
+    setRate,
+    importRates,
+    deleteRate,
+    setBaseCurrency,
+  } = useExchangeRates(baseCurrency);
+
+  const missingRates = useMemo(
+    () => getMissingRates(transactions, baseCurrency, rateMap),
+    [transactions, baseCurrency, rateMap]
+  );
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+    });
+  };
+
+  const handleBaseCurrencyChange = async (currency: string) => {
+    try {
+      await setBaseCurrency(currency);
+      toast({
+        title: "Base Currency Updated",
+        description: `Totals are now shown in ${currency}.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to update base currency.");
+    }
+  };
+
+  const handleAddRate = async () => {
+    setIsSubmitting(true);
+    try {
+      await setRate(newCurrency, parseFloat(newRate));
+      setNewCurrency("");
+      setNewRate("");
+    } catch (error) {
+      showError(error, "Failed to save exchange rate.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const { rates, errors } = parseExchangeRates(importText);
+    if (errors.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't Import Rates",
+        description: errors.slice(0, 3).join('. '),
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const count = await importRates(rates);
+      setImportText("");
+      toast({
+        title: "Rates Imported",
+        description: `${count} exchange rate${count === 1 ? '' : 's'} saved.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to import exchange rates.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (currency: string) => {
+    try {
+      await deleteRate(currency);
+    } catch (error) {
+      showError(error, "Failed to delete exchange rate.");
+    }
+  };
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>Currencies</DrawerTitle>
+        <DrawerDescription>Totals, budgets and reports are converted to your base currency.</DrawerDescription>
+      </DrawerHeader>
+
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-6 pb-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Base Currency</CardTitle>
+                <CardDescription>Budgets are set in this currency.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Select value={baseCurrency} onValueChange={handleBaseCurrencyChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <SelectItem key={currency.code} value={currency.code}>
+                        {currency.code} · {currency.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+
+            {missingRates.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  No rate for {missingRates.join(', ')}. Those amounts are counted unconverted.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Exchange Rates</CardTitle>
+                <CardDescription>Value of 1 unit in {baseCurrency}.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {isRatesLoading ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : (
+                  exchangeRates
+                    .filter((rate) => rate.currency !== baseCurrency)
+                    .map((rate) => (
+                      <div key={rate.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div>
+                          <p className="font-medium">1 {rate.currency} = {rateMap[rate.currency] ? rateMap[rate.currency].toFixed(4) : '?'} {baseCurrency}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {rate.source === 'import' ? 'Imported' : 'Entered'} {formatTimestamp(rate.updatedAt)}
+                            {rate.baseCurrency !== baseCurrency && ` · against ${rate.baseCurrency}`}
+                          </p>
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(rate.currency)} aria-label={`Delete ${rate.currency} rate`}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    ))
+                )}
+
+                <div className="flex items-end gap-2">
+                  <div className="space-y-2 flex-1">
+                    <Label htmlFor="rate-currency">Currency</Label>
+                    <Input
+                      id="rate-currency"
+                      placeholder="SGD"
+                      maxLength={3}
+                      value={newCurrency}
+                      onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+                    />
+                  </div>
+                  <div className="space-y-2 flex-1">
+                    <Label htmlFor="rate-value">Rate</Label>
+                    <Input
+                      id="rate-value"
+                      type="number"
+                      inputMode="decimal"
+                      placeholder="0.74"
+                      value={newRate}
+                      onChange={(e) => setNewRate(e.target.value)}
+                    />
+                  </div>
+                  <Button onClick={handleAddRate} disabled={isSubmitting || !newCurrency || !newRate}>
+                    Save
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Import Rates</CardTitle>
+                <CardDescription>One &quot;CODE,rate&quot; per line, or a JSON object.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Textarea
+                  rows={4}
+                  placeholder={"SGD,0.74\nMYR,0.21\nJPY,0.0067"}
+                  value={importText}
+                  onChange={(e) => setImportText(e.target.value)}
+                  className="font-mono text-sm"
+                />
+                <Button className="w-full" onClick={handleImport} disabled={isSubmitting || !importText.trim()}>
+                  {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                  Import
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,544 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import { DateRange as ReactDateRange } from "react-day-picker";
+import {
+  type Account,
+  type ReportChartType,
+  type ReportDefinition,
+  type ReportGroupBy,
+  type ReportMetric,
+  type ReportPeriod,
+  type Transaction,
+  type TransactionType,
+} from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { CalendarIcon, Edit, Loader2, Play, Plus, Trash2 } from "lucide-react";
+import { useReportDefinitions } from "@/features/reports/hooks";
+import { type ReportDefinitionDto } from "@/features/reports/services";
+import { ReportBuilderUtils, type ReportRow } from "@/modules/reports";
+import { useToast } from "@/shared/hooks";
+import {
+  REPORT_CHART_TYPE_LABELS,
+  REPORT_GROUP_BY_LABELS,
+  REPORT_METRIC_LABELS,
+  REPORT_PERIOD_LABELS,
+} from "@/shared/constants";
+import { formatCurrency } from "@/shared/utils/currency";
+import { formatTags, parseTags } from "@/shared/utils/tags";
+import { toRecurrenceDate } from "@/shared/utils/recurrence";
+
+export interface CustomReportsProps {
+  transactions: Transaction[]; // Amounts in the base currency
+  categories: string[];
+  accounts?: Account[];
+  currency?: string;
+}
+
+const NEW_REPORT = 'new';
+const NO_ACCOUNTS: Account[] = [];
+const TRANSACTION_TYPES: TransactionType[] = ['expense', 'income', 'transfer'];
+
+const emptyDraft = (): ReportDefinitionDto => ({
+  name: '',
+  metric: 'sum',
+  groupBy: 'category',
+  chartType: 'bar',
+  period: 'thisMonth',
+  customRange: null,
+  filters: { types: ['expense'] },
+});
+
+// Typed filters kept as text until the report runs
+interface FilterText {
+  tags: string;
+  min: string;
+  max: string;
+}
+
+const toFilterText = (report: ReportDefinitionDto): FilterText => ({
+  tags: formatTags(report.filters.tags),
+  min: report.filters.amountRange ? String(report.filters.amountRange.min) : '',
+  max: report.filters.amountRange ? String(report.filters.amountRange.max) : '',
+});
+
+const describeReport = (report: Pick<ReportDefinition, 'metric' | 'groupBy' | 'period'>) =>
+  `${REPORT_METRIC_LABELS[report.metric]} by ${REPORT_GROUP_BY_LABELS[report.groupBy].toLowerCase()}, ${REPORT_PERIOD_LABELS[report.period].toLowerCase()}`;
+
+const getColor = (index: number) => `hsl(var(--chart-${(index % 5) + 1}))`;
+
+function ReportChart({ rows, chartType, metric, currency }: {
+  rows: ReportRow[];
+  chartType: ReportChartType;
+  metric: ReportMetric;
+  currency?: string;
+}) {
+  const config: ChartConfig = { value: { label: REPORT_METRIC_LABELS[metric], color: getColor(0) } };
+  const formatValue = (value: number) => (metric === 'count' ? String(value) : formatCurrency(value, currency));
+  const tooltip = (
+    <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatValue(Number(value))} />} />
+  );
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+      <YAxis tickLine={false} axisLine={false} width={48} />
+    </>
+  );
+
+  return (
+    <ChartContainer config={config} className="w-full">
+      {chartType === 'pie' ? (
+        <PieChart>
+          {tooltip}
+          <Pie data={rows} dataKey="value" nameKey="label" innerRadius="45%">
+            {rows.map((row, index) => (
+              <Cell key={row.key} fill={getColor(index)} />
+            ))}
+          </Pie>
+        </PieChart>
+      ) : chartType === 'line' ? (
+        <LineChart data={rows}>
+          {axes}
+          {tooltip}
+          <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={false} />
+        </LineChart>
+      ) : chartType === 'area' ? (
+        <AreaChart data={rows}>
+          {axes}
+          {tooltip}
+          <Area dataKey="value" type="monotone" stroke="var(--color-value)" fill="var(--color-value)" fillOpacity={0.3} />
+        </AreaChart>
+      ) : (
+        <BarChart data={rows}>
+          {axes}
+          {tooltip}
+          <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+        </BarChart>
+      )}
+    </ChartContainer>
+  );
+}
+
+/**
+ * Build, save and rerun custom reports
+ */
+export function CustomReports({ transactions, categories, accounts = NO_ACCOUNTS, currency }: CustomReportsProps) {
+  const { definitions, canEdit, createDefinition, updateDefinition, deleteDefinition } = useReportDefinitions();
+  const { toast } = useToast();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ReportDefinitionDto>(emptyDraft);
+  const [filterText, setFilterText] = useState<FilterText>(() => toFilterText(emptyDraft()));
+  const [activeReport, setActiveReport] = useState<ReportDefinitionDto | null>(null);
+  const [reportToDelete, setReportToDelete] = useState<ReportDefinition | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // The draft with its typed filters read in
+  const draftReport = useMemo((): ReportDefinitionDto => {
+    const min = parseFloat(filterText.min);
+    const max = parseFloat(filterText.max);
+    const tags = parseTags(filterText.tags);
+    return {
+      ...draft,
+      filters: {
+        categories: draft.filters.categories,
+        types: draft.filters.types,
+        searchTerm: draft.filters.searchTerm,
+        ...(tags.length > 0 && { tags }),
+        ...((!isNaN(min) || !isNaN(max)) && {
+          amountRange: { min: isNaN(min) ? 0 : min, max: isNaN(max) ? Number.MAX_SAFE_INTEGER : max },
+        }),
+      },
+    };
+  }, [draft, filterText]);
+
+  const draftError = ReportBuilderUtils.validate(draftReport);
+  // Previews don't need a name
+  const previewError = ReportBuilderUtils.validate({ ...draftReport, name: draftReport.name || '-' });
+
+  const result = useMemo(
+    () => (activeReport ? ReportBuilderUtils.run(activeReport, transactions, accounts) : null),
+    [activeReport, transactions, accounts]
+  );
+
+  const customRange: ReactDateRange | undefined = draft.customRange
+    ? { from: toRecurrenceDate(draft.customRange.start), to: toRecurrenceDate(draft.customRange.end) }
+    : undefined;
+
+  const formatValue = (value: number) =>
+    activeReport?.metric === 'count' ? String(value) : formatCurrency(value, currency);
+
+  const startEditing = (definition?: ReportDefinition) => {
+    const report = definition
+      ? {
+          name: definition.name,
+          metric: definition.metric,
+          groupBy: definition.groupBy,
+          chartType: definition.chartType,
+          period: definition.period,
+          customRange: definition.customRange || null,
+          filters: definition.filters || {},
+        }
+      : emptyDraft();
+    setEditingId(definition?.id || NEW_REPORT);
+    setDraft(report);
+    setFilterText(toFilterText(report));
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSave = () => run(
+    async () => {
+      if (editingId === NEW_REPORT) {
+        await createDefinition(draftReport);
+      } else if (editingId) {
+        await updateDefinition(editingId, draftReport);
+      }
+      setActiveReport(draftReport);
+      setEditingId(null);
+      toast({ title: "Report Saved", description: "Anyone in your household can run it from here." });
+    },
+    "Failed to save report. Please try again."
+  );
+
+  const handleDelete = () => {
+    const definition = reportToDelete;
+    setReportToDelete(null);
+    if (definition) {
+      void run(() => deleteDefinition(definition.id), "Failed to delete report. Please try again.");
+    }
+  };
+
+  const toggleFilter = <T extends string>(key: 'types' | 'categories', value: T) => {
+    setDraft(current => {
+      const values = (current.filters[key] || []) as T[];
+      return {
+        ...current,
+        filters: {
+          ...current.filters,
+          [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value],
+        },
+      };
+    });
+  };
+
+  const renderEditor = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="report-name">Name</Label>
+        <Input
+          id="report-name"
+          placeholder="e.g., Monthly F&B by weekday"
+          value={draft.name}
+          onChange={(e) => setDraft(current => ({ ...current, name: e.target.value }))}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Show</Label>
+          <Select value={draft.metric} onValueChange={(value) => setDraft(current => ({ ...current, metric: value as ReportMetric }))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REPORT_METRIC_LABELS) as ReportMetric[]).map(metric => (
+                <SelectItem key={metric} value={metric}>{REPORT_METRIC_LABELS[metric]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Grouped by</Label>
+          <Select value={draft.groupBy} onValueChange={(value) => setDraft(current => ({ ...current, groupBy: value as ReportGroupBy }))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REPORT_GROUP_BY_LABELS) as ReportGroupBy[]).map(groupBy => (
+                <SelectItem key={groupBy} value={groupBy}>{REPORT_GROUP_BY_LABELS[groupBy]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Chart</Label>
+          <Select value={draft.chartType} onValueChange={(value) => setDraft(current => ({ ...current, chartType: value as ReportChartType }))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REPORT_CHART_TYPE_LABELS) as ReportChartType[]).map(chartType => (
+                <SelectItem key={chartType} value={chartType}>{REPORT_CHART_TYPE_LABELS[chartType]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Period</Label>
+          <Select value={draft.period} onValueChange={(value) => setDraft(current => ({ ...current, period: value as ReportPeriod }))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriod[]).map(period => (
+                <SelectItem key={period} value={period}>{REPORT_PERIOD_LABELS[period]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {draft.period === 'custom' && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="w-full justify-start text-left font-normal">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {customRange?.from && customRange.to
+                ? `${format(customRange.from, "LLL dd, y")} - ${format(customRange.to, "LLL dd, y")}`
+                : <span>Pick dates</span>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              initialFocus
+              mode="range"
+              defaultMonth={customRange?.from}
+              selected={customRange}
+              onSelect={(range) => setDraft(current => ({
+                ...current,
+                customRange: range?.from ? { start: range.from, end: range.to || range.from } : null,
+              }))}
+              numberOfMonths={1}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+
+      <div className="space-y-2">
+        <Label>Types</Label>
+        <div className="flex flex-wrap gap-2">
+          {TRANSACTION_TYPES.map(type => (
+            <Button
+              key={type}
+              type="button"
+              size="sm"
+              variant={draft.filters.types?.includes(type) ? 'default' : 'outline'}
+              aria-pressed={draft.filters.types?.includes(type)}
+              onClick={() => toggleFilter('types', type)}
+              className="capitalize"
+            >
+              {type}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Categories</Label>
+        <div className="flex flex-wrap gap-2">
+          {categories.map(category => (
+            <Button
+              key={category}
+              type="button"
+              size="sm"
+              variant={draft.filters.categories?.includes(category) ? 'default' : 'outline'}
+              aria-pressed={draft.filters.categories?.includes(category)}
+              onClick={() => toggleFilter('categories', category)}
+            >
+              {category}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">None picked means every category.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="report-min">Min amount</Label>
+          <Input
+            id="report-min"
+            type="number"
+            inputMode="decimal"
+            value={filterText.min}
+            onChange={(e) => setFilterText(current => ({ ...current, min: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="report-max">Max amount</Label>
+          <Input
+            id="report-max"
+            type="number"
+            inputMode="decimal"
+            value={filterText.max}
+            onChange={(e) => setFilterText(current => ({ ...current, max: e.target.value }))}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="report-tags">Tags</Label>
+        <Input
+          id="report-tags"
+          placeholder="Any of these, e.g. jb trip, work"
+          value={filterText.tags}
+          onChange={(e) => setFilterText(current => ({ ...current, tags: e.target.value }))}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="report-search">Notes contain</Label>
+        <Input
+          id="report-search"
+          value={draft.filters.searchTerm || ''}
+          onChange={(e) => setDraft(current => ({ ...current, filters: { ...current.filters, searchTerm: e.target.value } }))}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setEditingId(null)} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button variant="outline" onClick={() => setActiveReport(draftReport)} disabled={!!previewError}>
+          <Play className="mr-1 h-4 w-4" />
+          Run
+        </Button>
+        {canEdit && (
+          <Button className="flex-1" onClick={handleSave} disabled={isSubmitting || !!draftError}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        )}
+      </div>
+      {canEdit && draftError && (
+        <p className="text-xs text-muted-foreground text-center">{draftError}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Reports</CardTitle>
+        <CardDescription>
+          Choose what to measure and how to group it. Saved reports are shared with your household.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <AlertDialog open={!!reportToDelete} onOpenChange={(open) => { if (!open) setReportToDelete(null); }}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete &quot;{reportToDelete?.name}&quot;?</AlertDialogTitle>
+              <AlertDialogDescription>
+                It&apos;s removed for everyone in your household. Your transactions aren&apos;t changed.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {editingId ? renderEditor() : (
+          <>
+            {definitions.map(definition => (
+              <div key={definition.id} className="flex items-center gap-1 p-3 border rounded-lg">
+                <button
+                  type="button"
+                  className="min-w-0 flex-1 text-left"
+                  onClick={() => setActiveReport(definition)}
+                >
+                  <p className="font-medium truncate">{definition.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{describeReport(definition)}</p>
+                </button>
+                {canEdit && (
+                  <>
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(definition)} aria-label={`Edit ${definition.name}`}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={isSubmitting}
+                      onClick={() => setReportToDelete(definition)}
+                      aria-label={`Delete ${definition.name}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+            <Button variant="outline" className="w-full" onClick={() => startEditing()}>
+              <Plus className="mr-2 h-4 w-4" />
+              {canEdit ? 'New Report' : 'Build a Report'}
+            </Button>
+          </>
+        )}
+
+        {activeReport && result && (
+          <div className="space-y-4 border-t pt-4">
+            <div>
+              <p className="font-semibold">{activeReport.name || 'Preview'}</p>
+              <p className="text-xs text-muted-foreground">
+                {describeReport(activeReport)}
+                {result.dateRange && ` · ${format(result.dateRange.start, "d MMM yyyy")} - ${format(result.dateRange.end, "d MMM yyyy")}`}
+                {` · ${result.transactionCount} transaction${result.transactionCount === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            {result.rows.some(row => row.count > 0) ? (
+              <>
+                <ReportChart rows={result.rows} chartType={activeReport.chartType} metric={activeReport.metric} currency={currency} />
+                <div className="space-y-2">
+                  {result.rows.map(row => (
+                    <div key={row.key} className="flex justify-between items-center text-sm">
+                      <span className="truncate">{row.label}</span>
+                      <span className="font-medium">{formatValue(row.value)}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-center text-muted-foreground py-8">No transactions match this report.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
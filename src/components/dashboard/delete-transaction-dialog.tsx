@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { type Transaction } from "@/shared/types";
 import { format, toDate } from "date-fns";
+import { formatCurrency } from "@/shared/utils/currency";
 
 export interface DeleteTransactionDialogProps {
   open: boolean;
@@ -30,7 +31,7 @@ export function DeleteTransactionDialog({ open, onOpenChange, onConfirm, transac
           <AlertDialogDescription>
             This action cannot be undone. This will permanently delete the transaction:
             <br />
-            <span className="font-semibold">{transaction?.Notes}</span> for <span className="font-semibold">${transaction?.Amount.toFixed(2)}</span> on <span className="font-semibold">{transaction?.Date ? (() => {
+            <span className="font-semibold">{transaction?.Notes}</span> for <span className="font-semibold">{transaction ? formatCurrency(transaction.Amount, transaction.currency) : ''}</span> on <span className="font-semibold">{transaction?.Date ? (() => {
               if (typeof transaction.Date === 'string') {
                 return format(new Date(transaction.Date), 'MMM d, yyyy');
               } else if (transaction.Date && typeof transaction.Date === 'object' && 'seconds' in transaction.Date) {
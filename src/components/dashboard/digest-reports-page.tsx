@@ -0,0 +1,343 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import { type DigestPeriod, type DigestReport, type DigestTotals } from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import { Newspaper, Loader2 } from "lucide-react";
+import { useNotificationSchedules } from "@/features/notifications/hooks";
+import { useDigestReports } from "@/features/reports/hooks";
+import { useToast } from "@/shared/hooks";
+import { DIGEST_DEFAULTS, NOTIFICATION_SCHEDULE_KINDS } from "@/shared/constants";
+import { formatCurrency } from "@/shared/utils/currency";
+import { cn } from "@/shared/utils";
+
+export interface DigestReportsPageProps {
+  isPushSubscribed: boolean;
+  reportId?: string | null; // Opened from a digest notification
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const describePeriod = (report: Pick<DigestReport, 'period' | 'periodStart' | 'periodEnd'>) =>
+  report.period === 'monthly'
+    ? format(report.periodStart, 'MMMM yyyy')
+    : `${format(report.periodStart, 'd MMM')} – ${format(subDays(report.periodEnd, 1), 'd MMM yyyy')}`;
+
+// Percentage change on the period before, or null when there's nothing to compare
+const getChange = (current: number, previous: number): number | null =>
+  previous > 0 ? ((current - previous) / previous) * 100 : null;
+
+function ChangeBadge({ current, previous, higherIsBetter }: { current: number; previous: number; higherIsBetter: boolean }) {
+  const change = getChange(current, previous);
+  if (change === null) return null;
+
+  const isBetter = higherIsBetter ? change >= 0 : change <= 0;
+  return (
+    <span className={cn("text-xs", isBetter ? "text-green-600" : "text-red-600")}>
+      {change >= 0 ? '+' : ''}{change.toFixed(0)}%
+    </span>
+  );
+}
+
+function DigestReportView({ report }: { report: DigestReport }) {
+  const { currency, totals, previousTotals } = report;
+  const periodName = report.period === 'monthly' ? 'month' : 'week';
+  const rows: Array<{ key: keyof DigestTotals; label: string; higherIsBetter: boolean }> = [
+    { key: 'expenses', label: 'Spent', higherIsBetter: false },
+    { key: 'income', label: 'Income', higherIsBetter: true },
+    { key: 'net', label: 'Net', higherIsBetter: true },
+  ];
+  const largestCategory = Math.max(...report.topCategories.map(c => c.amount), 0);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>{describePeriod(report)}</CardTitle>
+          <CardDescription>Compared with the {periodName} before</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {rows.map(row => (
+            <div key={row.key} className="flex items-center justify-between">
+              <span className="text-sm">{row.label}</span>
+              <div className="text-right">
+                <p className="font-medium">{formatCurrency(totals[row.key], currency)}</p>
+                <p className="text-xs text-muted-foreground">
+                  was {formatCurrency(previousTotals[row.key], currency)}{' '}
+                  <ChangeBadge current={totals[row.key]} previous={previousTotals[row.key]} higherIsBetter={row.higherIsBetter} />
+                </p>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Categories</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report.topCategories.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nothing spent this {periodName}.</p>
+          )}
+          {report.topCategories.map(category => (
+            <div key={category.category} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="truncate">{category.category}</span>
+                <span>
+                  {formatCurrency(category.amount, currency)}{' '}
+                  <ChangeBadge current={category.amount} previous={category.previousAmount} higherIsBetter={false} />
+                </span>
+              </div>
+              <Progress value={largestCategory > 0 ? (category.amount / largestCategory) * 100 : 0} className="h-2" />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Budgets at Risk</CardTitle>
+          <CardDescription>Near or over their limit for the month</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report.budgetsAtRisk.length === 0 && (
+            <p className="text-sm text-muted-foreground">Every budget was on track.</p>
+          )}
+          {report.budgetsAtRisk.map(budget => (
+            <div key={budget.category} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="truncate">{budget.category}</span>
+                <span className={cn(budget.isOverBudget && "text-red-600")}>
+                  {formatCurrency(budget.spent, currency)} of {formatCurrency(budget.budgeted, currency)}
+                </span>
+              </div>
+              <Progress value={Math.min(budget.percentage, 100)} className="h-2" />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Coming Up</CardTitle>
+          <CardDescription>Recurring items due next</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {report.upcomingRecurring.length === 0 && (
+            <p className="text-sm text-muted-foreground">No recurring items due soon.</p>
+          )}
+          {report.upcomingRecurring.map((item, index) => (
+            <div key={`${item.description}-${index}`} className="flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <p className="truncate">{item.description}</p>
+                <p className="text-xs text-muted-foreground">{format(item.dueDate, 'EEE d MMM')}</p>
+              </div>
+              <span className={cn(item.type === 'income' ? "text-green-600" : "text-red-600")}>
+                {item.type === 'income' ? '+' : '-'}{formatCurrency(item.amount, item.currency)}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function DigestReportsPage({ isPushSubscribed, reportId }: DigestReportsPageProps) {
+  const { digestSchedules, timeZone, saveDigest } = useNotificationSchedules();
+  const { reports, isLoading } = useDigestReports();
+  const { toast } = useToast();
+
+  const weekly = digestSchedules.weekly;
+  const monthly = digestSchedules.monthly;
+  const savedTime = weekly?.time || monthly?.time || DIGEST_DEFAULTS.time;
+
+  const [selectedId, setSelectedId] = useState<string | null>(reportId || null);
+  const [weekday, setWeekday] = useState<number>(weekly?.daysOfWeek?.[0] ?? DIGEST_DEFAULTS.weekday);
+  const [time, setTime] = useState(savedTime);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Follow saved digests, e.g. once they load or when changed on another device
+  useEffect(() => {
+    setWeekday(weekly?.daysOfWeek?.[0] ?? DIGEST_DEFAULTS.weekday);
+  }, [weekly?.daysOfWeek]);
+
+  useEffect(() => {
+    setTime(savedTime);
+  }, [savedTime]);
+
+  useEffect(() => {
+    if (reportId) setSelectedId(reportId);
+  }, [reportId]);
+
+  const report = reports.find(r => r.id === selectedId) || reports[0] || null;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to save digest settings:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save digest settings. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // On until switched off, which saves its schedule
+  const isOn = (period: DigestPeriod) => digestSchedules[period]?.isActive ?? true;
+
+  const toggleDigest = (period: DigestPeriod, checked: boolean) =>
+    run(() => saveDigest(period, checked ? { weekday, time } : null));
+
+  const changeWeekday = (value: string) => {
+    const day = Number(value);
+    setWeekday(day);
+    if (isOn('weekly')) {
+      void run(() => saveDigest('weekly', { weekday: day, time }));
+    }
+  };
+
+  const saveTime = () => run(async () => {
+    for (const period of ['weekly', 'monthly'] as DigestPeriod[]) {
+      if (isOn(period)) await saveDigest(period, { weekday, time });
+    }
+  });
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>Digests</DrawerTitle>
+        <DrawerDescription>
+          A summary of your spending, budgets and upcoming bills, sent as a push notification.
+        </DrawerDescription>
+      </DrawerHeader>
+
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-4 pb-4">
+            {!isPushSubscribed && (
+              <p className="text-sm text-muted-foreground p-3 border rounded-lg">
+                Turn on push notifications in settings to receive digests on this device.
+              </p>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Digests</CardTitle>
+                <CardDescription>Sent within the hour after the time set, in {timeZone}.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="weekly-digest">{NOTIFICATION_SCHEDULE_KINDS['weekly-digest'].label}</Label>
+                      <p className="text-xs text-muted-foreground">{NOTIFICATION_SCHEDULE_KINDS['weekly-digest'].description}</p>
+                    </div>
+                    <Switch
+                      id="weekly-digest"
+                      checked={isOn('weekly')}
+                      disabled={isSubmitting}
+                      onCheckedChange={(checked) => toggleDigest('weekly', checked)}
+                    />
+                  </div>
+                  <Select value={String(weekday)} onValueChange={changeWeekday} disabled={isSubmitting}>
+                    <SelectTrigger aria-label="Weekly digest day">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map((label, day) => (
+                        <SelectItem key={day} value={String(day)}>Every {label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="monthly-digest">{NOTIFICATION_SCHEDULE_KINDS['monthly-digest'].label}</Label>
+                    <p className="text-xs text-muted-foreground">{NOTIFICATION_SCHEDULE_KINDS['monthly-digest'].description}</p>
+                  </div>
+                  <Switch
+                    id="monthly-digest"
+                    checked={isOn('monthly')}
+                    disabled={isSubmitting}
+                    onCheckedChange={(checked) => toggleDigest('monthly', checked)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="digest-time">Send at</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="digest-time"
+                      type="time"
+                      value={time}
+                      onChange={(e) => setTime(e.target.value)}
+                    />
+                    {(isOn('weekly') || isOn('monthly')) && time !== savedTime && (
+                      <Button variant="outline" onClick={saveTime} disabled={isSubmitting || !time}>
+                        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {reports.length > 0 && report && (
+              <Select value={report.id} onValueChange={setSelectedId}>
+                <SelectTrigger aria-label="Digest">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reports.map(r => (
+                    <SelectItem key={r.id} value={r.id}>
+                      {NOTIFICATION_SCHEDULE_KINDS[r.period === 'monthly' ? 'monthly-digest' : 'weekly-digest'].label}: {describePeriod(r)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {report ? (
+              <>
+                {reportId && selectedId === reportId && report.id !== reportId && (
+                  <Badge variant="secondary">That digest is no longer available, showing the latest</Badge>
+                )}
+                <DigestReportView report={report} />
+              </>
+            ) : !isLoading && (
+              <div className="text-center py-8 text-muted-foreground">
+                <Newspaper className="h-8 w-8 mx-auto mb-2" />
+                <p className="text-sm">No digests yet. The first arrives on its next day.</p>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+}
@@ -60,26 +60,36 @@ export function EmptyTransactions({ isLoading = false, onAddTransaction }: Empty
           <h3 className="text-lg font-semibold">Recent Transactions</h3>
           <p className="text-sm text-muted-foreground">Your latest financial activities</p>
         </div>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-8 w-8"
-          onClick={onAddTransaction}
-        >
-          <Plus className="h-4 w-4" />
-        </Button>
+        {onAddTransaction && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onAddTransaction}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        )}
       </CardHeader>
       <CardContent className="px-6 pt-0">
         <div className="flex flex-col items-center justify-center py-8 text-center">
           <Wallet className="h-12 w-12 text-muted-foreground mb-4" />
           <h4 className="text-lg font-medium mb-2">No transactions yet</h4>
-          <p className="text-sm text-muted-foreground mb-4">
-            Start tracking your finances by adding your first transaction
-          </p>
-          <Button onClick={onAddTransaction} size="sm">
-            <Plus className="h-4 w-4 mr-2" />
-            Add Transaction
-          </Button>
+          {onAddTransaction ? (
+            <>
+              <p className="text-sm text-muted-foreground mb-4">
+                Start tracking your finances by adding your first transaction
+              </p>
+              <Button onClick={onAddTransaction} size="sm">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Transaction
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Transactions will show up here once they are added
+            </p>
+          )}
         </div>
       </CardContent>
     </Card>
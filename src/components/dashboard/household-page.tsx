@@ -0,0 +1,346 @@
+"use client";
+
+import { useState } from "react";
+import { type HouseholdInvite } from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import { Users, UserPlus, Mail, X, Loader2, LogOut } from "lucide-react";
+import { useUser } from "@/firebase";
+import { useHousehold } from "@/features/household/hooks";
+import { useToast } from "@/shared/hooks";
+import { HOUSEHOLD_ROLES } from "@/shared/constants";
+
+type InviteRole = HouseholdInvite['role'];
+
+const INVITE_ROLES = HOUSEHOLD_ROLES.filter(role => role.value !== 'owner');
+
+const roleLabel = (role: string) => HOUSEHOLD_ROLES.find(r => r.value === role)?.label || role;
+
+export function HouseholdPage() {
+  const [householdName, setHouseholdName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>('editor');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<'leave' | 'close' | null>(null);
+  const { user } = useUser();
+  const { toast } = useToast();
+
+  const {
+    household,
+    role,
+    isOwner,
+    members,
+    sentInvites,
+    receivedInvites,
+    createHousehold,
+    inviteMember,
+    revokeInvite,
+    acceptInvite,
+    declineInvite,
+    setMemberRole,
+    removeMember,
+    leaveHousehold,
+    closeHousehold,
+  } = useHousehold();
+
+  // Runs a household action, reporting failures with the given message
+  const run = async (action: () => Promise<void>, failure: string, success?: { title: string; description: string }) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      if (success) toast(success);
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = () => run(
+    async () => {
+      await createHousehold(householdName);
+      setHouseholdName("");
+    },
+    "Failed to create household. Please try again.",
+    { title: "Household Created", description: "Invite members to share your budget." }
+  );
+
+  const handleInvite = () => run(
+    async () => {
+      await inviteMember(inviteEmail, inviteRole);
+      setInviteEmail("");
+    },
+    "Failed to send invite. Please try again.",
+    { title: "Invite Sent", description: "They will see it when they next open the app." }
+  );
+
+  const handleConfirm = () => {
+    const action = confirmAction;
+    setConfirmAction(null);
+    if (action === 'leave') {
+      void run(leaveHousehold, "Failed to leave household. Please try again.");
+    } else if (action === 'close') {
+      void run(closeHousehold, "Failed to close household. Please try again.");
+    }
+  };
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>Household</DrawerTitle>
+        <DrawerDescription>
+          {household
+            ? `${household.name} · You are ${roleLabel(role || 'viewer').toLowerCase()}`
+            : 'Share one budget with family or a partner.'}
+        </DrawerDescription>
+      </DrawerHeader>
+
+      <AlertDialog open={!!confirmAction} onOpenChange={(open) => { if (!open) setConfirmAction(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmAction === 'close' ? 'Close this household?' : 'Leave this household?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmAction === 'close'
+                ? 'Members lose access to the shared budget. Your data stays with you.'
+                : 'You will go back to your own budget. Transactions you added stay in the household.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} className="bg-destructive text-destructive-foreground">
+              {confirmAction === 'close' ? 'Close Household' : 'Leave'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-6">
+            {!household ? (
+              <>
+                {receivedInvites.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Invites</CardTitle>
+                      <CardDescription>Joining switches you to the household&apos;s budget.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {receivedInvites.map((invite) => (
+                        <div key={`${invite.householdId}-${invite.id}`} className="p-3 border rounded-lg space-y-2">
+                          <div>
+                            <p className="font-medium">{invite.householdName}</p>
+                            <p className="text-xs text-muted-foreground">
+                              From {invite.invitedByName} as {roleLabel(invite.role).toLowerCase()}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              disabled={isSubmitting}
+                              onClick={() => run(
+                                () => acceptInvite(invite),
+                                "Failed to join household. Please try again.",
+                                { title: "Joined", description: `You are now in ${invite.householdName}.` }
+                              )}
+                            >
+                              Join
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isSubmitting}
+                              onClick={() => run(() => declineInvite(invite), "Failed to decline invite. Please try again.")}
+                            >
+                              Decline
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Create a Household</CardTitle>
+                    <CardDescription>Your current budget, accounts and transactions become the shared ones.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="household-name">Name</Label>
+                      <Input
+                        id="household-name"
+                        placeholder="e.g., The Tan Family"
+                        value={householdName}
+                        onChange={(e) => setHouseholdName(e.target.value)}
+                      />
+                    </div>
+                    <Button onClick={handleCreate} disabled={isSubmitting || !householdName.trim()} className="w-full">
+                      {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Users className="mr-2 h-4 w-4" />}
+                      Create Household
+                    </Button>
+                  </CardContent>
+                </Card>
+              </>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Members</CardTitle>
+                    <CardDescription>
+                      Editors add and change transactions and budgets. Viewers can only look.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {members.map((member) => (
+                      <div key={member.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">
+                            {member.name}{member.id === user?.uid ? ' (you)' : ''}
+                          </p>
+                          {(!isOwner || member.role === 'owner') && (
+                            <Badge variant="outline" className="text-xs mt-1">{roleLabel(member.role)}</Badge>
+                          )}
+                        </div>
+                        {isOwner && member.role !== 'owner' && (
+                          <div className="flex items-center gap-1">
+                            <Select
+                              value={member.role}
+                              onValueChange={(value) => run(
+                                () => setMemberRole(member.id, value as InviteRole),
+                                "Failed to change role. Please try again."
+                              )}
+                              disabled={isSubmitting}
+                            >
+                              <SelectTrigger className="h-8 w-[100px]" aria-label={`Role for ${member.name}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {INVITE_ROLES.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={isSubmitting}
+                              onClick={() => run(() => removeMember(member.id), "Failed to remove member. Please try again.")}
+                              aria-label={`Remove ${member.name}`}
+                            >
+                              <X className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                {isOwner && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Invite</CardTitle>
+                      <CardDescription>They join after signing in with this email and accepting.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex gap-2">
+                        <Input
+                          type="email"
+                          placeholder="name@example.com"
+                          value={inviteEmail}
+                          onChange={(e) => setInviteEmail(e.target.value)}
+                          aria-label="Email to invite"
+                        />
+                        <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InviteRole)}>
+                          <SelectTrigger className="w-[110px]" aria-label="Role to invite as">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INVITE_ROLES.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button onClick={handleInvite} disabled={isSubmitting || !inviteEmail.trim()} className="w-full">
+                        {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                        Send Invite
+                      </Button>
+
+                      {sentInvites.length > 0 && (
+                        <div className="space-y-2">
+                          <Label>Pending</Label>
+                          {sentInvites.map((invite) => (
+                            <div key={invite.id} className="flex items-center justify-between p-3 border rounded-lg">
+                              <div className="flex items-center gap-2 min-w-0">
+                                <Mail className="h-4 w-4 text-muted-foreground shrink-0" />
+                                <div className="min-w-0">
+                                  <p className="text-sm truncate">{invite.email}</p>
+                                  <p className="text-xs text-muted-foreground">{roleLabel(invite.role)}</p>
+                                </div>
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={isSubmitting}
+                                onClick={() => run(() => revokeInvite(invite.email), "Failed to revoke invite. Please try again.")}
+                                aria-label={`Revoke invite for ${invite.email}`}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Button
+                  variant="ghost"
+                  className="w-full text-destructive"
+                  disabled={isSubmitting}
+                  onClick={() => setConfirmAction(isOwner ? 'close' : 'leave')}
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  {isOwner ? 'Close Household' : 'Leave Household'}
+                </Button>
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,477 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import {
+  type Account,
+  type CsvColumnMapping,
+  type ImportDateFormat,
+  type ImportFileFormat,
+  type ImportPreset,
+  type Transaction,
+} from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import { Upload, Loader2, AlertTriangle, Trash2, ArrowLeft } from "lucide-react";
+import { cn } from "@/shared/utils";
+import { formatCurrency } from "@/shared/utils/currency";
+import { TRANSFER_CATEGORY, UNASSIGNED_ACCOUNT_ID } from "@/shared/constants";
+import { useFirestore, useUser } from "@/firebase";
+import { useToast } from "@/shared/hooks";
+import { useCategoryRules } from "@/features/rules/hooks";
+import {
+  ImportPresetService,
+  ImportUtils,
+  IMPORT_CONSTANTS,
+  IMPORT_ERRORS,
+  TransactionService,
+  useTransactionImport,
+  type CsvTable,
+  type ImportPreviewRow,
+  type RecurringImportData,
+  type TransactionImportData,
+} from "@/modules/transactions";
+
+export interface ImportWizardProps {
+  userId?: string;
+  transactions: Transaction[]; // Existing transactions, used to flag duplicates
+  categories: string[];
+  incomeCategories: string[];
+  categoryAliases?: Record<string, string>; // Old category names in files map to their current ones
+  accounts: Account[];
+  onComplete: () => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview';
+
+const NEW_PRESET = 'new';
+const NO_COLUMN = 'none';
+
+const FORMAT_LABELS: Record<ImportFileFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX',
+  qif: 'QIF',
+  json: 'JSON',
+};
+
+export function ImportWizard({ userId, transactions, categories, incomeCategories, categoryAliases, accounts, onComplete }: ImportWizardProps) {
+  const firestore = useFirestore();
+  const { user } = useUser();
+  const transactionService = useMemo(() => new TransactionService(firestore), [firestore]);
+  const importPresetService = useMemo(() => new ImportPresetService(firestore), [firestore]);
+  const { presets, isImporting, deletePreset, importRows } = useTransactionImport({
+    transactionService,
+    importPresetService,
+    userId,
+    createdBy: user?.uid,
+  });
+  const { activeRules } = useCategoryRules();
+  const { toast } = useToast();
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [presetId, setPresetId] = useState(NEW_PRESET);
+  const [fileFormat, setFileFormat] = useState<ImportFileFormat>('csv');
+  const [fileText, setFileText] = useState("");
+  const [csvTable, setCsvTable] = useState<CsvTable>({ headers: [], rows: [] });
+  const [columnMapping, setColumnMapping] = useState<CsvColumnMapping>({ date: '', description: '' });
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('dd/MM/yyyy');
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [recurringRows, setRecurringRows] = useState<RecurringImportData[]>([]);
+  const [accountId, setAccountId] = useState(UNASSIGNED_ACCOUNT_ID);
+  const [savePresetEnabled, setSavePresetEnabled] = useState(true);
+  const [bankName, setBankName] = useState("");
+
+  const selectedPreset = presets.find(preset => preset.id === presetId) || null;
+  const selectedCount = previewRows.filter(row => row.selected).length;
+  const duplicateCount = previewRows.filter(row => row.duplicateOf).length;
+
+  const showError = (message: string) => {
+    toast({
+      variant: "destructive",
+      title: "Couldn't Import File",
+      description: message,
+    });
+  };
+
+  // JSON exports can also carry recurring transactions, imported alongside the rows
+  const buildPreview = (
+    rows: TransactionImportData[],
+    errors: string[],
+    preset: ImportPreset | null,
+    recurring: RecurringImportData[] = []
+  ) => {
+    if (rows.length === 0 && recurring.length === 0) {
+      showError(errors[0] || IMPORT_ERRORS.EMPTY_FILE);
+      return;
+    }
+    if (rows.length > IMPORT_CONSTANTS.MAX_ROWS) {
+      showError(IMPORT_ERRORS.TOO_MANY_ROWS);
+      return;
+    }
+
+    setPreviewRows(ImportUtils.buildPreview(rows, {
+      existingTransactions: transactions,
+      categoryMap: preset?.categoryMap || {},
+      categories,
+      incomeCategories,
+      accountIds: accounts.map(account => account.id),
+      rules: activeRules,
+      categoryAliases,
+    }));
+    setParseErrors(errors);
+    setRecurringRows(recurring);
+    setStep('preview');
+  };
+
+  const parseRows = (
+    formatToParse: ImportFileFormat,
+    text: string,
+    table: CsvTable,
+    mapping: CsvColumnMapping,
+    dateFormatToUse: ImportDateFormat
+  ) => {
+    if (formatToParse === 'ofx') return ImportUtils.parseOfx(text);
+    if (formatToParse === 'json') return ImportUtils.parseJson(text);
+    if (formatToParse === 'qif') return ImportUtils.parseQif(text, dateFormatToUse);
+    return ImportUtils.mapCsvRows(table, mapping, dateFormatToUse);
+  };
+
+  const handlePresetChange = (value: string) => {
+    setPresetId(value);
+    const preset = presets.find(p => p.id === value);
+    setBankName(preset?.bankName || "");
+    setAccountId(preset?.accountId || UNASSIGNED_ACCOUNT_ID);
+    if (preset) setDateFormat(preset.dateFormat);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const text = await file.text();
+    const detected = ImportUtils.detectFormat(file.name, text);
+    if (!detected) {
+      showError(IMPORT_ERRORS.UNSUPPORTED_FORMAT);
+      return;
+    }
+
+    const table = detected === 'csv' ? ImportUtils.parseCsv(text) : { headers: [], rows: [] };
+    const presetMatches = selectedPreset?.format === detected;
+    const presetMapping = presetMatches ? selectedPreset.columnMapping : undefined;
+    const hasPresetMapping = ImportUtils.isMappingValid(presetMapping, table.headers);
+    const mapping = hasPresetMapping && presetMapping ? presetMapping : ImportUtils.guessCsvMapping(table.headers);
+
+    setFileFormat(detected);
+    setFileText(text);
+    setCsvTable(table);
+    setColumnMapping(mapping);
+    if (!bankName) setBankName(file.name.replace(/\.[^.]+$/, ''));
+
+    // OFX and JSON need no settings and a matching preset already has them
+    const needsMapping = (detected === 'csv' || detected === 'qif') &&
+      !(presetMatches && (detected === 'qif' || hasPresetMapping));
+    if (needsMapping) {
+      setStep('mapping');
+      return;
+    }
+
+    const { rows, errors, recurring } = parseRows(detected, text, table, mapping, dateFormat);
+    buildPreview(rows, errors, selectedPreset, recurring);
+  };
+
+  const handleContinue = () => {
+    if (fileFormat === 'csv' && !ImportUtils.isMappingValid(columnMapping, csvTable.headers)) {
+      showError(IMPORT_ERRORS.MISSING_COLUMNS);
+      return;
+    }
+
+    const { rows, errors, recurring } = parseRows(fileFormat, fileText, csvTable, columnMapping, dateFormat);
+    buildPreview(rows, errors, selectedPreset, recurring);
+  };
+
+  const updateRow = (rowId: string, updates: Partial<ImportPreviewRow>) => {
+    setPreviewRows(rows => rows.map(row => row.rowId === rowId ? { ...row, ...updates } : row));
+  };
+
+  const handleImport = async () => {
+    try {
+      await importRows(previewRows, {
+        accountId: accountId === UNASSIGNED_ACCOUNT_ID ? undefined : accountId,
+        recurring: recurringRows,
+        preset: savePresetEnabled
+          ? {
+              ...(selectedPreset && { id: selectedPreset.id }),
+              bankName,
+              format: fileFormat,
+              dateFormat,
+              ...(fileFormat === 'csv' && { columnMapping }),
+              categoryMap: selectedPreset?.categoryMap || {},
+              ...(accountId !== UNASSIGNED_ACCOUNT_ID && { accountId }),
+            }
+          : undefined,
+      });
+      onComplete();
+    } catch {
+      // useTransactionImport already shows the error
+    }
+  };
+
+  const renderColumnSelect = (label: string, field: keyof Omit<CsvColumnMapping, 'invertAmounts'>, optional = false) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={columnMapping[field] || NO_COLUMN}
+        onValueChange={(value) => setColumnMapping(mapping => ({ ...mapping, [field]: value === NO_COLUMN ? undefined : value }))}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+          {csvTable.headers.filter(Boolean).map((header) => (
+            <SelectItem key={header} value={header}>{header}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>Import Statement</DrawerTitle>
+        <DrawerDescription>
+          {step === 'upload' && 'Upload a CSV, OFX or QIF export from your bank.'}
+          {step === 'mapping' && `Tell us how to read this ${FORMAT_LABELS[fileFormat]} file.`}
+          {step === 'preview' && `${previewRows.length} transactions found${duplicateCount ? `, ${duplicateCount} already recorded` : ''}${recurringRows.length ? `, plus ${recurringRows.length} recurring` : ''}.`}
+        </DrawerDescription>
+      </DrawerHeader>
+
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-6 pb-4">
+            {step === 'upload' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Bank</Label>
+                  <Select value={presetId} onValueChange={handlePresetChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_PRESET}>New bank</SelectItem>
+                      {presets.map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>
+                          {preset.bankName} · {FORMAT_LABELS[preset.format]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedPreset && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => { deletePreset(selectedPreset.id).catch(() => undefined); handlePresetChange(NEW_PRESET); }}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Forget {selectedPreset.bankName}
+                    </Button>
+                  )}
+                </div>
+
+                <Label
+                  htmlFor="statement-file"
+                  className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-8 cursor-pointer text-muted-foreground"
+                >
+                  <Upload className="h-8 w-8" />
+                  <span>Choose statement file</span>
+                </Label>
+                <Input
+                  id="statement-file"
+                  type="file"
+                  accept={IMPORT_CONSTANTS.ACCEPTED_FILE_TYPES}
+                  className="hidden"
+                  onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ""; }}
+                />
+              </>
+            )}
+
+            {step === 'mapping' && (
+              <>
+                {fileFormat === 'csv' && (
+                  <>
+                    {renderColumnSelect('Date column', 'date')}
+                    {renderColumnSelect('Description column', 'description')}
+                    {renderColumnSelect('Amount column', 'amount', true)}
+                    {!columnMapping.amount && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {renderColumnSelect('Debit column', 'debit', true)}
+                        {renderColumnSelect('Credit column', 'credit', true)}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      {renderColumnSelect('Type column', 'type', true)}
+                      {renderColumnSelect('Category column', 'category', true)}
+                      {renderColumnSelect('Currency column', 'currency', true)}
+                      {renderColumnSelect('Account ID column', 'accountId', true)}
+                    </div>
+                    {columnMapping.amount && !columnMapping.type && (
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="invert-amounts">Spending is listed as positive</Label>
+                        <Switch
+                          id="invert-amounts"
+                          checked={!!columnMapping.invertAmounts}
+                          onCheckedChange={(checked) => setColumnMapping(mapping => ({ ...mapping, invertAmounts: checked }))}
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Date format</Label>
+                  <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ImportDateFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMPORT_CONSTANTS.DATE_FORMATS.map((dateFormatOption) => (
+                        <SelectItem key={dateFormatOption} value={dateFormatOption}>
+                          {dateFormatOption} ({format(new Date(), dateFormatOption)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {fileFormat === 'csv' && csvTable.rows[0] && (
+                  <p className="text-xs text-muted-foreground break-words">
+                    First row: {csvTable.rows[0].join(' | ')}
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setStep('upload')}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Back
+                  </Button>
+                  <Button className="flex-1" onClick={handleContinue}>Preview</Button>
+                </div>
+              </>
+            )}
+
+            {step === 'preview' && (
+              <>
+                {parseErrors.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {parseErrors.length} row{parseErrors.length === 1 ? '' : 's'} skipped. {parseErrors[0]}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {accounts.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Account</Label>
+                    <Select value={accountId} onValueChange={setAccountId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED_ACCOUNT_ID}>No account</SelectItem>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  {previewRows.map((row) => (
+                    <div
+                      key={row.rowId}
+                      className={cn("flex items-start gap-3 p-3 border rounded-lg", !row.selected && "opacity-60")}
+                    >
+                      <Checkbox
+                        checked={row.selected}
+                        onCheckedChange={(checked) => updateRow(row.rowId, { selected: checked === true })}
+                        aria-label={`Import ${row.description}`}
+                        className="mt-1"
+                      />
+                      <div className="flex-1 min-w-0 space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{row.description || 'No description'}</p>
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                              {format(new Date(row.date), 'MMM d, yyyy')}
+                              {row.duplicateOf && <Badge variant="secondary">Duplicate</Badge>}
+                              {row.ruleIds && <Badge variant="outline">Rule</Badge>}
+                            </div>
+                          </div>
+                          <span
+                            className={cn(
+                              "font-semibold whitespace-nowrap",
+                              row.type === 'income' ? 'text-green-600' : row.type === 'expense' ? 'text-red-600' : 'text-muted-foreground'
+                            )}
+                          >
+                            {row.type === 'income' ? '+' : row.type === 'expense' ? '-' : ''}{formatCurrency(row.amount, row.currency)}
+                          </span>
+                        </div>
+                        <Select value={row.category} onValueChange={(value) => updateRow(row.rowId, { category: value })}>
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(row.type === 'transfer' ? [TRANSFER_CATEGORY] : row.type === 'income' ? incomeCategories : categories).map((category) => (
+                              <SelectItem key={category} value={category}>{category}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="save-preset">Remember settings for this bank</Label>
+                    <Switch id="save-preset" checked={savePresetEnabled} onCheckedChange={setSavePresetEnabled} />
+                  </div>
+                  {savePresetEnabled && (
+                    <Input placeholder="Bank name" value={bankName} onChange={(e) => setBankName(e.target.value)} />
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setStep(fileFormat === 'csv' || fileFormat === 'qif' ? 'mapping' : 'upload')}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Back
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    onClick={handleImport}
+                    disabled={isImporting || (selectedCount === 0 && recurringRows.length === 0) || (savePresetEnabled && !bankName.trim())}
+                  >
+                    {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Import {selectedCount} transaction{selectedCount === 1 ? '' : 's'}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,471 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  type NotificationFrequency,
+  type NotificationSchedule,
+  type NotificationScheduleKind,
+} from "@/shared/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import { Plus, Edit, Trash2, Loader2, BellRing, Sparkles } from "lucide-react";
+import { useNotificationSchedules } from "@/features/notifications/hooks";
+import { type NotificationScheduleDto } from "@/features/notifications/services";
+import { useToast } from "@/shared/hooks";
+import { NOTIFICATION_FREQUENCY_LABELS, NOTIFICATION_SCHEDULE_KINDS } from "@/shared/constants";
+import { describeScheduleTiming, isDigestKind, validateSchedule } from "@/shared/utils/schedules";
+
+export interface NotificationSchedulesPageProps {
+  isPushSubscribed: boolean;
+}
+
+const NEW_SCHEDULE = 'new';
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+// Digests are turned on from the digests page
+const REMINDER_KINDS = (Object.keys(NOTIFICATION_SCHEDULE_KINDS) as NotificationScheduleKind[]).filter(kind => !isDigestKind(kind));
+
+const emptyDraft = (time: string): NotificationScheduleDto => ({
+  kind: 'log-reminder',
+  title: '',
+  body: '',
+  frequency: 'daily',
+  time,
+  daysOfWeek: [new Date().getDay()],
+  dayOfMonth: new Date().getDate(),
+  date: new Date().toISOString().slice(0, 10),
+});
+
+// Kinds like bill reminders always run at their own frequency
+const getFixedFrequency = (kind: NotificationScheduleKind): NotificationFrequency | null => {
+  const config = NOTIFICATION_SCHEDULE_KINDS[kind];
+  return 'frequency' in config ? config.frequency : null;
+};
+
+const describeSchedule = (schedule: NotificationSchedule) =>
+  schedule.kind === 'custom' ? schedule.title || NOTIFICATION_SCHEDULE_KINDS.custom.label : NOTIFICATION_SCHEDULE_KINDS[schedule.kind].label;
+
+export function NotificationSchedulesPage({ isPushSubscribed }: NotificationSchedulesPageProps) {
+  const {
+    schedules,
+    isSchedulesLoading,
+    quietHours,
+    timeZone,
+    suggestedTime,
+    createSchedule,
+    updateSchedule,
+    setScheduleActive,
+    deleteSchedule,
+    saveQuietHours,
+  } = useNotificationSchedules();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NotificationScheduleDto>(() => emptyDraft(suggestedTime));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [scheduleToDelete, setScheduleToDelete] = useState<NotificationSchedule | null>(null);
+  const [quietDraft, setQuietDraft] = useState(quietHours || DEFAULT_QUIET_HOURS);
+  const { toast } = useToast();
+
+  // Follow saved quiet hours, e.g. when changed on another device
+  useEffect(() => {
+    if (quietHours) setQuietDraft(quietHours);
+  }, [quietHours]);
+
+  const fixedFrequency = getFixedFrequency(draft.kind);
+  const frequency = fixedFrequency || draft.frequency;
+  const draftError = validateSchedule({ ...draft, frequency });
+
+  const run = async (action: () => Promise<void>, failure: string, success?: { title: string; description: string }) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      if (success) toast(success);
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startEditing = (schedule?: NotificationSchedule) => {
+    setEditingId(schedule?.id || NEW_SCHEDULE);
+    setDraft(schedule
+      ? {
+          kind: schedule.kind,
+          title: schedule.title || '',
+          body: schedule.body || '',
+          frequency: schedule.frequency,
+          time: schedule.time,
+          daysOfWeek: schedule.daysOfWeek?.length ? schedule.daysOfWeek : [new Date().getDay()],
+          dayOfMonth: schedule.dayOfMonth || 1,
+          date: schedule.date || new Date().toISOString().slice(0, 10),
+        }
+      : emptyDraft(suggestedTime));
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+  };
+
+  const handleSave = () => run(
+    async () => {
+      const scheduleData = { ...draft, frequency };
+      if (editingId === NEW_SCHEDULE) {
+        await createSchedule(scheduleData);
+      } else if (editingId) {
+        await updateSchedule(editingId, scheduleData);
+      }
+      stopEditing();
+    },
+    "Failed to save reminder. Please try again.",
+    { title: "Reminder Saved", description: "It's sent to this account's devices, even with the app closed." }
+  );
+
+  const handleDelete = () => {
+    const schedule = scheduleToDelete;
+    setScheduleToDelete(null);
+    if (schedule) {
+      void run(() => deleteSchedule(schedule.id), "Failed to delete reminder. Please try again.");
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    setDraft(current => {
+      const days = current.daysOfWeek || [];
+      return {
+        ...current,
+        daysOfWeek: days.includes(day) ? days.filter(d => d !== day) : [...days, day],
+      };
+    });
+  };
+
+  const renderEditor = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{editingId === NEW_SCHEDULE ? 'New Reminder' : 'Edit Reminder'}</CardTitle>
+        <CardDescription>{NOTIFICATION_SCHEDULE_KINDS[draft.kind].description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Reminder</Label>
+          <Select
+            value={draft.kind}
+            onValueChange={(value) => setDraft(current => ({ ...current, kind: value as NotificationScheduleKind }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REMINDER_KINDS.map(kind => (
+                <SelectItem key={kind} value={kind}>{NOTIFICATION_SCHEDULE_KINDS[kind].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.kind === 'custom' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="reminder-title">Title</Label>
+              <Input
+                id="reminder-title"
+                placeholder="e.g., Pay the credit card"
+                value={draft.title || ''}
+                onChange={(e) => setDraft(current => ({ ...current, title: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reminder-body">Message</Label>
+              <Input
+                id="reminder-body"
+                placeholder="Optional"
+                value={draft.body || ''}
+                onChange={(e) => setDraft(current => ({ ...current, body: e.target.value }))}
+              />
+            </div>
+          </>
+        )}
+
+        {!fixedFrequency && (
+          <div className="space-y-2">
+            <Label>Repeat</Label>
+            <Select
+              value={draft.frequency}
+              onValueChange={(value) => setDraft(current => ({ ...current, frequency: value as NotificationFrequency }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(NOTIFICATION_FREQUENCY_LABELS) as NotificationFrequency[]).map(option => (
+                  <SelectItem key={option} value={option}>{NOTIFICATION_FREQUENCY_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {frequency === 'weekly' && (
+          <div className="space-y-2">
+            <Label>On</Label>
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Button
+                  key={day}
+                  type="button"
+                  size="icon"
+                  variant={draft.daysOfWeek?.includes(day) ? 'default' : 'outline'}
+                  onClick={() => toggleDay(day)}
+                  aria-pressed={draft.daysOfWeek?.includes(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {frequency === 'monthly' && (
+          <div className="space-y-2">
+            <Label htmlFor="reminder-day">Day of the month</Label>
+            <Input
+              id="reminder-day"
+              type="number"
+              min="1"
+              max="31"
+              inputMode="numeric"
+              value={draft.dayOfMonth || ''}
+              onChange={(e) => setDraft(current => ({ ...current, dayOfMonth: Math.min(Math.max(Number(e.target.value) || 1, 1), 31) }))}
+            />
+          </div>
+        )}
+
+        {frequency === 'once' && (
+          <div className="space-y-2">
+            <Label htmlFor="reminder-date">Date</Label>
+            <Input
+              id="reminder-date"
+              type="date"
+              value={draft.date || ''}
+              onChange={(e) => setDraft(current => ({ ...current, date: e.target.value }))}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="reminder-time">Time</Label>
+          <div className="flex gap-2">
+            <Input
+              id="reminder-time"
+              type="time"
+              value={draft.time}
+              onChange={(e) => setDraft(current => ({ ...current, time: e.target.value }))}
+            />
+            {draft.time !== suggestedTime && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDraft(current => ({ ...current, time: suggestedTime }))}
+              >
+                <Sparkles className="mr-1 h-4 w-4" />
+                {suggestedTime}
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {timeZone} time. The suggestion is when you usually open notifications.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={stopEditing} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleSave} disabled={isSubmitting || !!draftError}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Reminder
+          </Button>
+        </div>
+        {draftError && (
+          <p className="text-xs text-muted-foreground text-center">{draftError}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>Reminders</DrawerTitle>
+        <DrawerDescription>
+          Sent as push notifications at the time you pick, even when the app is closed.
+        </DrawerDescription>
+      </DrawerHeader>
+
+      <AlertDialog open={!!scheduleToDelete} onOpenChange={(open) => { if (!open) setScheduleToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this reminder?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It won&apos;t be sent again. Pause it instead to keep it for later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-4 pb-4">
+            {editingId ? renderEditor() : (
+              <>
+                {!isPushSubscribed && (
+                  <p className="text-sm text-muted-foreground p-3 border rounded-lg">
+                    Turn on push notifications in settings to receive reminders on this device.
+                  </p>
+                )}
+
+                <Button onClick={() => startEditing()} className="w-full">
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Reminder
+                </Button>
+
+                {!isSchedulesLoading && schedules.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <BellRing className="h-8 w-8 mx-auto mb-2" />
+                    <p className="text-sm">No reminders yet. Add one to get nudged at the right time.</p>
+                  </div>
+                )}
+
+                {schedules.map((schedule) => (
+                  <div key={schedule.id} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{describeSchedule(schedule)}</p>
+                        <p className="text-xs text-muted-foreground">{describeScheduleTiming(schedule)}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {!schedule.isActive && (
+                          <Badge variant="secondary">{schedule.frequency === 'once' && schedule.lastSentAt ? 'Sent' : 'Paused'}</Badge>
+                        )}
+                        <Switch
+                          checked={schedule.isActive}
+                          disabled={isSubmitting}
+                          onCheckedChange={(checked) => run(
+                            () => setScheduleActive(schedule, checked),
+                            "Failed to update reminder. Please try again."
+                          )}
+                          aria-label={`${schedule.isActive ? 'Pause' : 'Resume'} ${describeSchedule(schedule)}`}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(schedule)} aria-label={`Edit ${describeSchedule(schedule)}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={isSubmitting}
+                        onClick={() => setScheduleToDelete(schedule)}
+                        aria-label={`Delete ${describeSchedule(schedule)}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Quiet Hours</CardTitle>
+                    <CardDescription>
+                      Reminders due in quiet hours wait until they end. Times are in {timeZone}.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="quiet-hours">Quiet hours</Label>
+                      <Switch
+                        id="quiet-hours"
+                        checked={!!quietHours}
+                        disabled={isSubmitting}
+                        onCheckedChange={(checked) => run(
+                          () => saveQuietHours(checked ? quietDraft : null),
+                          "Failed to save quiet hours. Please try again."
+                        )}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        aria-label="Quiet hours start"
+                        value={quietDraft.start}
+                        onChange={(e) => setQuietDraft(current => ({ ...current, start: e.target.value }))}
+                      />
+                      <span className="text-sm text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        aria-label="Quiet hours end"
+                        value={quietDraft.end}
+                        onChange={(e) => setQuietDraft(current => ({ ...current, end: e.target.value }))}
+                      />
+                    </div>
+                    {quietHours && (quietDraft.start !== quietHours.start || quietDraft.end !== quietHours.end) && (
+                      <Button
+                        className="w-full"
+                        variant="outline"
+                        disabled={isSubmitting}
+                        onClick={() => run(
+                          () => saveQuietHours(quietDraft),
+                          "Failed to save quiet hours. Please try again.",
+                          { title: "Quiet Hours Saved", description: `${quietDraft.start} to ${quietDraft.end}` }
+                        )}
+                      >
+                        Save Quiet Hours
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+}
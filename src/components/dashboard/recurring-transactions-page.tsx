@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { type RecurringTransaction } from "@/shared/types";
+import { type RecurringTransaction, type RecurrenceRule, type RecurrenceMonthRule } from "@/shared/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -39,14 +39,16 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
-import { Plus, Edit, Trash2, Calendar, TrendingUp, TrendingDown, Pause, Play } from "lucide-react";
-import { useForm } from "react-hook-form";
+import { Plus, Edit, Trash2, Calendar, TrendingUp, TrendingDown, Pause, Play, SkipForward } from "lucide-react";
+import { useForm, type UseFormReturn } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
 import { useRecurringTransactions } from "@/features/transactions/hooks/useRecurringTransactions";
 import { useToast } from "@/shared/hooks";
 import { DEFAULT_INCOME_CATEGORIES } from "@/shared/constants";
+import { describeRecurrence, getFirstOccurrence, getUpcomingOccurrences, toRecurrenceDate } from "@/shared/utils/recurrence";
+import { getDeviceTimeZone } from "@/shared/utils/schedules";
 
 const recurringFormSchema = z.object({
   Amount: z.coerce.number().positive({ message: "Amount must be positive" }),
@@ -54,12 +56,314 @@ const recurringFormSchema = z.object({
   Category: z.string().min(1, { message: "Category is required" }),
   Notes: z.string().min(1, { message: "Notes are required" }),
   frequency: z.enum(['weekly', 'monthly', 'yearly']),
+  interval: z.coerce.number().int().min(1, { message: "Interval must be at least 1" }).max(52),
+  monthRuleType: z.enum(['same-day', 'last-day', 'last-business-day', 'nth-weekday']),
+  nthWeek: z.coerce.number().int().min(-1).max(4),
+  nthWeekday: z.coerce.number().int().min(0).max(6),
+  endType: z.enum(['never', 'on-date', 'after-count']),
+  endDate: z.date().optional(),
+  maxOccurrences: z.coerce.number().int().optional(),
   nextDueDate: z.date(),
   isActive: z.boolean().default(true),
+}).superRefine((values, ctx) => {
+  if (values.endType === 'on-date' && (!values.endDate || values.endDate < values.nextDueDate)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: "End date must be after the next due date" });
+  }
+  if (values.endType === 'after-count' && (!values.maxOccurrences || values.maxOccurrences < 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['maxOccurrences'], message: "Enter how many times it repeats" });
+  }
 });
 
 type RecurringFormValues = z.infer<typeof recurringFormSchema>;
 
+const WEEKDAY_OPTIONS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const defaultFormValues: RecurringFormValues = {
+  Amount: 0,
+  Type: 'expense',
+  Category: "",
+  Notes: "",
+  frequency: 'monthly',
+  interval: 1,
+  monthRuleType: 'same-day',
+  nthWeek: 1,
+  nthWeekday: 1,
+  endType: 'never',
+  endDate: undefined,
+  maxOccurrences: undefined,
+  nextDueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+  isActive: true,
+};
+
+// Build the stored recurrence rule from the form's schedule fields
+const toRecurrenceRule = (values: RecurringFormValues): Required<RecurrenceRule> => {
+  let monthRule: RecurrenceMonthRule | null = null;
+  if (values.frequency !== 'weekly') {
+    switch (values.monthRuleType) {
+      case 'last-day':
+        monthRule = { type: 'last-day' };
+        break;
+      case 'last-business-day':
+        monthRule = { type: 'last-business-day' };
+        break;
+      case 'nth-weekday':
+        monthRule = { type: 'nth-weekday', week: values.nthWeek as 1 | 2 | 3 | 4 | -1, weekday: values.nthWeekday };
+        break;
+      default:
+        monthRule = { type: 'day-of-month', day: values.nextDueDate.getDate() };
+    }
+  }
+
+  return {
+    frequency: values.frequency,
+    interval: values.interval,
+    monthRule,
+    endDate: values.endType === 'on-date' ? values.endDate || null : null,
+    maxOccurrences: values.endType === 'after-count' ? values.maxOccurrences || null : null,
+    // The form's dates are the device's, so its days are too
+    timeZone: getDeviceTimeZone(),
+  };
+};
+
+// Reverse of toRecurrenceRule, used to fill the edit form
+const toFormValues = (transaction: RecurringTransaction): RecurringFormValues => {
+  const monthRule = transaction.monthRule;
+  return {
+    Amount: transaction.Amount,
+    Type: transaction.Type,
+    Category: transaction.Category,
+    Notes: transaction.Notes,
+    frequency: transaction.frequency,
+    interval: transaction.interval || 1,
+    monthRuleType: !monthRule || monthRule.type === 'day-of-month' ? 'same-day' : monthRule.type,
+    nthWeek: monthRule?.type === 'nth-weekday' ? monthRule.week : 1,
+    nthWeekday: monthRule?.type === 'nth-weekday' ? monthRule.weekday : 1,
+    endType: transaction.maxOccurrences ? 'after-count' : transaction.endDate ? 'on-date' : 'never',
+    endDate: transaction.endDate ? toRecurrenceDate(transaction.endDate) : undefined,
+    maxOccurrences: transaction.maxOccurrences || undefined,
+    nextDueDate: toRecurrenceDate(transaction.nextDueDate),
+    isActive: transaction.isActive,
+  };
+};
+
+interface RecurrenceScheduleFieldsProps {
+  form: UseFormReturn<RecurringFormValues>;
+  occurrenceCount?: number;
+}
+
+function RecurrenceScheduleFields({ form, occurrenceCount = 0 }: RecurrenceScheduleFieldsProps) {
+  const values = form.watch();
+  const rule = toRecurrenceRule(values);
+  const unit = values.frequency === 'weekly' ? 'week' : values.frequency === 'monthly' ? 'month' : 'year';
+  const preview = values.nextDueDate && !isNaN(values.nextDueDate.getTime())
+    ? getUpcomingOccurrences(rule, getFirstOccurrence(rule, values.nextDueDate), 5, occurrenceCount)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name="frequency"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Frequency</FormLabel>
+            <div className="flex gap-2 justify-center">
+              {['weekly', 'monthly', 'yearly'].map((freq) => (
+                <Button
+                  key={freq}
+                  type="button"
+                  variant={field.value === freq ? "default" : "outline"}
+                  onClick={() => field.onChange(freq)}
+                  className="h-auto py-3 px-4 capitalize"
+                >
+                  {freq}
+                </Button>
+              ))}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="interval"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Repeat Every</FormLabel>
+            <div className="flex items-center gap-2">
+              <FormControl>
+                <Input type="number" min={1} max={52} className="w-20" {...field} />
+              </FormControl>
+              <span className="text-sm text-muted-foreground">{unit}{Number(field.value) === 1 ? '' : 's'}</span>
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {values.frequency !== 'weekly' && (
+        <FormField
+          control={form.control}
+          name="monthRuleType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>On</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="same-day">Same day as the due date</SelectItem>
+                  <SelectItem value="last-day">Last day of the month</SelectItem>
+                  <SelectItem value="last-business-day">Last business day of the month</SelectItem>
+                  <SelectItem value="nth-weekday">A weekday of the month</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      {values.frequency !== 'weekly' && values.monthRuleType === 'nth-weekday' && (
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="nthWeek"
+            render={({ field }) => (
+              <FormItem>
+                <Select onValueChange={field.onChange} value={String(field.value)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="1">First</SelectItem>
+                    <SelectItem value="2">Second</SelectItem>
+                    <SelectItem value="3">Third</SelectItem>
+                    <SelectItem value="4">Fourth</SelectItem>
+                    <SelectItem value="-1">Last</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="nthWeekday"
+            render={({ field }) => (
+              <FormItem>
+                <Select onValueChange={field.onChange} value={String(field.value)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {WEEKDAY_OPTIONS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+        </div>
+      )}
+      <FormField
+        control={form.control}
+        name="nextDueDate"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Next Due Date</FormLabel>
+            <FormControl>
+              <Input
+                type="date"
+                className="h-auto py-3 px-4"
+                value={field.value ? field.value.toISOString().split('T')[0] : ''}
+                onChange={(e) => field.onChange(new Date(e.target.value))}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="endType"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Ends</FormLabel>
+            <div className="flex gap-2 justify-center">
+              {([['never', 'Never'], ['on-date', 'On date'], ['after-count', 'After']] as const).map(([value, label]) => (
+                <Button
+                  key={value}
+                  type="button"
+                  variant={field.value === value ? "default" : "outline"}
+                  onClick={() => field.onChange(value)}
+                  className="h-auto py-3 px-4"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {values.endType === 'on-date' && (
+        <FormField
+          control={form.control}
+          name="endDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <Input
+                  type="date"
+                  className="h-auto py-3 px-4"
+                  value={field.value ? field.value.toISOString().split('T')[0] : ''}
+                  onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      {values.endType === 'after-count' && (
+        <FormField
+          control={form.control}
+          name="maxOccurrences"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex items-center gap-2">
+                <FormControl>
+                  <Input type="number" min={1} className="w-24" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <span className="text-sm text-muted-foreground">occurrences</span>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      <div className="rounded-lg border p-3">
+        <p className="text-sm font-medium">{describeRecurrence(rule)}</p>
+        {preview.length > 0 ? (
+          <ul className="mt-2 space-y-1 text-sm text-muted-foreground">
+            {preview.map((date) => (
+              <li key={date.getTime()}>{format(date, 'EEE, MMM d, yyyy')}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-2 text-sm text-muted-foreground">No upcoming occurrences.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export interface RecurringTransactionsPageProps {
   categories: string[];
   incomeCategories: string[];
@@ -79,19 +383,26 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
     updateRecurringTransaction,
     deleteRecurringTransaction,
     toggleRecurringTransaction,
+    skipNextOccurrence,
   } = useRecurringTransactions();
 
+  // Form values to the fields stored on the recurring transaction
+  const toRecurringData = (values: RecurringFormValues) => {
+    const rule = toRecurrenceRule(values);
+    return {
+      Amount: values.Amount,
+      Type: values.Type,
+      Category: values.Category,
+      Notes: values.Notes,
+      ...rule,
+      nextDueDate: getFirstOccurrence(rule, values.nextDueDate),
+      isActive: values.isActive,
+    };
+  };
+
   const form = useForm<RecurringFormValues>({
     resolver: zodResolver(recurringFormSchema),
-    defaultValues: {
-      Amount: 0,
-      Type: 'expense',
-      Category: "",
-      Notes: "",
-      frequency: 'monthly',
-      nextDueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-      isActive: true,
-    },
+    defaultValues: defaultFormValues,
   });
 
   const selectedType = form.watch('Type');
@@ -99,13 +410,13 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
 
   const handleCreateSubmit = async (values: RecurringFormValues) => {
     try {
-      await createRecurringTransaction(values);
+      await createRecurringTransaction(toRecurringData(values));
       toast({
         title: "Success",
         description: "Recurring transaction created successfully.",
       });
       setCreateDialogOpen(false);
-      form.reset();
+      form.reset(defaultFormValues);
     } catch (error) {
       console.error('Failed to create recurring transaction:', error);
       toast({
@@ -120,13 +431,13 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
     if (!editingTransaction) return;
     
     try {
-      await updateRecurringTransaction(editingTransaction.id, values);
+      await updateRecurringTransaction(editingTransaction.id, toRecurringData(values));
       toast({
         title: "Success",
         description: "Recurring transaction updated successfully.",
       });
       setEditingTransaction(null);
-      form.reset();
+      form.reset(defaultFormValues);
     } catch (error) {
       console.error('Failed to update recurring transaction:', error);
       toast({
@@ -139,15 +450,7 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
 
   const handleEdit = (transaction: RecurringTransaction) => {
     setEditingTransaction(transaction);
-    form.reset({
-      Amount: transaction.Amount,
-      Type: transaction.Type,
-      Category: transaction.Category,
-      Notes: transaction.Notes,
-      frequency: transaction.frequency,
-      nextDueDate: new Date(transaction.nextDueDate),
-      isActive: transaction.isActive,
-    });
+    form.reset(toFormValues(transaction));
   };
 
   const handleDelete = async (id: string) => {
@@ -184,6 +487,23 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
     }
   };
 
+  const handleSkipNext = async (transaction: RecurringTransaction) => {
+    try {
+      await skipNextOccurrence(transaction);
+      toast({
+        title: "Success",
+        description: `Skipped the ${format(toRecurrenceDate(transaction.nextDueDate), 'MMM d')} occurrence.`,
+      });
+    } catch (error) {
+      console.error('Failed to skip recurring transaction:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to skip the next occurrence. Please try again.",
+      });
+    }
+  };
+
   const getTransactionIcon = (type: 'income' | 'expense') => {
     return type === 'income' ? TrendingUp : TrendingDown;
   };
@@ -192,10 +512,6 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
     return type === 'income' ? 'text-green-600' : 'text-red-600';
   };
 
-  const formatFrequency = (frequency: 'weekly' | 'monthly' | 'yearly') => {
-    return frequency.charAt(0).toUpperCase() + frequency.slice(1);
-  };
-
   return (
     <>
       <DrawerHeader>
@@ -227,7 +543,7 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
                           <div>
                             <p className="font-medium">{transaction.Notes}</p>
                             <p className="text-sm text-muted-foreground">
-                              Due: {format(new Date(transaction.nextDueDate), 'MMM d, yyyy')}
+                              Due: {format(toRecurrenceDate(transaction.nextDueDate), 'MMM d, yyyy')}
                             </p>
                           </div>
                         </div>
@@ -263,7 +579,7 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
                         Add Recurring
                       </Button>
                     </DialogTrigger>
-                    <DialogContent>
+                    <DialogContent className="max-h-[90vh] overflow-y-auto">
                       <DialogHeader>
                         <DialogTitle>Create Recurring Transaction</DialogTitle>
                         <DialogDescription>
@@ -348,49 +664,7 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
                             )}
                           />
                           
-                          <div className="space-y-4">
-                            <FormField
-                              control={form.control}
-                              name="frequency"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Frequency</FormLabel>
-                                  <div className="flex gap-2 justify-center">
-                                    {['weekly', 'monthly', 'yearly'].map((freq) => (
-                                      <Button
-                                        key={freq}
-                                        type="button"
-                                        variant={field.value === freq ? "default" : "outline"}
-                                        onClick={() => field.onChange(freq)}
-                                        className="h-auto py-3 px-4 capitalize"
-                                      >
-                                        {freq}
-                                      </Button>
-                                    ))}
-                                  </div>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            <FormField
-                              control={form.control}
-                              name="nextDueDate"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Next Due Date</FormLabel>
-                                  <FormControl>
-                                    <Input
-                                      type="date"
-                                      className="h-auto py-3 px-4"
-                                      value={field.value ? field.value.toISOString().split('T')[0] : ''}
-                                      onChange={(e) => field.onChange(new Date(e.target.value))}
-                                    />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                          </div>
+                          <RecurrenceScheduleFields form={form} />
                           
                           <DialogFooter>
                             <Button type="button" variant="outline" onClick={() => setCreateDialogOpen(false)}>
@@ -431,7 +705,7 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
                                 )}
                               </div>
                               <p className="text-sm text-muted-foreground">
-                                {formatFrequency(transaction.frequency)} • Next: {format(new Date(transaction.nextDueDate), 'MMM d, yyyy')}
+                                {describeRecurrence(transaction)} • Next: {format(toRecurrenceDate(transaction.nextDueDate), 'MMM d, yyyy')}
                               </p>
                             </div>
                           </div>
@@ -445,6 +719,17 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
                               </Badge>
                             </div>
                             <div className="flex items-center gap-1">
+                              {transaction.isActive && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => handleSkipNext(transaction)}
+                                  aria-label="Skip next occurrence"
+                                >
+                                  <SkipForward className="h-4 w-4" />
+                                </Button>
+                              )}
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -488,7 +773,7 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
 
       {/* Edit Dialog */}
       <Dialog open={!!editingTransaction} onOpenChange={(open) => !open && setEditingTransaction(null)}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Recurring Transaction</DialogTitle>
             <DialogDescription>
@@ -573,49 +858,7 @@ export function RecurringTransactionsPage({ categories, incomeCategories }: Recu
                 )}
               />
               
-              <div className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="frequency"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Frequency</FormLabel>
-                      <div className="flex gap-2 justify-center">
-                        {['weekly', 'monthly', 'yearly'].map((freq) => (
-                          <Button
-                            key={freq}
-                            type="button"
-                            variant={field.value === freq ? "default" : "outline"}
-                            onClick={() => field.onChange(freq)}
-                            className="h-auto py-3 px-4 capitalize"
-                          >
-                            {freq}
-                          </Button>
-                        ))}
-                      </div>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="nextDueDate"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Next Due Date</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="date"
-                          className="h-auto py-3 px-4"
-                          value={field.value ? field.value.toISOString().split('T')[0] : ''}
-                          onChange={(e) => field.onChange(new Date(e.target.value))}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              <RecurrenceScheduleFields form={form} occurrenceCount={editingTransaction?.occurrenceCount || 0} />
               
               <FormField
                 control={form.control}
@@ -2,7 +2,7 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import { type Transaction } from "@/shared/types";
+import { type Account, type CategoryParents, type Transaction } from "@/shared/types";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -19,33 +19,103 @@ import {
   CardDescription,
 } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { subDays, startOfDay, endOfDay, format, toDate } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon } from "lucide-react";
+import { CalendarIcon, Download, Loader2 } from "lucide-react";
 import { DateRange as ReactDateRange } from "react-day-picker";
 import { DrawerHeader, DrawerTitle } from "../ui/drawer";
+import { formatCurrency } from "@/shared/utils/currency";
+import { expandSplits } from "@/shared/utils/splits";
+import { getAllTags, hasTag } from "@/shared/utils/tags";
+import { getCategoryTree, rollUpAmounts } from "@/shared/utils/categories";
+import { useFirestore } from "@/firebase";
+import { ExportService, useTransactionExport, type ExportFormat } from "@/modules/reports";
+import { CustomReports } from "./custom-reports";
 
 type ReportPeriod = "last7" | "last30" | "custom";
 
+const ALL_CATEGORIES = "all";
+
 export interface ReportsPageProps {
-  allTransactions: Transaction[];
+  userId?: string;
+  allTransactions: Transaction[]; // Amounts in the base currency
   categories: string[];
+  categoryParents?: CategoryParents;
+  accounts?: Account[]; // Including archived ones, for naming report groups
+  currency?: string;
 }
 
 interface ReportData {
   category: string;
   amount: number;
   count: number;
+  depth?: number; // Nesting under parent categories, whose amounts include this one
+}
+
+interface TagReportData {
+  spent: number;
+  received: number; // Income with the tag, e.g. reimbursements
+  count: number;
+  from: Date | null;
+  to: Date | null;
+  categories: ReportData[];
 }
 
-export function ReportsPage({ allTransactions, categories }: ReportsPageProps) {
+const getTransactionDate = (t: Transaction): Date | null => {
+  if (typeof t.Date === 'string') return new Date(t.Date);
+  if (t.Date && typeof t.Date === 'object' && 'seconds' in t.Date) return toDate(t.Date.seconds * 1000);
+  return null;
+};
+
+/**
+ * Everything spent under a tag, whatever the period and category
+ */
+const buildTagReport = (transactions: Transaction[], tag: string): TagReportData => {
+  const tagged = transactions.filter(t => t.Type !== 'transfer' && hasTag(t, tag));
+  const dates = tagged.map(getTransactionDate).filter((date): date is Date => !!date).sort((a, b) => a.getTime() - b.getTime());
+
+  const byCategory = new Map<string, ReportData>();
+  expandSplits(tagged).filter(t => t.Type === 'expense').forEach(t => {
+    const entry = byCategory.get(t.Category) || { category: t.Category, amount: 0, count: 0 };
+    entry.amount += t.Amount;
+    entry.count++;
+    byCategory.set(t.Category, entry);
+  });
+  const categories = Array.from(byCategory.values()).sort((a, b) => b.amount - a.amount);
+
+  return {
+    spent: categories.reduce((sum, c) => sum + c.amount, 0),
+    received: tagged.filter(t => t.Type === 'income').reduce((sum, t) => sum + t.Amount, 0),
+    count: tagged.length,
+    from: dates[0] || null,
+    to: dates[dates.length - 1] || null,
+    categories,
+  };
+};
+
+export function ReportsPage({ userId, allTransactions, categories, categoryParents = {}, accounts, currency }: ReportsPageProps) {
+  const firestore = useFirestore();
+  const exportService = useMemo(() => new ExportService(firestore), [firestore]);
+  const { isExporting, exportTransactions } = useTransactionExport({ exportService, userId });
   const [period, setPeriod] = useState<ReportPeriod>("last7");
   const [customDateRange, setCustomDateRange] = useState<ReactDateRange | undefined>({
     from: subDays(new Date(), 6),
     to: new Date(),
   });
   const [generatedReport, setGeneratedReport] = useState<ReportData[] | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exportCategory, setExportCategory] = useState(ALL_CATEGORIES);
+  const [includeRecurring, setIncludeRecurring] = useState(false);
+  const [reportTag, setReportTag] = useState("");
+
+  const tags = useMemo(() => getAllTags(allTransactions), [allTransactions]);
+  const tagReport = useMemo(
+    () => (reportTag ? buildTagReport(allTransactions, reportTag) : null),
+    [allTransactions, reportTag]
+  );
 
   const dateRange = useMemo(() => {
     const now = new Date();
@@ -66,35 +136,57 @@ export function ReportsPage({ allTransactions, categories }: ReportsPageProps) {
     if (!dateRange.start || !dateRange.end) return;
 
     const filtered = allTransactions.filter(t => {
-      if (!t.Date) return false;
-      
-      let transactionDate: Date;
-      if (typeof t.Date === 'string') {
-        transactionDate = new Date(t.Date);
-      } else if (t.Date && typeof t.Date === 'object' && 'seconds' in t.Date) {
-        transactionDate = toDate(t.Date.seconds * 1000);
-      } else {
-        return false;
-      }
-      
-      return transactionDate >= dateRange.start! && transactionDate <= dateRange.end!;
+      const transactionDate = getTransactionDate(t);
+      return !!transactionDate && transactionDate >= dateRange.start! && transactionDate <= dateRange.end!;
+    });
+
+    // Split transactions count towards each of their categories
+    const categoryAmounts = expandSplits(filtered).filter(t => t.Type === 'expense' && categories.includes(t.Category));
+    const amounts: Record<string, number> = {};
+    const counts: Record<string, number> = {};
+    categoryAmounts.forEach(t => {
+      amounts[t.Category] = (amounts[t.Category] || 0) + t.Amount;
+      counts[t.Category] = (counts[t.Category] || 0) + 1;
     });
 
-    const report = categories.map(category => {
-      const categoryTransactions = filtered.filter(t => t.Category === category && t.Type === 'expense');
-      return {
-        category,
-        amount: categoryTransactions.reduce((sum, t) => sum + t.Amount, 0),
-        count: categoryTransactions.length,
-      };
-    }).filter(r => r.count > 0)
-      .sort((a, b) => b.amount - a.amount);
-
-    setGeneratedReport(report);
+    // Parents include their children's spending and are listed above them
+    const rolledAmounts = rollUpAmounts(amounts, categoryParents);
+    const rolledCounts = rollUpAmounts(counts, categoryParents);
+    const rows = getCategoryTree(categories, categoryParents)
+      .filter(item => rolledCounts[item.name] > 0)
+      .map(item => ({
+        category: item.name,
+        amount: rolledAmounts[item.name],
+        count: rolledCounts[item.name],
+        depth: item.depth,
+        parent: item.parent,
+      }));
+    const sortByAmount = (items: typeof rows) => [...items].sort((a, b) => b.amount - a.amount);
+    const withChildren = (parent: string | null): ReportData[] =>
+      sortByAmount(rows.filter(row => row.parent === parent))
+        .flatMap(row => [row, ...withChildren(row.category)]);
+
+    setGeneratedReport(withChildren(null));
   };
   
+  // Exports use the selected period, with original amounts and currencies
+  const handleExport = async () => {
+    if (!dateRange.start || !dateRange.end) return;
+
+    try {
+      await exportTransactions({
+        format: exportFormat,
+        dateRange: { start: dateRange.start, end: dateRange.end },
+        ...(exportCategory !== ALL_CATEGORIES && { categories: [exportCategory] }),
+        includeRecurring: exportFormat !== "csv" && includeRecurring,
+      });
+    } catch {
+      // useTransactionExport already shows the error
+    }
+  };
+
   const totalSpent = useMemo(() => {
-    return generatedReport?.reduce((sum, item) => sum + item.amount, 0) ?? 0;
+    return generatedReport?.filter(item => !item.depth).reduce((sum, item) => sum + item.amount, 0) ?? 0;
   }, [generatedReport]);
 
   return (
@@ -169,16 +261,16 @@ export function ReportsPage({ allTransactions, categories }: ReportsPageProps) {
                         <div className="space-y-4">
                             <div className="flex justify-between font-bold text-lg border-b pb-2 mb-2">
                                 <span>Total Spent:</span>
-                                <span>${totalSpent.toFixed(2)}</span>
+                                <span>{formatCurrency(totalSpent, currency)}</span>
                             </div>
                             {generatedReport.length > 0 ? (
                                 generatedReport.map((item) => (
-                                <div key={item.category} className="flex justify-between items-center">
+                                <div key={item.category} className="flex justify-between items-center" style={{ paddingLeft: `${item.depth || 0}rem` }}>
                                     <div>
                                     <p className="font-medium">{item.category}</p>
                                     <p className="text-sm text-muted-foreground">{item.count} transaction{item.count > 1 ? 's' : ''}</p>
                                     </div>
-                                    <p className="font-semibold">${item.amount.toFixed(2)}</p>
+                                    <p className="font-semibold">{formatCurrency(item.amount, currency)}</p>
                                 </div>
                                 ))
                             ) : (
@@ -188,6 +280,123 @@ export function ReportsPage({ allTransactions, categories }: ReportsPageProps) {
                     </CardContent>
                 </Card>
                 )}
+
+                <CustomReports transactions={allTransactions} categories={categories} accounts={accounts} currency={currency} />
+
+                {tags.length > 0 && (
+                <Card>
+                    <CardHeader>
+                    <CardTitle>Tag Report</CardTitle>
+                    <CardDescription>
+                        Everything with a tag, across all categories and dates.
+                    </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <Select value={reportTag} onValueChange={setReportTag}>
+                            <SelectTrigger aria-label="Tag">
+                            <SelectValue placeholder="Choose a tag" />
+                            </SelectTrigger>
+                            <SelectContent>
+                            {tags.map(tag => (
+                                <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                            ))}
+                            </SelectContent>
+                        </Select>
+                        {tagReport && (
+                            <div className="space-y-4">
+                                <p className="text-sm text-muted-foreground">
+                                    {tagReport.count} transaction{tagReport.count === 1 ? '' : 's'}
+                                    {tagReport.from && tagReport.to && ` · ${format(tagReport.from, "d MMM yyyy")} - ${format(tagReport.to, "d MMM yyyy")}`}
+                                </p>
+                                <div className="flex justify-between font-bold text-lg border-b pb-2 mb-2">
+                                    <span>Total Spent:</span>
+                                    <span>{formatCurrency(tagReport.spent, currency)}</span>
+                                </div>
+                                {tagReport.received > 0 && (
+                                    <>
+                                        <div className="flex justify-between text-sm">
+                                            <span>Received</span>
+                                            <span>{formatCurrency(tagReport.received, currency)}</span>
+                                        </div>
+                                        <div className="flex justify-between text-sm font-semibold">
+                                            <span>Net Cost</span>
+                                            <span>{formatCurrency(tagReport.spent - tagReport.received, currency)}</span>
+                                        </div>
+                                    </>
+                                )}
+                                {tagReport.categories.map((item) => (
+                                <div key={item.category} className="flex justify-between items-center">
+                                    <div>
+                                    <p className="font-medium">{item.category}</p>
+                                    <p className="text-sm text-muted-foreground">{item.count} transaction{item.count > 1 ? 's' : ''}</p>
+                                    </div>
+                                    <p className="font-semibold">{formatCurrency(item.amount, currency)}</p>
+                                </div>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+                )}
+
+                <Card>
+                    <CardHeader>
+                    <CardTitle>Export Transactions</CardTitle>
+                    <CardDescription>
+                        Download the selected period. CSV and JSON files can be imported again.
+                    </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                                <SelectTrigger>
+                                <SelectValue placeholder="Format" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                <SelectItem value="csv">CSV</SelectItem>
+                                <SelectItem value="json">JSON</SelectItem>
+                                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Select value={exportCategory} onValueChange={setExportCategory}>
+                                <SelectTrigger>
+                                <SelectValue placeholder="Category" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                                {categories.map(category => (
+                                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                                ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="include-recurring" className={exportFormat === "csv" ? "text-muted-foreground" : undefined}>
+                                Include recurring transactions
+                            </Label>
+                            <Switch
+                                id="include-recurring"
+                                checked={exportFormat !== "csv" && includeRecurring}
+                                onCheckedChange={setIncludeRecurring}
+                                disabled={exportFormat === "csv"}
+                            />
+                        </div>
+                        {exportFormat === "csv" && (
+                            <p className="text-xs text-muted-foreground">
+                                CSV files hold transactions only. Export as JSON or XLSX to include recurring transactions.
+                            </p>
+                        )}
+                        <Button
+                            variant="outline"
+                            onClick={handleExport}
+                            className="w-full"
+                            disabled={!userId || isExporting || !dateRange.start || !dateRange.end}
+                        >
+                            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                            Export
+                        </Button>
+                    </CardContent>
+                </Card>
             </div>
         </ScrollArea>
       </div>
@@ -0,0 +1,295 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { type SavingsGoal, type Transaction } from "@/shared/types";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/shared/utils";
+import { toRecurrenceDate } from "@/shared/utils/recurrence";
+import { formatCurrency } from "@/shared/utils/currency";
+import { useFirestore } from "@/firebase";
+import { Plus, PiggyBank, Trash2, Loader2 } from "lucide-react";
+import { SavingsService, useSavingsGoals } from "@/modules/savings";
+
+export interface SavingsGoalsProps {
+  userId?: string;
+  transactions: Transaction[]; // Recent transactions a contribution can be linked to
+  currency?: string;
+}
+
+const NO_TRANSACTION = 'none';
+const LINKABLE_TRANSACTIONS_LIMIT = 20;
+
+export function SavingsGoals({ userId, transactions, currency }: SavingsGoalsProps) {
+  const firestore = useFirestore();
+  const savingsService = useMemo(() => new SavingsService(firestore), [firestore]);
+  const {
+    activeGoals,
+    goalProgress,
+    summary,
+    isLoading,
+    createGoal,
+    deleteGoal,
+    addContribution,
+  } = useSavingsGoals({ savingsService, userId });
+
+  const [isCreateOpen, setCreateOpen] = useState(false);
+  const [goalName, setGoalName] = useState("");
+  const [targetAmount, setTargetAmount] = useState("");
+  const [targetDate, setTargetDate] = useState("");
+  const [initialAmount, setInitialAmount] = useState("");
+
+  const [goalToFund, setGoalToFund] = useState<SavingsGoal | null>(null);
+  const [contributionAmount, setContributionAmount] = useState("");
+  const [isWithdrawal, setIsWithdrawal] = useState(false);
+  const [linkedTransactionId, setLinkedTransactionId] = useState(NO_TRANSACTION);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const linkableTransactions = useMemo(
+    () => transactions.filter(t => t.Type !== 'income').slice(0, LINKABLE_TRANSACTIONS_LIMIT),
+    [transactions]
+  );
+
+  const resetCreateForm = () => {
+    setGoalName("");
+    setTargetAmount("");
+    setTargetDate("");
+    setInitialAmount("");
+  };
+
+  const resetContributionForm = () => {
+    setGoalToFund(null);
+    setContributionAmount("");
+    setIsWithdrawal(false);
+    setLinkedTransactionId(NO_TRANSACTION);
+  };
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    try {
+      await createGoal({
+        name: goalName,
+        targetAmount: parseFloat(targetAmount),
+        targetDate: new Date(targetDate),
+        initialAmount: parseFloat(initialAmount) || 0,
+      });
+      setCreateOpen(false);
+      resetCreateForm();
+    } catch {
+      // useSavingsGoals already shows the error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleContribute = async () => {
+    if (!goalToFund) return;
+
+    const amount = parseFloat(contributionAmount) || 0;
+    setIsSubmitting(true);
+    try {
+      await addContribution(goalToFund.id, {
+        amount: isWithdrawal ? -amount : amount,
+        transactionId: linkedTransactionId === NO_TRANSACTION ? null : linkedTransactionId,
+      });
+      resetContributionForm();
+    } catch {
+      // useSavingsGoals already shows the error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Pre-fill the amount from the linked transaction
+  const handleLinkTransaction = (transactionId: string) => {
+    setLinkedTransactionId(transactionId);
+    const transaction = transactions.find(t => t.id === transactionId);
+    if (transaction) setContributionAmount(String(transaction.Amount));
+  };
+
+  return (
+    <Card className="rounded-[var(--radius)]">
+      <CardHeader className="flex flex-row items-center justify-between p-4">
+        <div>
+          <CardTitle>Savings Goals</CardTitle>
+          <CardDescription>
+            {activeGoals.length > 0
+              ? `${formatCurrency(summary.totalSaved, currency)} of ${formatCurrency(summary.totalTarget, currency)} · ${formatCurrency(summary.totalRequiredMonthly, currency)}/month needed`
+              : 'Set a target and track your progress.'}
+          </CardDescription>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 rounded-full bg-primary/10"
+          onClick={() => setCreateOpen(true)}
+          aria-label="Add savings goal"
+        >
+          <Plus className="h-4 w-4 text-primary" />
+        </Button>
+      </CardHeader>
+      <CardContent className="px-4 pt-0 space-y-4">
+        {isLoading && activeGoals.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : activeGoals.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">
+            <PiggyBank className="h-10 w-10 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No savings goals yet</p>
+          </div>
+        ) : (
+          activeGoals.map((goal) => {
+            const progress = goalProgress[goal.id];
+            if (!progress) return null;
+
+            return (
+              <div key={goal.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <button
+                    type="button"
+                    className="text-left focus:outline-none"
+                    onClick={() => setGoalToFund(goal)}
+                  >
+                    <p className="font-medium">{goal.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(progress.saved, currency)} of {formatCurrency(goal.targetAmount, currency)} by {format(toRecurrenceDate(goal.targetDate), 'MMM d, yyyy')}
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-1">
+                    <span className="text-sm text-muted-foreground">{progress.percentage.toFixed(0)}%</span>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteGoal(goal.id)} aria-label="Delete savings goal">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+                <Progress
+                  value={progress.percentage}
+                  className={cn("h-2", progress.isOverdue && "[&>div]:bg-destructive")}
+                />
+                <p className={cn("text-xs", progress.isOverdue ? "text-destructive" : "text-muted-foreground")}>
+                  {progress.isComplete
+                    ? 'Goal reached'
+                    : progress.isOverdue
+                      ? `Past target date, ${formatCurrency(progress.remaining, currency)} to go`
+                      : `Save ${formatCurrency(progress.requiredMonthlyContribution, currency)}/month for ${progress.monthsRemaining} month${progress.monthsRemaining === 1 ? '' : 's'}`}
+                </p>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => { setCreateOpen(open); if (!open) resetCreateForm(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Savings Goal</DialogTitle>
+            <DialogDescription>We&apos;ll work out how much to set aside each month.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="goal-name">Name</Label>
+              <Input id="goal-name" placeholder="e.g., Holiday" value={goalName} onChange={(e) => setGoalName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-target">Target Amount</Label>
+              <Input id="goal-target" type="number" inputMode="decimal" placeholder="0.00" value={targetAmount} onChange={(e) => setTargetAmount(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-date">Target Date</Label>
+              <Input id="goal-date" type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-initial">Already Saved</Label>
+              <Input id="goal-initial" type="number" inputMode="decimal" placeholder="0.00" value={initialAmount} onChange={(e) => setInitialAmount(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleCreate} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Goal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!goalToFund} onOpenChange={(open) => { if (!open) resetContributionForm(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{isWithdrawal ? 'Withdraw from' : 'Contribute to'} {goalToFund?.name}</DialogTitle>
+            <DialogDescription>
+              {goalToFund && goalProgress[goalToFund.id]
+                ? `${formatCurrency(goalProgress[goalToFund.id].remaining, currency)} left to reach your target.`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="contribution-amount">Amount</Label>
+              <Input
+                id="contribution-amount"
+                type="number"
+                inputMode="decimal"
+                placeholder="0.00"
+                value={contributionAmount}
+                onChange={(e) => setContributionAmount(e.target.value)}
+              />
+            </div>
+            {!isWithdrawal && linkableTransactions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Linked Transaction</Label>
+                <Select value={linkedTransactionId} onValueChange={handleLinkTransaction}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TRANSACTION}>None</SelectItem>
+                    {linkableTransactions.map((transaction) => (
+                      <SelectItem key={transaction.id} value={transaction.id}>
+                        {transaction.Notes || transaction.Category} · {formatCurrency(transaction.Amount, transaction.currency || currency)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="contribution-withdrawal">Withdrawal</Label>
+              <Switch
+                id="contribution-withdrawal"
+                checked={isWithdrawal}
+                onCheckedChange={(checked) => { setIsWithdrawal(checked); setLinkedTransactionId(NO_TRANSACTION); }}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleContribute} disabled={isSubmitting || !contributionAmount}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isWithdrawal ? 'Withdraw' : 'Add Contribution'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import { CloudOff, CheckCircle2, RotateCw, Trash2, Loader2, GitMerge } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/shared/hooks";
+import { ConflictMergeDialog } from "./conflict-merge-dialog";
+import type {
+  ConflictEntry,
+  DeadLetterEntry,
+  OutboxCollection,
+  OutboxEntry,
+  OutboxOperation,
+} from "@/lib/background-sync";
+
+export interface SyncIssuesPageProps {
+  pendingCount: number;
+  deadLetters: DeadLetterEntry[];
+  conflicts: ConflictEntry[];
+  onRetry: (id: string) => Promise<void>;
+  onDiscard: (id: string) => Promise<void>;
+  onResolveConflict: (id: string, resolution: Record<string, unknown> | null) => Promise<void>;
+  onSyncNow: () => Promise<void>;
+}
+
+const COLLECTION_LABELS: Record<OutboxCollection, string> = {
+  transactions: 'transaction',
+  budgets: 'budget',
+  recurringTransactions: 'recurring transaction',
+};
+
+const OPERATION_LABELS: Record<OutboxOperation, string> = {
+  create: 'Add',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+// e.g. "Add transaction: Coffee"
+const describeWrite = (entry: OutboxEntry) => {
+  const name = entry.data?.Notes || entry.data?.Category || entry.base?.Notes || entry.base?.Category || entry.docId;
+  return `${OPERATION_LABELS[entry.operation]} ${COLLECTION_LABELS[entry.collection]}: ${String(name)}`;
+};
+
+export function SyncIssuesPage({
+  pendingCount,
+  deadLetters,
+  conflicts,
+  onRetry,
+  onDiscard,
+  onResolveConflict,
+  onSyncNow,
+}: SyncIssuesPageProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<ConflictEntry | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { toast } = useToast();
+
+  const handleAction = async (id: string, action: (id: string) => Promise<void>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action(id);
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `${failure}. Please try again.`,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await onSyncNow();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>Sync</DrawerTitle>
+        <DrawerDescription>Changes made offline are saved on this device until they reach the server.</DrawerDescription>
+      </DrawerHeader>
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Waiting to Sync</CardTitle>
+                    <CardDescription>
+                      {pendingCount === 0 ? 'Everything is up to date' : `${pendingCount} change${pendingCount === 1 ? '' : 's'} queued`}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" onClick={handleSyncNow} disabled={isSyncing || pendingCount === 0}>
+                    {isSyncing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCw className="h-4 w-4 mr-2" />}
+                    Sync Now
+                  </Button>
+                </div>
+              </CardHeader>
+            </Card>
+
+            {conflicts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Needs Review</CardTitle>
+                  <CardDescription>These were also changed on another device. Choose what to keep.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {conflicts.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{describeWrite(entry)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.server
+                            ? `${entry.conflicts.length} conflicting field${entry.conflicts.length === 1 ? '' : 's'}`
+                            : 'Deleted on another device'}
+                        </p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => setReviewing(entry)}>
+                        <GitMerge className="h-4 w-4 mr-2" />
+                        Review
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Failed Changes</CardTitle>
+                <CardDescription>These were rejected by the server. Retry them or discard them.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {deadLetters.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <CheckCircle2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No failed changes</p>
+                  </div>
+                ) : (
+                  deadLetters.map((entry) => (
+                    <div key={entry.id} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <CloudOff className="h-4 w-4 shrink-0 text-destructive" />
+                          <p className="font-medium truncate">{describeWrite(entry)}</p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleAction(entry.id, onRetry, 'Failed to retry change')}
+                            disabled={busyId === entry.id}
+                            aria-label="Retry change"
+                          >
+                            <RotateCw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleAction(entry.id, onDiscard, 'Failed to discard change')}
+                            disabled={busyId === entry.id}
+                            aria-label="Discard change"
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground break-words">{entry.error}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Made {format(entry.queuedAt, 'MMM d, yyyy HH:mm')} · Failed {format(entry.failedAt, 'MMM d, yyyy HH:mm')} after {entry.attempts} attempt{entry.attempts === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </ScrollArea>
+      </div>
+
+      <ConflictMergeDialog
+        conflict={reviewing}
+        onOpenChange={(open) => { if (!open) setReviewing(null); }}
+        onResolve={onResolveConflict}
+      />
+    </>
+  );
+}
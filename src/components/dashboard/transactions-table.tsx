@@ -1,4 +1,5 @@
 
+import { useState, useMemo } from "react";
 import {
   Table,
   TableBody,
@@ -23,12 +24,19 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import type { Transaction } from "@/shared/types";
+import { formatCurrency, convertToBase, type ExchangeRateMap } from "@/shared/utils/currency";
+import { DEFAULT_BASE_CURRENCY } from "@/shared/constants";
+import { getTransactionMemberId } from "@/shared/utils/household";
+import { formatSplits, hasSplits } from "@/shared/utils/splits";
+import { formatTags } from "@/shared/utils/tags";
 import { ChartConfig } from "../ui/chart";
 import { format, toDate } from 'date-fns';
 import { Button } from "../ui/button";
-import { ChevronDown, ArrowUpDown, MoreHorizontal } from "lucide-react";
+import { ChevronDown, ArrowUpDown, MoreHorizontal, ListChecks } from "lucide-react";
 import { SortOption } from "@/app/dashboard";
+import { BulkActionsBar } from "./bulk-actions-bar";
 
 interface TransactionsTableProps {
   data: Transaction[];
@@ -39,6 +47,14 @@ interface TransactionsTableProps {
   onSortChange: (option: SortOption) => void;
   onEdit: (transaction: Transaction) => void;
   onDelete: (transaction: Transaction) => void;
+  baseCurrency?: string;
+  rates?: ExchangeRateMap;
+  userId?: string;
+  filterTransactionIds?: string[]; // Every transaction in the current period, for select-all
+  categories?: string[];
+  incomeCategories?: string[];
+  readOnly?: boolean; // Household viewers can't change transactions
+  memberNames?: Record<string, string>; // Household members by id, to show who entered each transaction
 }
 
 export function TransactionsTable({ 
@@ -49,8 +65,57 @@ export function TransactionsTable({
   sortOption, 
   onSortChange,
   onEdit,
-  onDelete 
+  onDelete,
+  baseCurrency = DEFAULT_BASE_CURRENCY,
+  rates = {},
+  userId,
+  filterTransactionIds = [],
+  categories = [],
+  incomeCategories = [],
+  readOnly = false,
+  memberNames,
 }: TransactionsTableProps) {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Drop selections that left the current period or were deleted
+  const selectedInFilter = useMemo(
+    () => filterTransactionIds.filter(id => selectedIds.has(id)),
+    [filterTransactionIds, selectedIds]
+  );
+  const allVisibleSelected = data.length > 0 && data.every(transaction => selectedIds.has(transaction.id));
+
+  const toggleSelected = (transactionId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(transactionId);
+      } else {
+        next.delete(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const toggleVisibleSelected = (checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      data.forEach(transaction => {
+        if (checked) {
+          next.add(transaction.id);
+        } else {
+          next.delete(transaction.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
   const formatDate = (dateValue: { seconds: number; nanoseconds: number; } | string | null) => {
     if (dateValue === null) {
         return { date: 'Invalid', time: 'Date' };
@@ -86,6 +151,13 @@ export function TransactionsTable({
 
   // Helper function to get transaction styling
   const getTransactionStyling = (transaction: Transaction) => {
+    // Transfers move money between accounts, so they are neither gain nor loss
+    if (transaction.Type === 'transfer') {
+      return {
+        prefix: '',
+        prefixColor: 'text-muted-foreground',
+      };
+    }
     const isIncome = isIncomeTransaction(transaction);
     return {
       prefix: isIncome ? '+' : '-',
@@ -108,37 +180,73 @@ export function TransactionsTable({
             Your most recent financial activities.
           </CardDescription>
         </div>
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" size="icon" className="h-8 w-8 focus-visible:outline-none rounded-full bg-primary/10" aria-label="Sort transactions">
-              <ArrowUpDown className="h-4 w-4 text-primary" />
+        <div className="flex items-center gap-2">
+          {!readOnly && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`h-8 w-8 focus-visible:outline-none rounded-full ${isSelecting ? 'bg-primary text-primary-foreground' : 'bg-primary/10'}`}
+              onClick={() => isSelecting ? exitSelection() : setIsSelecting(true)}
+              aria-label={isSelecting ? "Stop selecting transactions" : "Select transactions"}
+              aria-pressed={isSelecting}
+            >
+              <ListChecks className={`h-4 w-4 ${isSelecting ? '' : 'text-primary'}`} />
             </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuRadioGroup value={sortOption} onValueChange={(value) => onSortChange(value as SortOption)}>
-              {sortOptions.map((option) => (
-                  <DropdownMenuRadioItem
-                    key={option.value}
-                    value={option.value}
-                  >
-                    {option.label}
-                  </DropdownMenuRadioItem>
-                ))}
-            </DropdownMenuRadioGroup>
-          </DropdownMenuContent>
-        </DropdownMenu>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8 focus-visible:outline-none rounded-full bg-primary/10" aria-label="Sort transactions">
+                <ArrowUpDown className="h-4 w-4 text-primary" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuRadioGroup value={sortOption} onValueChange={(value) => onSortChange(value as SortOption)}>
+                {sortOptions.map((option) => (
+                    <DropdownMenuRadioItem
+                      key={option.value}
+                      value={option.value}
+                    >
+                      {option.label}
+                    </DropdownMenuRadioItem>
+                  ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </CardHeader>
       <CardContent className="px-4 pt-0">
+        {isSelecting && (
+          <BulkActionsBar
+            userId={userId}
+            selectedIds={selectedInFilter}
+            filterCount={filterTransactionIds.length}
+            onSelectAllInFilter={() => setSelectedIds(new Set(filterTransactionIds))}
+            onClearSelection={exitSelection}
+            categories={categories}
+            incomeCategories={incomeCategories}
+          />
+        )}
         {data.length > 0 ? (
           <>
             <Table>
               <caption className="sr-only">Recent Transactions</caption>
               <TableHeader>
                 <TableRow className="border-b-0">
+                  {isSelecting && (
+                    <TableHead scope="col" className="p-1 pl-0 w-6">
+                      <Checkbox
+                        checked={allVisibleSelected}
+                        onCheckedChange={(checked) => toggleVisibleSelected(checked === true)}
+                        aria-label="Select all shown transactions"
+                      />
+                    </TableHead>
+                  )}
                   <TableHead scope="col" className="p-1 pl-0">Date</TableHead>
                   <TableHead scope="col" className="p-1 text-left">Description</TableHead>
                   <TableHead scope="col" className="p-1 text-right">Amount</TableHead>
-                  <TableHead scope="col" className="p-1 pr-0 text-right"><span className="sr-only">Actions</span></TableHead>
+                  {!isSelecting && !readOnly && (
+                    <TableHead scope="col" className="p-1 pr-0 text-right"><span className="sr-only">Actions</span></TableHead>
+                  )}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -146,9 +254,21 @@ export function TransactionsTable({
                     const { date, time } = formatDate(transaction.Date);
                     const styling = getTransactionStyling(transaction);
                     const isIncome = isIncomeTransaction(transaction);
+                    const currency = transaction.currency || baseCurrency;
+                    const isForeign = currency !== baseCurrency;
+                    const memberName = memberNames && userId ? memberNames[getTransactionMemberId(transaction, userId)] : undefined;
                     
                     return (
-                      <TableRow key={transaction.id} className="border-b-0">
+                      <TableRow key={transaction.id} className="border-b-0" data-state={selectedIds.has(transaction.id) ? "selected" : undefined}>
+                        {isSelecting && (
+                          <TableCell className="p-1 pl-0">
+                            <Checkbox
+                              checked={selectedIds.has(transaction.id)}
+                              onCheckedChange={(checked) => toggleSelected(transaction.id, checked === true)}
+                              aria-label={`Select transaction ${transaction.Notes}`}
+                            />
+                          </TableCell>
+                        )}
                         <TableCell className="font-medium text-sm p-1 pl-0">
                             <div>{date}</div>
                             <div className="text-muted-foreground">{time}</div>
@@ -166,36 +286,56 @@ export function TransactionsTable({
                                 color: chartConfig[transaction.Category]?.color || '#dc2626',
                                 borderColor: chartConfig[transaction.Category]?.color || '#dc2626',
                               } : undefined}
+                              title={hasSplits(transaction) ? formatSplits(transaction.splits) : undefined}
                             >
                               {transaction.Category}
+                              {hasSplits(transaction) && ` +${transaction.splits.length - 1}`}
                             </Badge>
-                            <span className="font-medium truncate block max-w-[120px] text-base">{transaction.Notes}</span>
+                            <div className="min-w-0">
+                              <span className="font-medium truncate block max-w-[120px] text-base">{transaction.Notes}</span>
+                              {!!transaction.tags?.length && (
+                                <span className="text-xs text-muted-foreground truncate block max-w-[120px]" title={formatTags(transaction.tags)}>
+                                  {transaction.tags.map(tag => `#${tag}`).join(' ')}
+                                </span>
+                              )}
+                              {memberName && (
+                                <span className="text-xs text-muted-foreground truncate block max-w-[120px]">by {memberName}</span>
+                              )}
+                            </div>
                           </div>
                         </TableCell>
                         <TableCell className="font-medium text-base p-1 text-right">
                           <div className={`flex items-center justify-end gap-1 ${styling.prefixColor}`}>
                             <span>{styling.prefix}</span>
-                            <span>$</span>
-                            <span>{transaction.Amount.toFixed(2)}</span>
+                            <span>{formatCurrency(transaction.Amount, currency)}</span>
                           </div>
+                          {isForeign && (
+                            <div className="text-xs text-muted-foreground">
+                              {rates[currency]
+                                ? `≈ ${formatCurrency(convertToBase(transaction.Amount, currency, baseCurrency, rates), baseCurrency)}`
+                                : 'No rate'}
+                            </div>
+                          )}
                         </TableCell>
-                        <TableCell className="p-1 pr-0 text-right">
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="icon" className="h-6 w-6 focus-visible:outline-none" aria-label={`More options for transaction of $${transaction.Amount.toFixed(2)} on ${date}`}>
-                                <MoreHorizontal className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem onSelect={() => onEdit(transaction)}>
-                                Edit
-                              </DropdownMenuItem>
-                              <DropdownMenuItem onSelect={() => onDelete(transaction)} className="text-destructive">
-                                Delete
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </TableCell>
+                        {!isSelecting && !readOnly && (
+                          <TableCell className="p-1 pr-0 text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-6 w-6 focus-visible:outline-none" aria-label={`More options for transaction of ${formatCurrency(transaction.Amount, currency)} on ${date}`}>
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onSelect={() => onEdit(transaction)}>
+                                  Edit
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onSelect={() => onDelete(transaction)} className="text-destructive">
+                                  Delete
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        )}
                       </TableRow>
                     )
                 })}
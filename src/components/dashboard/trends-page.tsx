@@ -0,0 +1,172 @@
+"use client";
+
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import { type Transaction } from "@/shared/types";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DrawerHeader, DrawerTitle, DrawerDescription } from "@/components/ui/drawer";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { TrendUtils } from "@/modules/reports";
+import { formatCurrency } from "@/shared/utils/currency";
+import { cn } from "@/shared/utils";
+
+export interface TrendsPageProps {
+  transactions: Transaction[]; // Amounts in the base currency
+  monthlyBudget: number; // This month's expense budget, including rollover
+  currency?: string;
+}
+
+const cumulativeConfig = {
+  actual: { label: 'Spent', color: 'hsl(var(--chart-1))' },
+  pace: { label: 'Budget pace', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const monthlyConfig = {
+  income: { label: 'Income', color: 'hsl(var(--chart-2))' },
+  expenses: { label: 'Expenses', color: 'hsl(var(--chart-5))' },
+  net: { label: 'Net', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+// Spending going down is good, so decreases are green
+function ChangeCell({ change }: { change: number | null }) {
+  if (change === null) {
+    return <span className="text-muted-foreground">–</span>;
+  }
+  return (
+    <span className={cn(change <= 0 ? "text-green-600" : "text-red-600")}>
+      {change > 0 ? '+' : ''}{change.toFixed(0)}%
+    </span>
+  );
+}
+
+export function TrendsPage({ transactions, monthlyBudget, currency }: TrendsPageProps) {
+  const comparison = useMemo(() => TrendUtils.comparePeriods(transactions), [transactions]);
+  const cumulative = useMemo(
+    () => TrendUtils.getCumulativeSpending(transactions, monthlyBudget),
+    [transactions, monthlyBudget]
+  );
+  const monthlyTrend = useMemo(() => TrendUtils.getMonthlyTrend(transactions), [transactions]);
+
+  const formatAmount = (value: number) => formatCurrency(value, currency);
+  // Tooltips name each series, since a custom formatter replaces the label
+  const formatSeries = (config: ChartConfig) => (value: unknown, name: unknown) =>
+    `${config[String(name)]?.label || name}: ${formatAmount(Number(value))}`;
+  const today = cumulative.find(point => point.actual !== null && point.day === new Date().getDate());
+  const overPace = !!today && monthlyBudget > 0 && (today.actual || 0) > today.pace;
+
+  return (
+    <>
+      <DrawerHeader>
+        <DrawerTitle>Trends</DrawerTitle>
+        <DrawerDescription>
+          How this month compares, and where the last year went.
+        </DrawerDescription>
+      </DrawerHeader>
+
+      <div className="h-[65vh] overflow-hidden">
+        <ScrollArea className="h-full px-4 scrollbar-hide">
+          <div className="space-y-4 pb-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>This Month So Far</CardTitle>
+                <CardDescription>
+                  {format(comparison.current.start, 'd')}–{format(comparison.current.end, 'd MMM')} against the same days
+                  of {format(comparison.lastMonth.start, 'MMMM')} and {format(comparison.lastYear.start, 'MMMM yyyy')}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 gap-y-2 text-sm items-center">
+                  <span className="text-xs text-muted-foreground">Category</span>
+                  <span className="text-xs text-muted-foreground text-right">Spent</span>
+                  <span className="text-xs text-muted-foreground text-right">vs last month</span>
+                  <span className="text-xs text-muted-foreground text-right">vs last year</span>
+
+                  <span className="font-semibold">Total</span>
+                  <span className="font-semibold text-right">{formatAmount(comparison.totals.current)}</span>
+                  <span className="text-right"><ChangeCell change={comparison.totals.changeVsLastMonth} /></span>
+                  <span className="text-right"><ChangeCell change={comparison.totals.changeVsLastYear} /></span>
+
+                  {comparison.categories.map(row => (
+                    <div key={row.category} className="contents">
+                      <span className="truncate">{row.category}</span>
+                      <span className="text-right">{formatAmount(row.current)}</span>
+                      <span className="text-right"><ChangeCell change={row.changeVsLastMonth} /></span>
+                      <span className="text-right"><ChangeCell change={row.changeVsLastYear} /></span>
+                    </div>
+                  ))}
+                </div>
+                {comparison.categories.length === 0 && (
+                  <p className="text-center text-muted-foreground py-4 text-sm">No spending to compare yet.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Spending Pace</CardTitle>
+                <CardDescription>
+                  {monthlyBudget > 0
+                    ? overPace
+                      ? 'Ahead of budget pace: spending faster than the budget allows.'
+                      : 'On or under budget pace.'
+                    : 'Set expense budgets to see a pace line.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={cumulativeConfig} className="w-full">
+                  <LineChart data={cumulative}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={formatSeries(cumulativeConfig)} />} />
+                    <Line dataKey="actual" type="monotone" stroke="var(--color-actual)" strokeWidth={2} dot={false} connectNulls={false} />
+                    {monthlyBudget > 0 && (
+                      <Line dataKey="pace" type="linear" stroke="var(--color-pace)" strokeDasharray="4 4" dot={false} />
+                    )}
+                    <ChartLegend content={<ChartLegendContent />} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Last 12 Months</CardTitle>
+                <CardDescription>Income, expenses and what was left each month</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={monthlyConfig} className="w-full">
+                  <BarChart data={monthlyTrend}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={formatSeries(monthlyConfig)} />} />
+                    <Bar dataKey="income" fill="var(--color-income)" radius={2} />
+                    <Bar dataKey="expenses" fill="var(--color-expenses)" radius={2} />
+                    <Bar dataKey="net" fill="var(--color-net)" radius={2} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+}
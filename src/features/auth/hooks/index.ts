@@ -1 +1,2 @@
-export { useUserProfile } from './useUserProfile';
\ No newline at end of file
+export { useUserProfile } from './useUserProfile';
+export { useApiTokens } from './useApiTokens';
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { type ApiToken, type ApiTokenScope } from "@/shared/types";
+import { useUser, useFirestore, useMemoFirebase, useCollection } from "@/firebase";
+import { collection, query, orderBy } from 'firebase/firestore';
+import { ApiTokenService } from "../services/ApiTokenService";
+
+export function useApiTokens() {
+  const { user } = useUser();
+  const firestore = useFirestore();
+
+  const tokensQuery = useMemoFirebase(
+    () => (firestore && user ? query(collection(firestore, `users/${user.uid}/apiTokens`), orderBy('createdAt', 'desc')) : null),
+    [firestore, user]
+  );
+
+  const { data: apiTokens, isLoading: isTokensLoading } = useCollection<ApiToken>(tokensQuery);
+
+  const activeTokens = useMemo(() => {
+    return apiTokens?.filter(token => ApiTokenService.isActive(token)) || [];
+  }, [apiTokens]);
+
+  const revokedTokens = useMemo(() => {
+    return apiTokens?.filter(token => !ApiTokenService.isActive(token)) || [];
+  }, [apiTokens]);
+
+  // Returns the plaintext token so the caller can show it once
+  const createToken = async (name: string, scopes: ApiTokenScope[]): Promise<string> => {
+    if (!user || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    const { token } = await ApiTokenService.create(user.uid, firestore, { name, scopes });
+    return token;
+  };
+
+  const revokeToken = async (id: string) => {
+    if (!user || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    await ApiTokenService.revoke(user.uid, firestore, id);
+  };
+
+  const rotateToken = async (token: ApiToken): Promise<string> => {
+    if (!user || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    const created = await ApiTokenService.rotate(user.uid, firestore, token);
+    return created.token;
+  };
+
+  return {
+    // Data
+    apiTokens: apiTokens || [],
+    activeTokens,
+    revokedTokens,
+    isTokensLoading,
+
+    // Actions
+    createToken,
+    revokeToken,
+    rotateToken,
+  };
+}
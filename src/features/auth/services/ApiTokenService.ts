@@ -0,0 +1,111 @@
+import { doc, collection, addDoc, updateDoc, type Firestore } from 'firebase/firestore';
+import { type ApiToken, type ApiTokenScope } from "@/shared/types";
+import { API_TOKEN_PREFIX } from "@/shared/constants";
+
+export interface CreateApiTokenDto {
+  name: string;
+  scopes: ApiTokenScope[];
+}
+
+export interface CreatedApiToken {
+  id: string;
+  token: string; // Plaintext token, only available right after creation
+}
+
+const TOKEN_BYTES = 32;
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export class ApiTokenService {
+  static generateToken(): string {
+    const bytes = new Uint8Array(TOKEN_BYTES);
+    crypto.getRandomValues(bytes);
+    const secret = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    return `${API_TOKEN_PREFIX}${secret}`;
+  }
+
+  /**
+   * Hex-encoded SHA-256 of the token. Must match the hashing in functions/src/index.ts.
+   */
+  static async hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  static async create(
+    userId: string,
+    firestore: Firestore,
+    tokenData: CreateApiTokenDto
+  ): Promise<CreatedApiToken> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const errors = this.validate(tokenData);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const token = this.generateToken();
+    const tokenHash = await this.hashToken(token);
+
+    const tokensCollection = collection(firestore, `users/${userId}/apiTokens`);
+    const tokenRef = await addDoc(tokensCollection, {
+      name: tokenData.name.trim(),
+      tokenHash,
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: tokenData.scopes,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    });
+
+    return { id: tokenRef.id, token };
+  }
+
+  static async revoke(
+    userId: string,
+    firestore: Firestore,
+    tokenId: string
+  ): Promise<void> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const tokenRef = doc(firestore, `users/${userId}/apiTokens`, tokenId);
+    await updateDoc(tokenRef, { revokedAt: new Date() });
+  }
+
+  /**
+   * Issues a replacement token with the same name and scopes, then revokes the old one.
+   */
+  static async rotate(
+    userId: string,
+    firestore: Firestore,
+    existing: ApiToken
+  ): Promise<CreatedApiToken> {
+    const created = await this.create(userId, firestore, {
+      name: existing.name,
+      scopes: existing.scopes,
+    });
+    await this.revoke(userId, firestore, existing.id);
+    return created;
+  }
+
+  static isActive(token: ApiToken): boolean {
+    return !token.revokedAt;
+  }
+
+  static validate(tokenData: Partial<CreateApiTokenDto>): string[] {
+    const errors: string[] = [];
+
+    if (!tokenData.name || tokenData.name.trim().length === 0) {
+      errors.push('Token name is required');
+    }
+
+    if (!tokenData.scopes || tokenData.scopes.length === 0) {
+      errors.push('At least one scope is required');
+    }
+
+    return errors;
+  }
+}
@@ -1,2 +1,4 @@
 export { UserService } from './UserService';
-export type { CreateUserDto, UpdateUserDto } from './UserService';
\ No newline at end of file
+export type { CreateUserDto, UpdateUserDto } from './UserService';
+export { ApiTokenService } from './ApiTokenService';
+export type { CreateApiTokenDto, CreatedApiToken } from './ApiTokenService';
\ No newline at end of file
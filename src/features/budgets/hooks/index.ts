@@ -1 +1,2 @@
-export { useBudgets } from './useBudgets';
\ No newline at end of file
+export { useBudgets } from './useBudgets';
+export { useBudgetRollover } from './useBudgetRollover';
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { useEffect, useMemo } from "react";
+import {
+  type Budget,
+  type BudgetSnapshot,
+  type BudgetSnapshotEntry,
+  type CategoryParents,
+  type Transaction,
+} from "@/shared/types";
+import { useFirestore, useMemoFirebase, useCollection } from "@/firebase";
+import { BudgetUtils } from "@/modules/budgets";
+import { useHouseholdScope } from "@/features/household/hooks";
+import { BudgetService } from "../services/BudgetService";
+
+// Compared field by field, since stored maps don't keep their key order
+const sameEntries = (a: BudgetSnapshotEntry[], b: BudgetSnapshotEntry[]) =>
+  a.length === b.length &&
+  a.every((entry, index) => (Object.keys(entry) as Array<keyof BudgetSnapshotEntry>).every(key => entry[key] === b[index][key]));
+
+/**
+ * Month-by-month budgets with rollover. transactions must be all of the
+ * household's, in the base currency; pass null while they're loading or
+ * narrowed down, and stored snapshots are shown without being updated.
+ */
+export function useBudgetRollover(
+  budgets: Budget[] | null,
+  transactions: Transaction[] | null,
+  categoryParents: CategoryParents = {}
+) {
+  const { dataOwnerId, canEdit } = useHouseholdScope();
+  const firestore = useFirestore();
+
+  const snapshotsQuery = useMemoFirebase(
+    () => (firestore && dataOwnerId ? BudgetService.createSnapshotsQuery(dataOwnerId, firestore) : null),
+    [firestore, dataOwnerId]
+  );
+
+  const { data: storedSnapshots, isLoading: isSnapshotsLoading } = useCollection<BudgetSnapshot>(snapshotsQuery);
+
+  const history = useMemo(
+    () => (budgets && transactions && storedSnapshots
+      ? BudgetUtils.buildSnapshotHistory(storedSnapshots, budgets, transactions, categoryParents)
+      : null),
+    [budgets, transactions, storedSnapshots, categoryParents]
+  );
+
+  // Close finished months, and refresh ones whose spending has since changed
+  useEffect(() => {
+    if (!history || !storedSnapshots || !dataOwnerId || !canEdit || !firestore) return;
+
+    const changed = history.past.filter(snapshot => {
+      const stored = storedSnapshots.find(s => s.month === snapshot.month);
+      return !stored || !sameEntries(stored.entries, snapshot.entries);
+    });
+    if (changed.length === 0) return;
+
+    BudgetService.saveSnapshots(dataOwnerId, firestore, changed, storedSnapshots).catch(error => {
+      console.error('Failed to save budget snapshots:', error);
+    });
+  }, [history, storedSnapshots, dataOwnerId, canEdit, firestore]);
+
+  // Stored months, or the rebuilt ones once transactions are in, oldest first
+  const snapshots = useMemo(
+    () => (history ? [...history.past, history.current] : storedSnapshots || []),
+    [history, storedSnapshots]
+  );
+
+  // Without transactions, last month's stored snapshot says what carries in
+  const carriedIn = useMemo(() => {
+    const currentMonth = BudgetUtils.getMonthKey(new Date());
+    const previous = (storedSnapshots || []).filter(snapshot => snapshot.month < currentMonth).pop();
+    const carried: Record<string, number> = {};
+    (budgets || []).forEach(budget => {
+      const amount = history
+        ? BudgetUtils.getCarriedIn(budget.Category, history.past[history.past.length - 1])
+        : BudgetUtils.getCarriedIn(budget.Category, previous);
+      if (amount) carried[budget.Category] = amount;
+    });
+    return carried;
+  }, [budgets, history, storedSnapshots]);
+
+  const monthlyTrend = useMemo(
+    () => BudgetUtils.generateBudgetAnalytics([], {}, snapshots, categoryParents).monthlyTrend,
+    [snapshots, categoryParents]
+  );
+
+  return {
+    // Data
+    snapshots,
+    carriedIn, // Per category, into the current month
+    monthlyTrend,
+    isSnapshotsLoading,
+  };
+}
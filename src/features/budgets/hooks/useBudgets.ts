@@ -1,8 +1,9 @@
 import { useMemo } from "react";
 import { type Budget, type User as UserData, type CategoryType } from "@/shared/types";
 import { useUser, useFirestore, useMemoFirebase, useCollection } from "@/firebase";
-import { doc, collection, setDoc } from 'firebase/firestore';
-import { updateDocumentNonBlocking, deleteDocumentNonBlocking } from "@/firebase/non-blocking-updates";
+import { doc, collection } from 'firebase/firestore';
+import { updateDocumentNonBlocking } from "@/firebase/non-blocking-updates";
+import { backgroundSyncManager } from "@/lib/background-sync";
 import { type DateRange } from "@/components/dashboard/date-filter";
 import { BudgetService } from "../services/BudgetService";
 
@@ -24,18 +25,18 @@ export function useBudgets(userData: UserData | null, transactions: any[] = [])
 
   // Computed values using the new BudgetService methods
   const totalIncomeBudget = useMemo(() => 
-    budgets ? BudgetService.getTotalIncomeBudget(budgets) : 0,
-    [budgets]
+    budgets ? BudgetService.getTotalIncomeBudget(budgets, userData?.categoryParents) : 0,
+    [budgets, userData?.categoryParents]
   );
 
   const totalExpenseBudget = useMemo(() => 
-    budgets ? BudgetService.getTotalExpenseBudget(budgets) : 0,
-    [budgets]
+    budgets ? BudgetService.getTotalExpenseBudget(budgets, userData?.categoryParents) : 0,
+    [budgets, userData?.categoryParents]
   );
 
   const plannedSavings = useMemo(() => 
-    budgets ? BudgetService.getPlannedSavings(budgets) : 0,
-    [budgets]
+    budgets ? BudgetService.getPlannedSavings(budgets, userData?.categoryParents) : 0,
+    [budgets, userData?.categoryParents]
   );
 
   const incomeBudgets = useMemo(() => 
@@ -53,7 +54,7 @@ export function useBudgets(userData: UserData | null, transactions: any[] = [])
    */
   const getTotalExpenseBudgetForDateRange = (dateRange: DateRange) => {
     if (!budgets) return 0;
-    return BudgetService.getTotalExpenseBudgetForDateRange(budgets, dateRange, transactions);
+    return BudgetService.getTotalExpenseBudgetForDateRange(budgets, dateRange, transactions, userData?.categoryParents);
   };
 
   /**
@@ -89,14 +90,20 @@ export function useBudgets(userData: UserData | null, transactions: any[] = [])
    * Update or create a budget for a category
    */
   const handleUpdateBudget = (category: string, newBudget: number, type: CategoryType = 'expense') => {
-    if (!user || !firestore) return;
-    const budgetRef = doc(firestore, `users/${user.uid}/budgets`, category);
+    if (!user) return;
     const budgetData = { 
       Category: category, 
       MonthlyBudget: newBudget,
       type: type
     };
-    setDoc(budgetRef, budgetData, { merge: true });
+    void backgroundSyncManager.queueWrite({
+      userId: user.uid,
+      collection: 'budgets',
+      docId: category,
+      operation: 'update',
+      data: budgetData,
+      upsert: true,
+    });
   };
 
   /**
@@ -113,12 +120,16 @@ export function useBudgets(userData: UserData | null, transactions: any[] = [])
    * Delete a category and its associated budget
    */
   const handleDeleteCategory = (category: string) => {
-    if (!userDocRef || !user || !firestore || !userData) return;
+    if (!userDocRef || !user || !userData) return;
     const updatedCategories = (userData.categories || []).filter((c: string) => c !== category);
     updateDocumentNonBlocking(userDocRef, { categories: updatedCategories });
 
-    const budgetRef = doc(firestore, `users/${user.uid}/budgets`, category);
-    deleteDocumentNonBlocking(budgetRef);
+    void backgroundSyncManager.queueWrite({
+      userId: user.uid,
+      collection: 'budgets',
+      docId: category,
+      operation: 'delete',
+    });
   };
 
   return {
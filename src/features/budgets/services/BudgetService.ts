@@ -1,6 +1,13 @@
-import { doc, collection, setDoc, type Firestore } from 'firebase/firestore';
-import { type Budget, type CategoryType } from "@/shared/types";
-import { deleteDocumentNonBlocking } from "@/firebase/non-blocking-updates";
+import { doc, collection, query, orderBy, writeBatch, type Firestore } from 'firebase/firestore';
+import {
+  type Budget,
+  type BudgetRolloverMode,
+  type BudgetSnapshot,
+  type CategoryParents,
+  type CategoryType,
+} from "@/shared/types";
+import { getTopLevelBudgets } from "@/shared/utils/categories";
+import { backgroundSyncManager } from "@/lib/background-sync";
 import { getDaysInMonth, differenceInMonths } from 'date-fns';
 import { type DateRange } from "@/components/dashboard/date-filter";
 
@@ -8,6 +15,7 @@ export interface CreateBudgetDto {
   Category: string;
   MonthlyBudget: number;
   type?: CategoryType;
+  rollover?: BudgetRolloverMode;
 }
 
 export interface UpdateBudgetDto extends Partial<CreateBudgetDto> {
@@ -24,8 +32,6 @@ export class BudgetService {
       throw new Error('User ID and Firestore instance are required');
     }
 
-    const budgetRef = doc(firestore, `users/${userId}/budgets`, budgetData.Category);
-    
     const budgetWithMeta = {
       ...budgetData,
       type: budgetData.type || 'expense', // Default to expense for backward compatibility
@@ -34,7 +40,14 @@ export class BudgetService {
       updatedAt: new Date(),
     };
 
-    await setDoc(budgetRef, budgetWithMeta, { merge: true });
+    await backgroundSyncManager.queueWrite({
+      userId,
+      collection: 'budgets',
+      docId: budgetData.Category,
+      operation: 'update',
+      data: budgetWithMeta,
+      upsert: true,
+    });
   }
 
   static async update(
@@ -47,14 +60,19 @@ export class BudgetService {
       throw new Error('User ID, Firestore instance, and category are required');
     }
 
-    const budgetRef = doc(firestore, `users/${userId}/budgets`, category);
-    
     const updatesWithMeta = {
       ...updates,
       updatedAt: new Date(),
     };
 
-    await setDoc(budgetRef, updatesWithMeta, { merge: true });
+    await backgroundSyncManager.queueWrite({
+      userId,
+      collection: 'budgets',
+      docId: category,
+      operation: 'update',
+      data: updatesWithMeta,
+      upsert: true,
+    });
   }
 
   static async delete(
@@ -66,8 +84,12 @@ export class BudgetService {
       throw new Error('User ID, Firestore instance, and category are required');
     }
 
-    const budgetRef = doc(firestore, `users/${userId}/budgets`, category);
-    await deleteDocumentNonBlocking(budgetRef);
+    await backgroundSyncManager.queueWrite({
+      userId,
+      collection: 'budgets',
+      docId: category,
+      operation: 'delete',
+    });
   }
 
   static createQuery(userId: string, firestore: Firestore) {
@@ -78,6 +100,40 @@ export class BudgetService {
     return collection(firestore, `users/${userId}/budgets`);
   }
 
+  static createSnapshotsQuery(userId: string, firestore: Firestore) {
+    if (!userId || !firestore) {
+      return null;
+    }
+
+    return query(collection(firestore, `users/${userId}/budgetSnapshots`), orderBy('month', 'asc'));
+  }
+
+  /**
+   * Store month snapshots under their month key, keeping when each was first saved
+   */
+  static async saveSnapshots(
+    userId: string,
+    firestore: Firestore,
+    snapshots: Array<Pick<BudgetSnapshot, 'month' | 'entries'>>,
+    existing: BudgetSnapshot[] = []
+  ): Promise<void> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+    if (snapshots.length === 0) return;
+
+    const batch = writeBatch(firestore);
+    snapshots.forEach(({ month, entries }) => {
+      batch.set(doc(firestore, `users/${userId}/budgetSnapshots`, month), {
+        month,
+        entries,
+        createdAt: existing.find(snapshot => snapshot.month === month)?.createdAt || new Date(),
+        updatedAt: new Date(),
+      });
+    });
+    await batch.commit();
+  }
+
   /**
    * Calculate total budget for a date range based on expense budgets only
    * @deprecated Use getTotalExpenseBudgetForDateRange instead
@@ -127,9 +183,10 @@ export class BudgetService {
   static getTotalExpenseBudgetForDateRange(
     budgets: Budget[],
     dateRange: DateRange,
-    transactions: any[] = []
+    transactions: any[] = [],
+    categoryParents?: CategoryParents
   ): number {
-    const totalMonthlyExpenseBudget = this.getTotalExpenseBudget(budgets);
+    const totalMonthlyExpenseBudget = this.getTotalExpenseBudget(budgets, categoryParents);
     const now = new Date();
 
     switch (dateRange) {
@@ -190,10 +247,11 @@ export class BudgetService {
   }
 
   /**
-   * Calculate total monthly budget for expense categories only
+   * Calculate total monthly budget for expense categories only. Budgets inside
+   * a budgeted parent category are already part of the parent's.
    */
-  static getTotalExpenseBudget(budgets: Budget[]): number {
-    return budgets
+  static getTotalExpenseBudget(budgets: Budget[], categoryParents?: CategoryParents): number {
+    return getTopLevelBudgets(budgets, categoryParents)
       .filter(budget => (budget.type || 'expense') === 'expense')
       .reduce((total, budget) => total + (budget.MonthlyBudget || 0), 0);
   }
@@ -201,8 +259,8 @@ export class BudgetService {
   /**
    * Calculate total monthly budget for income categories only
    */
-  static getTotalIncomeBudget(budgets: Budget[]): number {
-    return budgets
+  static getTotalIncomeBudget(budgets: Budget[], categoryParents?: CategoryParents): number {
+    return getTopLevelBudgets(budgets, categoryParents)
       .filter(budget => budget.type === 'income')
       .reduce((total, budget) => total + (budget.MonthlyBudget || 0), 0);
   }
@@ -210,8 +268,8 @@ export class BudgetService {
   /**
    * Calculate planned savings (Income Budget - Expense Budget)
    */
-  static getPlannedSavings(budgets: Budget[]): number {
-    return this.getTotalIncomeBudget(budgets) - this.getTotalExpenseBudget(budgets);
+  static getPlannedSavings(budgets: Budget[], categoryParents?: CategoryParents): number {
+    return this.getTotalIncomeBudget(budgets, categoryParents) - this.getTotalExpenseBudget(budgets, categoryParents);
   }
 
   /**
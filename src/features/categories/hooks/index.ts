@@ -0,0 +1 @@
+export { useCategoryOperations } from './useCategoryOperations';
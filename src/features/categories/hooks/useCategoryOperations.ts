@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { type CategoryOperation, type CategoryOperationKind } from "@/shared/types";
+import { useFirestore, useMemoFirebase, useCollection } from "@/firebase";
+import { collection, query, where } from 'firebase/firestore';
+import { useHouseholdScope } from "@/features/household/hooks";
+import { CategoryService } from "../services/CategoryService";
+
+export function useCategoryOperations() {
+  const { dataOwnerId, canEdit } = useHouseholdScope();
+  const firestore = useFirestore();
+  // The operation this device is running, with its latest progress
+  const [activeOperation, setActiveOperation] = useState<CategoryOperation | null>(null);
+
+  const unfinishedQuery = useMemoFirebase(
+    () => (firestore && dataOwnerId
+      ? query(collection(firestore, `users/${dataOwnerId}/categoryOperations`), where('completedAt', '==', null))
+      : null),
+    [firestore, dataOwnerId]
+  );
+
+  const { data: unfinished } = useCollection<CategoryOperation>(unfinishedQuery);
+
+  // Unfinished operations not running here were interrupted and can be resumed
+  const interruptedOperations = (unfinished || []).filter(operation => operation.id !== activeOperation?.id);
+
+  const requireEditor = () => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+    if (!canEdit) {
+      throw new Error('Viewers cannot change categories');
+    }
+    if (activeOperation) {
+      throw new Error('Wait for the current category change to finish');
+    }
+    return dataOwnerId;
+  };
+
+  const run = async (operation: (userId: string) => Promise<CategoryOperation>) => {
+    const userId = requireEditor();
+    try {
+      return await operation(userId);
+    } finally {
+      setActiveOperation(null);
+    }
+  };
+
+  const startOperation = (kind: CategoryOperationKind, from: string, to: string) =>
+    run(userId => CategoryService.start(userId, firestore, kind, from, to, setActiveOperation));
+
+  const renameCategory = (from: string, to: string) => startOperation('rename', from, to);
+
+  // from is folded into to, which must already exist
+  const mergeCategories = (from: string, to: string) => startOperation('merge', from, to);
+
+  const resumeOperation = (operation: CategoryOperation) =>
+    run(userId => CategoryService.resume(userId, firestore, operation, setActiveOperation));
+
+  const setCategoryArchived = async (category: string, archived: boolean) => {
+    await CategoryService.setArchived(requireEditor(), firestore, category, archived);
+  };
+
+  return {
+    // Data
+    activeOperation,
+    interruptedOperations,
+    canEdit,
+
+    // Actions
+    renameCategory,
+    mergeCategories,
+    resumeOperation,
+    setCategoryArchived,
+  };
+}
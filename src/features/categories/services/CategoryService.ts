@@ -0,0 +1,331 @@
+import {
+  doc,
+  collection,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
+  getCountFromServer,
+  type Firestore,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import {
+  type Budget,
+  type BudgetSnapshot,
+  type CategoryOperation,
+  type CategoryOperationKind,
+  type CategoryType,
+  type Transaction,
+  type User,
+} from "@/shared/types";
+import { CATEGORY_OPERATIONS, DEFAULT_INCOME_CATEGORIES } from "@/shared/constants";
+import { applyCategoryChangeToProfile, replaceSnapshotCategory, replaceSplitCategory } from "@/shared/utils/categories";
+import { validateCategoryName } from "@/shared/utils/budget";
+import { hasSplits } from "@/shared/utils/splits";
+import { stampRevision } from "@/shared/utils/revision";
+
+export type CategoryOperationProgress = (operation: CategoryOperation) => void;
+
+export class CategoryService {
+  /**
+   * Rename a category, or merge it into another of the same type, then
+   * rewrite its transactions, recurring items, rules, budget and past
+   * budget snapshots
+   */
+  static async start(
+    userId: string,
+    firestore: Firestore,
+    kind: CategoryOperationKind,
+    from: string,
+    to: string,
+    onProgress?: CategoryOperationProgress
+  ): Promise<CategoryOperation> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const user = await this.getUser(userId, firestore);
+    const type = this.getType(user, from);
+    if (!type) {
+      throw new Error(`Category "${from}" not found`);
+    }
+
+    const name = to.trim();
+    if (kind === 'rename') {
+      const validation = validateCategoryName(name, [...this.getList(user, 'expense'), ...this.getList(user, 'income')]);
+      if (!validation.isValid) {
+        throw new Error(validation.error || 'Invalid category name');
+      }
+    } else if (name === from || this.getType(user, name) !== type) {
+      throw new Error('Merge into a different category of the same type');
+    }
+
+    const operation = {
+      kind,
+      from,
+      to: name,
+      type,
+      step: 'profile' as const,
+      cursor: null,
+      processed: 0,
+      total: 0,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    const operationRef = await addDoc(collection(firestore, `users/${userId}/categoryOperations`), operation);
+
+    return this.resume(userId, firestore, { ...operation, id: operationRef.id }, onProgress);
+  }
+
+  /**
+   * Carry on from the operation's saved step. Every step only touches what
+   * still names the old category, so repeating part of one is harmless.
+   */
+  static async resume(
+    userId: string,
+    firestore: Firestore,
+    operation: CategoryOperation,
+    onProgress?: CategoryOperationProgress
+  ): Promise<CategoryOperation> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    let current = operation;
+    const save = async (changes: Partial<Omit<CategoryOperation, 'id'>>) => {
+      const update = { ...changes, updatedAt: new Date() };
+      await updateDoc(this.operationRef(userId, firestore, current.id), update);
+      current = { ...current, ...update };
+      onProgress?.(current);
+    };
+
+    onProgress?.(current);
+
+    if (current.step === 'profile') {
+      const user = await this.getUser(userId, firestore);
+      await updateDoc(doc(firestore, 'users', userId), {
+        ...applyCategoryChangeToProfile(user, current.kind, current.from, current.to),
+        updatedAt: new Date(),
+      });
+      const count = await getCountFromServer(collection(firestore, `users/${userId}/transactions`));
+      await save({ step: 'transactions', total: count.data().count });
+    }
+
+    if (current.step === 'transactions') {
+      await this.rewriteTransactions(userId, firestore, current, progress => {
+        current = progress;
+        onProgress?.(current);
+      });
+      await save({ step: 'recurring' });
+    }
+
+    if (current.step === 'recurring') {
+      await this.rewriteMatching(userId, firestore, 'recurringTransactions', 'Category', current.from, {
+        Category: current.to,
+        updatedAt: new Date(),
+      });
+      await save({ step: 'rules' });
+    }
+
+    if (current.step === 'rules') {
+      await this.rewriteMatching(userId, firestore, 'categoryRules', 'actions.category', current.from, {
+        'actions.category': current.to,
+        updatedAt: new Date(),
+      });
+      await this.rewriteImportPresets(userId, firestore, current);
+      await save({ step: 'budgets' });
+    }
+
+    if (current.step === 'budgets') {
+      await this.moveBudget(userId, firestore, current);
+      await this.rewriteSnapshots(userId, firestore, current);
+      await save({ step: 'done', completedAt: new Date() });
+    }
+
+    return current;
+  }
+
+  /**
+   * Archived categories are hidden from pickers but keep their history
+   */
+  static async setArchived(userId: string, firestore: Firestore, category: string, archived: boolean): Promise<void> {
+    if (!userId || !firestore || !category) {
+      throw new Error('User ID, Firestore instance, and category are required');
+    }
+
+    await updateDoc(doc(firestore, 'users', userId), {
+      archivedCategories: archived ? arrayUnion(category) : arrayRemove(category),
+      updatedAt: new Date(),
+    });
+  }
+
+  // Pages through every transaction, since split categories can't be queried
+  private static async rewriteTransactions(
+    userId: string,
+    firestore: Firestore,
+    operation: CategoryOperation,
+    onProgress: CategoryOperationProgress
+  ): Promise<void> {
+    const transactionsRef = collection(firestore, `users/${userId}/transactions`);
+    let { cursor, processed } = operation;
+
+    for (;;) {
+      const page = await getDocs(query(
+        transactionsRef,
+        orderBy(documentId()),
+        ...(cursor ? [startAfter(cursor)] : []),
+        limit(CATEGORY_OPERATIONS.BATCH_SIZE)
+      ));
+      if (page.empty) return;
+
+      const batch = writeBatch(firestore);
+      page.docs.forEach((snapshot: QueryDocumentSnapshot) => {
+        const transaction = snapshot.data() as Transaction;
+        const usesCategory = transaction.Category === operation.from;
+        const usesSplit = hasSplits(transaction) && transaction.splits.some(split => split.Category === operation.from);
+        if (!usesCategory && !usesSplit) return;
+
+        batch.update(snapshot.ref, stampRevision({
+          ...(usesCategory && { Category: operation.to }),
+          ...(usesSplit && { splits: replaceSplitCategory(transaction.splits!, operation.from, operation.to) }),
+          updatedAt: new Date(),
+        }, transaction));
+      });
+
+      cursor = page.docs[page.docs.length - 1].id;
+      processed += page.docs.length;
+      // Progress is saved with the batch, so a resume never skips unwritten changes
+      const progress = { cursor, processed, updatedAt: new Date() };
+      batch.update(this.operationRef(userId, firestore, operation.id), progress);
+      await batch.commit();
+      onProgress({ ...operation, ...progress });
+
+      if (page.docs.length < CATEGORY_OPERATIONS.BATCH_SIZE) return;
+    }
+  }
+
+  // Rewritten documents stop matching, so each pass picks up where the last stopped
+  private static async rewriteMatching(
+    userId: string,
+    firestore: Firestore,
+    collectionName: string,
+    field: string,
+    value: string,
+    changes: Record<string, unknown>
+  ): Promise<void> {
+    const collectionRef = collection(firestore, `users/${userId}/${collectionName}`);
+
+    for (;;) {
+      const page = await getDocs(query(
+        collectionRef,
+        where(field, '==', value),
+        limit(CATEGORY_OPERATIONS.BATCH_SIZE)
+      ));
+      if (page.empty) return;
+
+      const batch = writeBatch(firestore);
+      page.docs.forEach(snapshot => batch.update(snapshot.ref, changes));
+      await batch.commit();
+    }
+  }
+
+  // Categories learned for bank descriptions point at the new name
+  private static async rewriteImportPresets(userId: string, firestore: Firestore, operation: CategoryOperation): Promise<void> {
+    const presets = await getDocs(collection(firestore, `users/${userId}/importPresets`));
+    const batch = writeBatch(firestore);
+    let changed = false;
+
+    presets.docs.forEach(snapshot => {
+      const categoryMap = (snapshot.data().categoryMap || {}) as Record<string, string>;
+      if (!Object.values(categoryMap).includes(operation.from)) return;
+
+      changed = true;
+      batch.update(snapshot.ref, {
+        categoryMap: Object.fromEntries(
+          Object.entries(categoryMap).map(([key, category]) => [key, category === operation.from ? operation.to : category])
+        ),
+        updatedAt: new Date(),
+      });
+    });
+
+    if (changed) await batch.commit();
+  }
+
+  /**
+   * The old budget moves to the new name, or is added to the target's on a
+   * merge. Both writes commit together so a resume can't count it twice.
+   */
+  private static async moveBudget(userId: string, firestore: Firestore, operation: CategoryOperation): Promise<void> {
+    const fromRef = doc(firestore, `users/${userId}/budgets`, operation.from);
+    const toRef = doc(firestore, `users/${userId}/budgets`, operation.to);
+    const [fromSnapshot, toSnapshot] = await Promise.all([getDoc(fromRef), getDoc(toRef)]);
+    if (!fromSnapshot.exists()) return;
+
+    const fromBudget = fromSnapshot.data() as Budget;
+    const toBudget = toSnapshot.exists() ? (toSnapshot.data() as Budget) : null;
+    const batch = writeBatch(firestore);
+
+    batch.set(toRef, stampRevision({
+      ...(toBudget || fromBudget),
+      Category: operation.to,
+      MonthlyBudget: (toBudget?.MonthlyBudget || 0) + (fromBudget.MonthlyBudget || 0),
+      type: operation.type,
+      updatedAt: new Date(),
+    }, toBudget));
+    batch.delete(fromRef);
+    await batch.commit();
+  }
+
+  // Past months' budgets follow the category, so carry-overs aren't lost
+  private static async rewriteSnapshots(userId: string, firestore: Firestore, operation: CategoryOperation): Promise<void> {
+    const snapshots = await getDocs(collection(firestore, `users/${userId}/budgetSnapshots`));
+    const batch = writeBatch(firestore);
+    let changed = false;
+
+    snapshots.docs.forEach(snapshot => {
+      const { entries = [] } = snapshot.data() as BudgetSnapshot;
+      if (!entries.some(entry => entry.Category === operation.from)) return;
+
+      changed = true;
+      batch.update(snapshot.ref, {
+        entries: replaceSnapshotCategory(entries, operation.from, operation.to),
+        updatedAt: new Date(),
+      });
+    });
+
+    if (changed) await batch.commit();
+  }
+
+  private static operationRef(userId: string, firestore: Firestore, operationId: string) {
+    return doc(firestore, `users/${userId}/categoryOperations`, operationId);
+  }
+
+  private static async getUser(userId: string, firestore: Firestore): Promise<User> {
+    const snapshot = await getDoc(doc(firestore, 'users', userId));
+    if (!snapshot.exists()) {
+      throw new Error('User profile not found');
+    }
+    return { id: snapshot.id, ...snapshot.data() } as User;
+  }
+
+  private static getList(user: User, type: CategoryType): string[] {
+    return type === 'income'
+      ? user.incomeCategories || [...DEFAULT_INCOME_CATEGORIES]
+      : user.categories || [];
+  }
+
+  private static getType(user: User, category: string): CategoryType | null {
+    if (this.getList(user, 'income').includes(category)) return 'income';
+    if (this.getList(user, 'expense').includes(category)) return 'expense';
+    return null;
+  }
+}
@@ -0,0 +1,2 @@
+export { CategoryService } from './CategoryService';
+export type { CategoryOperationProgress } from './CategoryService';
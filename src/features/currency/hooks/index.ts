@@ -0,0 +1 @@
+export { useExchangeRates } from './useExchangeRates';
@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { type ExchangeRate } from "@/shared/types";
+import { useFirestore, useMemoFirebase, useCollection } from "@/firebase";
+import { collection } from 'firebase/firestore';
+import { buildRateMap, type ExchangeRateMap } from "@/shared/utils/currency";
+import { DEFAULT_BASE_CURRENCY } from "@/shared/constants";
+import { ExchangeRateService } from "../services/ExchangeRateService";
+import { useHouseholdScope } from "@/features/household/hooks";
+
+export function useExchangeRates(baseCurrency: string = DEFAULT_BASE_CURRENCY) {
+  const { dataOwnerId } = useHouseholdScope();
+  const firestore = useFirestore();
+
+  const ratesQuery = useMemoFirebase(
+    () => (firestore && dataOwnerId ? collection(firestore, `users/${dataOwnerId}/exchangeRates`) : null),
+    [firestore, dataOwnerId]
+  );
+
+  const { data: exchangeRates, isLoading: isRatesLoading } = useCollection<ExchangeRate>(ratesQuery);
+
+  const rateMap = useMemo(() => {
+    return buildRateMap(exchangeRates || [], baseCurrency);
+  }, [exchangeRates, baseCurrency]);
+
+  const setRate = async (currency: string, rate: number) => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    await ExchangeRateService.setRate(dataOwnerId, firestore, { currency, rate, baseCurrency });
+  };
+
+  const importRates = async (rates: ExchangeRateMap): Promise<number> => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    return ExchangeRateService.importRates(dataOwnerId, firestore, rates, baseCurrency);
+  };
+
+  const deleteRate = async (currency: string) => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    await ExchangeRateService.deleteRate(dataOwnerId, firestore, currency);
+  };
+
+  const setBaseCurrency = async (currency: string) => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    await ExchangeRateService.setBaseCurrency(dataOwnerId, firestore, currency);
+  };
+
+  return {
+    // Data
+    exchangeRates: exchangeRates || [],
+    rateMap,
+    isRatesLoading,
+
+    // Actions
+    setRate,
+    importRates,
+    deleteRate,
+    setBaseCurrency,
+  };
+}
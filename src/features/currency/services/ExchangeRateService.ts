@@ -0,0 +1,108 @@
+import { doc, collection, setDoc, deleteDoc, updateDoc, writeBatch, type Firestore } from 'firebase/firestore';
+import { type ExchangeRateMap } from "@/shared/utils/currency";
+
+export interface SetExchangeRateDto {
+  currency: string;
+  rate: number;
+  baseCurrency: string;
+}
+
+export class ExchangeRateService {
+  static async setRate(
+    userId: string,
+    firestore: Firestore,
+    rateData: SetExchangeRateDto
+  ): Promise<void> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const errors = this.validate(rateData);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const currency = rateData.currency.toUpperCase();
+    const rateRef = doc(firestore, `users/${userId}/exchangeRates`, currency);
+    await setDoc(rateRef, {
+      currency,
+      rate: rateData.rate,
+      baseCurrency: rateData.baseCurrency,
+      source: 'manual',
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Write many rates in one batch, replacing existing rates for those currencies
+   */
+  static async importRates(
+    userId: string,
+    firestore: Firestore,
+    rates: ExchangeRateMap,
+    baseCurrency: string
+  ): Promise<number> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const ratesCollection = collection(firestore, `users/${userId}/exchangeRates`);
+    const batch = writeBatch(firestore);
+    const entries = Object.entries(rates).filter(([currency]) => currency !== baseCurrency);
+
+    entries.forEach(([currency, rate]) => {
+      batch.set(doc(ratesCollection, currency), {
+        currency,
+        rate,
+        baseCurrency,
+        source: 'import',
+        updatedAt: new Date(),
+      });
+    });
+
+    await batch.commit();
+    return entries.length;
+  }
+
+  static async deleteRate(
+    userId: string,
+    firestore: Firestore,
+    currency: string
+  ): Promise<void> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    await deleteDoc(doc(firestore, `users/${userId}/exchangeRates`, currency));
+  }
+
+  static async setBaseCurrency(
+    userId: string,
+    firestore: Firestore,
+    baseCurrency: string
+  ): Promise<void> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    await updateDoc(doc(firestore, 'users', userId), { baseCurrency });
+  }
+
+  static validate(rateData: Partial<SetExchangeRateDto>): string[] {
+    const errors: string[] = [];
+
+    if (!rateData.currency || !/^[A-Za-z]{3}$/.test(rateData.currency)) {
+      errors.push('Currency must be a 3-letter code');
+    }
+
+    if (!rateData.rate || isNaN(rateData.rate) || rateData.rate <= 0) {
+      errors.push('Rate must be a positive number');
+    }
+
+    if (rateData.currency && rateData.currency.toUpperCase() === rateData.baseCurrency) {
+      errors.push('The base currency does not need a rate');
+    }
+
+    return errors;
+  }
+}
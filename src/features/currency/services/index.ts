@@ -0,0 +1,2 @@
+export { ExchangeRateService } from './ExchangeRateService';
+export type { SetExchangeRateDto } from './ExchangeRateService';
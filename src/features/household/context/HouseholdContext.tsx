@@ -0,0 +1,81 @@
+'use client';
+
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { doc, onSnapshot } from "firebase/firestore";
+import { useUser, useFirestore } from "@/firebase";
+import { FullScreenLoader } from "@/components/ui/full-screen-loader";
+import { type Household, type HouseholdRole } from "@/shared/types";
+import { canEditHouseholdData, getMemberRole } from "@/shared/utils/household";
+
+export interface HouseholdScope {
+  dataOwnerId: string | undefined; // Whose /users/{id} data the app reads and writes
+  household: Household | null;
+  role: HouseholdRole | null;
+  canEdit: boolean;
+}
+
+const HouseholdContext = createContext<HouseholdScope | undefined>(undefined);
+
+interface HouseholdProviderProps {
+  householdId?: string | null;
+  children: ReactNode;
+}
+
+/**
+ * Puts the household's shared data in scope for everything below it.
+ * Falls back to the user's own data when they are not (or no longer) a member.
+ */
+export function HouseholdProvider({ householdId, children }: HouseholdProviderProps) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [household, setHousehold] = useState<Household | null | undefined>(householdId ? undefined : null);
+
+  useEffect(() => {
+    if (!householdId || !firestore) {
+      setHousehold(null);
+      return;
+    }
+
+    setHousehold(undefined);
+    // Not useDoc: losing access here is expected (removed or closed), not an app error
+    return onSnapshot(
+      doc(firestore, 'households', householdId),
+      (snapshot) => {
+        setHousehold(snapshot.exists() ? { ...(snapshot.data() as Household), id: snapshot.id } : null);
+      },
+      (error) => {
+        console.warn('Household not available, using personal data:', error);
+        setHousehold(null);
+      }
+    );
+  }, [firestore, householdId]);
+
+  const scope = useMemo<HouseholdScope>(() => {
+    const role = getMemberRole(household, user?.uid);
+    return {
+      dataOwnerId: role && household ? household.ownerId : user?.uid,
+      household: role ? household ?? null : null,
+      role,
+      canEdit: canEditHouseholdData(role),
+    };
+  }, [household, user]);
+
+  if (household === undefined) {
+    return <FullScreenLoader text="Loading household..." />;
+  }
+
+  return <HouseholdContext.Provider value={scope}>{children}</HouseholdContext.Provider>;
+}
+
+/**
+ * The data in scope. Outside a HouseholdProvider that is the user's own.
+ */
+export function useHouseholdScope(): HouseholdScope {
+  const context = useContext(HouseholdContext);
+  const { user } = useUser();
+
+  return useMemo(
+    () => context || { dataOwnerId: user?.uid, household: null, role: null, canEdit: true },
+    [context, user]
+  );
+}
@@ -0,0 +1,3 @@
+export { useHousehold } from './useHousehold';
+export { HouseholdProvider, useHouseholdScope } from '../context/HouseholdContext';
+export type { HouseholdScope } from '../context/HouseholdContext';
@@ -0,0 +1,120 @@
+import { useMemo } from "react";
+import { collection, collectionGroup, doc, query, where } from 'firebase/firestore';
+import { useUser, useFirestore, useMemoFirebase, useCollection, useDoc } from "@/firebase";
+import { type HouseholdInvite, type HouseholdRole, type User as UserData } from "@/shared/types";
+import { normalizeEmail } from "@/shared/utils/household";
+import { useHouseholdScope } from "../context/HouseholdContext";
+import { HouseholdService, type HouseholdUser } from "../services/HouseholdService";
+
+export function useHousehold() {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const { household, role } = useHouseholdScope();
+  const isOwner = role === 'owner';
+
+  // The user's own profile, for the name other members see
+  const profileRef = useMemoFirebase(
+    () => (firestore && user ? doc(firestore, 'users', user.uid) : null),
+    [firestore, user]
+  );
+  const { data: profile } = useDoc<UserData>(profileRef);
+
+  // Invites this household has sent, visible to the owner
+  const sentInvitesQuery = useMemoFirebase(
+    () => (firestore && household && isOwner ? collection(firestore, 'households', household.id, 'invites') : null),
+    [firestore, household?.id, isOwner]
+  );
+  const { data: sentInvites } = useCollection<HouseholdInvite>(sentInvitesQuery);
+
+  // Invites addressed to this user, while they are not in a household
+  const receivedInvitesQuery = useMemoFirebase(
+    () => (firestore && user?.email && !household
+      ? query(collectionGroup(firestore, 'invites'), where('email', '==', normalizeEmail(user.email)))
+      : null),
+    [firestore, user?.email, household]
+  );
+  const { data: receivedInvites } = useCollection<HouseholdInvite>(receivedInvitesQuery);
+
+  const members = useMemo(() => {
+    if (!household) return [];
+    return Object.entries(household.members)
+      .map(([id, member]) => ({ id, ...member }))
+      .sort((a, b) => (a.role === 'owner' ? -1 : b.role === 'owner' ? 1 : a.name.localeCompare(b.name)));
+  }, [household]);
+
+  const getHouseholdUser = (): HouseholdUser => {
+    if (!user || !firestore) {
+      throw new Error('User not authenticated');
+    }
+    return { uid: user.uid, name: profile?.name || user.displayName || user.email || 'Member', email: user.email };
+  };
+
+  const requireHousehold = () => {
+    if (!household || !firestore) {
+      throw new Error('You are not in a household');
+    }
+    return household;
+  };
+
+  const createHousehold = async (name: string) => {
+    await HouseholdService.create(firestore, getHouseholdUser(), name);
+  };
+
+  const renameHousehold = async (name: string) => {
+    await HouseholdService.rename(firestore, requireHousehold().id, name);
+  };
+
+  const inviteMember = async (email: string, inviteRole: HouseholdInvite['role']) => {
+    await HouseholdService.invite(firestore, requireHousehold(), getHouseholdUser(), email, inviteRole);
+  };
+
+  const revokeInvite = async (email: string) => {
+    await HouseholdService.revokeInvite(firestore, requireHousehold().id, email);
+  };
+
+  const acceptInvite = async (invite: HouseholdInvite) => {
+    await HouseholdService.acceptInvite(firestore, getHouseholdUser(), invite);
+  };
+
+  const declineInvite = async (invite: HouseholdInvite) => {
+    await HouseholdService.declineInvite(firestore, invite);
+  };
+
+  const setMemberRole = async (memberId: string, memberRole: Exclude<HouseholdRole, 'owner'>) => {
+    await HouseholdService.setRole(firestore, requireHousehold(), memberId, memberRole);
+  };
+
+  const removeMember = async (memberId: string) => {
+    await HouseholdService.removeMember(firestore, requireHousehold(), memberId);
+  };
+
+  const leaveHousehold = async () => {
+    await HouseholdService.leave(firestore, getHouseholdUser().uid, requireHousehold());
+  };
+
+  const closeHousehold = async () => {
+    await HouseholdService.close(firestore, requireHousehold());
+  };
+
+  return {
+    // Data
+    household,
+    role,
+    isOwner,
+    members,
+    sentInvites: sentInvites || [],
+    receivedInvites: receivedInvites || [],
+
+    // Actions
+    createHousehold,
+    renameHousehold,
+    inviteMember,
+    revokeInvite,
+    acceptInvite,
+    declineInvite,
+    setMemberRole,
+    removeMember,
+    leaveHousehold,
+    closeHousehold,
+  };
+}
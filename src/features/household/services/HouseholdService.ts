@@ -0,0 +1,155 @@
+import {
+  doc,
+  collection,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { type Household, type HouseholdInvite, type HouseholdRole } from "@/shared/types";
+import { normalizeEmail } from "@/shared/utils/household";
+
+export interface HouseholdUser {
+  uid: string;
+  name: string;
+  email?: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class HouseholdService {
+  /**
+   * Share the user's data as a household they own. The household id is the
+   * owner's user id, so the shared data stays where it already lives.
+   */
+  static async create(firestore: Firestore, user: HouseholdUser, name: string): Promise<string> {
+    if (!firestore || !user.uid) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+    if (!name.trim()) {
+      throw new Error('Household name is required');
+    }
+
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, 'households', user.uid), {
+      name: name.trim(),
+      ownerId: user.uid,
+      members: { [user.uid]: { role: 'owner', name: user.name } },
+      createdAt: new Date(),
+    });
+    batch.update(doc(firestore, 'users', user.uid), { householdId: user.uid });
+    await batch.commit();
+
+    return user.uid;
+  }
+
+  static async rename(firestore: Firestore, householdId: string, name: string): Promise<void> {
+    if (!name.trim()) {
+      throw new Error('Household name is required');
+    }
+
+    await updateDoc(doc(firestore, 'households', householdId), { name: name.trim() });
+  }
+
+  /**
+   * Invite someone by email. Inviting the same email again replaces the invite.
+   */
+  static async invite(
+    firestore: Firestore,
+    household: Household,
+    inviter: HouseholdUser,
+    email: string,
+    role: HouseholdInvite['role']
+  ): Promise<void> {
+    const inviteEmail = normalizeEmail(email);
+    if (!EMAIL_PATTERN.test(inviteEmail)) {
+      throw new Error('Enter a valid email address');
+    }
+    if (inviter.email && normalizeEmail(inviter.email) === inviteEmail) {
+      throw new Error('You are already in this household');
+    }
+
+    await setDoc(doc(firestore, 'households', household.id, 'invites', inviteEmail), {
+      email: inviteEmail,
+      role,
+      householdId: household.id,
+      householdName: household.name,
+      invitedBy: inviter.uid,
+      invitedByName: inviter.name,
+      createdAt: new Date(),
+    });
+  }
+
+  static async revokeInvite(firestore: Firestore, householdId: string, email: string): Promise<void> {
+    await deleteDoc(doc(firestore, 'households', householdId, 'invites', normalizeEmail(email)));
+  }
+
+  /**
+   * Join with the invited role and switch to the household's data.
+   * The user's own data is kept and comes back if they leave.
+   */
+  static async acceptInvite(firestore: Firestore, user: HouseholdUser, invite: HouseholdInvite): Promise<void> {
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'households', invite.householdId), {
+      [`members.${user.uid}`]: { role: invite.role, name: user.name },
+    });
+    batch.update(doc(firestore, 'users', user.uid), { householdId: invite.householdId });
+    batch.delete(doc(firestore, 'households', invite.householdId, 'invites', invite.id));
+    await batch.commit();
+  }
+
+  static async declineInvite(firestore: Firestore, invite: HouseholdInvite): Promise<void> {
+    await deleteDoc(doc(firestore, 'households', invite.householdId, 'invites', invite.id));
+  }
+
+  static async setRole(
+    firestore: Firestore,
+    household: Household,
+    memberId: string,
+    role: Exclude<HouseholdRole, 'owner'>
+  ): Promise<void> {
+    if (memberId === household.ownerId) {
+      throw new Error("The owner's role cannot be changed");
+    }
+
+    await updateDoc(doc(firestore, 'households', household.id), { [`members.${memberId}.role`]: role });
+  }
+
+  /**
+   * Remove a member. Their app falls back to their own data on next load.
+   */
+  static async removeMember(firestore: Firestore, household: Household, memberId: string): Promise<void> {
+    if (memberId === household.ownerId) {
+      throw new Error('The owner cannot be removed');
+    }
+
+    await updateDoc(doc(firestore, 'households', household.id), { [`members.${memberId}`]: deleteField() });
+  }
+
+  static async leave(firestore: Firestore, userId: string, household: Household): Promise<void> {
+    if (userId === household.ownerId) {
+      throw new Error('Owners close the household instead of leaving it');
+    }
+
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'households', household.id), { [`members.${userId}`]: deleteField() });
+    batch.update(doc(firestore, 'users', userId), { householdId: null });
+    await batch.commit();
+  }
+
+  /**
+   * Stop sharing. The data stays with the owner; members go back to their own.
+   */
+  static async close(firestore: Firestore, household: Household): Promise<void> {
+    const invites = await getDocs(collection(firestore, 'households', household.id, 'invites'));
+
+    const batch = writeBatch(firestore);
+    invites.docs.forEach(invite => batch.delete(invite.ref));
+    batch.delete(doc(firestore, 'households', household.id));
+    batch.update(doc(firestore, 'users', household.ownerId), { householdId: null });
+    await batch.commit();
+  }
+}
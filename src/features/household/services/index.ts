@@ -0,0 +1,2 @@
+export { HouseholdService } from './HouseholdService';
+export type { HouseholdUser } from './HouseholdService';
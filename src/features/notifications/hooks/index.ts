@@ -0,0 +1,2 @@
+export { useNotificationSchedules } from './useNotificationSchedules';
+export { useNotificationOpens } from './useNotificationOpens';
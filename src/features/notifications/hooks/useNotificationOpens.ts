@@ -0,0 +1,29 @@
+import { useEffect } from "react";
+import { useUser, useFirestore } from "@/firebase";
+import { NotificationScheduleService } from "../services/NotificationScheduleService";
+
+const NOTIFICATION_PARAM = 'notification';
+
+/**
+ * Reminders open the app with ?notification=<id>. Records the open, which
+ * suggested reminder times are based on, then drops the parameter.
+ */
+export function useNotificationOpens() {
+  const { user } = useUser();
+  const firestore = useFirestore();
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !user || !firestore) return;
+
+    const url = new URL(window.location.href);
+    const notificationId = url.searchParams.get(NOTIFICATION_PARAM);
+    if (!notificationId) return;
+
+    url.searchParams.delete(NOTIFICATION_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+
+    NotificationScheduleService.markOpened(user.uid, firestore, notificationId).catch(error => {
+      console.error('Failed to record notification open:', error);
+    });
+  }, [user, firestore]);
+}
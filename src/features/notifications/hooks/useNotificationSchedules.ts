@@ -0,0 +1,177 @@
+import { useEffect, useMemo } from "react";
+import {
+  type DigestPeriod,
+  type NotificationHistoryEntry,
+  type NotificationSchedule,
+  type QuietHours,
+  type User,
+} from "@/shared/types";
+import { useUser, useFirestore, useMemoFirebase, useCollection, useDoc } from "@/firebase";
+import { collection, doc, query, orderBy } from 'firebase/firestore';
+import { useHouseholdScope } from "@/features/household/hooks";
+import { toRecurrenceDate } from "@/shared/utils/recurrence";
+import { DIGEST_DEFAULTS, DIGEST_SCHEDULE_KINDS } from "@/shared/constants";
+import { getDeviceTimeZone, isDigestKind, suggestNotificationTime } from "@/shared/utils/schedules";
+import { NotificationScheduleService, type NotificationScheduleDto } from "../services/NotificationScheduleService";
+
+/**
+ * The signed-in user's own reminders. Unlike shared data they belong to the
+ * member who gets them, so viewers of a household can set them up too.
+ */
+export function useNotificationSchedules() {
+  const { user } = useUser();
+  const { dataOwnerId } = useHouseholdScope();
+  const firestore = useFirestore();
+  const userId = user?.uid;
+
+  const schedulesQuery = useMemoFirebase(
+    () => (firestore && userId
+      ? query(collection(firestore, `users/${userId}/notificationSchedules`), orderBy('createdAt', 'asc'))
+      : null),
+    [firestore, userId]
+  );
+
+  const historyQuery = useMemoFirebase(
+    () => (firestore && userId ? NotificationScheduleService.createHistoryQuery(userId, firestore) : null),
+    [firestore, userId]
+  );
+
+  const userDocRef = useMemoFirebase(
+    () => (firestore && userId ? doc(firestore, 'users', userId) : null),
+    [firestore, userId]
+  );
+
+  const { data: schedules, isLoading: isSchedulesLoading } = useCollection<NotificationSchedule>(schedulesQuery);
+  const { data: history } = useCollection<NotificationHistoryEntry>(historyQuery);
+  const { data: profile } = useDoc<User>(userDocRef);
+
+  const settings = profile?.notificationSettings;
+  // Reminders are always timed in the zone of the device saving them
+  const deviceTimeZone = getDeviceTimeZone();
+
+  // Digests are on before any reminder is saved, so the server needs the zone
+  // from the start. Without one saved there are no reminders to move yet.
+  const hasProfile = !!profile;
+  const savedTimeZone = settings?.timeZone;
+  useEffect(() => {
+    if (!userId || !firestore || !hasProfile || savedTimeZone) return;
+    NotificationScheduleService.saveSettings(userId, firestore, { timeZone: deviceTimeZone, quietHours: null }, [])
+      .catch(error => console.error('Failed to save time zone:', error));
+  }, [userId, firestore, hasProfile, savedTimeZone, deviceTimeZone]);
+
+  const suggestedTime = useMemo(() => {
+    const openedAt = (history || [])
+      .filter(entry => entry.openedAt)
+      .map(entry => toRecurrenceDate(entry.openedAt));
+    return suggestNotificationTime(openedAt, settings?.timeZone || deviceTimeZone);
+  }, [history, settings?.timeZone, deviceTimeZone]);
+
+  // Digests have one schedule per period, kept when switched off
+  const reminders = useMemo(() => (schedules || []).filter(schedule => !isDigestKind(schedule.kind)), [schedules]);
+  const digestSchedules = useMemo(() => {
+    const find = (period: DigestPeriod) =>
+      (schedules || []).find(schedule => schedule.kind === DIGEST_SCHEDULE_KINDS[period]) || null;
+    return { weekly: find('weekly'), monthly: find('monthly') };
+  }, [schedules]);
+
+  const requireUser = () => {
+    if (!userId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+    return userId;
+  };
+
+  // Saved first, so the server times every reminder in the same zone
+  const syncTimeZone = async (uid: string) => {
+    if (settings?.timeZone === deviceTimeZone) return;
+    await NotificationScheduleService.saveSettings(
+      uid,
+      firestore,
+      { timeZone: deviceTimeZone, quietHours: settings?.quietHours || null },
+      schedules || []
+    );
+  };
+
+  const createSchedule = async (scheduleData: NotificationScheduleDto, isActive: boolean = true): Promise<string> => {
+    const uid = requireUser();
+    await syncTimeZone(uid);
+    return NotificationScheduleService.create(uid, firestore, scheduleData, dataOwnerId || uid, deviceTimeZone, isActive);
+  };
+
+  const updateSchedule = async (scheduleId: string, scheduleData: NotificationScheduleDto) => {
+    const uid = requireUser();
+    await syncTimeZone(uid);
+    await NotificationScheduleService.update(uid, firestore, scheduleId, scheduleData, deviceTimeZone);
+  };
+
+  const setScheduleActive = async (schedule: NotificationSchedule, isActive: boolean) => {
+    const uid = requireUser();
+    await syncTimeZone(uid);
+    await NotificationScheduleService.setActive(uid, firestore, schedule, isActive, deviceTimeZone);
+  };
+
+  const deleteSchedule = async (scheduleId: string) => {
+    await NotificationScheduleService.delete(requireUser(), firestore, scheduleId);
+  };
+
+  /**
+   * Turn a digest on at the given weekday and time, or off when digest is
+   * null. The weekday is ignored for the monthly digest. Digests without a
+   * schedule are on at DIGEST_DEFAULTS, so turning one off saves one.
+   */
+  const saveDigest = async (period: DigestPeriod, digest: { weekday: number; time: string } | null) => {
+    const existing = digestSchedules[period];
+    if (!digest) {
+      if (existing?.isActive) {
+        await setScheduleActive(existing, false);
+      } else if (!existing) {
+        await createSchedule({
+          kind: DIGEST_SCHEDULE_KINDS[period],
+          frequency: period,
+          time: DIGEST_DEFAULTS.time,
+          daysOfWeek: [DIGEST_DEFAULTS.weekday],
+        }, false);
+      }
+      return;
+    }
+
+    const scheduleData: NotificationScheduleDto = {
+      kind: DIGEST_SCHEDULE_KINDS[period],
+      frequency: period,
+      time: digest.time,
+      daysOfWeek: [digest.weekday],
+    };
+    if (existing) {
+      await updateSchedule(existing.id, scheduleData);
+    } else {
+      await createSchedule(scheduleData);
+    }
+  };
+
+  const saveQuietHours = async (quietHours: QuietHours | null) => {
+    await NotificationScheduleService.saveSettings(
+      requireUser(),
+      firestore,
+      { timeZone: deviceTimeZone, quietHours },
+      schedules || []
+    );
+  };
+
+  return {
+    // Data
+    schedules: reminders, // Without digests, see digestSchedules
+    digestSchedules,
+    isSchedulesLoading,
+    quietHours: settings?.quietHours || null,
+    timeZone: settings?.timeZone || deviceTimeZone,
+    suggestedTime, // From when notifications were opened, "HH:mm"
+
+    // Actions
+    createSchedule,
+    updateSchedule,
+    setScheduleActive,
+    deleteSchedule,
+    saveDigest,
+    saveQuietHours,
+  };
+}
@@ -0,0 +1,185 @@
+import {
+  doc,
+  collection,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  query,
+  orderBy,
+  limit,
+  type Firestore,
+} from 'firebase/firestore';
+import { type NotificationSchedule, type NotificationSettings, type QuietHours } from "@/shared/types";
+import { NOTIFICATION_SCHEDULE_KINDS, NOTIFICATION_TIMING } from "@/shared/constants";
+import { getNextRunAt, isDigestKind, parseTime, validateSchedule } from "@/shared/utils/schedules";
+
+export type NotificationScheduleDto = Pick<
+  NotificationSchedule,
+  'kind' | 'title' | 'body' | 'frequency' | 'time' | 'daysOfWeek' | 'dayOfMonth' | 'date'
+>;
+
+export class NotificationScheduleService {
+  /**
+   * Reminders are kept under the user who gets them. dataOwnerId is whose
+   * transactions and bills they check, the household's in a shared one.
+   * Digests are created switched off to record that they were turned off.
+   */
+  static async create(
+    userId: string,
+    firestore: Firestore,
+    scheduleData: NotificationScheduleDto,
+    dataOwnerId: string,
+    timeZone: string,
+    isActive: boolean = true
+  ): Promise<string> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const schedule = this.clean(scheduleData);
+    const error = validateSchedule(schedule);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const nextRunAt = this.getNextRunAt(schedule, timeZone);
+    const scheduleRef = await addDoc(collection(firestore, `users/${userId}/notificationSchedules`), {
+      ...schedule,
+      dataOwnerId,
+      isActive,
+      nextRunAt: isActive ? nextRunAt : null,
+      lastSentAt: null,
+      createdAt: new Date(),
+    });
+
+    return scheduleRef.id;
+  }
+
+  static async update(
+    userId: string,
+    firestore: Firestore,
+    scheduleId: string,
+    scheduleData: NotificationScheduleDto,
+    timeZone: string
+  ): Promise<void> {
+    if (!userId || !firestore || !scheduleId) {
+      throw new Error('User ID, Firestore instance, and schedule ID are required');
+    }
+
+    const schedule = this.clean(scheduleData);
+    const error = validateSchedule(schedule);
+    if (error) {
+      throw new Error(error);
+    }
+
+    await updateDoc(doc(firestore, `users/${userId}/notificationSchedules`, scheduleId), {
+      ...schedule,
+      isActive: true,
+      nextRunAt: this.getNextRunAt(schedule, timeZone),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Paused reminders are kept but not sent; resuming one picks its next time
+   */
+  static async setActive(
+    userId: string,
+    firestore: Firestore,
+    schedule: NotificationSchedule,
+    isActive: boolean,
+    timeZone: string
+  ): Promise<void> {
+    if (!userId || !firestore || !schedule.id) {
+      throw new Error('User ID, Firestore instance, and schedule ID are required');
+    }
+
+    await updateDoc(doc(firestore, `users/${userId}/notificationSchedules`, schedule.id), {
+      isActive,
+      ...(isActive && { nextRunAt: this.getNextRunAt(schedule, timeZone) }),
+      updatedAt: new Date(),
+    });
+  }
+
+  static async delete(userId: string, firestore: Firestore, scheduleId: string): Promise<void> {
+    if (!userId || !firestore || !scheduleId) {
+      throw new Error('User ID, Firestore instance, and schedule ID are required');
+    }
+
+    await deleteDoc(doc(firestore, `users/${userId}/notificationSchedules`, scheduleId));
+  }
+
+  /**
+   * Save quiet hours and the device's time zone. Active reminders are moved
+   * to their next time in that zone, in case it changed.
+   */
+  static async saveSettings(
+    userId: string,
+    firestore: Firestore,
+    settings: NotificationSettings,
+    schedules: NotificationSchedule[]
+  ): Promise<void> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const quietHours: QuietHours | null = settings.quietHours && parseTime(settings.quietHours.start) && parseTime(settings.quietHours.end)
+      ? settings.quietHours
+      : null;
+
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'users', userId), {
+      notificationSettings: { timeZone: settings.timeZone, quietHours },
+      updatedAt: new Date(),
+    });
+    schedules.filter(schedule => schedule.isActive).forEach(schedule => {
+      batch.update(doc(firestore, `users/${userId}/notificationSchedules`, schedule.id), {
+        nextRunAt: this.getNextRunAt(schedule, settings.timeZone),
+      });
+    });
+    await batch.commit();
+  }
+
+  /**
+   * Record that a delivered reminder was tapped, for suggesting send times
+   */
+  static async markOpened(userId: string, firestore: Firestore, notificationId: string): Promise<void> {
+    if (!userId || !firestore || !notificationId) {
+      throw new Error('User ID, Firestore instance, and notification ID are required');
+    }
+
+    await updateDoc(doc(firestore, `users/${userId}/notificationHistory`, notificationId), {
+      openedAt: new Date(),
+    });
+  }
+
+  static createHistoryQuery(userId: string, firestore: Firestore) {
+    return query(
+      collection(firestore, `users/${userId}/notificationHistory`),
+      orderBy('sentAt', 'desc'),
+      limit(NOTIFICATION_TIMING.HISTORY_SAMPLE)
+    );
+  }
+
+  // Digests only keep their day and time, deliverDigests works out when they're due
+  private static getNextRunAt(schedule: NotificationScheduleDto, timeZone: string): Date | null {
+    return isDigestKind(schedule.kind) ? null : getNextRunAt(schedule, new Date(), timeZone);
+  }
+
+  // Fixed frequencies applied, and only the fields the frequency uses kept
+  private static clean(scheduleData: NotificationScheduleDto): NotificationScheduleDto {
+    const kind = NOTIFICATION_SCHEDULE_KINDS[scheduleData.kind];
+    const frequency = 'frequency' in kind ? kind.frequency : scheduleData.frequency;
+    return {
+      kind: scheduleData.kind,
+      title: scheduleData.kind === 'custom' ? scheduleData.title?.trim() || '' : '',
+      body: scheduleData.kind === 'custom' ? scheduleData.body?.trim() || '' : '',
+      frequency,
+      time: scheduleData.time,
+      daysOfWeek: frequency === 'weekly' ? [...(scheduleData.daysOfWeek || [])].sort((a, b) => a - b) : [],
+      dayOfMonth: 'dayOfMonth' in kind ? kind.dayOfMonth : frequency === 'monthly' ? scheduleData.dayOfMonth || 1 : 1,
+      date: frequency === 'once' ? scheduleData.date || '' : '',
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export { NotificationScheduleService } from './NotificationScheduleService';
+export type { NotificationScheduleDto } from './NotificationScheduleService';
@@ -0,0 +1,3 @@
+export { useDigestReports } from './useDigestReports';
+export { useDigestReportLink } from './useDigestReportLink';
+export { useReportDefinitions } from './useReportDefinitions';
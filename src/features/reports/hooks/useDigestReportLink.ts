@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+
+const REPORT_PARAM = 'report';
+
+/**
+ * Digest notifications open the app with ?report=<id>. Returns that report
+ * until cleared, and drops the parameter so a reload doesn't reopen it.
+ */
+export function useDigestReportLink() {
+  const [reportId, setReportId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    const url = new URL(window.location.href);
+    const linkedId = url.searchParams.get(REPORT_PARAM);
+    if (!linkedId) return;
+
+    url.searchParams.delete(REPORT_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+    setReportId(linkedId);
+  }, []);
+
+  return {
+    reportId,
+    clearReportId: () => setReportId(null),
+  };
+}
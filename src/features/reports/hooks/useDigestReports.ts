@@ -0,0 +1,41 @@
+import { useMemo } from "react";
+import { type DigestReport } from "@/shared/types";
+import { useUser, useFirestore, useMemoFirebase, useCollection } from "@/firebase";
+import { toRecurrenceDate } from "@/shared/utils/recurrence";
+import { DigestReportService } from "../services/DigestReportService";
+
+/**
+ * The signed-in user's latest digests, newest first, with dates as Dates
+ */
+export function useDigestReports() {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const userId = user?.uid;
+
+  const reportsQuery = useMemoFirebase(
+    () => (firestore && userId ? DigestReportService.createRecentQuery(userId, firestore) : null),
+    [firestore, userId]
+  );
+
+  const { data, isLoading } = useCollection<DigestReport>(reportsQuery);
+
+  const reports = useMemo(
+    () => (data || []).map(report => ({
+      ...report,
+      periodStart: toRecurrenceDate(report.periodStart),
+      periodEnd: toRecurrenceDate(report.periodEnd),
+      createdAt: toRecurrenceDate(report.createdAt),
+      upcomingRecurring: (report.upcomingRecurring || []).map(item => ({
+        ...item,
+        dueDate: toRecurrenceDate(item.dueDate),
+      })),
+    })),
+    [data]
+  );
+
+  return {
+    // Data
+    reports,
+    isLoading,
+  };
+}
@@ -0,0 +1,56 @@
+import { type ReportDefinition } from "@/shared/types";
+import { useUser, useFirestore, useMemoFirebase, useCollection } from "@/firebase";
+import { useHouseholdScope } from "@/features/household/hooks";
+import { ReportDefinitionService, type ReportDefinitionDto } from "../services/ReportDefinitionService";
+
+/**
+ * Saved custom reports. Everyone in the household can run them; viewers
+ * can't save or change them.
+ */
+export function useReportDefinitions() {
+  const { user } = useUser();
+  const { dataOwnerId, canEdit } = useHouseholdScope();
+  const firestore = useFirestore();
+
+  const definitionsQuery = useMemoFirebase(
+    () => (firestore && dataOwnerId ? ReportDefinitionService.createQuery(dataOwnerId, firestore) : null),
+    [firestore, dataOwnerId]
+  );
+
+  const { data: definitions, isLoading: isDefinitionsLoading } = useCollection<ReportDefinition>(definitionsQuery);
+
+  const requireEditor = () => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+    if (!canEdit) {
+      throw new Error('Viewers cannot save reports');
+    }
+    return dataOwnerId;
+  };
+
+  const createDefinition = async (reportData: ReportDefinitionDto): Promise<string> => {
+    const userId = requireEditor();
+    return ReportDefinitionService.create(userId, firestore, reportData, user?.uid || userId);
+  };
+
+  const updateDefinition = async (reportId: string, reportData: ReportDefinitionDto) => {
+    await ReportDefinitionService.update(requireEditor(), firestore, reportId, reportData);
+  };
+
+  const deleteDefinition = async (reportId: string) => {
+    await ReportDefinitionService.delete(requireEditor(), firestore, reportId);
+  };
+
+  return {
+    // Data
+    definitions: definitions || [],
+    isDefinitionsLoading,
+    canEdit,
+
+    // Actions
+    createDefinition,
+    updateDefinition,
+    deleteDefinition,
+  };
+}
@@ -0,0 +1,20 @@
+import { collection, query, orderBy, limit, type Firestore } from 'firebase/firestore';
+import { DIGEST_REPORTS_SHOWN } from "@/shared/constants";
+
+/**
+ * Digests are written by the deliverScheduledNotifications Cloud Function,
+ * under the user who gets them. The app only reads them.
+ */
+export class DigestReportService {
+  static createRecentQuery(userId: string, firestore: Firestore) {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    return query(
+      collection(firestore, `users/${userId}/reports`),
+      orderBy('createdAt', 'desc'),
+      limit(DIGEST_REPORTS_SHOWN)
+    );
+  }
+}
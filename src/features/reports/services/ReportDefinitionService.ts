@@ -0,0 +1,92 @@
+import { doc, collection, addDoc, updateDoc, deleteDoc, query, orderBy, type Firestore } from 'firebase/firestore';
+import { type ReportDefinition, type ReportFilters } from "@/shared/types";
+import { ReportBuilderUtils } from "@/modules/reports";
+import { cleanTags } from "@/shared/utils/tags";
+
+export type ReportDefinitionDto = Pick<
+  ReportDefinition,
+  'name' | 'metric' | 'groupBy' | 'chartType' | 'period' | 'customRange' | 'filters'
+>;
+
+export class ReportDefinitionService {
+  /**
+   * Saved under the data owner, so the whole household can run it
+   */
+  static async create(
+    userId: string,
+    firestore: Firestore,
+    reportData: ReportDefinitionDto,
+    createdBy: string
+  ): Promise<string> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const error = ReportBuilderUtils.validate(reportData);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const reportRef = await addDoc(collection(firestore, `users/${userId}/reportDefinitions`), {
+      ...this.clean(reportData),
+      createdBy,
+      createdAt: new Date(),
+    });
+
+    return reportRef.id;
+  }
+
+  static async update(
+    userId: string,
+    firestore: Firestore,
+    reportId: string,
+    reportData: ReportDefinitionDto
+  ): Promise<void> {
+    if (!userId || !firestore || !reportId) {
+      throw new Error('User ID, Firestore instance, and report ID are required');
+    }
+
+    const error = ReportBuilderUtils.validate(reportData);
+    if (error) {
+      throw new Error(error);
+    }
+
+    await updateDoc(doc(firestore, `users/${userId}/reportDefinitions`, reportId), {
+      ...this.clean(reportData),
+      updatedAt: new Date(),
+    });
+  }
+
+  static async delete(userId: string, firestore: Firestore, reportId: string): Promise<void> {
+    if (!userId || !firestore || !reportId) {
+      throw new Error('User ID, Firestore instance, and report ID are required');
+    }
+
+    await deleteDoc(doc(firestore, `users/${userId}/reportDefinitions`, reportId));
+  }
+
+  static createQuery(userId: string, firestore: Firestore) {
+    return query(collection(firestore, `users/${userId}/reportDefinitions`), orderBy('name', 'asc'));
+  }
+
+  // Empty filters left out, since Firestore rejects undefined fields
+  private static clean(reportData: ReportDefinitionDto): ReportDefinitionDto {
+    const { categories, types, amountRange, tags, searchTerm } = reportData.filters;
+    const filters: ReportFilters = {};
+    if (categories?.length) filters.categories = categories;
+    if (types?.length) filters.types = types;
+    if (amountRange) filters.amountRange = amountRange;
+    if (tags?.length) filters.tags = cleanTags(tags);
+    if (searchTerm?.trim()) filters.searchTerm = searchTerm.trim();
+
+    return {
+      name: reportData.name.trim(),
+      metric: reportData.metric,
+      groupBy: reportData.groupBy,
+      chartType: reportData.chartType,
+      period: reportData.period,
+      customRange: reportData.period === 'custom' ? reportData.customRange || null : null,
+      filters,
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export { DigestReportService } from './DigestReportService';
+export { ReportDefinitionService } from './ReportDefinitionService';
+export type { ReportDefinitionDto } from './ReportDefinitionService';
@@ -0,0 +1,3 @@
+export { useCategoryRules } from './useCategoryRules';
+export { useCategoryModel } from './useCategoryModel';
+export type { CategoryModelState } from './useCategoryModel';
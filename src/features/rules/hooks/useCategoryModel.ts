@@ -0,0 +1,81 @@
+import { useCallback, useMemo, useRef } from "react";
+import { type Transaction } from "@/shared/types";
+import { LEARNED_CATEGORIES } from "@/shared/constants";
+import {
+  createCategoryModel,
+  evaluateCategoryModel,
+  getClassifierFeatures,
+  isModelReady,
+  predictCategories,
+  toTrainingExamples,
+  trainExample,
+  type CategoryPrediction,
+  type ClassifierAccuracy,
+  type ClassifierInput,
+  type TrainingExample,
+} from "@/shared/utils/classifier";
+
+export interface CategoryModelState {
+  examples: number; // Transactions the model has learned from
+  isReady: boolean;
+  suggestCategories: (input: ClassifierInput, candidates: string[]) => CategoryPrediction[];
+  getAccuracy: () => ClassifierAccuracy;
+}
+
+/**
+ * Category suggestions learned on the device from the user's transactions.
+ * Only added, changed and removed transactions are retrained on each update.
+ */
+export function useCategoryModel(transactions: Transaction[]): CategoryModelState {
+  const modelRef = useRef(createCategoryModel());
+  // What each transaction taught the model, so it can be taken back out when it changes
+  const trainedRef = useRef(new Map<string, { key: string; examples: TrainingExample[] }>());
+
+  const model = useMemo(() => {
+    const current = modelRef.current;
+    const trained = trainedRef.current;
+    const seen = new Set<string>();
+
+    transactions.forEach(transaction => {
+      seen.add(transaction.id);
+      const examples = toTrainingExamples(transaction);
+      const key = JSON.stringify(examples);
+      const previous = trained.get(transaction.id);
+      if (previous?.key === key) return;
+
+      previous?.examples.forEach(example => trainExample(current, example, -1));
+      examples.forEach(example => trainExample(current, example));
+      trained.set(transaction.id, { key, examples });
+    });
+
+    trained.forEach((previous, id) => {
+      if (seen.has(id)) return;
+      previous.examples.forEach(example => trainExample(current, example, -1));
+      trained.delete(id);
+    });
+
+    // A new object each update, so consumers see the change
+    return { current, examples: current.examples, isReady: isModelReady(current) };
+  }, [transactions]);
+
+  const suggestCategories = useCallback((input: ClassifierInput, candidates: string[]) => {
+    if (!model.isReady) return [];
+    return predictCategories(model.current, getClassifierFeatures(input), candidates)
+      .slice(0, LEARNED_CATEGORIES.SUGGESTION_COUNT);
+  }, [model]);
+
+  // Checked against the latest transactions, as listed
+  const getAccuracy = useCallback(() => {
+    const examples = transactions
+      .slice(0, LEARNED_CATEGORIES.ACCURACY_SAMPLE)
+      .flatMap(transaction => trainedRef.current.get(transaction.id)?.examples || []);
+    return evaluateCategoryModel(model.current, examples);
+  }, [model, transactions]);
+
+  return useMemo(() => ({
+    examples: model.examples,
+    isReady: model.isReady,
+    suggestCategories,
+    getAccuracy,
+  }), [model, suggestCategories, getAccuracy]);
+}
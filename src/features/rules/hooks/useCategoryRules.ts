@@ -0,0 +1,77 @@
+import { useMemo } from "react";
+import { type CategoryRule } from "@/shared/types";
+import { useFirestore, useMemoFirebase, useCollection } from "@/firebase";
+import { collection, query, orderBy } from 'firebase/firestore';
+import { useHouseholdScope } from "@/features/household/hooks";
+import { CategoryRuleService, type CategoryRuleDto } from "../services/CategoryRuleService";
+
+export function useCategoryRules() {
+  const { dataOwnerId, canEdit } = useHouseholdScope();
+  const firestore = useFirestore();
+
+  const rulesQuery = useMemoFirebase(
+    () => (firestore && dataOwnerId ? query(collection(firestore, `users/${dataOwnerId}/categoryRules`), orderBy('order', 'asc')) : null),
+    [firestore, dataOwnerId]
+  );
+
+  const { data: rules, isLoading: isRulesLoading } = useCollection<CategoryRule>(rulesQuery);
+
+  const activeRules = useMemo(() => {
+    return rules?.filter(rule => rule.isActive) || [];
+  }, [rules]);
+
+  const requireEditor = () => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+    if (!canEdit) {
+      throw new Error('Viewers cannot change rules');
+    }
+    return dataOwnerId;
+  };
+
+  const createRule = async (ruleData: CategoryRuleDto): Promise<string> => {
+    const userId = requireEditor();
+    const lastOrder = rules?.reduce((max, rule) => Math.max(max, rule.order), -1) ?? -1;
+    return CategoryRuleService.create(userId, firestore, ruleData, lastOrder + 1);
+  };
+
+  const updateRule = async (ruleId: string, ruleData: CategoryRuleDto) => {
+    await CategoryRuleService.update(requireEditor(), firestore, ruleId, ruleData);
+  };
+
+  const setRuleActive = async (ruleId: string, isActive: boolean) => {
+    await CategoryRuleService.setActive(requireEditor(), firestore, ruleId, isActive);
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    await CategoryRuleService.delete(requireEditor(), firestore, ruleId);
+  };
+
+  // Swap a rule with its neighbour, so it runs earlier (-1) or later (1)
+  const moveRule = async (ruleId: string, direction: -1 | 1) => {
+    const userId = requireEditor();
+    const ids = (rules || []).map(rule => rule.id);
+    const index = ids.indexOf(ruleId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    await CategoryRuleService.reorder(userId, firestore, ids);
+  };
+
+  return {
+    // Data
+    rules: rules || [],
+    activeRules,
+    isRulesLoading,
+    canEdit,
+
+    // Actions
+    createRule,
+    updateRule,
+    setRuleActive,
+    deleteRule,
+    moveRule,
+  };
+}
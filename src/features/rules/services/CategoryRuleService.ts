@@ -0,0 +1,106 @@
+import { doc, collection, addDoc, updateDoc, deleteDoc, writeBatch, type Firestore } from 'firebase/firestore';
+import { type CategoryRule } from "@/shared/types";
+import { validateRule } from "@/shared/utils/rules";
+import { cleanTags } from "@/shared/utils/tags";
+
+export type CategoryRuleDto = Pick<CategoryRule, 'name' | 'conditions' | 'actions'>;
+
+export class CategoryRuleService {
+  /**
+   * Add a rule after the existing ones, so it runs last
+   */
+  static async create(
+    userId: string,
+    firestore: Firestore,
+    ruleData: CategoryRuleDto,
+    order: number
+  ): Promise<string> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const error = validateRule(ruleData);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const rulesCollection = collection(firestore, `users/${userId}/categoryRules`);
+    const ruleRef = await addDoc(rulesCollection, {
+      ...this.clean(ruleData),
+      order,
+      isActive: true,
+      createdAt: new Date(),
+    });
+
+    return ruleRef.id;
+  }
+
+  static async update(
+    userId: string,
+    firestore: Firestore,
+    ruleId: string,
+    ruleData: CategoryRuleDto
+  ): Promise<void> {
+    if (!userId || !firestore || !ruleId) {
+      throw new Error('User ID, Firestore instance, and rule ID are required');
+    }
+
+    const error = validateRule(ruleData);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const ruleRef = doc(firestore, `users/${userId}/categoryRules`, ruleId);
+    await updateDoc(ruleRef, { ...this.clean(ruleData), updatedAt: new Date() });
+  }
+
+  /**
+   * Paused rules are kept but skipped
+   */
+  static async setActive(userId: string, firestore: Firestore, ruleId: string, isActive: boolean): Promise<void> {
+    if (!userId || !firestore || !ruleId) {
+      throw new Error('User ID, Firestore instance, and rule ID are required');
+    }
+
+    const ruleRef = doc(firestore, `users/${userId}/categoryRules`, ruleId);
+    await updateDoc(ruleRef, { isActive, updatedAt: new Date() });
+  }
+
+  static async delete(userId: string, firestore: Firestore, ruleId: string): Promise<void> {
+    if (!userId || !firestore || !ruleId) {
+      throw new Error('User ID, Firestore instance, and rule ID are required');
+    }
+
+    await deleteDoc(doc(firestore, `users/${userId}/categoryRules`, ruleId));
+  }
+
+  /**
+   * Save the order rules run in, first to last
+   */
+  static async reorder(userId: string, firestore: Firestore, ruleIds: string[]): Promise<void> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const batch = writeBatch(firestore);
+    ruleIds.forEach((ruleId, order) => {
+      batch.update(doc(firestore, `users/${userId}/categoryRules`, ruleId), { order });
+    });
+    await batch.commit();
+  }
+
+  // Trimmed fields, with unset actions stored as null rather than left out
+  private static clean(ruleData: CategoryRuleDto): CategoryRuleDto {
+    const tags = cleanTags(ruleData.actions.tags || []);
+    return {
+      name: ruleData.name.trim(),
+      conditions: ruleData.conditions.map(condition => ({ ...condition, value: condition.value.trim() })),
+      actions: {
+        category: ruleData.actions.category || null,
+        type: ruleData.actions.type || null,
+        notes: ruleData.actions.notes?.trim() || null,
+        tags: tags.length > 0 ? tags : null,
+      },
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export { CategoryRuleService } from './CategoryRuleService';
+export type { CategoryRuleDto } from './CategoryRuleService';
@@ -0,0 +1 @@
+export { useOutbox } from './useOutbox';
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from "react";
+import { useUser, useFirestore } from "@/firebase";
+import { backgroundSyncManager, type ConflictEntry, type DeadLetterEntry, type OutboxStatus } from "@/lib/background-sync";
+
+export function useOutbox() {
+  const { user, isUserLoading } = useUser();
+  const firestore = useFirestore();
+  const [status, setStatus] = useState<OutboxStatus>({ pending: 0, deadLetters: 0, conflicts: 0 });
+  const [deadLetters, setDeadLetters] = useState<DeadLetterEntry[]>([]);
+  const [conflicts, setConflicts] = useState<ConflictEntry[]>([]);
+
+  // Replay queued writes as the signed-in user
+  useEffect(() => {
+    if (typeof window === 'undefined' || isUserLoading) return;
+
+    if (user && firestore) {
+      backgroundSyncManager.init(firestore, user);
+    } else if (!user) {
+      backgroundSyncManager.clearSyncState().catch((error) => {
+        console.error('Failed to clear sync state:', error);
+      });
+    }
+  }, [user, firestore, isUserLoading]);
+
+  const loadDeadLetters = useCallback(async () => {
+    setDeadLetters(await backgroundSyncManager.getDeadLetters());
+  }, []);
+
+  const loadConflicts = useCallback(async () => {
+    setConflicts(await backgroundSyncManager.getConflicts());
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    return backgroundSyncManager.subscribe((nextStatus) => {
+      setStatus(nextStatus);
+      void loadDeadLetters();
+      void loadConflicts();
+    });
+  }, [loadDeadLetters, loadConflicts]);
+
+  const retryDeadLetter = async (id: string) => {
+    await backgroundSyncManager.retryDeadLetter(id);
+    await loadDeadLetters();
+  };
+
+  const discardDeadLetter = async (id: string) => {
+    await backgroundSyncManager.discardDeadLetter(id);
+    await loadDeadLetters();
+  };
+
+  // null keeps the other device's version
+  const resolveConflict = async (id: string, resolution: Record<string, unknown> | null) => {
+    await backgroundSyncManager.resolveConflict(id, resolution);
+    await loadConflicts();
+  };
+
+  return {
+    // Data
+    pendingCount: status.pending,
+    deadLetterCount: status.deadLetters,
+    deadLetters,
+    conflictCount: status.conflicts,
+    conflicts,
+
+    // Actions
+    retryDeadLetter,
+    discardDeadLetter,
+    resolveConflict,
+    syncNow: () => backgroundSyncManager.syncPendingWrites(),
+  };
+}
@@ -1,3 +1,3 @@
 export { useTransactions } from './useTransactions';
 export { useRecurringTransactions } from './useRecurringTransactions';
-export type { SortOption } from './useTransactions';
\ No newline at end of file
+export type { SortOption, CurrencyConversion } from './useTransactions';
\ No newline at end of file
@@ -1,46 +1,32 @@
 import { useState, useEffect, useMemo } from "react";
 import { type RecurringTransaction } from "@/shared/types";
 import { useUser, useFirestore, useMemoFirebase, useCollection } from "@/firebase";
-import { doc, collection, query, orderBy, addDoc, updateDoc, deleteDoc } from 'firebase/firestore';
-import { addDocumentNonBlocking, updateDocumentNonBlocking, deleteDocumentNonBlocking } from "@/firebase/non-blocking-updates";
+import { collection, query, orderBy } from 'firebase/firestore';
+import { backgroundSyncManager } from "@/lib/background-sync";
 import { useToast } from "@/shared/hooks";
+import { getNextOccurrence, getRecurringOccurrenceId, isWithinRecurrence, toRecurrenceDate } from "@/shared/utils/recurrence";
+import { getDeviceTimeZone } from "@/shared/utils/schedules";
+import { useHouseholdScope } from "@/features/household/hooks";
 
 export function useRecurringTransactions() {
   const [isProcessing, setIsProcessing] = useState(false);
   const { user } = useUser();
+  const { dataOwnerId, canEdit } = useHouseholdScope();
   const firestore = useFirestore();
   const { toast } = useToast();
 
   // Query for recurring transactions
   const recurringQuery = useMemoFirebase(
-    () => (firestore && user ? query(collection(firestore, `users/${user.uid}/recurringTransactions`), orderBy('createdAt', 'desc')) : null),
-    [firestore, user]
+    () => (firestore && dataOwnerId ? query(collection(firestore, `users/${dataOwnerId}/recurringTransactions`), orderBy('createdAt', 'desc')) : null),
+    [firestore, dataOwnerId]
   );
   
   const { data: recurringTransactions, isLoading: isRecurringLoading } = useCollection<RecurringTransaction>(recurringQuery);
 
-  // Helper function to calculate next due date based on frequency
-  const calculateNextDueDate = (currentDate: Date, frequency: 'weekly' | 'monthly' | 'yearly'): Date => {
-    const nextDate = new Date(currentDate);
-    
-    switch (frequency) {
-      case 'weekly':
-        nextDate.setDate(nextDate.getDate() + 7);
-        break;
-      case 'monthly':
-        nextDate.setMonth(nextDate.getMonth() + 1);
-        break;
-      case 'yearly':
-        nextDate.setFullYear(nextDate.getFullYear() + 1);
-        break;
-    }
-    
-    return nextDate;
-  };
-
   // Check for due recurring transactions and create them
   const processRecurringTransactions = async () => {
-    if (!user || !firestore || !recurringTransactions || isProcessing) return;
+    // Viewers of a shared household leave posting to the members who can write
+    if (!dataOwnerId || !canEdit || !firestore || !recurringTransactions || isProcessing) return;
     
     setIsProcessing(true);
     const now = new Date();
@@ -50,31 +36,53 @@ export function useRecurringTransactions() {
       for (const recurring of recurringTransactions) {
         if (!recurring.isActive) continue;
         
-        const dueDate = new Date(recurring.nextDueDate);
+        const dueDate = toRecurrenceDate(recurring.nextDueDate);
+        const occurrenceCount = recurring.occurrenceCount || 0;
         
-        // If the transaction is due (due date has passed)
-        if (dueDate <= now) {
+        // If the transaction is due (due date has passed) and the series hasn't ended
+        if (dueDate <= now && isWithinRecurrence(recurring, dueDate, occurrenceCount)) {
           // Create the actual transaction
           const transactionData = {
             Amount: recurring.Amount,
             Type: recurring.Type,
             Category: recurring.Category,
             Notes: recurring.Notes,
-            Date: now,
-            userId: user.uid,
+            accountId: recurring.accountId || null,
+            ...(recurring.currency && { currency: recurring.currency }),
+            Date: dueDate,
+            userId: dataOwnerId,
+            ...(recurring.createdBy && { createdBy: recurring.createdBy }),
+            recurringTransactionId: recurring.id,
           };
 
           // Add the transaction
-          const transactionsCollection = collection(firestore, `users/${user.uid}/transactions`);
-          await addDocumentNonBlocking(transactionsCollection, transactionData);
+          await backgroundSyncManager.queueWrite({
+            userId: dataOwnerId,
+            collection: 'transactions',
+            docId: getRecurringOccurrenceId(recurring.id, dueDate, recurring.timeZone || getDeviceTimeZone()),
+            operation: 'create',
+            data: transactionData,
+          });
 
-          // Update the recurring transaction's next due date
-          const nextDueDate = calculateNextDueDate(dueDate, recurring.frequency);
-          const recurringRef = doc(firestore, `users/${user.uid}/recurringTransactions`, recurring.id);
+          // Update the recurring transaction's next due date, deactivating it after its last occurrence.
+          // Checked against the version read here, so if the scheduled function or another device
+          // advanced the series first this lands in the conflicts store instead of moving it back.
+          const nextDueDate = getNextOccurrence(recurring, dueDate);
           
-          await updateDocumentNonBlocking(recurringRef, {
-            nextDueDate,
-            lastProcessed: now,
+          await backgroundSyncManager.queueWrite({
+            userId: dataOwnerId,
+            collection: 'recurringTransactions',
+            docId: recurring.id,
+            operation: 'update',
+            base: recurring,
+            data: {
+              nextDueDate,
+              occurrenceCount: occurrenceCount + 1,
+              isActive: isWithinRecurrence(recurring, nextDueDate, occurrenceCount + 1),
+              lastProcessed: now,
+              // Older series are pinned to the zone their next date was worked out in
+              ...(!recurring.timeZone && { timeZone: getDeviceTimeZone() }),
+            },
           });
 
           processedCount++;
@@ -108,42 +116,71 @@ export function useRecurringTransactions() {
 
   // CRUD operations for recurring transactions
   const createRecurringTransaction = async (data: Omit<RecurringTransaction, 'id' | 'createdAt' | 'userId'>) => {
-    if (!user || !firestore) {
+    if (!user || !dataOwnerId) {
       throw new Error('User not authenticated');
     }
 
     const recurringData = {
       ...data,
-      userId: user.uid,
+      occurrenceCount: 0,
+      userId: dataOwnerId,
+      createdBy: user.uid,
       createdAt: new Date(),
     };
 
-    const recurringCollection = collection(firestore, `users/${user.uid}/recurringTransactions`);
-    await addDocumentNonBlocking(recurringCollection, recurringData);
+    await backgroundSyncManager.queueWrite({
+      userId: dataOwnerId,
+      collection: 'recurringTransactions',
+      docId: backgroundSyncManager.generateId(),
+      operation: 'create',
+      data: recurringData,
+      base: null,
+    });
   };
 
   const updateRecurringTransaction = async (id: string, updates: Partial<RecurringTransaction>) => {
-    if (!user || !firestore) {
+    if (!dataOwnerId) {
       throw new Error('User not authenticated');
     }
 
-    const recurringRef = doc(firestore, `users/${user.uid}/recurringTransactions`, id);
-    await updateDocumentNonBlocking(recurringRef, updates);
+    await backgroundSyncManager.queueWrite({
+      userId: dataOwnerId,
+      collection: 'recurringTransactions',
+      docId: id,
+      operation: 'update',
+      data: updates,
+      base: recurringTransactions?.find(recurring => recurring.id === id),
+    });
   };
 
   const deleteRecurringTransaction = async (id: string) => {
-    if (!user || !firestore) {
+    if (!dataOwnerId) {
       throw new Error('User not authenticated');
     }
 
-    const recurringRef = doc(firestore, `users/${user.uid}/recurringTransactions`, id);
-    await deleteDocumentNonBlocking(recurringRef);
+    await backgroundSyncManager.queueWrite({
+      userId: dataOwnerId,
+      collection: 'recurringTransactions',
+      docId: id,
+      operation: 'delete',
+    });
   };
 
   const toggleRecurringTransaction = async (id: string, isActive: boolean) => {
     await updateRecurringTransaction(id, { isActive });
   };
 
+  // Move past the next occurrence without posting it; skips don't count towards maxOccurrences
+  const skipNextOccurrence = async (recurring: RecurringTransaction) => {
+    const nextDueDate = getNextOccurrence(recurring, toRecurrenceDate(recurring.nextDueDate));
+    await updateRecurringTransaction(recurring.id, {
+      nextDueDate,
+      isActive: isWithinRecurrence(recurring, nextDueDate, recurring.occurrenceCount || 0),
+      lastSkipped: new Date(),
+      ...(!recurring.timeZone && { timeZone: getDeviceTimeZone() }),
+    });
+  };
+
   // Get active recurring transactions
   const activeRecurringTransactions = useMemo(() => {
     return recurringTransactions?.filter(rt => rt.isActive) || [];
@@ -160,10 +197,10 @@ export function useRecurringTransactions() {
     return recurringTransactions
       .filter(rt => rt.isActive)
       .filter(rt => {
-        const dueDate = new Date(rt.nextDueDate);
+        const dueDate = toRecurrenceDate(rt.nextDueDate);
         return dueDate >= now && dueDate <= nextWeek;
       })
-      .sort((a, b) => new Date(a.nextDueDate).getTime() - new Date(b.nextDueDate).getTime());
+      .sort((a, b) => toRecurrenceDate(a.nextDueDate).getTime() - toRecurrenceDate(b.nextDueDate).getTime());
   }, [recurringTransactions]);
 
   return {
@@ -179,6 +216,7 @@ export function useRecurringTransactions() {
     updateRecurringTransaction,
     deleteRecurringTransaction,
     toggleRecurringTransaction,
+    skipNextOccurrence,
     processRecurringTransactions,
   };
 }
\ No newline at end of file
@@ -1,38 +1,66 @@
 import { useState, useMemo, useEffect } from "react";
 import { type Transaction } from "@/shared/types";
 import { useUser, useFirestore, useMemoFirebase, useCollection } from "@/firebase";
-import { doc, collection, query, orderBy, limit, where } from 'firebase/firestore';
-import { deleteDocumentNonBlocking } from "@/firebase/non-blocking-updates";
+import { collection, query, orderBy, limit, where } from 'firebase/firestore';
+import { backgroundSyncManager } from "@/lib/background-sync";
 import { type DateRange } from "@/components/dashboard/date-filter";
 import { startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
 import { toDate } from "date-fns";
+import { toBaseCurrency, type ExchangeRateMap } from "@/shared/utils/currency";
+import { filterTransactionsByMember } from "@/shared/utils/household";
+import { expandSplits } from "@/shared/utils/splits";
+import { ALL_MEMBERS } from "@/shared/constants";
+import { useHouseholdScope } from "@/features/household/hooks";
 
 export type SortOption = 'latest' | 'highest' | 'category';
 
-export function useTransactions(dateRange: DateRange = 'month') {
+export interface CurrencyConversion {
+  baseCurrency: string;
+  rates: ExchangeRateMap;
+}
+
+export function useTransactions(dateRange: DateRange = 'month', conversion?: CurrencyConversion, memberId: string = ALL_MEMBERS) {
   const [visibleTransactions, setVisibleTransactions] = useState(20);
   const [sortOption, setSortOption] = useState<SortOption>('latest');
   const [transactionToEdit, setTransactionToEdit] = useState<Transaction | null>(null);
   const [transactionToDelete, setTransactionToDelete] = useState<Transaction | null>(null);
 
   const { user } = useUser();
+  const { dataOwnerId } = useHouseholdScope();
   const firestore = useFirestore();
 
   // Query for visible transactions (limited for display)
   const transactionsQuery = useMemoFirebase(
-    () => (firestore && user ? query(collection(firestore, `users/${user.uid}/transactions`), orderBy('Date', 'desc'), limit(visibleTransactions)) : null),
-    [firestore, user, visibleTransactions]
+    () => (firestore && dataOwnerId ? query(collection(firestore, `users/${dataOwnerId}/transactions`), orderBy('Date', 'desc'), limit(visibleTransactions)) : null),
+    [firestore, dataOwnerId, visibleTransactions]
   );
   
-  const { data: transactions, isLoading: isTransactionsLoading } = useCollection<Transaction>(transactionsQuery);
+  const { data: queriedTransactions, isLoading: isTransactionsLoading } = useCollection<Transaction>(transactionsQuery);
 
   // Query for ALL transactions (for accurate totals calculation)
   const allTransactionsQuery = useMemoFirebase(
-    () => (firestore && user ? query(collection(firestore, `users/${user.uid}/transactions`), orderBy('Date', 'desc')) : null),
-    [firestore, user]
+    () => (firestore && dataOwnerId ? query(collection(firestore, `users/${dataOwnerId}/transactions`), orderBy('Date', 'desc')) : null),
+    [firestore, dataOwnerId]
   );
   
-  const { data: allTransactions, isLoading: isAllTransactionsLoading } = useCollection<Transaction>(allTransactionsQuery);
+  const { data: queriedAllTransactions, isLoading: isAllTransactionsLoading } = useCollection<Transaction>(allTransactionsQuery);
+
+  // Narrow a shared household's transactions to the ones one member entered
+  const transactions = useMemo(() => {
+    if (!queriedTransactions || memberId === ALL_MEMBERS || !dataOwnerId) return queriedTransactions;
+    return filterTransactionsByMember(queriedTransactions, memberId, dataOwnerId);
+  }, [queriedTransactions, memberId, dataOwnerId]);
+
+  const allTransactions = useMemo(() => {
+    if (!queriedAllTransactions || memberId === ALL_MEMBERS || !dataOwnerId) return queriedAllTransactions;
+    return filterTransactionsByMember(queriedAllTransactions, memberId, dataOwnerId);
+  }, [queriedAllTransactions, memberId, dataOwnerId]);
+
+  // All transactions with amounts in the base currency, used for totals
+  const baseAllTransactions = useMemo(() => {
+    if (!allTransactions || !conversion) return allTransactions;
+    return toBaseCurrency(allTransactions, conversion.baseCurrency, conversion.rates);
+  }, [allTransactions, conversion]);
 
   // Debug logging for transactions
   useEffect(() => {
@@ -78,7 +106,7 @@ export function useTransactions(dateRange: DateRange = 'month') {
   };
 
   const getFilteredTransactions = (dateRange: DateRange, useAllTransactions: boolean = false) => {
-    const transactionsToFilter = useAllTransactions ? allTransactions : transactions;
+    const transactionsToFilter = useAllTransactions ? baseAllTransactions : transactions;
     if (!transactionsToFilter) return [];
     
     const { start, end } = getDateFilterRange(dateRange);
@@ -141,7 +169,7 @@ export function useTransactions(dateRange: DateRange = 'month') {
   };
 
   const getAggregatedData = (expenseTransactions: Transaction[]) => {
-    return expenseTransactions
+    return expandSplits(expenseTransactions)
       .reduce((acc, transaction) => {
         const existingCategory = acc.find(
           (item) => item.category === transaction.Category
@@ -168,9 +196,13 @@ export function useTransactions(dateRange: DateRange = 'month') {
   };
 
   const handleConfirmDelete = () => {
-    if (!transactionToDelete || !user || !firestore) return;
-    const docRef = doc(firestore, `users/${user.uid}/transactions`, transactionToDelete.id);
-    deleteDocumentNonBlocking(docRef);
+    if (!transactionToDelete || !dataOwnerId) return;
+    void backgroundSyncManager.queueWrite({
+      userId: dataOwnerId,
+      collection: 'transactions',
+      docId: transactionToDelete.id,
+      operation: 'delete',
+    });
     setTransactionToDelete(null);
   };
 
@@ -182,6 +214,7 @@ export function useTransactions(dateRange: DateRange = 'month') {
     // Data
     transactions,
     allTransactions,
+    baseAllTransactions,
     isTransactionsLoading,
     isAllTransactionsLoading,
     
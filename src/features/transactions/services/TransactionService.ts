@@ -1,6 +1,6 @@
-import { doc, collection, setDoc, query, orderBy, limit, type Firestore } from 'firebase/firestore';
+import { collection, query, orderBy, limit, type Firestore } from 'firebase/firestore';
 import { type Transaction } from "@/shared/types";
-import { deleteDocumentNonBlocking, updateDocumentNonBlocking } from "@/firebase/non-blocking-updates";
+import { backgroundSyncManager } from "@/lib/background-sync";
 
 export interface CreateTransactionDto {
   Date: Date | string;
@@ -24,9 +24,6 @@ export class TransactionService {
       throw new Error('User ID and Firestore instance are required');
     }
 
-    const transactionsCollection = collection(firestore, `users/${userId}/transactions`);
-    const newTransactionRef = doc(transactionsCollection);
-    
     const transactionWithMeta = {
       ...transactionData,
       userId,
@@ -34,7 +31,14 @@ export class TransactionService {
       updatedAt: new Date(),
     };
 
-    await setDoc(newTransactionRef, transactionWithMeta);
+    await backgroundSyncManager.queueWrite({
+      userId,
+      collection: 'transactions',
+      docId: backgroundSyncManager.generateId(),
+      operation: 'create',
+      data: transactionWithMeta,
+      base: null,
+    });
   }
 
   static async update(
@@ -47,14 +51,18 @@ export class TransactionService {
       throw new Error('User ID, Firestore instance, and transaction ID are required');
     }
 
-    const transactionRef = doc(firestore, `users/${userId}/transactions`, transactionId);
-    
     const updatesWithMeta = {
       ...updates,
       updatedAt: new Date(),
     };
 
-    await updateDocumentNonBlocking(transactionRef, updatesWithMeta);
+    await backgroundSyncManager.queueWrite({
+      userId,
+      collection: 'transactions',
+      docId: transactionId,
+      operation: 'update',
+      data: updatesWithMeta,
+    });
   }
 
   static async delete(
@@ -66,8 +74,12 @@ export class TransactionService {
       throw new Error('User ID, Firestore instance, and transaction ID are required');
     }
 
-    const transactionRef = doc(firestore, `users/${userId}/transactions`, transactionId);
-    await deleteDocumentNonBlocking(transactionRef);
+    await backgroundSyncManager.queueWrite({
+      userId,
+      collection: 'transactions',
+      docId: transactionId,
+      operation: 'delete',
+    });
   }
 
   static createQuery(userId: string, firestore: Firestore, limitCount: number = 20) {
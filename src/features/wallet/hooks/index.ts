@@ -0,0 +1 @@
+export { useAccounts } from './useAccounts';
@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { type Account, type Transaction } from "@/shared/types";
+import { useFirestore, useMemoFirebase, useCollection } from "@/firebase";
+import { collection, query, orderBy } from 'firebase/firestore';
+import { calculateAccountBalances } from "@/shared/utils/accounts";
+import { UNASSIGNED_ACCOUNT_ID } from "@/shared/constants";
+import { AccountService, type CreateAccountDto } from "../services/AccountService";
+import { useHouseholdScope } from "@/features/household/hooks";
+
+export function useAccounts(transactions: Transaction[] = []) {
+  const { dataOwnerId } = useHouseholdScope();
+  const firestore = useFirestore();
+
+  const accountsQuery = useMemoFirebase(
+    () => (firestore && dataOwnerId ? query(collection(firestore, `users/${dataOwnerId}/accounts`), orderBy('createdAt', 'asc')) : null),
+    [firestore, dataOwnerId]
+  );
+
+  const { data: accounts, isLoading: isAccountsLoading } = useCollection<Account>(accountsQuery);
+
+  const activeAccounts = useMemo(() => {
+    return accounts?.filter(account => !account.isArchived) || [];
+  }, [accounts]);
+
+  const balances = useMemo(() => {
+    return calculateAccountBalances(accounts || [], transactions);
+  }, [accounts, transactions]);
+
+  // Balance of transactions recorded without an account
+  const unassignedBalance = balances[UNASSIGNED_ACCOUNT_ID] || 0;
+
+  const totalBalance = useMemo(() => {
+    return Object.values(balances).reduce((sum, balance) => sum + balance, 0);
+  }, [balances]);
+
+  const createAccount = async (accountData: CreateAccountDto): Promise<string> => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    return AccountService.create(dataOwnerId, firestore, accountData);
+  };
+
+  const archiveAccount = async (accountId: string) => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    await AccountService.archive(dataOwnerId, firestore, accountId);
+  };
+
+  const reconcileAccount = async (account: Account, statementBalance: number) => {
+    if (!dataOwnerId || !firestore) {
+      throw new Error('User not authenticated');
+    }
+
+    await AccountService.reconcile(dataOwnerId, firestore, account, balances[account.id] || 0, statementBalance);
+  };
+
+  return {
+    // Data
+    accounts: accounts || [],
+    activeAccounts,
+    balances,
+    unassignedBalance,
+    totalBalance,
+    isAccountsLoading,
+
+    // Actions
+    createAccount,
+    archiveAccount,
+    reconcileAccount,
+  };
+}
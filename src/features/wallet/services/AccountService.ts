@@ -0,0 +1,111 @@
+import { doc, collection, addDoc, updateDoc, type Firestore } from 'firebase/firestore';
+import { type Account, type AccountType } from "@/shared/types";
+import { getReconciledOpeningBalance } from "@/shared/utils/accounts";
+
+export interface CreateAccountDto {
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+}
+
+export interface UpdateAccountDto extends Partial<CreateAccountDto> {
+  isArchived?: boolean;
+}
+
+export class AccountService {
+  static async create(
+    userId: string,
+    firestore: Firestore,
+    accountData: CreateAccountDto
+  ): Promise<string> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const errors = this.validate(accountData);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const accountsCollection = collection(firestore, `users/${userId}/accounts`);
+    const accountRef = await addDoc(accountsCollection, {
+      name: accountData.name.trim(),
+      type: accountData.type,
+      openingBalance: accountData.openingBalance || 0,
+      isArchived: false,
+      createdAt: new Date(),
+      lastReconciledAt: null,
+      lastReconciledBalance: null,
+    });
+
+    return accountRef.id;
+  }
+
+  static async update(
+    userId: string,
+    firestore: Firestore,
+    accountId: string,
+    updates: UpdateAccountDto
+  ): Promise<void> {
+    if (!userId || !firestore || !accountId) {
+      throw new Error('User ID, Firestore instance, and account ID are required');
+    }
+
+    const accountRef = doc(firestore, `users/${userId}/accounts`, accountId);
+    await updateDoc(accountRef, { ...updates, updatedAt: new Date() });
+  }
+
+  /**
+   * Archived accounts keep their history but are hidden from pickers.
+   * Accounts are never deleted so old transactions still resolve.
+   */
+  static async archive(
+    userId: string,
+    firestore: Firestore,
+    accountId: string
+  ): Promise<void> {
+    await this.update(userId, firestore, accountId, { isArchived: true });
+  }
+
+  /**
+   * Match the tracked balance to a statement by shifting the opening balance,
+   * so the difference never shows up as income or spending.
+   */
+  static async reconcile(
+    userId: string,
+    firestore: Firestore,
+    account: Account,
+    currentBalance: number,
+    statementBalance: number
+  ): Promise<void> {
+    if (!userId || !firestore) {
+      throw new Error('User ID and Firestore instance are required');
+    }
+
+    const accountRef = doc(firestore, `users/${userId}/accounts`, account.id);
+    await updateDoc(accountRef, {
+      openingBalance: getReconciledOpeningBalance(account, currentBalance, statementBalance),
+      lastReconciledAt: new Date(),
+      lastReconciledBalance: statementBalance,
+      updatedAt: new Date(),
+    });
+  }
+
+  static validate(accountData: Partial<CreateAccountDto>): string[] {
+    const errors: string[] = [];
+
+    if (!accountData.name || accountData.name.trim().length === 0) {
+      errors.push('Account name is required');
+    }
+
+    if (!accountData.type) {
+      errors.push('Account type is required');
+    }
+
+    if (accountData.openingBalance !== undefined && isNaN(accountData.openingBalance)) {
+      errors.push('Opening balance must be a number');
+    }
+
+    return errors;
+  }
+}
@@ -0,0 +1,2 @@
+export { AccountService } from './AccountService';
+export type { CreateAccountDto, UpdateAccountDto } from './AccountService';
@@ -1,4 +1,6 @@
 // Advanced push notification optimizations
+import { getDeviceTimeZone, parseTime, suggestNotificationTime } from '@/shared/utils/schedules';
+
 export interface PushNotificationConfig {
   title: string;
   body: string;
@@ -12,27 +14,9 @@ export interface PushNotificationConfig {
   timestamp?: number;
 }
 
-export interface NotificationSchedule {
-  id: string;
-  config: PushNotificationConfig;
-  scheduledTime: number;
-  recurring?: {
-    interval: 'daily' | 'weekly' | 'monthly';
-    daysOfWeek?: number[];
-    time?: string;
-  };
-  conditions?: {
-    minAmount?: number;
-    categories?: string[];
-    budgetThreshold?: number;
-  };
-}
-
 export class AdvancedPushNotifications {
   private static instance: AdvancedPushNotifications;
-  private scheduledNotifications: Map<string, NotificationSchedule> = new Map();
   private notificationHistory: Array<{ id: string; sentAt: number; opened: boolean }> = [];
-  private readonly STORAGE_KEY = 'scheduled-notifications';
   private readonly HISTORY_KEY = 'notification-history';
 
   static getInstance(): AdvancedPushNotifications {
@@ -42,31 +26,6 @@ export class AdvancedPushNotifications {
     return AdvancedPushNotifications.instance;
   }
 
-  // Schedule a notification
-  scheduleNotification(schedule: NotificationSchedule): void {
-    this.scheduledNotifications.set(schedule.id, schedule);
-    this.saveScheduledNotifications();
-    
-    console.log('[Advanced Push] Notification scheduled:', schedule.id);
-    
-    // Set up timer for one-time notifications
-    if (!schedule.recurring) {
-      const delay = schedule.scheduledTime - Date.now();
-      if (delay > 0) {
-        setTimeout(() => {
-          this.sendScheduledNotification(schedule.id);
-        }, delay);
-      }
-    }
-  }
-
-  // Cancel a scheduled notification
-  cancelNotification(id: string): void {
-    this.scheduledNotifications.delete(id);
-    this.saveScheduledNotifications();
-    console.log('[Advanced Push] Notification cancelled:', id);
-  }
-
   // Send a notification immediately
   async sendNotification(config: PushNotificationConfig): Promise<boolean> {
     try {
@@ -123,64 +82,6 @@ export class AdvancedPushNotifications {
     }
   }
 
-  // Send scheduled notification
-  private async sendScheduledNotification(id: string): Promise<void> {
-    const schedule = this.scheduledNotifications.get(id);
-    if (!schedule) return;
-
-    // Check conditions if specified
-    if (schedule.conditions && !this.checkConditions(schedule.conditions)) {
-      console.log('[Advanced Push] Conditions not met for notification:', id);
-      return;
-    }
-
-    const sent = await this.sendNotification(schedule.config);
-    
-    if (sent) {
-      // Handle recurring notifications
-      if (schedule.recurring) {
-        this.scheduleNextRecurrence(schedule);
-      } else {
-        // Remove one-time notification
-        this.cancelNotification(id);
-      }
-    }
-  }
-
-  // Schedule next recurrence
-  private scheduleNextRecurrence(schedule: NotificationSchedule): void {
-    if (!schedule.recurring) return;
-
-    let nextTime = Date.now();
-    
-    switch (schedule.recurring.interval) {
-      case 'daily':
-        nextTime += 24 * 60 * 60 * 1000; // 1 day
-        break;
-      case 'weekly':
-        nextTime += 7 * 24 * 60 * 60 * 1000; // 1 week
-        break;
-      case 'monthly':
-        nextTime += 30 * 24 * 60 * 60 * 1000; // 30 days
-        break;
-    }
-
-    const nextSchedule: NotificationSchedule = {
-      ...schedule,
-      scheduledTime: nextTime,
-    };
-
-    this.scheduleNotification(nextSchedule);
-  }
-
-  // Check notification conditions
-  private checkConditions(conditions: NotificationSchedule['conditions']): boolean {
-    // This would integrate with your app's data
-    // For now, return true as a placeholder
-    console.log('[Advanced Push] Checking conditions:', conditions);
-    return true;
-  }
-
   // Enhance config for iOS
   private enhanceConfigForIOS(config: PushNotificationConfig): PushNotificationConfig {
     if (!this.isIOSSafari()) return config;
@@ -237,15 +138,18 @@ export class AdvancedPushNotifications {
     };
   }
 
-  // Smart notification timing
-  getOptimalNotificationTime(): number {
-    // Analyze user's interaction patterns to find optimal time
-    // For now, return a default time (9 AM)
+  // Smart notification timing: the hour notifications were opened most, from
+  // the opens passed in (e.g. notificationHistory) or this device's own
+  getOptimalNotificationTime(
+    openedAt: Date[] = this.notificationHistory.filter(n => n.opened).map(n => new Date(n.sentAt))
+  ): number {
+    const timeZone = getDeviceTimeZone();
+    const time = parseTime(suggestNotificationTime(openedAt, timeZone));
     const now = new Date();
     const optimal = new Date(now);
-    optimal.setHours(9, 0, 0, 0);
+    optimal.setHours(time?.hour ?? 9, time?.minute ?? 0, 0, 0);
     
-    // If 9 AM has passed today, schedule for tomorrow
+    // If that time has passed today, schedule for tomorrow
     if (optimal.getTime() <= now.getTime()) {
       optimal.setDate(optimal.getDate() + 1);
     }
@@ -269,28 +173,6 @@ export class AdvancedPushNotifications {
     return successCount;
   }
 
-  // Save/load scheduled notifications
-  private saveScheduledNotifications(): void {
-    try {
-      const data = Array.from(this.scheduledNotifications.entries());
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
-    } catch (error) {
-      console.error('[Advanced Push] Failed to save scheduled notifications:', error);
-    }
-  }
-
-  private loadScheduledNotifications(): void {
-    try {
-      const data = localStorage.getItem(this.STORAGE_KEY);
-      if (data) {
-        const entries = JSON.parse(data);
-        this.scheduledNotifications = new Map(entries);
-      }
-    } catch (error) {
-      console.error('[Advanced Push] Failed to load scheduled notifications:', error);
-    }
-  }
-
   private saveNotificationHistory(): void {
     try {
       localStorage.setItem(this.HISTORY_KEY, JSON.stringify(this.notificationHistory));
@@ -310,29 +192,12 @@ export class AdvancedPushNotifications {
     }
   }
 
-  // Initialize advanced push notifications
+  // Initialize advanced push notifications. Reminders are scheduled on the
+  // server, see NotificationScheduleService, so they arrive with the app closed.
   init(): void {
-    this.loadScheduledNotifications();
     this.loadNotificationHistory();
-
-    // Set up recurring notification checker
-    setInterval(() => {
-      this.checkRecurringNotifications();
-    }, 60000); // Check every minute
-
     console.log('[Advanced Push] Advanced push notifications initialized');
   }
-
-  // Check and send recurring notifications
-  private checkRecurringNotifications(): void {
-    const now = Date.now();
-    
-    this.scheduledNotifications.forEach((schedule) => {
-      if (schedule.recurring && schedule.scheduledTime <= now) {
-        this.sendScheduledNotification(schedule.id);
-      }
-    });
-  }
 }
 
 // Export singleton instance
@@ -1,20 +1,110 @@
-// Background sync for offline transaction handling
-export interface PendingTransaction {
+// Background sync: a durable outbox for offline writes
+//
+// Writes are stored in the pgb-cache IndexedDB before they are sent, then
+// replayed in order. Open tabs replay through the Firestore SDK; the service
+// worker drains the same outbox through the Firestore REST API on `sync`.
+// Every write targets a client-generated document id, so replaying an entry
+// twice (e.g. by a tab and the service worker) leaves the same result.
+//
+// Writes queued with a `base` are revision-checked. When the rules reject one
+// because the document changed elsewhere, it is merged with the server
+// version; edits to different fields merge on their own, the rest wait in the
+// conflicts store for the user.
+import {
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  getDocFromServer,
+  Timestamp,
+  type Firestore,
+} from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { openPgbDatabase, requestToPromise, PGB_STORES } from './pgb-db';
+import { stampRevision, mergeRevisions, getChangedFields } from '@/shared/utils/revision';
+
+export type OutboxCollection = 'transactions' | 'budgets' | 'recurringTransactions';
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+export interface OutboxWrite {
+  userId: string;
+  collection: OutboxCollection;
+  docId: string;
+  operation: OutboxOperation;
+  data?: Record<string, unknown>;
+  upsert?: boolean; // 'update' only: merge into the document, creating it if missing
+  base?: object | null; // The document as the writer saw it, null if new. Enables conflict checks.
+}
+
+export interface OutboxEntry extends Omit<OutboxWrite, 'base'> {
+  seq?: number; // Assigned by IndexedDB, defines replay order
+  queuedBy?: string; // Signed-in user, differs from userId when writing to a shared household
+  base?: Record<string, unknown> | null;
   id: string;
-  type: 'income' | 'expense';
-  amount: number;
-  description: string;
-  category: string;
-  date: string;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface DeadLetterEntry extends OutboxEntry {
+  failedAt: number;
+  error: string;
+}
+
+// A stale write parked for review. `data` holds every local change to the
+// document, `server` the version it collided with (null if deleted there).
+export interface ConflictEntry extends OutboxEntry {
+  detectedAt: number;
+  server: Record<string, unknown> | null;
+  conflicts: string[]; // Fields changed differently on both sides
+}
+
+// Read by the service worker to replay writes without an open tab
+export interface OutboxSyncState {
+  id: 'current';
   userId: string;
-  timestamp: number;
-  retryCount: number;
+  projectId: string;
+  apiKey: string;
+  refreshToken: string;
 }
 
+export interface OutboxStatus {
+  pending: number;
+  deadLetters: number;
+  conflicts: number;
+}
+
+export const OUTBOX_SYNC_TAG = 'pgb-outbox-sync';
+export const OUTBOX_SYNCED_MESSAGE = 'OUTBOX_SYNCED';
+
+// Firestore errors that will fail the same way on every retry
+const PERMANENT_ERROR_CODES = ['permission-denied', 'invalid-argument', 'not-found', 'failed-precondition', 'already-exists'];
+
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// Dates survive IndexedDB, Timestamps would lose their prototype
+const toStorableValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(toStorableValue);
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, fieldValue]) => fieldValue !== undefined)
+      .map(([key, fieldValue]) => [key, toStorableValue(fieldValue)])
+  );
+};
+
 export class BackgroundSyncManager {
   private static instance: BackgroundSyncManager;
-  private readonly STORAGE_KEY = 'pending-transactions';
-  private readonly MAX_RETRIES = 3;
+  private readonly MAX_ATTEMPTS = 5;
+  private readonly LOCK_NAME = 'pgb-outbox';
+  private firestore: Firestore | null = null;
+  private userId: string | null = null;
+  private drainPromise: Promise<void> | null = null;
+  private isDraining = false; // Holds the lock and is replaying
+  private inFlight = new Map<string, Promise<void>>();
+  private listeners = new Set<(status: OutboxStatus) => void>();
+  private isInitialized = false;
 
   static getInstance(): BackgroundSyncManager {
     if (!BackgroundSyncManager.instance) {
@@ -23,167 +113,455 @@ export class BackgroundSyncManager {
     return BackgroundSyncManager.instance;
   }
 
-  // Queue transaction for background sync
-  async queueTransaction(transaction: Omit<PendingTransaction, 'id' | 'timestamp' | 'retryCount'>): Promise<void> {
-    const pendingTransaction: PendingTransaction = {
-      ...transaction,
+  // Same format as Firestore auto ids, so ids can be made before the write
+  generateId(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(20));
+    return Array.from(bytes, byte => AUTO_ID_CHARS[byte % AUTO_ID_CHARS.length]).join('');
+  }
+
+  // Store a write in the outbox and start replaying it. Resolves once it is durable, not synced.
+  async queueWrite(write: OutboxWrite): Promise<string> {
+    const data = write.data && write.base !== undefined && write.operation !== 'delete'
+      ? stampRevision(write.data, write.base as { revision?: string | null } | null)
+      : write.data;
+    const entry: OutboxEntry = {
+      ...write,
+      ...(data && { data: toStorableValue(data) as Record<string, unknown> }),
+      base: write.base ? toStorableValue(write.base) as Record<string, unknown> : write.base,
+      queuedBy: this.userId || write.userId,
       id: crypto.randomUUID(),
-      timestamp: Date.now(),
-      retryCount: 0,
+      queuedAt: Date.now(),
+      attempts: 0,
     };
 
-    const pendingTransactions = this.getPendingTransactions();
-    pendingTransactions.push(pendingTransaction);
-    this.savePendingTransactions(pendingTransactions);
+    const db = await openPgbDatabase();
+    entry.seq = await requestToPromise(
+      db.transaction(PGB_STORES.OUTBOX, 'readwrite').objectStore(PGB_STORES.OUTBOX).add(entry)
+    ) as number;
+    console.log('[Background Sync] Write queued:', entry.collection, entry.operation, entry.docId);
 
-    // Try to sync immediately if online
-    if (navigator.onLine) {
-      await this.syncPendingTransactions();
+    this.registerBackgroundSync();
+    void this.notifyListeners();
+    if (this.isDraining) {
+      // Join the running drain so the write shows up locally right away
+      this.issue(entry);
     } else {
-      // Register for background sync when back online
-      this.registerBackgroundSync();
+      void this.syncPendingWrites();
     }
 
-    console.log('[Background Sync] Transaction queued:', pendingTransaction.id);
+    return write.docId;
   }
 
-  // Get pending transactions from localStorage
-  private getPendingTransactions(): PendingTransaction[] {
-    try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
-    } catch (error) {
-      console.error('[Background Sync] Error reading pending transactions:', error);
-      return [];
+  // Replay queued writes in order. Concurrent calls share one run.
+  syncPendingWrites(): Promise<void> {
+    if (!this.drainPromise) {
+      this.drainPromise = this.withLock(() => this.drain()).finally(() => {
+        this.drainPromise = null;
+        void this.notifyListeners();
+      });
     }
+    return this.drainPromise;
   }
 
-  // Save pending transactions to localStorage
-  private savePendingTransactions(transactions: PendingTransaction[]): void {
+  // Writes are issued to the SDK in queue order without waiting, so offline
+  // writes show up locally at once. Each stays queued until the server acknowledges it.
+  private async drain(): Promise<void> {
+    if (!this.firestore || !this.userId) return;
+
+    this.isDraining = true;
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(transactions));
-    } catch (error) {
-      console.error('[Background Sync] Error saving pending transactions:', error);
+      await this.drainEntries();
+    } finally {
+      this.isDraining = false;
     }
   }
 
-  // Sync all pending transactions
-  async syncPendingTransactions(): Promise<void> {
-    const pendingTransactions = this.getPendingTransactions();
-    if (pendingTransactions.length === 0) return;
+  private async drainEntries(): Promise<void> {
+    let entries = await this.getEntries();
+    while (entries.length > 0) {
+      entries.forEach(entry => this.issue(entry));
 
-    console.log(`[Background Sync] Syncing ${pendingTransactions.length} pending transactions`);
+      let shouldRetryLater = false;
+      for (const entry of entries) {
+        try {
+          await this.inFlight.get(entry.id);
+          await this.deleteEntry(entry);
+          console.log('[Background Sync] Write synced:', entry.id);
+        } catch (error) {
+          if (await this.handleFailedWrite(entry, error) === 'retry') {
+            shouldRetryLater = true;
+          }
+        } finally {
+          this.inFlight.delete(entry.id);
+        }
+        void this.notifyListeners();
+      }
 
-    const successfulSyncs: string[] = [];
-    const failedSyncs: PendingTransaction[] = [];
+      if (shouldRetryLater) {
+        this.registerBackgroundSync();
+        return;
+      }
+      entries = await this.getEntries();
+    }
+  }
+
+  // Dead-letter, merge or keep a write the server did not accept
+  private async handleFailedWrite(entry: OutboxEntry, error: unknown): Promise<'retry' | 'done'> {
+    const code = (error as { code?: string }).code || '';
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = entry.attempts + 1;
 
-    for (const transaction of pendingTransactions) {
+    if (code === 'permission-denied' && this.isCheckedUpdate(entry) && attempts < this.MAX_ATTEMPTS) {
       try {
-        await this.syncTransaction(transaction);
-        successfulSyncs.push(transaction.id);
-        console.log('[Background Sync] Transaction synced successfully:', transaction.id);
-      } catch (error) {
-        console.error('[Background Sync] Failed to sync transaction:', transaction.id, error);
-        
-        // Increment retry count
-        transaction.retryCount++;
-        
-        // Only retry if under max retries
-        if (transaction.retryCount < this.MAX_RETRIES) {
-          failedSyncs.push(transaction);
+        if (await this.handleStaleWrite({ ...entry, attempts, lastError: message })) return 'done';
+      } catch (staleError) {
+        // Could not read the server version, try again later
+        console.warn('[Background Sync] Failed to check for a conflict:', entry.id, staleError);
+        await this.putEntry({ ...entry, attempts, lastError: message });
+        return 'retry';
+      }
+    }
+
+    if (PERMANENT_ERROR_CODES.includes(code) || attempts >= this.MAX_ATTEMPTS) {
+      console.warn('[Background Sync] Write moved to dead letters:', entry.id, message);
+      await this.moveToDeadLetters({ ...entry, attempts }, message);
+      return 'done';
+    }
+
+    console.warn('[Background Sync] Write failed, will retry:', entry.id, message);
+    await this.putEntry({ ...entry, attempts, lastError: message });
+    return 'retry';
+  }
+
+  private isCheckedUpdate(entry: OutboxEntry): entry is OutboxEntry & { data: Record<string, unknown> } {
+    return entry.operation === 'update' && !!entry.data && 'baseRevision' in entry.data;
+  }
+
+  /**
+   * Handle a checked update the rules rejected. Returns false when the
+   * document had not changed, i.e. the rejection was not about staleness.
+   */
+  private async handleStaleWrite(entry: OutboxEntry & { data: Record<string, unknown> }): Promise<boolean> {
+    const isSameDoc = (other: OutboxEntry) =>
+      other.collection === entry.collection && other.docId === entry.docId && other.userId === entry.userId;
+    const changes = { ...entry.data };
+    delete changes.revision;
+    delete changes.baseRevision;
+
+    // An earlier edit to this document is already waiting for the user: add to it
+    const conflict = (await this.getConflicts()).find(isSameDoc);
+    if (conflict) {
+      const data = { ...conflict.data, ...changes };
+      await this.parkConflict(entry, {
+        ...conflict,
+        data,
+        conflicts: conflict.server
+          ? mergeRevisions(conflict.base || {}, data, conflict.server).conflicts
+          : getChangedFields(conflict.base || {}, data),
+      });
+      return true;
+    }
+
+    // Made on top of an earlier queued edit that has not landed yet
+    const pending = await this.getEntries();
+    if (pending.some(other => isSameDoc(other) && other.seq! < entry.seq! && other.data?.revision === entry.data.baseRevision)) {
+      await this.putEntry(entry);
+      return true;
+    }
+
+    const snapshot = await getDocFromServer(doc(this.firestore!, 'users', entry.userId, entry.collection, entry.docId));
+    const server = snapshot.exists() ? toStorableValue(snapshot.data()) as Record<string, unknown> : null;
+    if (server && (server.revision ?? null) === entry.data.baseRevision) return false;
+
+    const base = entry.base || {};
+    if (server) {
+      const merge = mergeRevisions(base, entry.data, server);
+      if (merge.conflicts.length === 0) {
+        if (Object.keys(merge.changes).length === 0) {
+          // The other device made the same change
+          await this.deleteEntry(entry);
         } else {
-          console.warn('[Background Sync] Max retries reached for transaction:', transaction.id);
-          // Optionally, move to a failed transactions store or notify user
+          console.log('[Background Sync] Merged concurrent edit:', entry.id);
+          await this.putEntry({
+            ...entry,
+            data: { ...merge.changes, revision: entry.data.revision, baseRevision: server.revision ?? null },
+            base: server,
+          });
         }
+        return true;
       }
     }
 
-    // Update pending transactions (remove successful, keep failed for retry)
-    this.savePendingTransactions(failedSyncs);
-
-    // Notify about sync results
-    this.notifySyncResults(successfulSyncs.length, failedSyncs.length);
-  }
-
-  // Sync individual transaction
-  private async syncTransaction(transaction: PendingTransaction): Promise<void> {
-    const response = await fetch('/api/transactions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        type: transaction.type,
-        amount: transaction.amount,
-        description: transaction.description,
-        category: transaction.category,
-        date: transaction.date,
-        userId: transaction.userId,
-      }),
+    console.warn('[Background Sync] Write conflicts with a server change:', entry.id);
+    await this.parkConflict(entry, {
+      ...entry,
+      data: changes,
+      detectedAt: Date.now(),
+      server,
+      conflicts: server ? mergeRevisions(base, changes, server).conflicts : getChangedFields(base, changes),
+    });
+    return true;
+  }
+
+  private issue(entry: OutboxEntry): void {
+    if (this.inFlight.has(entry.id)) return;
+    const promise = this.replay(entry);
+    // Handled by drain(); avoid an unhandled rejection in the meantime
+    promise.catch(() => {});
+    this.inFlight.set(entry.id, promise);
+  }
+
+  private async replay(entry: OutboxEntry): Promise<void> {
+    const firestore = this.firestore!;
+    const docRef = doc(firestore, 'users', entry.userId, entry.collection, entry.docId);
+
+    switch (entry.operation) {
+      case 'create':
+        await setDoc(docRef, entry.data || {});
+        break;
+      case 'update':
+        if (entry.upsert) {
+          await setDoc(docRef, entry.data || {}, { merge: true });
+        } else {
+          await updateDoc(docRef, entry.data || {});
+        }
+        break;
+      case 'delete':
+        await deleteDoc(docRef);
+        break;
+    }
+  }
+
+  // Serialize draining across tabs and the service worker where Web Locks exist
+  private async withLock(task: () => Promise<void>): Promise<void> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      await navigator.locks.request(this.LOCK_NAME, task);
+    } else {
+      await task();
+    }
+  }
+
+  // The signed-in user's queued writes in replay order. Other users' writes wait for them.
+  private async getEntries(): Promise<OutboxEntry[]> {
+    const db = await openPgbDatabase();
+    const entries = await requestToPromise(
+      db.transaction(PGB_STORES.OUTBOX, 'readonly').objectStore(PGB_STORES.OUTBOX).getAll()
+    ) as OutboxEntry[];
+    return entries.filter(entry => (entry.queuedBy || entry.userId) === this.userId);
+  }
+
+  private async putEntry(entry: OutboxEntry): Promise<void> {
+    const db = await openPgbDatabase();
+    await requestToPromise(db.transaction(PGB_STORES.OUTBOX, 'readwrite').objectStore(PGB_STORES.OUTBOX).put(entry));
+  }
+
+  private async deleteEntry(entry: OutboxEntry): Promise<void> {
+    const db = await openPgbDatabase();
+    await requestToPromise(db.transaction(PGB_STORES.OUTBOX, 'readwrite').objectStore(PGB_STORES.OUTBOX).delete(entry.seq!));
+  }
+
+  private async moveToDeadLetters(entry: OutboxEntry, error: string): Promise<void> {
+    const db = await openPgbDatabase();
+    const transaction = db.transaction([PGB_STORES.OUTBOX, PGB_STORES.DEAD_LETTERS], 'readwrite');
+    transaction.objectStore(PGB_STORES.OUTBOX).delete(entry.seq!);
+    const deadLetter: DeadLetterEntry = { ...entry, failedAt: Date.now(), error };
+    delete deadLetter.seq;
+    transaction.objectStore(PGB_STORES.DEAD_LETTERS).put(deadLetter);
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Swap an outbox entry for a conflict in one step
+  private async parkConflict(entry: OutboxEntry, conflict: ConflictEntry): Promise<void> {
+    const db = await openPgbDatabase();
+    const transaction = db.transaction([PGB_STORES.OUTBOX, PGB_STORES.CONFLICTS], 'readwrite');
+    transaction.objectStore(PGB_STORES.OUTBOX).delete(entry.seq!);
+    const parked = { ...conflict };
+    delete parked.seq;
+    transaction.objectStore(PGB_STORES.CONFLICTS).put(parked);
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
+  }
+
+  // Writes waiting for the user to merge them, oldest first
+  async getConflicts(): Promise<ConflictEntry[]> {
+    const db = await openPgbDatabase();
+    const entries = await requestToPromise(
+      db.transaction(PGB_STORES.CONFLICTS, 'readonly').objectStore(PGB_STORES.CONFLICTS).getAll()
+    ) as ConflictEntry[];
+    return entries.sort((a, b) => a.detectedAt - b.detectedAt);
+  }
+
+  /**
+   * Settle a conflict. `resolution` holds the fields to write over the server
+   * version (or the whole document if it was deleted there); null keeps the
+   * server version as it is.
+   */
+  async resolveConflict(id: string, resolution: Record<string, unknown> | null): Promise<void> {
+    const db = await openPgbDatabase();
+    const conflict = await requestToPromise(
+      db.transaction(PGB_STORES.CONFLICTS, 'readonly').objectStore(PGB_STORES.CONFLICTS).get(id)
+    ) as ConflictEntry | undefined;
+    if (!conflict) return;
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    await requestToPromise(db.transaction(PGB_STORES.CONFLICTS, 'readwrite').objectStore(PGB_STORES.CONFLICTS).delete(id));
+
+    if (resolution && Object.keys(resolution).length > 0) {
+      await this.queueWrite({
+        userId: conflict.userId,
+        collection: conflict.collection,
+        docId: conflict.docId,
+        operation: conflict.server ? 'update' : 'create',
+        data: resolution,
+        base: conflict.server,
+        ...(conflict.server && conflict.upsert && { upsert: true }),
+      });
+    } else {
+      void this.notifyListeners();
     }
   }
 
-  // Register for background sync
+  // Writes that failed for good, oldest first
+  async getDeadLetters(): Promise<DeadLetterEntry[]> {
+    const db = await openPgbDatabase();
+    const entries = await requestToPromise(
+      db.transaction(PGB_STORES.DEAD_LETTERS, 'readonly').objectStore(PGB_STORES.DEAD_LETTERS).getAll()
+    ) as DeadLetterEntry[];
+    return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  // Put a dead letter back at the end of the outbox
+  async retryDeadLetter(id: string): Promise<void> {
+    const db = await openPgbDatabase();
+    const transaction = db.transaction([PGB_STORES.OUTBOX, PGB_STORES.DEAD_LETTERS], 'readwrite');
+    const deadLetters = transaction.objectStore(PGB_STORES.DEAD_LETTERS);
+    const entry = await requestToPromise(deadLetters.get(id)) as DeadLetterEntry | undefined;
+    if (entry) {
+      const write: Partial<DeadLetterEntry> = { ...entry, attempts: 0, lastError: undefined };
+      delete write.failedAt;
+      delete write.error;
+      transaction.objectStore(PGB_STORES.OUTBOX).add(write);
+      deadLetters.delete(id);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    void this.notifyListeners();
+    await this.syncPendingWrites();
+  }
+
+  // Drop a dead letter without applying it
+  async discardDeadLetter(id: string): Promise<void> {
+    const db = await openPgbDatabase();
+    await requestToPromise(db.transaction(PGB_STORES.DEAD_LETTERS, 'readwrite').objectStore(PGB_STORES.DEAD_LETTERS).delete(id));
+    void this.notifyListeners();
+  }
+
+  // Get counts of pending, failed and conflicting writes
+  async getStatus(): Promise<OutboxStatus> {
+    const db = await openPgbDatabase();
+    const transaction = db.transaction([PGB_STORES.OUTBOX, PGB_STORES.DEAD_LETTERS, PGB_STORES.CONFLICTS], 'readonly');
+    const [pending, deadLetters, conflicts] = await Promise.all([
+      requestToPromise(transaction.objectStore(PGB_STORES.OUTBOX).count()),
+      requestToPromise(transaction.objectStore(PGB_STORES.DEAD_LETTERS).count()),
+      requestToPromise(transaction.objectStore(PGB_STORES.CONFLICTS).count()),
+    ]);
+    return { pending, deadLetters, conflicts };
+  }
+
+  // Subscribe to outbox changes. Returns an unsubscribe function.
+  subscribe(listener: (status: OutboxStatus) => void): () => void {
+    this.listeners.add(listener);
+    void this.notifyListeners();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notifyListeners(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    try {
+      const status = await this.getStatus();
+      this.listeners.forEach(listener => listener(status));
+    } catch (error) {
+      console.error('[Background Sync] Error reading outbox status:', error);
+    }
+  }
+
+  // Register for background sync so the service worker drains the outbox
   private registerBackgroundSync(): void {
     if ('serviceWorker' in navigator && 'sync' in window.ServiceWorkerRegistration.prototype) {
       navigator.serviceWorker.ready.then((registration) => {
         // Type assertion for background sync API
-        return (registration as any).sync.register('background-sync-transactions');
+        return (registration as any).sync.register(OUTBOX_SYNC_TAG);
       }).catch((error) => {
         console.error('[Background Sync] Failed to register background sync:', error);
       });
     }
   }
 
-  // Notify about sync results
-  private notifySyncResults(successful: number, failed: number): void {
-    if (successful > 0) {
-      // Show success notification
-      if ('Notification' in window && Notification.permission === 'granted') {
-        new Notification('Transactions Synced', {
-          body: `${successful} transaction(s) synced successfully`,
-          icon: '/icon.png',
-          tag: 'sync-success',
-        });
-      }
-    }
-
-    if (failed > 0) {
-      console.warn(`[Background Sync] ${failed} transactions failed to sync`);
-    }
-  }
+  // Save what the service worker needs to write as this user
+  private async saveSyncState(user: User): Promise<void> {
+    const firestore = this.firestore!;
+    const { projectId, apiKey } = firestore.app.options;
+    if (!projectId || !apiKey) return;
 
-  // Get count of pending transactions
-  getPendingCount(): number {
-    return this.getPendingTransactions().length;
+    const state: OutboxSyncState = {
+      id: 'current',
+      userId: user.uid,
+      projectId,
+      apiKey,
+      refreshToken: user.refreshToken,
+    };
+    const db = await openPgbDatabase();
+    await requestToPromise(db.transaction(PGB_STORES.SYNC_STATE, 'readwrite').objectStore(PGB_STORES.SYNC_STATE).put(state));
   }
 
-  // Clear all pending transactions (for testing/debugging)
-  clearPendingTransactions(): void {
-    localStorage.removeItem(this.STORAGE_KEY);
-    console.log('[Background Sync] Cleared all pending transactions');
+  // Forget the signed-in user, e.g. on sign out. Their queued writes are kept.
+  async clearSyncState(): Promise<void> {
+    this.userId = null;
+    const db = await openPgbDatabase();
+    await requestToPromise(db.transaction(PGB_STORES.SYNC_STATE, 'readwrite').objectStore(PGB_STORES.SYNC_STATE).clear());
   }
 
-  // Initialize background sync
-  init(): void {
-    // Listen for online events to sync pending transactions
-    window.addEventListener('online', () => {
-      console.log('[Background Sync] Back online, syncing pending transactions');
-      this.syncPendingTransactions();
+  // Initialize background sync for the signed-in user
+  init(firestore: Firestore, user: User): void {
+    this.firestore = firestore;
+    this.userId = user.uid;
+    this.saveSyncState(user).catch((error) => {
+      console.error('[Background Sync] Failed to save sync state:', error);
     });
 
-    // Sync on page load if online
-    if (navigator.onLine) {
-      this.syncPendingTransactions();
+    if (!this.isInitialized) {
+      this.isInitialized = true;
+
+      // Listen for online events to replay pending writes
+      window.addEventListener('online', () => {
+        console.log('[Background Sync] Back online, syncing pending writes');
+        void this.syncPendingWrites();
+      });
+
+      // The service worker drained the outbox while this tab was open
+      navigator.serviceWorker?.addEventListener('message', (event) => {
+        if (event.data?.type === OUTBOX_SYNCED_MESSAGE) {
+          void this.notifyListeners();
+        }
+      });
     }
 
+    void this.syncPendingWrites();
     console.log('[Background Sync] Initialized');
   }
 }
 
 // Export singleton instance
-export const backgroundSyncManager = BackgroundSyncManager.getInstance();
\ No newline at end of file
+export const backgroundSyncManager = BackgroundSyncManager.getInstance();
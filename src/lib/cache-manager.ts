@@ -5,6 +5,8 @@
  * Uses localStorage for small data and IndexedDB for larger datasets
  */
 
+import { openPgbDatabase } from './pgb-db';
+
 interface CacheItem<T> {
   data: T;
   timestamp: number;
@@ -19,8 +21,6 @@ interface CacheOptions {
 
 class CacheManager {
   private static instance: CacheManager;
-  private dbName = 'pgb-cache';
-  private dbVersion = 1;
   private db: IDBDatabase | null = null;
 
   static getInstance(): CacheManager {
@@ -31,36 +31,15 @@ class CacheManager {
   }
 
   constructor() {
-    this.initIndexedDB();
+    this.initIndexedDB().catch(error => {
+      console.warn('Failed to open IndexedDB cache:', error);
+    });
   }
 
   private async initIndexedDB(): Promise<void> {
     if (typeof window === 'undefined') return;
 
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.dbVersion);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Create object stores
-        if (!db.objectStoreNames.contains('transactions')) {
-          db.createObjectStore('transactions', { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains('budgets')) {
-          db.createObjectStore('budgets', { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains('userData')) {
-          db.createObjectStore('userData', { keyPath: 'id' });
-        }
-      };
-    });
+    this.db = await openPgbDatabase();
   }
 
   /**
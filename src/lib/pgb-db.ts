@@ -0,0 +1,80 @@
+/**
+ * PiggyBank IndexedDB schema
+ *
+ * One database shared by the cache manager, the write outbox and the service
+ * worker. src/sw.js opens the same database, so keep its upgrade in step.
+ */
+
+export const PGB_DB_NAME = 'pgb-cache';
+export const PGB_DB_VERSION = 3;
+
+export const PGB_STORES = {
+  TRANSACTIONS: 'transactions',
+  BUDGETS: 'budgets',
+  USER_DATA: 'userData',
+  OUTBOX: 'outbox', // Pending writes, keyed by an auto-incremented sequence
+  DEAD_LETTERS: 'deadLetters', // Writes that failed for good, kept for review
+  SYNC_STATE: 'syncState', // What the service worker needs to replay writes
+  CONFLICTS: 'conflicts', // Stale writes waiting for the user to merge them
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database, creating missing stores on upgrade
+ */
+export function openPgbDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(PGB_DB_NAME, PGB_DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab or the service worker upgrade
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+
+        [PGB_STORES.TRANSACTIONS, PGB_STORES.BUDGETS, PGB_STORES.USER_DATA, PGB_STORES.SYNC_STATE].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+        if (!db.objectStoreNames.contains(PGB_STORES.OUTBOX)) {
+          db.createObjectStore(PGB_STORES.OUTBOX, { keyPath: 'seq', autoIncrement: true });
+        }
+        [PGB_STORES.DEAD_LETTERS, PGB_STORES.CONFLICTS].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -4,8 +4,10 @@
  * Constants specific to the budget module.
  */
 
+import { DEFAULT_BASE_CURRENCY } from '../../../shared/constants';
+
 export const BUDGET_CONSTANTS = {
-  DEFAULT_CURRENCY: 'USD',
+  DEFAULT_CURRENCY: DEFAULT_BASE_CURRENCY, // Users can pick their own base currency
   MAX_CATEGORIES: 50,
   ALERT_THRESHOLD: 0.8, // 80%
   WARNING_THRESHOLD: 0.7, // 70%
@@ -128,12 +128,13 @@ export class BudgetService extends BaseService {
   }
 
   /**
-   * Calculate budget status
+   * Calculate budget status, including any amount carried in from last month
    */
-  calculateBudgetStatus(budget: Budget, spent: number): BudgetStatus {
-    const remaining = Math.max(0, budget.MonthlyBudget - spent);
-    const percentage = budget.MonthlyBudget > 0 ? (spent / budget.MonthlyBudget) * 100 : 0;
-    const isOverBudget = spent > budget.MonthlyBudget;
+  calculateBudgetStatus(budget: Budget, spent: number, carriedIn: number = 0): BudgetStatus {
+    const available = budget.MonthlyBudget + carriedIn;
+    const remaining = Math.max(0, available - spent);
+    const percentage = available > 0 ? (spent / available) * 100 : 0;
+    const isOverBudget = spent > available;
     const isNearLimit = percentage >= 70 && !isOverBudget; // 70% threshold
 
     return {
@@ -6,7 +6,7 @@
 
 // Re-export existing types for backward compatibility
 export * from '../../../shared/types';
-import { Budget } from '../../../shared/types';
+import { Budget, BudgetRolloverMode, BudgetSnapshot } from '../../../shared/types';
 
 export interface BudgetStatus {
   spent: number;
@@ -25,8 +25,9 @@ export interface BudgetAnalytics {
   }>;
   categoryBreakdown: Array<{
     category: string;
+    parent: string | null;
     budgeted: number;
-    spent: number;
+    spent: number; // Includes spending in child categories
     percentage: number;
     status: 'under' | 'near' | 'over';
   }>;
@@ -34,10 +35,26 @@ export interface BudgetAnalytics {
   savingsRate: number;
 }
 
+// Top-level budget totals for one month of snapshots
+export interface BudgetMonthSummary {
+  month: string;
+  budgeted: number;
+  carriedIn: number;
+  available: number; // budgeted plus carriedIn
+  spent: number;
+  carriedOut: number;
+}
+
+export interface BudgetSnapshotHistory {
+  past: Array<Pick<BudgetSnapshot, 'month' | 'entries'>>; // Oldest first
+  current: Pick<BudgetSnapshot, 'month' | 'entries'>; // This month so far
+}
+
 export interface CreateBudgetDto {
   Category: string;
   MonthlyBudget: number;
   type?: 'expense' | 'income';
+  rollover?: BudgetRolloverMode;
 }
 
 export interface UpdateBudgetDto extends Partial<CreateBudgetDto> {
@@ -4,8 +4,19 @@
  * Utility functions specific to budget operations.
  */
 
-import { Budget } from '../../../shared/types';
-import { BudgetStatus, BudgetAnalytics } from '../types/budget.types';
+import { format } from 'date-fns';
+import {
+  Budget,
+  BudgetRolloverMode,
+  BudgetSnapshot,
+  BudgetSnapshotEntry,
+  CategoryParents,
+  Transaction,
+} from '../../../shared/types';
+import { expandSplits } from '../../../shared/utils/splits';
+import { getTopLevelBudgets, rollUpAmounts } from '../../../shared/utils/categories';
+import { toRecurrenceDate } from '../../../shared/utils/recurrence';
+import { BudgetStatus, BudgetAnalytics, BudgetMonthSummary, BudgetSnapshotHistory } from '../types/budget.types';
 import { BUDGET_CONSTANTS, BUDGET_STATUS_TYPES } from '../constants/budget.constants';
 
 export const BudgetUtils = {
@@ -26,12 +37,28 @@ export const BudgetUtils = {
   },
 
   /**
-   * Calculate budget status
+   * Expenses per category, counting each split towards its own category.
+   * With categoryParents, child spending also counts towards each parent.
+   * Pass the result's amounts to calculateBudgetStatus.
    */
-  calculateBudgetStatus: (budget: Budget, spent: number): BudgetStatus => {
-    const remaining = Math.max(0, budget.MonthlyBudget - spent);
-    const percentage = budget.MonthlyBudget > 0 ? (spent / budget.MonthlyBudget) * 100 : 0;
-    const isOverBudget = spent > budget.MonthlyBudget;
+  calculateSpentByCategory: (transactions: Transaction[], categoryParents: CategoryParents = {}): Record<string, number> => {
+    const spent = expandSplits(transactions.filter(t => t.Type === 'expense'))
+      .reduce((spent, t) => {
+        spent[t.Category] = (spent[t.Category] || 0) + t.Amount;
+        return spent;
+      }, {} as Record<string, number>);
+    return rollUpAmounts(spent, categoryParents);
+  },
+
+  /**
+   * Calculate budget status. carriedIn, rolled over from last month, adds
+   * to or takes from what the budget has this month.
+   */
+  calculateBudgetStatus: (budget: Budget, spent: number, carriedIn: number = 0): BudgetStatus => {
+    const available = budget.MonthlyBudget + carriedIn;
+    const remaining = Math.max(0, available - spent);
+    const percentage = available > 0 ? (spent / available) * 100 : 0;
+    const isOverBudget = spent > available;
     const isNearLimit = percentage >= (BUDGET_CONSTANTS.WARNING_THRESHOLD * 100) && !isOverBudget;
 
     return {
@@ -175,21 +202,30 @@ export const BudgetUtils = {
   },
 
   /**
-   * Generate budget analytics
+   * Generate budget analytics. Statuses should come from
+   * calculateSpentByCategory with the same categoryParents, so parents
+   * include their children's spending; totals then count each amount once.
+   * The monthly trend comes from the stored budget snapshots.
    */
   generateBudgetAnalytics: (
     budgets: Budget[],
     budgetStatuses: Record<string, BudgetStatus>,
-    historicalData?: any[]
+    snapshots: Array<Pick<BudgetSnapshot, 'month' | 'entries'>> = [],
+    categoryParents: CategoryParents = {}
   ): BudgetAnalytics => {
-    // Monthly trend (placeholder - would need historical data)
-    const monthlyTrend = historicalData || [];
+    const monthlyTrend = [...snapshots]
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map(snapshot => {
+        const { available, spent } = BudgetUtils.summarizeSnapshot(snapshot, categoryParents);
+        return { month: snapshot.month, budgeted: available, spent, remaining: available - spent };
+      });
 
     // Category breakdown
     const categoryBreakdown = budgets.map(budget => {
       const status = budgetStatuses[budget.Category];
       return {
         category: budget.Category,
+        parent: categoryParents[budget.Category] || null,
         budgeted: budget.MonthlyBudget,
         spent: status?.spent || 0,
         percentage: status?.percentage || 0,
@@ -197,13 +233,21 @@ export const BudgetUtils = {
       };
     });
 
+    // Child budgets sit inside their parent's, so totals use the outermost ones
+    const topLevelBudgets = getTopLevelBudgets(budgets, categoryParents);
+    const topLevelStatuses = Object.fromEntries(
+      topLevelBudgets
+        .filter(budget => budgetStatuses[budget.Category])
+        .map(budget => [budget.Category, budgetStatuses[budget.Category]])
+    );
+
     // Projected spending (simple calculation based on current utilization)
-    const totalBudgeted = BudgetUtils.calculateTotalBudget(budgets);
-    const averageUtilization = BudgetUtils.calculateAverageUtilization(budgetStatuses);
+    const totalBudgeted = BudgetUtils.calculateTotalBudget(topLevelBudgets);
+    const averageUtilization = BudgetUtils.calculateAverageUtilization(topLevelStatuses);
     const projectedSpending = (totalBudgeted * averageUtilization) / 100;
 
     // Savings rate (placeholder calculation)
-    const totalSpent = BudgetUtils.calculateTotalSpent(budgetStatuses);
+    const totalSpent = BudgetUtils.calculateTotalSpent(topLevelStatuses);
     const savingsRate = totalBudgeted > 0 ? ((totalBudgeted - totalSpent) / totalBudgeted) * 100 : 0;
 
     return {
@@ -252,7 +296,8 @@ export const BudgetUtils = {
   },
 
   /**
-   * Calculate daily spending allowance
+   * Calculate daily spending allowance. Pass a status calculated with the
+   * month's carriedIn so rolled over money is spread over the days left.
    */
   calculateDailyAllowance: (budget: Budget, budgetStatus: BudgetStatus): number => {
     const daysRemaining = BudgetUtils.getDaysRemainingInMonth();
@@ -260,4 +305,130 @@ export const BudgetUtils = {
     
     return budgetStatus.remaining / daysRemaining;
   },
+
+  /**
+   * Key of the month a date falls in, e.g. "2025-03". Snapshots are stored under it.
+   */
+  getMonthKey: (date: Date): string => format(date, 'yyyy-MM'),
+
+  /**
+   * Amount a budget passes on to next month, rounded to cents
+   */
+  calculateCarryOver: (available: number, spent: number, mode: BudgetRolloverMode = 'none'): number => {
+    const left = Math.round((available - spent) * 100) / 100;
+    if (mode === 'both') return left;
+    if (mode === 'surplus') return Math.max(0, left);
+    return 0;
+  },
+
+  /**
+   * What a category carries into the month after the given snapshot
+   */
+  getCarriedIn: (category: string, previous?: Pick<BudgetSnapshot, 'entries'> | null): number => {
+    return previous?.entries.find(entry => entry.Category === category)?.carriedOut || 0;
+  },
+
+  /**
+   * Expense budgets as they go into a snapshot. Income budgets don't roll over.
+   */
+  toSnapshotBudgets: (budgets: Budget[]): Array<Pick<BudgetSnapshotEntry, 'Category' | 'budgeted' | 'rollover'>> => {
+    return budgets
+      .filter(budget => (budget.type || 'expense') === 'expense')
+      .map(budget => ({
+        Category: budget.Category,
+        budgeted: budget.MonthlyBudget || 0,
+        rollover: budget.rollover || 'none',
+      }));
+  },
+
+  /**
+   * A month's snapshot from its budgets and spending, with each budget's
+   * carry-in taken from the previous month's snapshot
+   */
+  buildBudgetSnapshot: (
+    month: string,
+    budgets: Array<Pick<BudgetSnapshotEntry, 'Category' | 'budgeted' | 'rollover'>>,
+    spentByCategory: Record<string, number>,
+    previous?: Pick<BudgetSnapshot, 'entries'> | null
+  ): Pick<BudgetSnapshot, 'month' | 'entries'> => ({
+    month,
+    entries: budgets.map(({ Category, budgeted, rollover }) => {
+      const carriedIn = BudgetUtils.getCarriedIn(Category, previous);
+      const spent = Math.round((spentByCategory[Category] || 0) * 100) / 100;
+      return {
+        Category,
+        budgeted,
+        rollover,
+        carriedIn,
+        spent,
+        carriedOut: BudgetUtils.calculateCarryOver(budgeted + carriedIn, spent, rollover),
+      };
+    }),
+  }),
+
+  /**
+   * Snapshots for every month from the oldest stored one, or from last month
+   * when none are stored yet, up to the current month. Past months keep the
+   * amounts budgeted at the time while their spending is worked out again,
+   * so editing an old transaction flows through to later carry-overs.
+   * Months that were never stored use today's budgets.
+   */
+  buildSnapshotHistory: (
+    stored: Array<Pick<BudgetSnapshot, 'month' | 'entries'>>,
+    budgets: Budget[],
+    transactions: Transaction[],
+    categoryParents: CategoryParents = {},
+    now: Date = new Date()
+  ): BudgetSnapshotHistory => {
+    const currentMonth = BudgetUtils.getMonthKey(now);
+    const lastMonth = BudgetUtils.getMonthKey(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+    const storedByMonth = new Map(stored.map(snapshot => [snapshot.month, snapshot]));
+    const firstMonth = stored.map(snapshot => snapshot.month).filter(month => month < currentMonth).sort()[0]
+      || (budgets.length > 0 ? lastMonth : currentMonth);
+
+    const transactionsByMonth = new Map<string, Transaction[]>();
+    transactions.forEach(transaction => {
+      const month = BudgetUtils.getMonthKey(toRecurrenceDate(transaction.Date));
+      transactionsByMonth.set(month, [...(transactionsByMonth.get(month) || []), transaction]);
+    });
+
+    const snapshots: Array<Pick<BudgetSnapshot, 'month' | 'entries'>> = [];
+    const [firstYear, firstMonthIndex] = firstMonth.split('-').map(Number);
+    for (let date = new Date(firstYear, firstMonthIndex - 1, 1); BudgetUtils.getMonthKey(date) <= currentMonth; date.setMonth(date.getMonth() + 1)) {
+      const month = BudgetUtils.getMonthKey(date);
+      const storedEntries = month < currentMonth ? storedByMonth.get(month)?.entries : undefined;
+      snapshots.push(BudgetUtils.buildBudgetSnapshot(
+        month,
+        storedEntries || BudgetUtils.toSnapshotBudgets(budgets),
+        BudgetUtils.calculateSpentByCategory(transactionsByMonth.get(month) || [], categoryParents),
+        snapshots[snapshots.length - 1]
+      ));
+    }
+
+    return {
+      past: snapshots.slice(0, -1),
+      current: snapshots[snapshots.length - 1],
+    };
+  },
+
+  /**
+   * Totals for a snapshot's top-level budgets, so child budgets inside a
+   * parent's aren't counted twice
+   */
+  summarizeSnapshot: (
+    snapshot: Pick<BudgetSnapshot, 'month' | 'entries'>,
+    categoryParents: CategoryParents = {}
+  ): BudgetMonthSummary => {
+    const entries = getTopLevelBudgets(snapshot.entries, categoryParents);
+    const sum = (value: (entry: BudgetSnapshotEntry) => number) =>
+      entries.reduce((total, entry) => total + value(entry), 0);
+    return {
+      month: snapshot.month,
+      budgeted: sum(entry => entry.budgeted),
+      carriedIn: sum(entry => entry.carriedIn),
+      available: sum(entry => entry.budgeted + entry.carriedIn),
+      spent: sum(entry => entry.spent),
+      carriedOut: sum(entry => entry.carriedOut),
+    };
+  },
 };
\ No newline at end of file
@@ -0,0 +1,33 @@
+/**
+ * Report Constants
+ * 
+ * Constants specific to the reports module.
+ */
+
+export const EXPORT_MIME_TYPES = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const;
+
+export const EXPORT_SHEET_NAMES = {
+  TRANSACTIONS: 'Transactions',
+  RECURRING: 'Recurring',
+} as const;
+
+export const RECURRING_EXPORT_COLUMNS = [
+  'Description', 'Amount', 'Type', 'Category', 'Currency', 'Account ID',
+  'Frequency', 'Interval', 'Next Due', 'End Date', 'Max Occurrences', 'Active', 'ID',
+] as const;
+
+export const EXPORT_ERRORS = {
+  NOTHING_TO_EXPORT: 'No transactions match these export options',
+} as const;
+
+export const REPORT_BUILDER_LABELS = {
+  NO_ACCOUNT: 'No account',
+  UNTAGGED: 'Untagged',
+} as const;
+
+// Weekday groups run Monday to Sunday, as Date.getDay() numbers
+export const REPORT_WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0] as const;
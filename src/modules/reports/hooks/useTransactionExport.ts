@@ -0,0 +1,75 @@
+/**
+ * useTransactionExport Hook
+ *
+ * Custom hook for downloading transaction exports.
+ */
+
+import { useState, useCallback } from 'react';
+import { ExportService } from '../services/ExportService';
+import { ExportUtils } from '../utils/export.utils';
+import { TRANSACTION_SUCCESS_MESSAGES, TransactionExportOptions } from '../../transactions';
+import { useToast } from '../../../shared/hooks';
+
+interface UseTransactionExportOptions {
+  exportService: ExportService;
+  userId?: string;
+}
+
+interface TransactionExportState {
+  isExporting: boolean;
+  error: string | null;
+}
+
+export function useTransactionExport(options: UseTransactionExportOptions) {
+  const { exportService, userId } = options;
+  const { toast } = useToast();
+
+  const [state, setState] = useState<TransactionExportState>({
+    isExporting: false,
+    error: null,
+  });
+
+  const handleError = useCallback((error: unknown, fallback: string) => {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    setState({ isExporting: false, error: errorMessage });
+
+    toast({
+      title: "Error",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Build the export and download it
+  const exportTransactions = useCallback(async (exportOptions: TransactionExportOptions) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    setState({ isExporting: true, error: null });
+
+    try {
+      const file = await exportService.exportTransactions(userId, exportOptions);
+      ExportUtils.downloadFile(file);
+      setState({ isExporting: false, error: null });
+
+      toast({
+        title: "Success",
+        description: `${TRANSACTION_SUCCESS_MESSAGES.EXPORTED} (${file.rowCount} rows)`,
+      });
+
+      return file;
+    } catch (error) {
+      handleError(error, 'Failed to export transactions');
+      throw error;
+    }
+  }, [userId, exportService, toast, handleError]);
+
+  return {
+    // State
+    ...state,
+
+    // Actions
+    exportTransactions,
+  };
+}
@@ -5,6 +5,15 @@
  * Handles financial reports, data visualization, and export capabilities.
  */
 
+// Core exports
+export * from './services/ExportService';
+export * from './hooks/useTransactionExport';
+export * from './types/report.types';
+export * from './constants/report.constants';
+export * from './utils/export.utils';
+export * from './utils/report-builder.utils';
+export * from './utils/trend.utils';
+
 // Module interface
 export const ReportsModule = {
   name: 'Reports',
@@ -16,8 +25,9 @@ export const ReportsModule = {
     financialReports: true,
     dataVisualization: true,
     exportReports: true,
-    scheduledReports: false, // Future feature
-    customReports: false, // Future feature
+    scheduledReports: true, // Weekly and monthly digests, built by Cloud Functions
+    customReports: true, // Saved report definitions, see ReportBuilderUtils
+    trendAnalysis: true, // Period comparisons and pace, see TrendUtils
   },
   
   // Module configuration
@@ -27,6 +37,6 @@ export const ReportsModule = {
       '#3B82F6', '#EF4444', '#10B981', '#F59E0B',
       '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16'
     ],
-    exportFormats: ['pdf', 'csv', 'xlsx'],
+    exportFormats: ['csv', 'json', 'xlsx'],
   },
 } as const;
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * Export Service
+ *
+ * Builds transaction exports from Firestore data.
+ * Single responsibility: Transaction export generation.
+ */
+
+import { Firestore } from 'firebase/firestore';
+import { BaseService } from '../../services';
+import { RecurringTransactionService, TransactionExportOptions, TransactionService } from '../../transactions';
+import { ExportFile } from '../types/report.types';
+import { ExportUtils } from '../utils/export.utils';
+import { EXPORT_ERRORS } from '../constants/report.constants';
+
+export class ExportService extends BaseService {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    super();
+    this.firestore = firestore;
+  }
+
+  /**
+   * Export a user's transactions in the requested format.
+   * Filters run client-side so no composite index is needed.
+   */
+  async exportTransactions(userId: string, options: TransactionExportOptions): Promise<ExportFile> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const includeRecurring = !!options.includeRecurring && options.format !== 'csv';
+    const [allTransactions, recurringTransactions] = await Promise.all([
+      new TransactionService(this.firestore).getTransactions(userId),
+      includeRecurring
+        ? new RecurringTransactionService(this.firestore).getRecurringTransactions(userId)
+        : Promise.resolve([]),
+    ]);
+
+    const transactions = ExportUtils.selectTransactions(allTransactions, options);
+    if (transactions.length === 0 && recurringTransactions.length === 0) {
+      throw new Error(EXPORT_ERRORS.NOTHING_TO_EXPORT);
+    }
+
+    return ExportUtils.buildExportFile(transactions, options, recurringTransactions);
+  }
+}
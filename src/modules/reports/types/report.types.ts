@@ -0,0 +1,69 @@
+/**
+ * Report Types
+ * 
+ * Type definitions for reports module.
+ */
+
+import { TransactionExportOptions } from '../../transactions';
+
+export type ExportFormat = TransactionExportOptions['format'];
+
+// A generated file, ready to download
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  blob: Blob;
+  rowCount: number;
+}
+
+// One worksheet of an XLSX export. The first row is the header.
+export interface ExportSheet {
+  name: string;
+  rows: Array<Array<string | number | null>>;
+}
+
+// One group of a custom report, e.g. "Mon" when grouping by weekday
+export interface ReportRow {
+  key: string;
+  label: string;
+  value: number; // The chosen metric
+  count: number; // Transactions (or split parts) in the group
+}
+
+export interface ReportResult {
+  rows: ReportRow[];
+  dateRange: { start: Date; end: Date } | null; // null for all time
+  transactionCount: number;
+}
+
+// A category's spending this month against earlier months, over the same days
+export interface CategoryTrendRow {
+  category: string;
+  current: number;
+  lastMonth: number;
+  lastYear: number; // The same month a year ago
+  changeVsLastMonth: number | null; // Percent, null when nothing to compare
+  changeVsLastYear: number | null;
+}
+
+export interface PeriodComparison {
+  current: { start: Date; end: Date };
+  lastMonth: { start: Date; end: Date };
+  lastYear: { start: Date; end: Date };
+  totals: Omit<CategoryTrendRow, 'category'>;
+  categories: CategoryTrendRow[]; // Largest this month first
+}
+
+export interface CumulativeSpendingPoint {
+  day: number; // Day of the month
+  actual: number | null; // null for days still to come
+  pace: number; // Budget spread evenly over the month
+}
+
+export interface MonthlyTrendPoint {
+  month: string; // yyyy-MM
+  label: string; // e.g. "Oct 25"
+  income: number;
+  expenses: number;
+  net: number;
+}
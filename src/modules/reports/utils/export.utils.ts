@@ -0,0 +1,323 @@
+/**
+ * Export Utilities
+ *
+ * Builds CSV, JSON and XLSX transaction exports on the client.
+ * CSV and JSON exports are read back by ImportUtils without loss.
+ */
+
+import { format } from 'date-fns';
+import { Transaction, RecurringTransaction } from '../../../shared/types';
+import { toRecurrenceDate } from '../../../shared/utils/recurrence';
+import { formatSplits, hasSplits } from '../../../shared/utils/splits';
+import { formatTags } from '../../../shared/utils/tags';
+import {
+  EXPORT_CONSTANTS,
+  ExportedRecurringTransaction,
+  ExportedTransaction,
+  TransactionExportFile,
+  TransactionExportOptions,
+  TransactionUtils,
+} from '../../transactions';
+import { ExportFile, ExportSheet } from '../types/report.types';
+import { EXPORT_MIME_TYPES, EXPORT_SHEET_NAMES, RECURRING_EXPORT_COLUMNS } from '../constants/report.constants';
+
+const toIsoString = (value: unknown): string | null =>
+  value ? toRecurrenceDate(value).toISOString() : null;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// Quoted per RFC 4180, so notes keep their line breaks
+const escapeCsv = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Spreadsheet column name for a zero-based index, e.g. 27 is "AB"
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * Uncompressed ZIP archive, which is all an XLSX file needs
+ */
+const createZip = (files: Array<{ name: string; content: string }>): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034B50, true);
+    localView.setUint16(4, 20, true); // Version needed
+    localView.setUint16(8, 0, true); // Stored, no compression
+    localView.setUint16(12, 33, true); // 1980-01-01
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014B50, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed
+    centralView.setUint16(14, 33, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054B50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const sheetXml = (sheet: ExportSheet): string => {
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+      if (value === null || value === '') return '';
+      if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+};
+
+export const ExportUtils = {
+  /**
+   * Transactions matching the export's date range and categories, oldest first
+   */
+  selectTransactions: (transactions: Transaction[], options: TransactionExportOptions): Transaction[] => {
+    return TransactionUtils.filterTransactions(transactions, {
+      dateRange: options.dateRange,
+      categories: options.categories,
+    }).sort((a, b) =>
+      TransactionUtils.parseDate(a.Date).getTime() - TransactionUtils.parseDate(b.Date).getTime()
+    );
+  },
+
+  /**
+   * Stored fields of a transaction with an ISO date
+   */
+  serializeTransaction: (transaction: Transaction): ExportedTransaction => ({
+    ...transaction,
+    Date: transaction.Date ? TransactionUtils.parseDate(transaction.Date).toISOString() : null,
+  }),
+
+  /**
+   * Stored fields of a recurring transaction with ISO dates
+   */
+  serializeRecurring: (recurring: RecurringTransaction): ExportedRecurringTransaction => ({
+    ...recurring,
+    nextDueDate: toIsoString(recurring.nextDueDate),
+    createdAt: toIsoString(recurring.createdAt),
+    endDate: toIsoString(recurring.endDate),
+    lastProcessed: toIsoString(recurring.lastProcessed),
+    lastSkipped: toIsoString(recurring.lastSkipped),
+  }),
+
+  /**
+   * Rows in EXPORT_CONSTANTS.CSV_COLUMNS order, header first
+   */
+  toTransactionRows: (transactions: Transaction[]): ExportSheet['rows'] => [
+    [...EXPORT_CONSTANTS.CSV_COLUMNS],
+    ...transactions.map(transaction => [
+      transaction.Date ? TransactionUtils.parseDate(transaction.Date).toISOString() : null,
+      transaction.Notes || '',
+      transaction.Amount,
+      transaction.Type,
+      transaction.Category,
+      transaction.currency || null,
+      transaction.accountId || null,
+      transaction.toAccountId || null,
+      hasSplits(transaction) ? formatSplits(transaction.splits) : null,
+      transaction.tags?.length ? formatTags(transaction.tags) : null,
+      transaction.id,
+    ]),
+  ],
+
+  /**
+   * Rows in RECURRING_EXPORT_COLUMNS order, header first
+   */
+  toRecurringRows: (recurringTransactions: RecurringTransaction[]): ExportSheet['rows'] => [
+    [...RECURRING_EXPORT_COLUMNS],
+    ...recurringTransactions.map(recurring => [
+      recurring.Notes || '',
+      recurring.Amount,
+      recurring.Type,
+      recurring.Category,
+      recurring.currency || null,
+      recurring.accountId || null,
+      recurring.frequency,
+      recurring.interval || 1,
+      toIsoString(recurring.nextDueDate),
+      toIsoString(recurring.endDate),
+      recurring.maxOccurrences || null,
+      recurring.isActive ? 'Yes' : 'No',
+      recurring.id,
+    ]),
+  ],
+
+  toCsv: (rows: ExportSheet['rows']): string =>
+    rows.map(row => row.map(escapeCsv).join(',')).join('\r\n'),
+
+  toJson: (transactions: Transaction[], recurringTransactions?: RecurringTransaction[]): string => {
+    const file: TransactionExportFile = {
+      version: EXPORT_CONSTANTS.JSON_VERSION,
+      exportedAt: new Date().toISOString(),
+      transactions: transactions.map(ExportUtils.serializeTransaction),
+      ...(recurringTransactions && {
+        recurringTransactions: recurringTransactions.map(ExportUtils.serializeRecurring),
+      }),
+    };
+    return JSON.stringify(file, null, 2);
+  },
+
+  /**
+   * Minimal XLSX workbook with one worksheet per sheet
+   */
+  toXlsx: (sheets: ExportSheet[]): Uint8Array<ArrayBuffer> => {
+    const sheetEntries = sheets.map((sheet, index) => ({ ...sheet, id: index + 1 }));
+
+    return createZip([
+      {
+        name: '[Content_Types].xml',
+        content: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheetEntries.map(sheet => `<Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`,
+      },
+      {
+        name: '_rels/.rels',
+        content: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+      },
+      {
+        name: 'xl/workbook.xml',
+        content: `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheetEntries.map(sheet => `<sheet name="${escapeXml(sheet.name)}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`).join('')}</sheets></workbook>`,
+      },
+      {
+        name: 'xl/_rels/workbook.xml.rels',
+        content: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetEntries.map(sheet => `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet.id}.xml"/>`).join('')}</Relationships>`,
+      },
+      ...sheetEntries.map(sheet => ({
+        name: `xl/worksheets/sheet${sheet.id}.xml`,
+        content: sheetXml(sheet),
+      })),
+    ]);
+  },
+
+  /**
+   * Build the export file. Recurring transactions are left out of CSV
+   * exports, which the importer would read as one-off transactions.
+   */
+  buildExportFile: (
+    transactions: Transaction[],
+    options: TransactionExportOptions,
+    recurringTransactions: RecurringTransaction[] = []
+  ): ExportFile => {
+    const includeRecurring = !!options.includeRecurring && options.format !== 'csv';
+    const fileName = `transactions-${format(new Date(), 'yyyy-MM-dd')}.${options.format}`;
+    const mimeType = EXPORT_MIME_TYPES[options.format];
+
+    let content: BlobPart;
+    switch (options.format) {
+      case 'json':
+        content = ExportUtils.toJson(transactions, includeRecurring ? recurringTransactions : undefined);
+        break;
+      case 'xlsx':
+        content = ExportUtils.toXlsx([
+          { name: EXPORT_SHEET_NAMES.TRANSACTIONS, rows: ExportUtils.toTransactionRows(transactions) },
+          ...(includeRecurring
+            ? [{ name: EXPORT_SHEET_NAMES.RECURRING, rows: ExportUtils.toRecurringRows(recurringTransactions) }]
+            : []),
+        ]);
+        break;
+      default:
+        // Byte order mark so Excel reads UTF-8 notes correctly
+        content = `\uFEFF${ExportUtils.toCsv(ExportUtils.toTransactionRows(transactions))}`;
+    }
+
+    return {
+      fileName,
+      mimeType,
+      blob: new Blob([content], { type: mimeType }),
+      rowCount: transactions.length,
+    };
+  },
+
+  /**
+   * Save the file through a temporary download link
+   */
+  downloadFile: (file: ExportFile): void => {
+    const url = URL.createObjectURL(file.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  },
+};
@@ -0,0 +1,185 @@
+/**
+ * Report Builder Utilities
+ *
+ * Runs saved custom reports against the transactions already loaded.
+ * Amounts should be in the base currency.
+ */
+
+import {
+  endOfDay,
+  endOfMonth,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfYear,
+  subDays,
+  subMonths,
+} from 'date-fns';
+import { Account, ReportDefinition, ReportMetric, Transaction } from '../../../shared/types';
+import { toRecurrenceDate } from '../../../shared/utils/recurrence';
+import { expandSplits } from '../../../shared/utils/splits';
+import { TransactionFilters, TransactionUtils } from '../../transactions';
+import { ReportResult, ReportRow } from '../types/report.types';
+import { REPORT_BUILDER_LABELS, REPORT_WEEKDAY_ORDER } from '../constants/report.constants';
+
+type ReportSettings = Pick<ReportDefinition, 'metric' | 'groupBy' | 'period' | 'customRange' | 'filters'>;
+
+interface Group {
+  label: string;
+  amounts: number[];
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const measure = (amounts: number[], metric: ReportMetric): number => {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  switch (metric) {
+    case 'sum':
+      return total;
+    case 'count':
+      return amounts.length;
+    case 'average':
+      return amounts.length ? total / amounts.length : 0;
+    case 'median':
+      return median(amounts);
+  }
+};
+
+export const ReportBuilderUtils = {
+  /**
+   * The dates a report covers when run now, or null for all time
+   */
+  getDateRange: (report: Pick<ReportSettings, 'period' | 'customRange'>, now: Date = new Date()): { start: Date; end: Date } | null => {
+    switch (report.period) {
+      case 'last7':
+        return { start: startOfDay(subDays(now, 6)), end: endOfDay(now) };
+      case 'last30':
+        return { start: startOfDay(subDays(now, 29)), end: endOfDay(now) };
+      case 'thisMonth':
+        return { start: startOfMonth(now), end: endOfMonth(now) };
+      case 'lastMonth': {
+        const lastMonth = subMonths(now, 1);
+        return { start: startOfMonth(lastMonth), end: endOfMonth(lastMonth) };
+      }
+      case 'thisYear':
+        return { start: startOfYear(now), end: endOfDay(now) };
+      case 'all':
+        return null;
+      case 'custom':
+        return report.customRange
+          ? { start: startOfDay(toRecurrenceDate(report.customRange.start)), end: endOfDay(toRecurrenceDate(report.customRange.end)) }
+          : null;
+    }
+  },
+
+  /**
+   * The report's filters as TransactionFilters, with its period's dates
+   */
+  getFilters: (report: ReportSettings, now: Date = new Date()): TransactionFilters => {
+    const dateRange = ReportBuilderUtils.getDateRange(report, now);
+    return {
+      ...report.filters,
+      ...(dateRange && { dateRange }),
+    };
+  },
+
+  /**
+   * What's wrong with a report, or null if it can be saved
+   */
+  validate: (report: ReportSettings & Pick<ReportDefinition, 'name'>): string | null => {
+    if (!report.name.trim()) {
+      return 'Give the report a name';
+    }
+    if (report.period === 'custom') {
+      if (!report.customRange) {
+        return 'Pick the dates to report on';
+      }
+      if (toRecurrenceDate(report.customRange.start) > toRecurrenceDate(report.customRange.end)) {
+        return 'The start date must be before the end date';
+      }
+    }
+    const range = report.filters.amountRange;
+    if (range && range.min > range.max) {
+      return 'The minimum amount must be less than the maximum';
+    }
+    return null;
+  },
+
+  /**
+   * Run a report. Split transactions count each part towards its own
+   * category, and only parts in the chosen categories are counted.
+   */
+  run: (report: ReportSettings, transactions: Transaction[], accounts: Account[] = [], now: Date = new Date()): ReportResult => {
+    const filters = ReportBuilderUtils.getFilters(report, now);
+    const types = filters.types?.length ? filters.types : null;
+    const matching = TransactionUtils.filterTransactions(transactions, filters)
+      .filter(t => (types ? types.includes(t.Type) : t.Type !== 'transfer'));
+    const parts = expandSplits(matching)
+      .filter(t => !filters.categories?.length || filters.categories.includes(t.Category));
+
+    const groups = new Map<string, Group>();
+    const add = (key: string, label: string, amount: number) => {
+      const group = groups.get(key) || { label, amounts: [] };
+      group.amounts.push(amount);
+      groups.set(key, group);
+    };
+    const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+
+    // Every weekday is shown, so the chart reads Monday to Sunday
+    if (report.groupBy === 'weekday') {
+      REPORT_WEEKDAY_ORDER.forEach(day => {
+        groups.set(String(day), { label: format(new Date(2024, 0, day === 0 ? 7 : day), 'EEE'), amounts: [] });
+      });
+    }
+
+    parts.forEach(t => {
+      const date = TransactionUtils.parseDate(t.Date);
+      switch (report.groupBy) {
+        case 'category':
+          add(t.Category, t.Category, t.Amount);
+          break;
+        case 'tag':
+          // Counted once under each of its tags
+          if (!t.tags?.length) {
+            add('', REPORT_BUILDER_LABELS.UNTAGGED, t.Amount);
+          }
+          (t.tags || []).forEach(tag => add(tag.toLowerCase(), groups.get(tag.toLowerCase())?.label || tag, t.Amount));
+          break;
+        case 'weekday':
+          add(String(date.getDay()), '', t.Amount);
+          break;
+        case 'month':
+          add(format(date, 'yyyy-MM'), format(date, 'MMM yyyy'), t.Amount);
+          break;
+        case 'account':
+          add(t.accountId || '', (t.accountId && accountNames.get(t.accountId)) || REPORT_BUILDER_LABELS.NO_ACCOUNT, t.Amount);
+          break;
+      }
+    });
+
+    const rows: ReportRow[] = Array.from(groups.entries()).map(([key, group]) => ({
+      key,
+      label: group.label,
+      value: measure(group.amounts, report.metric),
+      count: group.amounts.length,
+    }));
+
+    // Time groups stay in order, the others go largest first
+    if (report.groupBy === 'month') {
+      rows.sort((a, b) => a.key.localeCompare(b.key));
+    } else if (report.groupBy !== 'weekday') {
+      rows.sort((a, b) => b.value - a.value);
+    }
+
+    return {
+      rows,
+      dateRange: filters.dateRange || null,
+      transactionCount: matching.length,
+    };
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * Trend Utilities
+ *
+ * Period-over-period comparisons and trend lines for the trends view,
+ * built on TransactionUtils.generateAnalytics. Amounts should be in the
+ * base currency.
+ */
+
+import {
+  endOfDay,
+  format,
+  getDaysInMonth,
+  setDate,
+  startOfMonth,
+  subMonths,
+  subYears,
+} from 'date-fns';
+import { Transaction } from '../../../shared/types';
+import { TransactionUtils } from '../../transactions';
+import {
+  CategoryTrendRow,
+  CumulativeSpendingPoint,
+  MonthlyTrendPoint,
+  PeriodComparison,
+} from '../types/report.types';
+
+// From the 1st of the month to the same day as now, or the month's last day
+const getMonthToDate = (monthStart: Date, now: Date) => ({
+  start: monthStart,
+  end: endOfDay(setDate(monthStart, Math.min(now.getDate(), getDaysInMonth(monthStart)))),
+});
+
+const getExpensesByCategory = (transactions: Transaction[], range: { start: Date; end: Date }): Map<string, number> => {
+  const expenses = TransactionUtils.filterTransactions(transactions, { dateRange: range, types: ['expense'] });
+  return new Map(
+    TransactionUtils.generateAnalytics(expenses).categoryBreakdown.map(entry => [entry.category, entry.amount])
+  );
+};
+
+const sumValues = (amounts: Map<string, number>): number =>
+  Array.from(amounts.values()).reduce((sum, amount) => sum + amount, 0);
+
+export const TrendUtils = {
+  /**
+   * Percent change from previous to current, or null when previous is zero
+   */
+  getPercentChange: (current: number, previous: number): number | null =>
+    previous > 0 ? ((current - previous) / previous) * 100 : null,
+
+  /**
+   * Spending this month so far against the same days of last month and of
+   * the same month last year, in total and per category
+   */
+  comparePeriods: (transactions: Transaction[], now: Date = new Date()): PeriodComparison => {
+    const current = getMonthToDate(startOfMonth(now), now);
+    const lastMonth = getMonthToDate(startOfMonth(subMonths(now, 1)), now);
+    const lastYear = getMonthToDate(startOfMonth(subYears(now, 1)), now);
+
+    const currentAmounts = getExpensesByCategory(transactions, current);
+    const lastMonthAmounts = getExpensesByCategory(transactions, lastMonth);
+    const lastYearAmounts = getExpensesByCategory(transactions, lastYear);
+
+    const toRow = (currentAmount: number, lastMonthAmount: number, lastYearAmount: number) => ({
+      current: currentAmount,
+      lastMonth: lastMonthAmount,
+      lastYear: lastYearAmount,
+      changeVsLastMonth: TrendUtils.getPercentChange(currentAmount, lastMonthAmount),
+      changeVsLastYear: TrendUtils.getPercentChange(currentAmount, lastYearAmount),
+    });
+
+    const names = new Set([...currentAmounts.keys(), ...lastMonthAmounts.keys(), ...lastYearAmounts.keys()]);
+    const categories: CategoryTrendRow[] = Array.from(names)
+      .map(category => ({
+        category,
+        ...toRow(currentAmounts.get(category) || 0, lastMonthAmounts.get(category) || 0, lastYearAmounts.get(category) || 0),
+      }))
+      .sort((a, b) => b.current - a.current || b.lastMonth - a.lastMonth);
+
+    return {
+      current,
+      lastMonth,
+      lastYear,
+      totals: toRow(sumValues(currentAmounts), sumValues(lastMonthAmounts), sumValues(lastYearAmounts)),
+      categories,
+    };
+  },
+
+  /**
+   * Running total of this month's spending by day, next to where spending
+   * would be if the budget were spent evenly
+   */
+  getCumulativeSpending: (transactions: Transaction[], monthlyBudget: number, now: Date = new Date()): CumulativeSpendingPoint[] => {
+    const monthStart = startOfMonth(now);
+    const daysInMonth = getDaysInMonth(now);
+    const expenses = TransactionUtils.filterTransactions(transactions, {
+      dateRange: { start: monthStart, end: endOfDay(now) },
+      types: ['expense'],
+    });
+    const daily = new Map(
+      TransactionUtils.generateAnalytics(expenses, monthStart).dailySpending.map(entry => [entry.date, entry.amount])
+    );
+
+    let total = 0;
+    return Array.from({ length: daysInMonth }, (_, index) => {
+      const day = index + 1;
+      total += daily.get(format(setDate(monthStart, day), 'yyyy-MM-dd')) || 0;
+      return {
+        day,
+        actual: day <= now.getDate() ? total : null,
+        pace: (monthlyBudget / daysInMonth) * day,
+      };
+    });
+  },
+
+  /**
+   * Income, expenses and net for each of the last months up to this one,
+   * including months with nothing recorded
+   */
+  getMonthlyTrend: (transactions: Transaction[], months: number = 12, now: Date = new Date()): MonthlyTrendPoint[] => {
+    const firstMonth = startOfMonth(subMonths(now, months - 1));
+    const recent = TransactionUtils.filterTransactions(transactions, {
+      dateRange: { start: firstMonth, end: endOfDay(now) },
+    });
+    const trend = new Map(
+      TransactionUtils.generateAnalytics(recent).monthlyTrend.map(entry => [entry.month, entry])
+    );
+
+    return Array.from({ length: months }, (_, index) => {
+      const month = subMonths(startOfMonth(now), months - 1 - index);
+      const key = format(month, 'yyyy-MM');
+      const entry = trend.get(key);
+      return {
+        month: key,
+        label: format(month, 'MMM yy'),
+        income: entry?.income || 0,
+        expenses: entry?.expenses || 0,
+        net: entry?.net || 0,
+      };
+    });
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Savings Constants
+ * 
+ * Constants specific to the savings module.
+ */
+
+export const SAVINGS_CONSTANTS = {
+  MAX_GOALS: 20,
+  MAX_TARGET_AMOUNT: 10000000,
+  MIN_TARGET_AMOUNT: 1,
+  MILESTONES: [25, 50, 75, 100], // Progress percentages that trigger a notification
+} as const;
+
+export const SAVINGS_ERRORS = {
+  INVALID_NAME: 'Goal name is required',
+  INVALID_TARGET: 'Target amount must be a positive number',
+  TARGET_TOO_LARGE: `Target amount cannot exceed ${SAVINGS_CONSTANTS.MAX_TARGET_AMOUNT.toLocaleString()}`,
+  INVALID_DATE: 'Target date must be in the future',
+  INVALID_CONTRIBUTION: 'Contribution amount cannot be zero',
+  GOAL_NOT_FOUND: 'Savings goal not found',
+  MAX_GOALS_REACHED: `Maximum of ${SAVINGS_CONSTANTS.MAX_GOALS} savings goals allowed`,
+} as const;
+
+export const SAVINGS_SUCCESS_MESSAGES = {
+  GOAL_CREATED: 'Savings goal created successfully',
+  GOAL_UPDATED: 'Savings goal updated successfully',
+  GOAL_DELETED: 'Savings goal deleted successfully',
+  CONTRIBUTION_ADDED: 'Contribution added successfully',
+  CONTRIBUTION_REMOVED: 'Contribution removed successfully',
+} as const;
@@ -0,0 +1,301 @@
+/**
+ * useSavingsGoals Hook
+ * 
+ * Custom hook for savings goal management.
+ * Provides clean interface for goals, contributions and progress.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SavingsService } from '../services/SavingsService';
+import { SavingsGoal, SavingsContribution } from '../../../shared/types';
+import {
+  CreateSavingsGoalDto,
+  UpdateSavingsGoalDto,
+  CreateContributionDto,
+  SavingsState,
+  SavingsGoalProgress,
+} from '../types/savings.types';
+import { SavingsUtils } from '../utils/savings.utils';
+import { SAVINGS_SUCCESS_MESSAGES } from '../constants/savings.constants';
+import { useToast } from '../../../shared/hooks';
+import { advancedPushNotifications } from '../../../lib/advanced-push-notifications';
+
+interface UseSavingsGoalsOptions {
+  savingsService: SavingsService;
+  userId?: string;
+  autoLoad?: boolean;
+}
+
+export function useSavingsGoals(options: UseSavingsGoalsOptions) {
+  const { savingsService, userId, autoLoad = true } = options;
+  const { toast } = useToast();
+
+  const [state, setState] = useState<SavingsState>({
+    goals: [],
+    contributions: {},
+    isLoading: false,
+    error: null,
+  });
+
+  const handleError = useCallback((error: unknown, fallback: string) => {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    setState(prev => ({
+      ...prev,
+      isLoading: false,
+      error: errorMessage,
+    }));
+
+    toast({
+      title: "Error",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Load goals
+  const loadGoals = useCallback(async () => {
+    if (!userId) return;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const goals = await savingsService.getGoals(userId);
+      setState(prev => ({
+        ...prev,
+        goals,
+        isLoading: false,
+      }));
+    } catch (error) {
+      handleError(error, 'Failed to load savings goals');
+    }
+  }, [userId, savingsService, handleError]);
+
+  // Announce the highest newly reached milestone, once per goal
+  const notifyMilestone = useCallback(async (goal: SavingsGoal) => {
+    if (!userId) return;
+
+    const progress = SavingsUtils.calculateProgress(goal);
+    const milestone = SavingsUtils.getReachedMilestone(progress.percentage);
+    if (milestone <= (goal.lastNotifiedMilestone || 0)) return;
+
+    const message = SavingsUtils.getMilestoneMessage(goal, milestone);
+    toast({
+      title: milestone >= 100 ? "Goal Reached" : "Savings Milestone",
+      description: message,
+    });
+    void advancedPushNotifications.sendNotification({
+      title: milestone >= 100 ? 'Goal reached 🎉' : 'Savings milestone',
+      body: message,
+      tag: `savings-goal-${goal.id}`,
+    });
+
+    try {
+      await savingsService.markMilestoneNotified(userId, goal.id, milestone);
+      setState(prev => ({
+        ...prev,
+        goals: prev.goals.map(g => g.id === goal.id ? { ...g, lastNotifiedMilestone: milestone } : g),
+      }));
+    } catch (error) {
+      console.error('Failed to save savings milestone:', error);
+    }
+  }, [userId, savingsService, toast]);
+
+  // Create goal
+  const createGoal = useCallback(async (goalData: CreateSavingsGoalDto) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const newGoal = await savingsService.createGoal(userId, goalData);
+      setState(prev => ({
+        ...prev,
+        goals: [...prev.goals, newGoal],
+        isLoading: false,
+      }));
+
+      toast({
+        title: "Success",
+        description: SAVINGS_SUCCESS_MESSAGES.GOAL_CREATED,
+      });
+
+      return newGoal;
+    } catch (error) {
+      handleError(error, 'Failed to create savings goal');
+      throw error;
+    }
+  }, [userId, savingsService, toast, handleError]);
+
+  // Update goal
+  const updateGoal = useCallback(async (goalId: string, updates: UpdateSavingsGoalDto) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    try {
+      await savingsService.updateGoal(userId, goalId, updates);
+      setState(prev => ({
+        ...prev,
+        goals: prev.goals.map(goal => goal.id === goalId ? { ...goal, ...updates } : goal),
+      }));
+
+      toast({
+        title: "Success",
+        description: SAVINGS_SUCCESS_MESSAGES.GOAL_UPDATED,
+      });
+    } catch (error) {
+      handleError(error, 'Failed to update savings goal');
+      throw error;
+    }
+  }, [userId, savingsService, toast, handleError]);
+
+  // Delete goal
+  const deleteGoal = useCallback(async (goalId: string) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    try {
+      await savingsService.deleteGoal(userId, goalId);
+      setState(prev => {
+        const contributions = { ...prev.contributions };
+        delete contributions[goalId];
+        return {
+          ...prev,
+          goals: prev.goals.filter(goal => goal.id !== goalId),
+          contributions,
+        };
+      });
+
+      toast({
+        title: "Success",
+        description: SAVINGS_SUCCESS_MESSAGES.GOAL_DELETED,
+      });
+    } catch (error) {
+      handleError(error, 'Failed to delete savings goal');
+      throw error;
+    }
+  }, [userId, savingsService, toast, handleError]);
+
+  // Load contributions for one goal
+  const loadContributions = useCallback(async (goalId: string) => {
+    if (!userId) return;
+
+    try {
+      const contributions = await savingsService.getContributions(userId, goalId);
+      setState(prev => ({
+        ...prev,
+        contributions: { ...prev.contributions, [goalId]: contributions },
+      }));
+    } catch (error) {
+      handleError(error, 'Failed to load contributions');
+    }
+  }, [userId, savingsService, handleError]);
+
+  // Add contribution
+  const addContribution = useCallback(async (goalId: string, contributionData: CreateContributionDto) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    try {
+      const contribution = await savingsService.addContribution(userId, goalId, contributionData);
+      const goal = state.goals.find(g => g.id === goalId);
+      const updatedGoal = goal ? { ...goal, savedAmount: (goal.savedAmount || 0) + contribution.amount } : null;
+
+      setState(prev => ({
+        ...prev,
+        goals: prev.goals.map(g => g.id === goalId ? { ...g, savedAmount: (g.savedAmount || 0) + contribution.amount } : g),
+        contributions: prev.contributions[goalId]
+          ? { ...prev.contributions, [goalId]: [contribution, ...prev.contributions[goalId]] }
+          : prev.contributions,
+      }));
+
+      toast({
+        title: "Success",
+        description: SAVINGS_SUCCESS_MESSAGES.CONTRIBUTION_ADDED,
+      });
+
+      if (updatedGoal) {
+        await notifyMilestone(updatedGoal);
+      }
+
+      return contribution;
+    } catch (error) {
+      handleError(error, 'Failed to add contribution');
+      throw error;
+    }
+  }, [userId, savingsService, state.goals, toast, handleError, notifyMilestone]);
+
+  // Remove contribution
+  const deleteContribution = useCallback(async (contribution: SavingsContribution) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    try {
+      await savingsService.deleteContribution(userId, contribution);
+      setState(prev => ({
+        ...prev,
+        goals: prev.goals.map(g => g.id === contribution.goalId ? { ...g, savedAmount: (g.savedAmount || 0) - contribution.amount } : g),
+        contributions: {
+          ...prev.contributions,
+          [contribution.goalId]: (prev.contributions[contribution.goalId] || []).filter(c => c.id !== contribution.id),
+        },
+      }));
+
+      toast({
+        title: "Success",
+        description: SAVINGS_SUCCESS_MESSAGES.CONTRIBUTION_REMOVED,
+      });
+    } catch (error) {
+      handleError(error, 'Failed to remove contribution');
+      throw error;
+    }
+  }, [userId, savingsService, toast, handleError]);
+
+  // Progress for every goal, keyed by goal id
+  const goalProgress = useMemo(() => {
+    const progress: Record<string, SavingsGoalProgress> = {};
+    state.goals.forEach(goal => {
+      progress[goal.id] = SavingsUtils.calculateProgress(goal);
+    });
+    return progress;
+  }, [state.goals]);
+
+  const activeGoals = useMemo(() => state.goals.filter(goal => !goal.isArchived), [state.goals]);
+
+  const summary = useMemo(() => SavingsUtils.generateSummary(state.goals), [state.goals]);
+
+  // Refresh goals
+  const refresh = useCallback(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  // Initial load
+  useEffect(() => {
+    if (autoLoad && userId) {
+      loadGoals();
+    }
+  }, [autoLoad, userId, loadGoals]);
+
+  return {
+    // State
+    ...state,
+    activeGoals,
+    goalProgress,
+    summary,
+
+    // Actions
+    loadGoals,
+    createGoal,
+    updateGoal,
+    deleteGoal,
+    loadContributions,
+    addContribution,
+    deleteContribution,
+    refresh,
+  };
+}
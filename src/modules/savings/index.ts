@@ -5,6 +5,13 @@
  * Handles savings goals, tracking, and savings analytics.
  */
 
+// Core exports
+export * from './services/SavingsService';
+export * from './hooks/useSavingsGoals';
+export * from './types/savings.types';
+export * from './constants/savings.constants';
+export * from './utils/savings.utils';
+
 // Module interface
 export const SavingsModule = {
   name: 'Savings',
@@ -0,0 +1,221 @@
+/**
+ * Savings Service
+ * 
+ * Handles savings goals and their contributions with Firestore.
+ * Single responsibility: Savings data management.
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  getDocs,
+  query,
+  orderBy,
+  writeBatch,
+  increment,
+  Firestore
+} from 'firebase/firestore';
+import { BaseService } from '../../services';
+import { SavingsGoal, SavingsContribution } from '../../../shared/types';
+import { CreateSavingsGoalDto, UpdateSavingsGoalDto, CreateContributionDto } from '../types/savings.types';
+import { SavingsUtils } from '../utils/savings.utils';
+import { SAVINGS_ERRORS } from '../constants/savings.constants';
+
+export class SavingsService extends BaseService {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    super();
+    this.firestore = firestore;
+  }
+
+  /**
+   * Create a new savings goal
+   */
+  async createGoal(userId: string, goalData: CreateSavingsGoalDto): Promise<SavingsGoal> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const errors = SavingsUtils.validateGoal(goalData);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const goalsRef = collection(this.firestore, 'users', userId, 'savingsGoals');
+    const goal = {
+      name: goalData.name.trim(),
+      targetAmount: goalData.targetAmount,
+      targetDate: goalData.targetDate,
+      savedAmount: 0,
+      lastNotifiedMilestone: 0,
+      isArchived: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const docRef = await addDoc(goalsRef, goal);
+
+    if (goalData.initialAmount && goalData.initialAmount > 0) {
+      await this.addContribution(userId, docRef.id, {
+        amount: goalData.initialAmount,
+        notes: 'Starting balance',
+      });
+      goal.savedAmount = goalData.initialAmount;
+    }
+
+    return {
+      id: docRef.id,
+      ...goal,
+    } as SavingsGoal;
+  }
+
+  /**
+   * Get savings goals for a user
+   */
+  async getGoals(userId: string): Promise<SavingsGoal[]> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const goalsRef = collection(this.firestore, 'users', userId, 'savingsGoals');
+    const q = query(goalsRef, orderBy('targetDate', 'asc'));
+
+    const querySnapshot = await getDocs(q);
+    const goals: SavingsGoal[] = [];
+
+    querySnapshot.forEach((doc) => {
+      goals.push({
+        id: doc.id,
+        ...doc.data(),
+      } as SavingsGoal);
+    });
+
+    return goals;
+  }
+
+  /**
+   * Update a savings goal
+   */
+  async updateGoal(userId: string, goalId: string, updates: UpdateSavingsGoalDto): Promise<void> {
+    if (!userId || !goalId) {
+      throw new Error('User ID and goal ID are required');
+    }
+
+    const goalRef = doc(this.firestore, 'users', userId, 'savingsGoals', goalId);
+    await updateDoc(goalRef, {
+      ...updates,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Delete a savings goal and its contributions. Linked transactions are kept.
+   */
+  async deleteGoal(userId: string, goalId: string): Promise<void> {
+    if (!userId || !goalId) {
+      throw new Error('User ID and goal ID are required');
+    }
+
+    const goalRef = doc(this.firestore, 'users', userId, 'savingsGoals', goalId);
+    const contributionsSnapshot = await getDocs(collection(goalRef, 'contributions'));
+
+    const batch = writeBatch(this.firestore);
+    contributionsSnapshot.forEach((contribution) => batch.delete(contribution.ref));
+    batch.delete(goalRef);
+    await batch.commit();
+  }
+
+  /**
+   * Record a contribution (negative for a withdrawal) and update the goal's
+   * running total in the same batch
+   */
+  async addContribution(
+    userId: string,
+    goalId: string,
+    contributionData: CreateContributionDto
+  ): Promise<SavingsContribution> {
+    if (!userId || !goalId) {
+      throw new Error('User ID and goal ID are required');
+    }
+
+    if (!contributionData.amount || isNaN(contributionData.amount)) {
+      throw new Error(SAVINGS_ERRORS.INVALID_CONTRIBUTION);
+    }
+
+    const goalRef = doc(this.firestore, 'users', userId, 'savingsGoals', goalId);
+    const contributionRef = doc(collection(goalRef, 'contributions'));
+    const contribution = {
+      goalId,
+      amount: contributionData.amount,
+      date: contributionData.date || new Date(),
+      transactionId: contributionData.transactionId || null,
+      notes: contributionData.notes || '',
+    };
+
+    const batch = writeBatch(this.firestore);
+    batch.set(contributionRef, contribution);
+    batch.update(goalRef, {
+      savedAmount: increment(contributionData.amount),
+      updatedAt: new Date(),
+    });
+    await batch.commit();
+
+    return {
+      id: contributionRef.id,
+      ...contribution,
+    };
+  }
+
+  /**
+   * Get contributions for a goal, newest first
+   */
+  async getContributions(userId: string, goalId: string): Promise<SavingsContribution[]> {
+    if (!userId || !goalId) {
+      throw new Error('User ID and goal ID are required');
+    }
+
+    const contributionsRef = collection(this.firestore, 'users', userId, 'savingsGoals', goalId, 'contributions');
+    const q = query(contributionsRef, orderBy('date', 'desc'));
+
+    const querySnapshot = await getDocs(q);
+    const contributions: SavingsContribution[] = [];
+
+    querySnapshot.forEach((doc) => {
+      contributions.push({
+        id: doc.id,
+        ...doc.data(),
+      } as SavingsContribution);
+    });
+
+    return contributions;
+  }
+
+  /**
+   * Remove a contribution and take it back out of the goal's total
+   */
+  async deleteContribution(userId: string, contribution: SavingsContribution): Promise<void> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const goalRef = doc(this.firestore, 'users', userId, 'savingsGoals', contribution.goalId);
+    const batch = writeBatch(this.firestore);
+    batch.delete(doc(goalRef, 'contributions', contribution.id));
+    batch.update(goalRef, {
+      savedAmount: increment(-contribution.amount),
+      updatedAt: new Date(),
+    });
+    await batch.commit();
+  }
+
+  /**
+   * Remember the highest milestone announced so it is only notified once
+   */
+  async markMilestoneNotified(userId: string, goalId: string, milestone: number): Promise<void> {
+    const goalRef = doc(this.firestore, 'users', userId, 'savingsGoals', goalId);
+    await updateDoc(goalRef, { lastNotifiedMilestone: milestone });
+  }
+}
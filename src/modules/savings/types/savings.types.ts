@@ -0,0 +1,55 @@
+/**
+ * Savings Types
+ * 
+ * Type definitions for savings module.
+ */
+
+// Re-export existing types for backward compatibility
+export * from '../../../shared/types';
+import { SavingsGoal, SavingsContribution } from '../../../shared/types';
+
+export interface SavingsGoalProgress {
+  saved: number;
+  remaining: number;
+  percentage: number;
+  isComplete: boolean;
+  monthsRemaining: number;
+  requiredMonthlyContribution: number; // Needed each month to reach the target by its date
+  isOverdue: boolean;
+}
+
+export interface CreateSavingsGoalDto {
+  name: string;
+  targetAmount: number;
+  targetDate: Date;
+  initialAmount?: number;
+}
+
+export interface UpdateSavingsGoalDto {
+  name?: string;
+  targetAmount?: number;
+  targetDate?: Date;
+  isArchived?: boolean;
+}
+
+export interface CreateContributionDto {
+  amount: number;
+  date?: Date;
+  transactionId?: string | null;
+  notes?: string;
+}
+
+export interface SavingsState {
+  goals: SavingsGoal[];
+  contributions: Record<string, SavingsContribution[]>; // Keyed by goal id, loaded on demand
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface SavingsSummary {
+  totalTarget: number;
+  totalSaved: number;
+  totalRequiredMonthly: number;
+  completedGoals: number;
+  activeGoals: number;
+}
@@ -0,0 +1,97 @@
+/**
+ * Savings Utilities
+ * 
+ * Utility functions specific to savings goals.
+ */
+
+import { differenceInCalendarMonths } from 'date-fns';
+import { SavingsGoal } from '../../../shared/types';
+import { toRecurrenceDate } from '../../../shared/utils/recurrence';
+import { SavingsGoalProgress, SavingsSummary, CreateSavingsGoalDto } from '../types/savings.types';
+import { SAVINGS_CONSTANTS, SAVINGS_ERRORS } from '../constants/savings.constants';
+
+export const SavingsUtils = {
+  /**
+   * Validate goal data
+   */
+  validateGoal: (goalData: Partial<CreateSavingsGoalDto>): string[] => {
+    const errors: string[] = [];
+
+    if (!goalData.name || goalData.name.trim().length === 0) {
+      errors.push(SAVINGS_ERRORS.INVALID_NAME);
+    }
+
+    if (!goalData.targetAmount || isNaN(goalData.targetAmount) || goalData.targetAmount < SAVINGS_CONSTANTS.MIN_TARGET_AMOUNT) {
+      errors.push(SAVINGS_ERRORS.INVALID_TARGET);
+    } else if (goalData.targetAmount > SAVINGS_CONSTANTS.MAX_TARGET_AMOUNT) {
+      errors.push(SAVINGS_ERRORS.TARGET_TOO_LARGE);
+    }
+
+    if (!goalData.targetDate || isNaN(goalData.targetDate.getTime()) || goalData.targetDate <= new Date()) {
+      errors.push(SAVINGS_ERRORS.INVALID_DATE);
+    }
+
+    return errors;
+  },
+
+  /**
+   * Progress towards a goal and the monthly amount still needed.
+   * The current month counts, so a goal due later this month needs the
+   * whole remainder now.
+   */
+  calculateProgress: (goal: SavingsGoal, now: Date = new Date()): SavingsGoalProgress => {
+    const saved = Math.max(0, goal.savedAmount || 0);
+    const remaining = Math.max(0, goal.targetAmount - saved);
+    const percentage = goal.targetAmount > 0 ? Math.min(100, (saved / goal.targetAmount) * 100) : 0;
+    const isComplete = remaining === 0;
+
+    const targetDate = toRecurrenceDate(goal.targetDate);
+    const isOverdue = !isComplete && targetDate < now;
+    const monthsRemaining = Math.max(0, differenceInCalendarMonths(targetDate, now)) + (isOverdue ? 0 : 1);
+
+    return {
+      saved,
+      remaining,
+      percentage,
+      isComplete,
+      monthsRemaining,
+      requiredMonthlyContribution: isComplete ? 0 : remaining / Math.max(1, monthsRemaining),
+      isOverdue,
+    };
+  },
+
+  /**
+   * Highest milestone reached by a percentage, or 0 if none
+   */
+  getReachedMilestone: (percentage: number): number => {
+    return SAVINGS_CONSTANTS.MILESTONES
+      .filter(milestone => percentage >= milestone)
+      .reduce((highest, milestone) => Math.max(highest, milestone), 0);
+  },
+
+  /**
+   * Milestone message for a notification
+   */
+  getMilestoneMessage: (goal: SavingsGoal, milestone: number): string => {
+    if (milestone >= 100) {
+      return `You reached your "${goal.name}" goal of $${goal.targetAmount.toFixed(2)}!`;
+    }
+    return `You're ${milestone}% of the way to "${goal.name}".`;
+  },
+
+  /**
+   * Totals across active goals
+   */
+  generateSummary: (goals: SavingsGoal[]): SavingsSummary => {
+    const activeGoals = goals.filter(goal => !goal.isArchived);
+    const progress = activeGoals.map(goal => SavingsUtils.calculateProgress(goal));
+
+    return {
+      totalTarget: activeGoals.reduce((sum, goal) => sum + goal.targetAmount, 0),
+      totalSaved: progress.reduce((sum, p) => sum + p.saved, 0),
+      totalRequiredMonthly: progress.reduce((sum, p) => sum + p.requiredMonthlyContribution, 0),
+      completedGoals: progress.filter(p => p.isComplete).length,
+      activeGoals: progress.filter(p => !p.isComplete).length,
+    };
+  },
+};
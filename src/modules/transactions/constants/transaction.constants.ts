@@ -4,11 +4,13 @@
  * Constants specific to the transaction module.
  */
 
+import { DEFAULT_BASE_CURRENCY } from '../../../shared/constants';
+
 export const TRANSACTION_CONSTANTS = {
   PAGE_SIZE: 20,
   MAX_AMOUNT: 1000000,
   MIN_AMOUNT: 0.01,
-  DEFAULT_CURRENCY: 'USD',
+  DEFAULT_CURRENCY: DEFAULT_BASE_CURRENCY, // Users can pick their own base currency
   MAX_NOTES_LENGTH: 500,
   MAX_CATEGORY_LENGTH: 50,
 } as const;
@@ -24,6 +26,58 @@ export const RECURRING_FREQUENCIES = {
   YEARLY: 'yearly',
 } as const;
 
+export const RECURRENCE_MONTH_RULES = {
+  DAY_OF_MONTH: 'day-of-month',
+  LAST_DAY: 'last-day',
+  LAST_BUSINESS_DAY: 'last-business-day',
+  NTH_WEEKDAY: 'nth-weekday',
+} as const;
+
+export const RECURRENCE_LIMITS = {
+  MAX_INTERVAL: 52,
+  MAX_OCCURRENCES: 1000,
+  PREVIEW_COUNT: 5,
+} as const;
+
+export const IMPORT_CONSTANTS = {
+  BATCH_SIZE: 400, // Firestore allows 500 writes per batch
+  MAX_ROWS: 5000,
+  ACCEPTED_FILE_TYPES: '.csv,.ofx,.qfx,.qif,.json',
+  DATE_FORMATS: ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd MMM yyyy'],
+  DEFAULT_CATEGORY: 'Other',
+  DESCRIPTION_KEY_WORDS: 3, // Leading words of a description used to remember its category
+} as const;
+
+export const BULK_CONSTANTS = {
+  BATCH_SIZE: 400, // Firestore allows 500 writes per batch
+  MAX_SHIFT_DAYS: 366,
+  UNDO_TOAST_DURATION: 10000, // How long the undo action stays on screen, in ms
+} as const;
+
+export const BULK_ERRORS = {
+  NOTHING_SELECTED: 'Select at least one transaction',
+  CATEGORY_REQUIRED: 'Choose a category',
+  INVALID_TYPE: 'Bulk edits can only switch between income and expense',
+  INVALID_SHIFT: `Shift dates by 1 to ${BULK_CONSTANTS.MAX_SHIFT_DAYS} days`,
+  NOTHING_TO_UNDO: 'There is nothing to undo',
+} as const;
+
+// Header row of CSV exports. ImportUtils.guessCsvMapping recognizes each one.
+export const EXPORT_CONSTANTS = {
+  JSON_VERSION: 1,
+  CSV_COLUMNS: ['Date', 'Description', 'Amount', 'Type', 'Category', 'Currency', 'Account ID', 'To Account ID', 'Splits', 'Tags', 'ID'],
+} as const;
+
+export const IMPORT_ERRORS = {
+  UNSUPPORTED_FORMAT: 'Unsupported file. Use a CSV, OFX or QIF export from your bank, or a JSON export from this app',
+  INVALID_JSON: 'This JSON file is not a transaction export',
+  EMPTY_FILE: 'No transactions found in this file',
+  TOO_MANY_ROWS: `Files can contain at most ${IMPORT_CONSTANTS.MAX_ROWS.toLocaleString()} transactions`,
+  MISSING_COLUMNS: 'Choose the date, description and amount columns',
+  PRESET_NAME_REQUIRED: 'Bank name is required',
+  NOTHING_SELECTED: 'Select at least one transaction to import',
+} as const;
+
 export const TRANSACTION_ERRORS = {
   INVALID_AMOUNT: 'Amount must be a positive number',
   AMOUNT_TOO_LARGE: `Amount cannot exceed ${TRANSACTION_CONSTANTS.MAX_AMOUNT.toLocaleString()}`,
@@ -41,6 +95,7 @@ export const TRANSACTION_SUCCESS_MESSAGES = {
   DELETED: 'Transaction deleted successfully',
   BULK_DELETED: 'Transactions deleted successfully',
   BULK_UPDATED: 'Transactions updated successfully',
+  BULK_UNDONE: 'Changes undone',
   IMPORTED: 'Transactions imported successfully',
   EXPORTED: 'Transactions exported successfully',
 } as const;
@@ -52,6 +107,8 @@ export const RECURRING_TRANSACTION_MESSAGES = {
   ACTIVATED: 'Recurring transaction activated',
   DEACTIVATED: 'Recurring transaction deactivated',
   PROCESSED: 'Recurring transaction processed',
+  SKIPPED: 'Next occurrence skipped',
+  COMPLETED: 'Recurring transaction completed its last occurrence',
 } as const;
 
 export const TRANSACTION_FILTERS = {
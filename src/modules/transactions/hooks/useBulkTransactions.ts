@@ -0,0 +1,102 @@
+/**
+ * useBulkTransactions Hook
+ *
+ * Custom hook for bulk edits on selected transactions.
+ * Each operation returns what it changed so it can be undone in one step.
+ */
+
+import { useState, useCallback } from 'react';
+import { TransactionService } from '../services/TransactionService';
+import { BulkOperationResult, BulkTransactionOperation } from '../types/transaction.types';
+import { BULK_ERRORS, TRANSACTION_SUCCESS_MESSAGES } from '../constants/transaction.constants';
+import { useToast } from '../../../shared/hooks';
+
+interface UseBulkTransactionsOptions {
+  transactionService: TransactionService;
+  userId?: string;
+}
+
+interface BulkTransactionsState {
+  isApplying: boolean;
+  error: string | null;
+}
+
+export function useBulkTransactions(options: UseBulkTransactionsOptions) {
+  const { transactionService, userId } = options;
+  const { toast } = useToast();
+
+  const [state, setState] = useState<BulkTransactionsState>({
+    isApplying: false,
+    error: null,
+  });
+
+  const handleError = useCallback((error: unknown, fallback: string) => {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    setState(prev => ({
+      ...prev,
+      isApplying: false,
+      error: errorMessage,
+    }));
+
+    toast({
+      title: "Error",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Apply an operation. Callers show the result so they can offer undo.
+  const applyOperation = useCallback(async (operation: BulkTransactionOperation) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    setState(prev => ({ ...prev, isApplying: true, error: null }));
+
+    try {
+      const result = await transactionService.bulkUpdateTransactions(userId, operation);
+      setState(prev => ({ ...prev, isApplying: false }));
+      return result;
+    } catch (error) {
+      handleError(error, 'Failed to update transactions');
+      throw error;
+    }
+  }, [userId, transactionService, handleError]);
+
+  // Restore every transaction an operation touched
+  const undoOperation = useCallback(async (result: BulkOperationResult) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if (result.previous.length === 0) {
+      const error = new Error(BULK_ERRORS.NOTHING_TO_UNDO);
+      handleError(error, BULK_ERRORS.NOTHING_TO_UNDO);
+      throw error;
+    }
+
+    setState(prev => ({ ...prev, isApplying: true, error: null }));
+
+    try {
+      await transactionService.restoreTransactions(userId, result.previous);
+      setState(prev => ({ ...prev, isApplying: false }));
+
+      toast({
+        title: "Success",
+        description: TRANSACTION_SUCCESS_MESSAGES.BULK_UNDONE,
+      });
+    } catch (error) {
+      handleError(error, 'Failed to undo changes');
+      throw error;
+    }
+  }, [userId, transactionService, toast, handleError]);
+
+  return {
+    // State
+    ...state,
+
+    // Actions
+    applyOperation,
+    undoOperation,
+  };
+}
@@ -268,6 +268,34 @@ export function useRecurringTransactions(options: UseRecurringTransactionsOption
     }
   }, [userId, recurringTransactionService, loadRecurringTransactions, toast]);
 
+  // Skip the next occurrence of a recurring transaction
+  const skipNextOccurrence = useCallback(async (recurringTransaction: RecurringTransaction) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    try {
+      await recurringTransactionService.skipNextOccurrence(userId, recurringTransaction);
+      
+      // Reload to get updated data
+      await loadRecurringTransactions();
+
+      toast({
+        title: "Success",
+        description: "Next occurrence skipped",
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to skip occurrence';
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      
+      throw error;
+    }
+  }, [userId, recurringTransactionService, loadRecurringTransactions, toast]);
+
   // Get active recurring transactions
   const getActiveRecurringTransactions = useCallback(() => {
     return state.recurringTransactions.filter(rt => rt.isActive);
@@ -308,6 +336,7 @@ export function useRecurringTransactions(options: UseRecurringTransactionsOption
     deleteRecurringTransaction,
     toggleRecurringTransaction,
     processRecurringTransaction,
+    skipNextOccurrence,
     refresh,
 
     // Utilities
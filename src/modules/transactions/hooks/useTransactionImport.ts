@@ -0,0 +1,188 @@
+/**
+ * useTransactionImport Hook
+ *
+ * Custom hook for importing bank statements.
+ * Provides saved bank presets and commits previewed rows in batches.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { TransactionService } from '../services/TransactionService';
+import { ImportPresetService } from '../services/ImportPresetService';
+import { ImportPreset } from '../../../shared/types';
+import { ImportPreviewRow, ImportResult, RecurringImportData, SaveImportPresetDto } from '../types/transaction.types';
+import { ImportUtils } from '../utils/import.utils';
+import { IMPORT_ERRORS, TRANSACTION_SUCCESS_MESSAGES } from '../constants/transaction.constants';
+import { useToast } from '../../../shared/hooks';
+
+interface UseTransactionImportOptions {
+  transactionService: TransactionService;
+  importPresetService: ImportPresetService;
+  userId?: string;
+  createdBy?: string; // Signed-in user, who differs from userId in a shared household
+  autoLoad?: boolean;
+}
+
+interface TransactionImportState {
+  presets: ImportPreset[];
+  isLoading: boolean;
+  isImporting: boolean;
+  error: string | null;
+}
+
+export function useTransactionImport(options: UseTransactionImportOptions) {
+  const { transactionService, importPresetService, userId, createdBy, autoLoad = true } = options;
+  const { toast } = useToast();
+
+  const [state, setState] = useState<TransactionImportState>({
+    presets: [],
+    isLoading: false,
+    isImporting: false,
+    error: null,
+  });
+
+  const handleError = useCallback((error: unknown, fallback: string) => {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    setState(prev => ({
+      ...prev,
+      isLoading: false,
+      isImporting: false,
+      error: errorMessage,
+    }));
+
+    toast({
+      title: "Error",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Load presets
+  const loadPresets = useCallback(async () => {
+    if (!userId) return;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const presets = await importPresetService.getPresets(userId);
+      setState(prev => ({
+        ...prev,
+        presets,
+        isLoading: false,
+      }));
+    } catch (error) {
+      handleError(error, 'Failed to load import presets');
+    }
+  }, [userId, importPresetService, handleError]);
+
+  // Save preset
+  const savePreset = useCallback(async (presetData: SaveImportPresetDto) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    try {
+      const saved = await importPresetService.savePreset(userId, presetData);
+      setState(prev => ({
+        ...prev,
+        presets: prev.presets.some(preset => preset.id === saved.id)
+          ? prev.presets.map(preset => preset.id === saved.id ? { ...preset, ...saved } : preset)
+          : [...prev.presets, saved].sort((a, b) => a.bankName.localeCompare(b.bankName)),
+      }));
+      return saved;
+    } catch (error) {
+      handleError(error, 'Failed to save import preset');
+      throw error;
+    }
+  }, [userId, importPresetService, handleError]);
+
+  // Delete preset
+  const deletePreset = useCallback(async (presetId: string) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    try {
+      await importPresetService.deletePreset(userId, presetId);
+      setState(prev => ({
+        ...prev,
+        presets: prev.presets.filter(preset => preset.id !== presetId),
+      }));
+    } catch (error) {
+      handleError(error, 'Failed to delete import preset');
+      throw error;
+    }
+  }, [userId, importPresetService, handleError]);
+
+  // Import the selected rows and any recurring transactions from a JSON export,
+  // then remember the rows' categories in the preset
+  const importRows = useCallback(async (
+    rows: ImportPreviewRow[],
+    importOptions: { accountId?: string; preset?: SaveImportPresetDto; recurring?: RecurringImportData[] } = {}
+  ): Promise<ImportResult> => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const selected = rows.filter(row => row.selected);
+    const recurring = importOptions.recurring || [];
+    if (selected.length === 0 && recurring.length === 0) {
+      const error = new Error(IMPORT_ERRORS.NOTHING_SELECTED);
+      handleError(error, IMPORT_ERRORS.NOTHING_SELECTED);
+      throw error;
+    }
+
+    setState(prev => ({ ...prev, isImporting: true, error: null }));
+
+    try {
+      const imported = await transactionService.importTransactions(
+        userId,
+        selected.map(row => ImportUtils.toCreateDto(row, importOptions.accountId)),
+        createdBy
+      );
+      const recurringImported = recurring.length > 0
+        ? await transactionService.importRecurringTransactions(userId, recurring, createdBy)
+        : 0;
+      setState(prev => ({ ...prev, isImporting: false }));
+
+      if (importOptions.preset) {
+        try {
+          await savePreset({
+            ...importOptions.preset,
+            categoryMap: ImportUtils.learnCategoryMap(selected, importOptions.preset.categoryMap),
+          });
+        } catch {
+          // savePreset already shows the error, the transactions are saved
+        }
+      }
+
+      const result = { imported, skipped: rows.length - selected.length, recurringImported };
+      toast({
+        title: "Success",
+        description: `${TRANSACTION_SUCCESS_MESSAGES.IMPORTED} (${result.imported} added${result.skipped ? `, ${result.skipped} skipped` : ''}${result.recurringImported ? `, ${result.recurringImported} recurring` : ''})`,
+      });
+
+      return result;
+    } catch (error) {
+      handleError(error, 'Failed to import transactions');
+      throw error;
+    }
+  }, [userId, createdBy, transactionService, savePreset, toast, handleError]);
+
+  // Auto-load presets
+  useEffect(() => {
+    if (autoLoad && userId) {
+      loadPresets();
+    }
+  }, [autoLoad, userId, loadPresets]);
+
+  return {
+    // State
+    ...state,
+
+    // Actions
+    loadPresets,
+    savePreset,
+    deletePreset,
+    importRows,
+  };
+}
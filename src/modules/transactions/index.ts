@@ -8,11 +8,15 @@
 // Core exports
 export * from './services/TransactionService';
 export * from './services/RecurringTransactionService';
+export * from './services/ImportPresetService';
 export * from './hooks/useTransactions';
 export * from './hooks/useRecurringTransactions';
+export * from './hooks/useTransactionImport';
+export * from './hooks/useBulkTransactions';
 export * from './types/transaction.types';
 export * from './constants/transaction.constants';
 export * from './utils/transaction.utils';
+export * from './utils/import.utils';
 
 // Module interface
 export const TransactionsModule = {
@@ -27,6 +31,7 @@ export const TransactionsModule = {
     transactionFiltering: true,
     transactionAnalytics: true,
     bulkOperations: true,
+    statementImport: true,
   },
   
   // Module configuration
@@ -0,0 +1,106 @@
+/**
+ * Import Preset Service
+ *
+ * Handles saved bank statement import settings with Firestore.
+ * Single responsibility: Import preset data management.
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDocs,
+  query,
+  orderBy,
+  Firestore
+} from 'firebase/firestore';
+import { BaseService } from '../../services';
+import { ImportPreset, CsvColumnMapping } from '../../../shared/types';
+import { SaveImportPresetDto } from '../types/transaction.types';
+import { IMPORT_ERRORS } from '../constants/transaction.constants';
+
+export class ImportPresetService extends BaseService {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    super();
+    this.firestore = firestore;
+  }
+
+  /**
+   * Get a user's import presets, sorted by bank name
+   */
+  async getPresets(userId: string): Promise<ImportPreset[]> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const presetsRef = collection(this.firestore, 'users', userId, 'importPresets');
+    const querySnapshot = await getDocs(query(presetsRef, orderBy('bankName', 'asc')));
+    const presets: ImportPreset[] = [];
+
+    querySnapshot.forEach((doc) => {
+      presets.push({
+        id: doc.id,
+        ...doc.data(),
+      } as ImportPreset);
+    });
+
+    return presets;
+  }
+
+  /**
+   * Create a preset, or update it when the DTO has an id
+   */
+  async savePreset(userId: string, presetData: SaveImportPresetDto): Promise<ImportPreset> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const bankName = presetData.bankName.trim();
+    if (!bankName) {
+      throw new Error(IMPORT_ERRORS.PRESET_NAME_REQUIRED);
+    }
+
+    // Firestore rejects undefined fields
+    const preset = {
+      bankName,
+      format: presetData.format,
+      dateFormat: presetData.dateFormat,
+      categoryMap: presetData.categoryMap,
+      ...(presetData.columnMapping && {
+        columnMapping: Object.fromEntries(
+          Object.entries(presetData.columnMapping).filter(([, value]) => value !== undefined)
+        ) as CsvColumnMapping,
+      }),
+      ...(presetData.accountId && { accountId: presetData.accountId }),
+      updatedAt: new Date(),
+    };
+
+    if (presetData.id) {
+      await updateDoc(doc(this.firestore, 'users', userId, 'importPresets', presetData.id), preset);
+      return { id: presetData.id, ...preset } as ImportPreset;
+    }
+
+    const createdAt = new Date();
+    const docRef = await addDoc(collection(this.firestore, 'users', userId, 'importPresets'), {
+      ...preset,
+      createdAt,
+    });
+
+    return { id: docRef.id, createdAt, ...preset };
+  }
+
+  /**
+   * Delete a preset. Transactions imported with it are kept.
+   */
+  async deletePreset(userId: string, presetId: string): Promise<void> {
+    if (!userId || !presetId) {
+      throw new Error('User ID and preset ID are required');
+    }
+
+    await deleteDoc(doc(this.firestore, 'users', userId, 'importPresets', presetId));
+  }
+}
@@ -18,15 +18,20 @@ import {
   Firestore 
 } from 'firebase/firestore';
 import { BaseService } from '../../services';
-import { RecurringTransaction } from '../../../shared/types';
+import { RecurringTransaction, RecurringFrequency, RecurrenceMonthRule } from '../../../shared/types';
 import { TransactionUtils } from '../utils/transaction.utils';
+import { isWithinRecurrence } from '../../../shared/utils/recurrence';
 
 export interface CreateRecurringTransactionDto {
   Amount: number;
   Type: 'income' | 'expense';
   Category: string;
   Notes: string;
-  frequency: 'weekly' | 'monthly' | 'yearly';
+  frequency: RecurringFrequency;
+  interval?: number; // Every N weeks/months/years
+  monthRule?: RecurrenceMonthRule | null;
+  endDate?: Date | null;
+  maxOccurrences?: number | null;
   nextDueDate: Date;
   isActive?: boolean;
 }
@@ -34,6 +39,8 @@ export interface CreateRecurringTransactionDto {
 export interface UpdateRecurringTransactionDto extends Partial<CreateRecurringTransactionDto> {
   id?: never; // Prevent id from being updated
   lastProcessed?: Date; // Allow updating lastProcessed
+  lastSkipped?: Date;
+  occurrenceCount?: number;
 }
 
 export class RecurringTransactionService extends BaseService {
@@ -64,6 +71,11 @@ export class RecurringTransactionService extends BaseService {
     
     const recurringTransactionWithDefaults = {
       ...transactionData,
+      interval: transactionData.interval || 1,
+      monthRule: transactionData.monthRule || null,
+      endDate: transactionData.endDate || null,
+      maxOccurrences: transactionData.maxOccurrences || null,
+      occurrenceCount: 0,
       isActive: transactionData.isActive ?? true,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -103,7 +115,9 @@ export class RecurringTransactionService extends BaseService {
         ...data,
         nextDueDate: data.nextDueDate?.toDate() || new Date(),
         createdAt: data.createdAt?.toDate() || new Date(),
+        endDate: data.endDate?.toDate() || null,
         lastProcessed: data.lastProcessed?.toDate(),
+        lastSkipped: data.lastSkipped?.toDate(),
       } as RecurringTransaction);
     });
 
@@ -212,14 +226,39 @@ export class RecurringTransactionService extends BaseService {
 
     // Calculate next due date
     const nextDueDate = TransactionUtils.calculateNextDueDate(recurringTransaction);
+    const occurrenceCount = (recurringTransaction.occurrenceCount || 0) + 1;
 
-    // Update the recurring transaction with new due date and last processed timestamp
+    // Update the recurring transaction with new due date and last processed timestamp,
+    // deactivating it once the end date or occurrence limit is reached
     await this.updateRecurringTransaction(userId, recurringTransaction.id, {
       nextDueDate,
+      occurrenceCount,
+      isActive: isWithinRecurrence(recurringTransaction, nextDueDate, occurrenceCount),
       lastProcessed: new Date(),
     });
   }
 
+  /**
+   * Skip the next occurrence without posting it
+   */
+  async skipNextOccurrence(
+    userId: string, 
+    recurringTransaction: RecurringTransaction
+  ): Promise<void> {
+    if (!recurringTransaction.isActive) {
+      throw new Error('Cannot skip an occurrence of an inactive recurring transaction');
+    }
+
+    const nextDueDate = TransactionUtils.calculateNextDueDate(recurringTransaction);
+
+    // Skipped occurrences don't count towards maxOccurrences
+    await this.updateRecurringTransaction(userId, recurringTransaction.id, {
+      nextDueDate,
+      isActive: isWithinRecurrence(recurringTransaction, nextDueDate, recurringTransaction.occurrenceCount || 0),
+      lastSkipped: new Date(),
+    });
+  }
+
   /**
    * Get recurring transaction by ID
    */
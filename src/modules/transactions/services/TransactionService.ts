@@ -11,17 +11,31 @@ import {
   addDoc, 
   updateDoc, 
   deleteDoc, 
+  getDoc,
   getDocs, 
   query, 
   where, 
   orderBy, 
   limit,
+  writeBatch,
+  WriteBatch,
   Firestore 
 } from 'firebase/firestore';
+import { addDays } from 'date-fns';
 import { BaseService } from '../../services';
 import { Transaction } from '../../../shared/types';
-import { CreateTransactionDto, UpdateTransactionDto, TransactionFilters } from '../types/transaction.types';
+import { stampRevision } from '../../../shared/utils/revision';
+import { hasSplits } from '../../../shared/utils/splits';
+import {
+  CreateTransactionDto,
+  UpdateTransactionDto,
+  TransactionFilters,
+  BulkTransactionOperation,
+  BulkOperationResult,
+  RecurringImportData
+} from '../types/transaction.types';
 import { TransactionUtils } from '../utils/transaction.utils';
+import { IMPORT_CONSTANTS, BULK_CONSTANTS, BULK_ERRORS } from '../constants/transaction.constants';
 
 export class TransactionService extends BaseService {
   private firestore: Firestore;
@@ -57,6 +71,10 @@ export class TransactionService extends BaseService {
       Category: transactionData.Category,
       Notes: transactionData.Notes,
       Date: dateValue,
+      ...(transactionData.accountId && { accountId: transactionData.accountId }),
+      ...(transactionData.currency && { currency: transactionData.currency }),
+      ...(transactionData.splits && { splits: transactionData.splits }),
+      ...(!!transactionData.tags?.length && { tags: transactionData.tags }),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -70,9 +88,76 @@ export class TransactionService extends BaseService {
       Category: transactionWithDefaults.Category,
       Notes: transactionWithDefaults.Notes,
       Date: dateValue,
+      ...(transactionData.accountId && { accountId: transactionData.accountId }),
+      ...(transactionData.currency && { currency: transactionData.currency }),
+      ...(transactionData.splits && { splits: transactionData.splits }),
+      ...(!!transactionData.tags?.length && { tags: transactionData.tags }),
     };
   }
 
+  /**
+   * Create many transactions in batched writes, e.g. from a bank statement.
+   * Each batch commits on its own, so a failure can leave earlier batches saved.
+   * createdBy is the signed-in user, who differs from userId in a shared household.
+   */
+  async importTransactions(userId: string, transactions: CreateTransactionDto[], createdBy?: string): Promise<number> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const transactionsRef = collection(this.firestore, 'users', userId, 'transactions');
+
+    await this.commitInBatches(transactions, IMPORT_CONSTANTS.BATCH_SIZE, (batch, transactionData) => {
+      const date = transactionData.Date instanceof Date
+        ? transactionData.Date.toISOString()
+        : transactionData.Date || new Date().toISOString();
+
+      batch.set(doc(transactionsRef), {
+        Amount: transactionData.Amount,
+        Type: transactionData.Type,
+        Category: transactionData.Category,
+        Notes: transactionData.Notes,
+        Date: date,
+        ...(transactionData.accountId && { accountId: transactionData.accountId }),
+        ...(transactionData.toAccountId && { toAccountId: transactionData.toAccountId }),
+        ...(transactionData.currency && { currency: transactionData.currency }),
+        ...(transactionData.splits && { splits: transactionData.splits }),
+        ...(!!transactionData.tags?.length && { tags: transactionData.tags }),
+        ...(createdBy && { createdBy }),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+
+    return transactions.length;
+  }
+
+  /**
+   * Add recurring transactions from a JSON export under their exported ids.
+   * Ones that already exist are left as they are, so importing twice adds nothing.
+   */
+  async importRecurringTransactions(userId: string, recurring: RecurringImportData[], createdBy?: string): Promise<number> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const recurringRef = collection(this.firestore, 'users', userId, 'recurringTransactions');
+    const existing = await getDocs(recurringRef);
+    const existingIds = new Set(existing.docs.map(snapshot => snapshot.id));
+    const toAdd = recurring.filter(item => !existingIds.has(item.id));
+
+    await this.commitInBatches(toAdd, IMPORT_CONSTANTS.BATCH_SIZE, (batch, { id, ...recurringData }) => {
+      batch.set(doc(recurringRef, id), {
+        ...recurringData,
+        ...(createdBy && { createdBy }),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+
+    return toAdd.length;
+  }
+
   /**
    * Get transactions for a user
    */
@@ -175,11 +260,126 @@ export class TransactionService extends BaseService {
       throw new Error('User ID and transaction IDs are required');
     }
 
-    const deletePromises = transactionIds.map(id => 
-      this.deleteTransaction(userId, id)
+    await this.commitInBatches(transactionIds, BULK_CONSTANTS.BATCH_SIZE, (batch, id) => {
+      batch.delete(doc(this.firestore, 'users', userId, 'transactions', id));
+    });
+  }
+
+  /**
+   * Delete, recategorize, retype or shift the dates of many transactions.
+   * Returns the documents as they were so the whole operation can be undone.
+   */
+  async bulkUpdateTransactions(userId: string, operation: BulkTransactionOperation): Promise<BulkOperationResult> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+    if (!operation.transactionIds.length) {
+      throw new Error(BULK_ERRORS.NOTHING_SELECTED);
+    }
+
+    const updateData = operation.type === 'categorize'
+      ? { Category: operation.updateData?.Category }
+      : operation.updateData || {};
+    if (operation.type === 'categorize' && !updateData.Category) {
+      throw new Error(BULK_ERRORS.CATEGORY_REQUIRED);
+    }
+    if (updateData.Type && updateData.Type !== 'income' && updateData.Type !== 'expense') {
+      throw new Error(BULK_ERRORS.INVALID_TYPE);
+    }
+    const shiftDays = operation.shiftDays || 0;
+    if (operation.type === 'shiftDates' &&
+        (!Number.isInteger(shiftDays) || shiftDays === 0 || Math.abs(shiftDays) > BULK_CONSTANTS.MAX_SHIFT_DAYS)) {
+      throw new Error(BULK_ERRORS.INVALID_SHIFT);
+    }
+
+    const previous = await this.getStoredTransactions(userId, operation.transactionIds);
+
+    // A transfer's type and category describe the transfer itself
+    const changesTypeOrCategory = operation.type === 'categorize' ||
+      (operation.type === 'update' && (!!updateData.Type || !!updateData.Category));
+    const targets = changesTypeOrCategory
+      ? previous.filter(transaction => transaction.Type !== 'transfer')
+      : previous;
+
+    await this.commitInBatches(targets, BULK_CONSTANTS.BATCH_SIZE, (batch, transaction) => {
+      const transactionRef = doc(this.firestore, 'users', userId, 'transactions', transaction.id);
+
+      switch (operation.type) {
+        case 'delete':
+          batch.delete(transactionRef);
+          break;
+        case 'shiftDates':
+          batch.update(transactionRef, stampRevision({
+            Date: addDays(TransactionUtils.parseDate(transaction.Date), shiftDays).toISOString(),
+            updatedAt: new Date(),
+          }, transaction));
+          break;
+        default:
+          batch.update(transactionRef, stampRevision({
+            ...Object.fromEntries(Object.entries(updateData).filter(([, value]) => value !== undefined)),
+            // A new category or type replaces the split between categories
+            ...(changesTypeOrCategory && hasSplits(transaction) && { splits: null }),
+            updatedAt: new Date(),
+          }, transaction));
+      }
+    });
+
+    return {
+      type: operation.type,
+      affected: targets.length,
+      skipped: operation.transactionIds.length - targets.length,
+      previous: targets,
+    };
+  }
+
+  /**
+   * Write transactions back exactly as they were, recreating deleted ones.
+   * Restored fields are stamped against the current revision.
+   */
+  async restoreTransactions(userId: string, transactions: Transaction[]): Promise<void> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const current = await this.getStoredTransactions(userId, transactions.map(transaction => transaction.id));
+    const currentById = new Map(current.map(transaction => [transaction.id, transaction]));
+
+    await this.commitInBatches(transactions, BULK_CONSTANTS.BATCH_SIZE, (batch, { id, ...data }) => {
+      batch.set(
+        doc(this.firestore, 'users', userId, 'transactions', id),
+        stampRevision(data, currentById.get(id) || null)
+      );
+    });
+  }
+
+  /**
+   * Read transactions by ID, skipping any that no longer exist
+   */
+  private async getStoredTransactions(userId: string, transactionIds: string[]): Promise<Transaction[]> {
+    const snapshots = await Promise.all(
+      Array.from(new Set(transactionIds)).map(id =>
+        getDoc(doc(this.firestore, 'users', userId, 'transactions', id))
+      )
     );
 
-    await Promise.all(deletePromises);
+    return snapshots
+      .filter(snapshot => snapshot.exists())
+      .map(snapshot => ({ id: snapshot.id, ...snapshot.data() } as Transaction));
+  }
+
+  /**
+   * Commit writes in chunks under Firestore's 500-write batch limit
+   */
+  private async commitInBatches<T>(
+    items: T[],
+    batchSize: number,
+    write: (batch: WriteBatch, item: T) => void
+  ): Promise<void> {
+    for (let start = 0; start < items.length; start += batchSize) {
+      const batch = writeBatch(this.firestore);
+      items.slice(start, start + batchSize).forEach(item => write(batch, item));
+      await batch.commit();
+    }
   }
 
   /**
@@ -6,13 +6,14 @@
 
 // Re-export existing types for backward compatibility
 export * from '../../../shared/types';
-import { Transaction, RecurringTransaction } from '../../../shared/types';
+import { Transaction, RecurringTransaction, TransactionType, ImportFileFormat, ImportDateFormat, CsvColumnMapping, ImportPreset, TransactionSplit } from '../../../shared/types';
 
 export interface TransactionFilters {
   dateRange?: { start: Date; end: Date };
   categories?: string[];
-  types?: ('income' | 'expense')[];
+  types?: TransactionType[];
   amountRange?: { min: number; max: number };
+  tags?: string[]; // Any of these, ignoring case
   searchTerm?: string;
 }
 
@@ -47,10 +48,15 @@ export interface TransactionAnalytics {
 
 export interface CreateTransactionDto {
   Amount: number;
-  Type: 'income' | 'expense';
+  Type: TransactionType;
   Category: string;
   Notes: string;
   Date?: Date | string;
+  accountId?: string;
+  toAccountId?: string; // Transfers only
+  currency?: string;
+  splits?: TransactionSplit[]; // Add up to Amount
+  tags?: string[];
 }
 
 export interface UpdateTransactionDto extends Partial<CreateTransactionDto> {
@@ -82,9 +88,17 @@ export interface TransactionFormData {
 }
 
 export interface BulkTransactionOperation {
-  type: 'delete' | 'update' | 'categorize';
+  type: 'delete' | 'update' | 'categorize' | 'shiftDates';
   transactionIds: string[];
   updateData?: Partial<UpdateTransactionDto>;
+  shiftDays?: number; // 'shiftDates' only, negative moves dates earlier
+}
+
+export interface BulkOperationResult {
+  type: BulkTransactionOperation['type'];
+  affected: number;
+  skipped: number; // Transfers keep their own type and category
+  previous: Transaction[]; // Stored documents before the change, used to undo it
 }
 
 // Import/Export types
@@ -93,7 +107,68 @@ export interface TransactionImportData {
   amount: number;
   description: string;
   category?: string;
-  type?: 'income' | 'expense';
+  type?: TransactionType;
+  currency?: string;
+  accountId?: string;
+  toAccountId?: string;
+  splits?: TransactionSplit[];
+  tags?: string[];
+}
+
+export interface ParsedImportFile {
+  format: ImportFileFormat;
+  rows: TransactionImportData[];
+  errors: string[]; // One message per row that couldn't be read
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportParseOptions {
+  dateFormat: ImportDateFormat;
+  columnMapping?: CsvColumnMapping;
+}
+
+// A parsed row as shown in the import preview
+export interface ImportPreviewRow extends TransactionImportData {
+  rowId: string;
+  type: TransactionType;
+  category: string;
+  duplicateOf?: string; // Id of the existing transaction it matches
+  ruleIds?: string[]; // Categorization rules that changed it
+  selected: boolean;
+}
+
+export type SaveImportPresetDto = Omit<ImportPreset, 'id' | 'createdAt' | 'updatedAt'> & {
+  id?: string; // Updates the preset when set
+};
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  recurringImported: number; // Recurring transactions from a JSON export, existing ones are kept
+}
+
+// Stored fields with dates as ISO strings, as written to JSON exports
+export type ExportedTransaction = Omit<Transaction, 'Date'> & { Date: string | null };
+
+type RecurringDateField = 'endDate' | 'nextDueDate' | 'createdAt' | 'lastProcessed' | 'lastSkipped';
+export type ExportedRecurringTransaction = Omit<RecurringTransaction, RecurringDateField> &
+  Partial<Record<RecurringDateField, string | null>>;
+
+// A recurring transaction read from a JSON export, added under its exported id
+export type RecurringImportData = Omit<
+  RecurringTransaction,
+  'createdAt' | 'lastProcessed' | 'lastSkipped' | 'revision' | 'baseRevision' | 'createdBy'
+>;
+
+export interface TransactionExportFile {
+  version: number;
+  exportedAt: string;
+  transactions: ExportedTransaction[];
+  recurringTransactions?: ExportedRecurringTransaction[];
 }
 
 export interface TransactionExportOptions {
@@ -0,0 +1,644 @@
+/**
+ * Import Utilities
+ *
+ * Parsing and matching helpers for bank statement imports (CSV, OFX, QIF)
+ * and for re-importing our own CSV and JSON exports.
+ */
+
+import { isSameDay, isValid, parse } from 'date-fns';
+import { Transaction, TransactionType, RecurringFrequency, CategoryRule, CsvColumnMapping, ImportDateFormat, ImportFileFormat } from '../../../shared/types';
+import { TRANSFER_CATEGORY } from '../../../shared/constants';
+import {
+  CreateTransactionDto,
+  CsvTable,
+  ExportedRecurringTransaction,
+  ImportPreviewRow,
+  RecurringImportData,
+  TransactionExportFile,
+  TransactionImportData,
+} from '../types/transaction.types';
+import { IMPORT_CONSTANTS, IMPORT_ERRORS } from '../constants/transaction.constants';
+import { TransactionUtils } from './transaction.utils';
+import { getPrimarySplitCategory, parseSplits, validateSplits } from '../../../shared/utils/splits';
+import { resolveCategoryAlias } from '../../../shared/utils/categories';
+import { cleanTags, parseTags } from '../../../shared/utils/tags';
+import { applyRules, type RuleChanges } from '../../../shared/utils/rules';
+
+type ParsedRows = { rows: TransactionImportData[]; errors: string[]; recurring?: RecurringImportData[] };
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+const TRANSACTION_TYPES: TransactionType[] = ['income', 'expense', 'transfer'];
+const RECURRING_FREQUENCIES: RecurringFrequency[] = ['weekly', 'monthly', 'yearly'];
+
+const normalizeText = (text: string | undefined): string =>
+  (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Records end at line breaks outside quotes, so quoted fields can span lines (RFC 4180)
+const splitCsvRecords = (text: string): string[] => {
+  const records: string[] = [];
+  let record = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || (char === '\r' && text[i + 1] === '\n'))) {
+      if (char === '\r') i++;
+      records.push(record);
+      record = '';
+      continue;
+    }
+    record += char;
+  }
+  records.push(record);
+  return records;
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+// Only set optional mapping fields for columns that exist
+const optional = (field: keyof CsvColumnMapping, column: string | undefined) =>
+  column ? { [field]: column } : {};
+
+// Signed amount, so callers can tell spending from income
+const toImportRow = (
+  date: Date,
+  signedAmount: number,
+  description: string,
+  extra: Partial<TransactionImportData> = {}
+): TransactionImportData => ({
+  date: date.toISOString(),
+  amount: Math.abs(signedAmount),
+  description: description.trim(),
+  type: signedAmount < 0 ? 'expense' : 'income',
+  ...extra,
+});
+
+export const ImportUtils = {
+  /**
+   * Work out the file format from its extension, falling back to its content
+   */
+  detectFormat: (fileName: string, text: string): ImportFileFormat | null => {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+    if (extension === 'qif') return 'qif';
+    if (extension === 'csv') return 'csv';
+    if (extension === 'json') return 'json';
+
+    const head = text.trimStart().slice(0, 500);
+    if (head.startsWith('{')) return 'json';
+    if (/<OFX>|OFXHEADER/i.test(head)) return 'ofx';
+    if (/^!Type:/i.test(head)) return 'qif';
+    if (CSV_DELIMITERS.some(delimiter => head.includes(delimiter))) return 'csv';
+    return null;
+  },
+
+  /**
+   * Split CSV text into a header row and data rows. Lines before the header,
+   * such as account details some banks print first, are skipped.
+   */
+  parseCsv: (text: string): CsvTable => {
+    const lines = splitCsvRecords(text.replace(/^\uFEFF/, '')).filter(line => line.trim().length > 0);
+    if (lines.length === 0) return { headers: [], rows: [] };
+
+    const firstLines = lines.slice(0, 10).join('\n');
+    const delimiter = CSV_DELIMITERS
+      .map(candidate => ({ candidate, count: firstLines.split(candidate).length }))
+      .sort((a, b) => b.count - a.count)[0].candidate;
+
+    const table = lines.map(line => splitCsvLine(line, delimiter));
+
+    // The header has the same number of columns as most data rows
+    const counts = new Map<number, number>();
+    table.forEach(row => {
+      if (row.length > 1) counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    });
+    const columnCount = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+    const headerIndex = Math.max(0, table.findIndex(row => row.length === columnCount));
+
+    return {
+      headers: table[headerIndex],
+      rows: table.slice(headerIndex + 1).filter(row => row.length === columnCount),
+    };
+  },
+
+  /**
+   * Guess which columns hold the date, description and amounts
+   */
+  guessCsvMapping: (headers: string[]): CsvColumnMapping => {
+    const find = (pattern: RegExp) => headers.find(header => pattern.test(header));
+    const debit = find(/debit|withdrawal|money out|paid out/i);
+    const credit = find(/credit|deposit|money in|paid in/i);
+
+    return {
+      date: find(/date|posted/i) || headers[0] || '',
+      description: find(/desc|narrative|details|payee|particulars|memo|reference/i) || headers[1] || '',
+      ...(debit && credit
+        ? { debit, credit }
+        : { amount: find(/amount|value/i) || '' }),
+      invertAmounts: false,
+      ...optional('type', find(/^(transaction )?type$/i)),
+      ...optional('category', find(/category/i)),
+      ...optional('currency', find(/^currency$/i)),
+      ...optional('accountId', find(/^(from )?account( id)?$/i)),
+      ...optional('toAccountId', find(/^to account( id)?$/i)),
+      ...optional('splits', find(/^splits$/i)),
+      ...optional('tags', find(/^tags?$/i)),
+    };
+  },
+
+  /**
+   * Whether a saved mapping still fits this file's columns
+   */
+  isMappingValid: (mapping: CsvColumnMapping | undefined, headers: string[]): boolean => {
+    if (!mapping || !mapping.date || !mapping.description) return false;
+    const columns = [
+      mapping.date, mapping.description, mapping.amount, mapping.debit, mapping.credit,
+      mapping.type, mapping.category, mapping.currency, mapping.accountId, mapping.toAccountId,
+      mapping.splits, mapping.tags,
+    ].filter((column): column is string => !!column);
+    const hasAmount = !!mapping.amount || (!!mapping.debit && !!mapping.credit);
+    return hasAmount && columns.every(column => headers.includes(column));
+  },
+
+  /**
+   * Parse a statement date. Dashes and dots are accepted in place of slashes.
+   */
+  parseDate: (value: string, dateFormat: ImportDateFormat): Date | null => {
+    let text = value.trim();
+    if (!text) return null;
+
+    // Full ISO timestamps, as written by our own exports
+    if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+      const date = new Date(text);
+      return isValid(date) ? date : null;
+    }
+
+    // QIF writes years after 2000 as M/D'YY
+    text = text.replace(/'\s*/, '/');
+    if (dateFormat.includes('/')) {
+      text = text.replace(/[-.]/g, '/').split(' ')[0];
+      const parts = text.split('/');
+      if (parts.length === 3 && parts[2].length === 2) {
+        parts[2] = `20${parts[2]}`;
+        text = parts.join('/');
+      }
+    } else if (dateFormat === 'dd MMM yyyy') {
+      text = text.replace(/[-/]/g, ' ');
+    }
+
+    const date = parse(text, dateFormat, new Date());
+    if (isValid(date)) return date;
+
+    const fallback = new Date(value);
+    return isValid(fallback) ? fallback : null;
+  },
+
+  /**
+   * Parse an amount such as "1,234.50", "(12.00)", "12.00-", "12,50" or "5.00 DR"
+   */
+  parseAmount: (value: string | undefined): number | null => {
+    let text = (value || '').trim();
+    if (!text) return null;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+      negative = true;
+      text = text.slice(1, -1);
+    }
+    if (/-$/.test(text)) {
+      negative = true;
+      text = text.slice(0, -1);
+    }
+    if (/\s*DR$/i.test(text)) {
+      negative = true;
+      text = text.replace(/\s*DR$/i, '');
+    }
+    text = text.replace(/\s*CR$/i, '').replace(/[^0-9.,-]/g, '');
+
+    // Decimal comma, e.g. "1.234,56"
+    if (/,\d{1,2}$/.test(text) && !/\.\d{1,2}$/.test(text)) {
+      text = text.replace(/\./g, '').replace(',', '.');
+    } else {
+      text = text.replace(/,/g, '');
+    }
+
+    const amount = parseFloat(text);
+    if (isNaN(amount)) return null;
+    return negative ? -Math.abs(amount) : amount;
+  },
+
+  /**
+   * Turn CSV rows into import rows using the column mapping
+   */
+  mapCsvRows: (table: CsvTable, mapping: CsvColumnMapping, dateFormat: ImportDateFormat): ParsedRows => {
+    const rows: TransactionImportData[] = [];
+    const errors: string[] = [];
+    const column = (name: string | undefined) => (name ? table.headers.indexOf(name) : -1);
+    const dateIndex = column(mapping.date);
+    const descriptionIndex = column(mapping.description);
+    const amountIndex = column(mapping.amount);
+    const debitIndex = column(mapping.debit);
+    const creditIndex = column(mapping.credit);
+    const typeIndex = column(mapping.type);
+    const text = (row: string[], name: string | undefined) => {
+      const index = column(name);
+      return index >= 0 ? (row[index] || '').trim() : '';
+    };
+
+    table.rows.forEach((row, index) => {
+      const line = index + 1;
+      const date = ImportUtils.parseDate(row[dateIndex] || '', dateFormat);
+      if (!date) {
+        errors.push(`Row ${line}: couldn't read the date "${row[dateIndex] || ''}"`);
+        return;
+      }
+
+      let amount: number | null;
+      if (amountIndex >= 0) {
+        amount = ImportUtils.parseAmount(row[amountIndex]);
+        if (amount !== null && mapping.invertAmounts) amount = -amount;
+      } else {
+        const debit = ImportUtils.parseAmount(row[debitIndex]);
+        const credit = ImportUtils.parseAmount(row[creditIndex]);
+        amount = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+      }
+
+      if (!amount) {
+        errors.push(`Row ${line}: no amount`);
+        return;
+      }
+
+      const type = (typeIndex >= 0 ? row[typeIndex] : '').trim().toLowerCase() as TransactionType;
+      const currency = text(row, mapping.currency).toUpperCase();
+      const accountId = text(row, mapping.accountId);
+      const toAccountId = text(row, mapping.toAccountId);
+      // Splits that no longer add up to the amount are dropped, not guessed at
+      const splits = parseSplits(text(row, mapping.splits));
+      const tags = parseTags(text(row, mapping.tags));
+      rows.push(toImportRow(date, amount, row[descriptionIndex] || '', {
+        ...(TRANSACTION_TYPES.includes(type) && { type }),
+        ...(text(row, mapping.category) && { category: text(row, mapping.category) }),
+        ...(/^[A-Z]{3}$/.test(currency) && { currency }),
+        ...(accountId && { accountId }),
+        ...(toAccountId && { toAccountId }),
+        ...(splits && !validateSplits(splits, Math.abs(amount)) && { splits }),
+        ...(tags.length > 0 && { tags }),
+      }));
+    });
+
+    return { rows, errors };
+  },
+
+  /**
+   * Parse the STMTTRN entries of an OFX or QFX file. Dates are always
+   * YYYYMMDD and amounts are signed, so no options are needed.
+   */
+  parseOfx: (text: string): ParsedRows => {
+    const rows: TransactionImportData[] = [];
+    const errors: string[] = [];
+    const currency = text.match(/<CURDEF>\s*([A-Z]{3})/i)?.[1]?.toUpperCase();
+    const field = (block: string, tag: string) =>
+      decodeEntities(block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1]?.trim() || '');
+
+    const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+    blocks.forEach((block, index) => {
+      const line = index + 1;
+      const posted = field(block, 'DTPOSTED');
+      const date = posted.length >= 8
+        ? new Date(Number(posted.slice(0, 4)), Number(posted.slice(4, 6)) - 1, Number(posted.slice(6, 8)))
+        : null;
+      const amount = ImportUtils.parseAmount(field(block, 'TRNAMT'));
+
+      if (!date || !isValid(date)) {
+        errors.push(`Transaction ${line}: couldn't read the date "${posted}"`);
+        return;
+      }
+      if (!amount) {
+        errors.push(`Transaction ${line}: no amount`);
+        return;
+      }
+
+      const name = field(block, 'NAME');
+      const memo = field(block, 'MEMO');
+      const description = name && memo && !memo.includes(name) ? `${name} ${memo}` : name || memo;
+      rows.push(toImportRow(date, amount, description, currency ? { currency } : {}));
+    });
+
+    return { rows, errors };
+  },
+
+  /**
+   * Parse a QIF bank export. Categories in the L field are kept as hints.
+   */
+  parseQif: (text: string, dateFormat: ImportDateFormat): ParsedRows => {
+    const rows: TransactionImportData[] = [];
+    const errors: string[] = [];
+    let record: Record<string, string> = {};
+    let count = 0;
+
+    const finishRecord = () => {
+      if (Object.keys(record).length === 0) return;
+      count++;
+
+      const date = ImportUtils.parseDate(record.D || '', dateFormat);
+      const amount = ImportUtils.parseAmount(record.T || record.U);
+      if (!date) {
+        errors.push(`Transaction ${count}: couldn't read the date "${record.D || ''}"`);
+      } else if (!amount) {
+        errors.push(`Transaction ${count}: no amount`);
+      } else {
+        // [Account] categories are transfers in other apps
+        const category = record.L && !record.L.startsWith('[') ? record.L.split(':')[0] : undefined;
+        rows.push(toImportRow(date, amount, record.P || record.M || '', category ? { category } : {}));
+      }
+      record = {};
+    };
+
+    text.split(/\r?\n/).forEach(rawLine => {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('!')) return;
+      if (line.startsWith('^')) {
+        finishRecord();
+        return;
+      }
+      record[line[0]] = line.slice(1).trim();
+    });
+    finishRecord();
+
+    return { rows, errors };
+  },
+
+  /**
+   * Read a JSON file written by the export, keeping every stored field
+   */
+  parseJson: (text: string): ParsedRows => {
+    let file: Partial<TransactionExportFile>;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      return { rows: [], errors: [IMPORT_ERRORS.INVALID_JSON] };
+    }
+    if (!file || !Array.isArray(file.transactions)) {
+      return { rows: [], errors: [IMPORT_ERRORS.INVALID_JSON] };
+    }
+
+    const rows: TransactionImportData[] = [];
+    const errors: string[] = [];
+    file.transactions.forEach((transaction, index) => {
+      const line = index + 1;
+      const date = transaction.Date ? new Date(transaction.Date) : null;
+      if (!date || !isValid(date)) {
+        errors.push(`Transaction ${line}: couldn't read the date "${transaction.Date || ''}"`);
+        return;
+      }
+      if (!transaction.Amount || !TRANSACTION_TYPES.includes(transaction.Type)) {
+        errors.push(`Transaction ${line}: missing amount or type`);
+        return;
+      }
+
+      rows.push({
+        date: date.toISOString(),
+        amount: Math.abs(transaction.Amount),
+        description: transaction.Notes || '',
+        type: transaction.Type,
+        category: transaction.Category,
+        ...(transaction.currency && { currency: transaction.currency }),
+        ...(transaction.accountId && { accountId: transaction.accountId }),
+        ...(transaction.toAccountId && { toAccountId: transaction.toAccountId }),
+        ...(Array.isArray(transaction.splits) && !validateSplits(transaction.splits, Math.abs(transaction.Amount)) && {
+          splits: transaction.splits,
+        }),
+        ...(Array.isArray(transaction.tags) && transaction.tags.length > 0 && { tags: cleanTags(transaction.tags) }),
+      });
+    });
+
+    const recurring = ImportUtils.parseRecurring(file.recurringTransactions || [], errors);
+    return { rows, errors, ...(recurring.length > 0 && { recurring }) };
+  },
+
+  /**
+   * Recurring transactions from a JSON export, with their dates read back.
+   * How far each series has got is kept, so nothing already posted is posted again.
+   */
+  parseRecurring: (exported: ExportedRecurringTransaction[], errors: string[] = []): RecurringImportData[] => {
+    const recurring: RecurringImportData[] = [];
+    exported.forEach((entry, index) => {
+      const line = index + 1;
+      const nextDueDate = entry.nextDueDate ? new Date(entry.nextDueDate) : null;
+      if (!entry.id || !nextDueDate || !isValid(nextDueDate)) {
+        errors.push(`Recurring transaction ${line}: couldn't read the next due date "${entry.nextDueDate || ''}"`);
+        return;
+      }
+      if (!entry.Amount || (entry.Type !== 'income' && entry.Type !== 'expense') ||
+        !RECURRING_FREQUENCIES.includes(entry.frequency)) {
+        errors.push(`Recurring transaction ${line}: missing amount, type or frequency`);
+        return;
+      }
+
+      const endDate = entry.endDate ? new Date(entry.endDate) : null;
+      recurring.push({
+        id: entry.id,
+        Amount: Math.abs(entry.Amount),
+        Type: entry.Type,
+        Category: entry.Category,
+        Notes: entry.Notes || '',
+        ...(entry.accountId && { accountId: entry.accountId }),
+        ...(entry.currency && { currency: entry.currency }),
+        frequency: entry.frequency,
+        ...(entry.interval && { interval: entry.interval }),
+        monthRule: entry.monthRule || null,
+        endDate: endDate && isValid(endDate) ? endDate : null,
+        maxOccurrences: entry.maxOccurrences || null,
+        ...(entry.timeZone && { timeZone: entry.timeZone }),
+        occurrenceCount: entry.occurrenceCount || 0,
+        nextDueDate,
+        isActive: entry.isActive !== false,
+      });
+    });
+    return recurring;
+  },
+
+  /**
+   * Short, stable key for a bank description, e.g. "GRAB*TRIP 8812 SG"
+   * becomes "grab trip sg"
+   */
+  getDescriptionKey: (description: string): string => {
+    return normalizeText(description.replace(/[^a-zA-Z]+/g, ' '))
+      .split(' ')
+      .filter(Boolean)
+      .slice(0, IMPORT_CONSTANTS.DESCRIPTION_KEY_WORDS)
+      .join(' ');
+  },
+
+  /**
+   * Pick a category for a bank description. Tries the file's own category,
+   * then what was chosen for similar descriptions before, then a category
+   * named in the description.
+   */
+  suggestCategory: (
+    row: TransactionImportData,
+    categoryMap: Record<string, string>,
+    categories: string[]
+  ): string => {
+    if (row.category) {
+      const match = categories.find(category => normalizeText(category) === normalizeText(row.category));
+      if (match) return match;
+    }
+
+    const learned = categoryMap[ImportUtils.getDescriptionKey(row.description)];
+    if (learned && categories.includes(learned)) return learned;
+
+    const description = ` ${normalizeText(row.description.replace(/[^a-zA-Z&]+/g, ' '))} `;
+    const similarKey = Object.keys(categoryMap)
+      .filter(key => key && description.includes(` ${key} `) && categories.includes(categoryMap[key]))
+      .sort((a, b) => b.length - a.length)[0];
+    if (similarKey) return categoryMap[similarKey];
+
+    const named = categories.find(category => description.includes(` ${normalizeText(category)} `));
+    if (named) return named;
+
+    return categories.includes(IMPORT_CONSTANTS.DEFAULT_CATEGORY)
+      ? IMPORT_CONSTANTS.DEFAULT_CATEGORY
+      : categories[0] || IMPORT_CONSTANTS.DEFAULT_CATEGORY;
+  },
+
+  /**
+   * Existing transaction with the same day, amount and notes, if any
+   */
+  findDuplicate: (row: TransactionImportData, transactions: Transaction[]): Transaction | undefined => {
+    const date = new Date(row.date);
+    const notes = normalizeText(row.description);
+
+    return transactions.find(transaction =>
+      (!row.type || transaction.Type === row.type) &&
+      Math.abs(transaction.Amount - row.amount) < 0.005 &&
+      normalizeText(transaction.Notes) === notes &&
+      isSameDay(TransactionUtils.parseDate(transaction.Date), date)
+    );
+  },
+
+  /**
+   * Preview rows with categories from the user's rules, or suggested ones.
+   * Duplicates start unselected and account ids that don't exist for this
+   * user are dropped. Categories since renamed or merged are read under
+   * their current name.
+   */
+  buildPreview: (
+    rows: TransactionImportData[],
+    options: {
+      existingTransactions: Transaction[];
+      categoryMap: Record<string, string>;
+      categories: string[];
+      incomeCategories: string[];
+      accountIds: string[];
+      rules?: CategoryRule[];
+      categoryAliases?: Record<string, string>;
+    }
+  ): ImportPreviewRow[] => {
+    const knownAccount = (accountId: string | undefined) =>
+      accountId && options.accountIds.includes(accountId) ? accountId : undefined;
+
+    return rows.map((fileRow, index) => {
+      const row = fileRow.category
+        ? { ...fileRow, category: resolveCategoryAlias(fileRow.category, options.categoryAliases) }
+        : fileRow;
+      const duplicate = ImportUtils.findDuplicate(row, options.existingTransactions);
+      const accountId = knownAccount(row.accountId);
+      const toAccountId = knownAccount(row.toAccountId);
+
+      // Rows that name their own category keep it; rules fill in the rest
+      const { changes, ruleIds } = row.category || row.type === 'transfer'
+        ? { changes: {} as RuleChanges, ruleIds: [] }
+        : applyRules(options.rules || [], { Amount: row.amount, Type: row.type || 'expense', Notes: row.description });
+      const type = changes.Type || row.type || 'expense';
+      const typeCategories = type === 'income' ? options.incomeCategories : options.categories;
+
+      return {
+        ...row,
+        rowId: `row-${index}`,
+        type,
+        description: changes.Notes || row.description,
+        category: type === 'transfer'
+          ? TRANSFER_CATEGORY
+          : changes.Category && typeCategories.includes(changes.Category)
+            ? changes.Category
+            : ImportUtils.suggestCategory(row, options.categoryMap, typeCategories),
+        ...(changes.tags && { tags: cleanTags([...(row.tags || []), ...changes.tags]) }),
+        accountId,
+        toAccountId,
+        ...(ruleIds.length > 0 && { ruleIds }),
+        ...(duplicate && { duplicateOf: duplicate.id }),
+        selected: !duplicate,
+      };
+    });
+  },
+
+  /**
+   * Remember the categories picked for these descriptions
+   */
+  learnCategoryMap: (rows: ImportPreviewRow[], categoryMap: Record<string, string>): Record<string, string> => {
+    const learned = { ...categoryMap };
+    rows.filter(row => row.type !== 'transfer').forEach(row => {
+      const key = ImportUtils.getDescriptionKey(row.description);
+      if (key) learned[key] = row.category;
+    });
+    return learned;
+  },
+
+  /**
+   * Transaction to create for a preview row. The row's own account, from an
+   * export, wins over the account picked for the whole import. Splits are
+   * kept only while the row is still listed under its largest split.
+   */
+  toCreateDto: (row: ImportPreviewRow, accountId?: string): CreateTransactionDto => ({
+    Amount: row.amount,
+    Type: row.type,
+    Category: row.category,
+    Notes: row.description,
+    Date: new Date(row.date),
+    ...((row.accountId || accountId) && { accountId: row.accountId || accountId }),
+    ...(row.toAccountId && { toAccountId: row.toAccountId }),
+    ...(row.currency && { currency: row.currency }),
+    ...(row.splits && row.type !== 'transfer' && row.category === getPrimarySplitCategory(row.splits) && {
+      splits: row.splits,
+    }),
+    ...(!!row.tags?.length && { tags: row.tags }),
+  }),
+};
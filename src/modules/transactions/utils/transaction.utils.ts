@@ -4,9 +4,13 @@
  * Utility functions specific to transaction operations.
  */
 
+import { format } from 'date-fns';
 import { Transaction, RecurringTransaction } from '../../../shared/types';
 import { TransactionFilters, TransactionSummary, TransactionAnalytics } from '../types/transaction.types';
 import { TRANSACTION_CONSTANTS, TRANSACTION_FILTERS } from '../constants/transaction.constants';
+import { getNextOccurrence, getUpcomingOccurrences, isWithinRecurrence, toRecurrenceDate } from '../../../shared/utils/recurrence';
+import { expandSplits, getTransactionCategories, hasSplits } from '../../../shared/utils/splits';
+import { matchesTags } from '../../../shared/utils/tags';
 
 export const TransactionUtils = {
   /**
@@ -65,9 +69,9 @@ export const TransactionUtils = {
         }
       }
 
-      // Category filter
+      // Category filter, matching any of a split transaction's categories
       if (filters.categories && filters.categories.length > 0) {
-        if (!filters.categories.includes(transaction.Category)) {
+        if (!getTransactionCategories(transaction).some(category => filters.categories!.includes(category))) {
           return false;
         }
       }
@@ -79,6 +83,13 @@ export const TransactionUtils = {
         }
       }
 
+      // Tag filter, matching any of the tags
+      if (filters.tags && filters.tags.length > 0) {
+        if (!matchesTags(transaction, filters.tags)) {
+          return false;
+        }
+      }
+
       // Amount range filter
       if (filters.amountRange) {
         if (transaction.Amount < filters.amountRange.min || transaction.Amount > filters.amountRange.max) {
@@ -89,7 +100,10 @@ export const TransactionUtils = {
       // Search term filter
       if (filters.searchTerm) {
         const searchTerm = filters.searchTerm.toLowerCase();
-        const searchableText = `${transaction.Category} ${transaction.Notes}`.toLowerCase();
+        const splitText = hasSplits(transaction)
+          ? transaction.splits.map(split => `${split.Category} ${split.Notes}`).join(' ')
+          : '';
+        const searchableText = `${transaction.Category} ${transaction.Notes} ${splitText} ${(transaction.tags || []).join(' ')}`.toLowerCase();
         if (!searchableText.includes(searchTerm)) {
           return false;
         }
@@ -125,9 +139,10 @@ export const TransactionUtils = {
   },
 
   /**
-   * Generate transaction analytics
+   * Generate transaction analytics. Months and days are in order, oldest
+   * first; daily spending covers the last 30 days unless dailySince is given.
    */
-  generateAnalytics: (transactions: Transaction[]): TransactionAnalytics => {
+  generateAnalytics: (transactions: Transaction[], dailySince?: Date): TransactionAnalytics => {
     // Monthly trend
     const monthlyData = new Map<string, { income: number; expenses: number }>();
     
@@ -142,22 +157,24 @@ export const TransactionUtils = {
       const monthData = monthlyData.get(monthKey)!;
       if (transaction.Type === 'income') {
         monthData.income += transaction.Amount;
-      } else {
+      } else if (transaction.Type === 'expense') {
         monthData.expenses += transaction.Amount;
       }
     });
 
-    const monthlyTrend = Array.from(monthlyData.entries()).map(([month, data]) => ({
+    const monthlyTrend = Array.from(monthlyData.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([month, data]) => ({
       month,
       income: data.income,
       expenses: data.expenses,
       net: data.income - data.expenses,
     }));
 
-    // Category breakdown
+    // Category breakdown, with split transactions counted in each of their categories
     const categoryData = new Map<string, { amount: number; count: number }>();
     
-    transactions.forEach(transaction => {
+    // Transfers only move money between accounts
+    const categorizedTransactions = expandSplits(transactions.filter(t => t.Type !== 'transfer'));
+    categorizedTransactions.forEach(transaction => {
       if (!categoryData.has(transaction.Category)) {
         categoryData.set(transaction.Category, { amount: 0, count: 0 });
       }
@@ -167,7 +184,7 @@ export const TransactionUtils = {
       catData.count += 1;
     });
 
-    const totalAmount = transactions.reduce((sum, t) => sum + t.Amount, 0);
+    const totalAmount = categorizedTransactions.reduce((sum, t) => sum + t.Amount, 0);
     const categoryBreakdown = Array.from(categoryData.entries()).map(([category, data]) => ({
       category,
       amount: data.amount,
@@ -175,21 +192,22 @@ export const TransactionUtils = {
       transactionCount: data.count,
     }));
 
-    // Daily spending (last 30 days)
+    // Daily spending, keyed by local date so late-evening spending stays on its day
     const dailyData = new Map<string, number>();
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    const since = dailySince || thirtyDaysAgo;
 
     transactions
-      .filter(t => t.Type === 'expense' && TransactionUtils.parseDate(t.Date) >= thirtyDaysAgo)
+      .filter(t => t.Type === 'expense' && TransactionUtils.parseDate(t.Date) >= since)
       .forEach(transaction => {
         const date = TransactionUtils.parseDate(transaction.Date);
-        const dateKey = date.toISOString().split('T')[0];
+        const dateKey = format(date, 'yyyy-MM-dd');
         
         dailyData.set(dateKey, (dailyData.get(dateKey) || 0) + transaction.Amount);
       });
 
-    const dailySpending = Array.from(dailyData.entries()).map(([date, amount]) => ({
+    const dailySpending = Array.from(dailyData.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([date, amount]) => ({
       date,
       amount,
     }));
@@ -276,30 +294,28 @@ export const TransactionUtils = {
     if (!recurringTransaction.isActive) return false;
     
     const now = new Date();
-    const nextDue = new Date(recurringTransaction.nextDueDate);
+    const nextDue = toRecurrenceDate(recurringTransaction.nextDueDate);
     
-    return now >= nextDue;
+    return now >= nextDue &&
+      isWithinRecurrence(recurringTransaction, nextDue, recurringTransaction.occurrenceCount || 0);
   },
 
   /**
    * Calculate next due date for recurring transaction
    */
   calculateNextDueDate: (recurringTransaction: RecurringTransaction): Date => {
-    const currentDue = new Date(recurringTransaction.nextDueDate);
-    const nextDue = new Date(currentDue);
-
-    switch (recurringTransaction.frequency) {
-      case 'weekly':
-        nextDue.setDate(currentDue.getDate() + 7);
-        break;
-      case 'monthly':
-        nextDue.setMonth(currentDue.getMonth() + 1);
-        break;
-      case 'yearly':
-        nextDue.setFullYear(currentDue.getFullYear() + 1);
-        break;
-    }
+    return getNextOccurrence(recurringTransaction, toRecurrenceDate(recurringTransaction.nextDueDate));
+  },
 
-    return nextDue;
+  /**
+   * Preview the next occurrences of a recurring transaction, honoring its end date and limit
+   */
+  getUpcomingOccurrences: (recurringTransaction: RecurringTransaction, count: number = 5): Date[] => {
+    return getUpcomingOccurrences(
+      recurringTransaction,
+      toRecurrenceDate(recurringTransaction.nextDueDate),
+      count,
+      recurringTransaction.occurrenceCount || 0
+    );
   },
 };
\ No newline at end of file
@@ -7,6 +7,7 @@
 
 // Re-export existing types for backward compatibility
 export * from '../../shared/types';
+import type { TransactionType } from '../../shared/types';
 
 // Core Entity Types
 export interface ModuleInterface {
@@ -39,8 +40,9 @@ export interface AuthState {
 export interface TransactionFilters {
   dateRange?: { start: Date; end: Date };
   categories?: string[];
-  types?: ('income' | 'expense')[];
+  types?: TransactionType[];
   amountRange?: { min: number; max: number };
+  tags?: string[]; // Any of these, ignoring case
 }
 
 export interface TransactionSummary {
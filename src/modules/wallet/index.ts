@@ -14,7 +14,7 @@ export const WalletModule = {
   // Module capabilities
   capabilities: {
     balanceTracking: true,
-    multipleAccounts: false, // Future feature
+    multipleAccounts: true, // Cash, bank and credit card accounts with transfers
     accountSync: false, // Future feature
     investmentTracking: false, // Future feature
   },
@@ -19,6 +19,12 @@ export const DEFAULT_INCOME_CATEGORIES = [
   "Transfer"
 ] as const;
 
+/**
+ * Percentages of an expense budget that push an alert, for budgets
+ * without their own. Each is sent once a month, matching the Cloud Function.
+ */
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [80, 100] as const;
+
 /**
  * Category type configuration
  */
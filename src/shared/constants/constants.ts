@@ -32,4 +32,183 @@ export const DATE_FORMATS = {
   WEEK_RANGE: 'MMM d',
   MONTH_YEAR: 'MMMM yyyy',
   YEAR_ONLY: 'yyyy',
-} as const;
\ No newline at end of file
+} as const;
+// API tokens for Apple Shortcuts and other external clients
+export const API_TOKEN_PREFIX = 'pgb_';
+
+export const API_TOKEN_SCOPES = [
+  { value: 'transactions:write', label: 'Add transactions' },
+  { value: 'transactions:read', label: 'Read transactions' },
+  { value: 'budgets:read', label: 'Read budgets' },
+  { value: 'profile:write', label: 'Initialize profile' },
+] as const;
+
+export const API_TOKEN_PRESETS = {
+  CREATE_ONLY: ['transactions:write'],
+  READ_ONLY: ['transactions:read', 'budgets:read'],
+  FULL_ACCESS: ['transactions:write', 'transactions:read', 'budgets:read', 'profile:write'],
+} as const;
+
+// Wallet accounts
+export const ACCOUNT_TYPES = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'bank', label: 'Bank' },
+  { value: 'credit-card', label: 'Credit Card' },
+] as const;
+
+// Household members. Owners manage members, editors change data, viewers only read.
+export const HOUSEHOLD_ROLES = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'viewer', label: 'Viewer' },
+] as const;
+
+// Categorization rule conditions, with the operators each field supports
+export const RULE_CONDITION_FIELDS = [
+  { value: 'notes', label: 'Notes', operators: ['contains', 'startsWith', 'equals'] },
+  { value: 'amount', label: 'Amount', operators: ['equals', 'greaterThan', 'lessThan'] },
+  { value: 'type', label: 'Type', operators: ['equals'] },
+] as const;
+
+export const RULE_OPERATOR_LABELS = {
+  contains: 'contains',
+  startsWith: 'starts with',
+  equals: 'is',
+  greaterThan: 'is over',
+  lessThan: 'is under',
+} as const;
+
+// Category suggestions learned from the user's history
+export const LEARNED_CATEGORIES = {
+  MIN_EXAMPLES: 20, // Fewer transactions than this and suggestions are mostly noise
+  MIN_CONFIDENCE: 0.6, // Needed to fill in a missing category without asking
+  SUGGESTION_COUNT: 3,
+  ACCURACY_SAMPLE: 500, // Latest transactions checked for the accuracy stats
+} as const;
+
+// Renames and merges rewrite history in batches, saving progress with each
+export const CATEGORY_OPERATIONS = {
+  BATCH_SIZE: 400, // Firestore allows 500 writes per batch, one is the progress
+  LABELS: { rename: 'Renaming', merge: 'Merging' },
+} as const;
+
+export const BUDGET_ROLLOVER_LABELS = {
+  none: 'No rollover',
+  surplus: 'Carry unspent money',
+  both: 'Carry unspent and overspent',
+} as const;
+
+// Reminders delivered from the server. Kinds with a frequency always use it.
+export const NOTIFICATION_SCHEDULE_KINDS = {
+  'log-reminder': {
+    label: 'Spending check-in',
+    description: "Asks whether you've logged today's spending, unless you already have.",
+  },
+  'bill-reminder': {
+    label: 'Bills due tomorrow',
+    description: 'Lists recurring expenses due the next day. Skipped when there are none.',
+    frequency: 'daily',
+  },
+  'weekly-digest': {
+    label: 'Weekly digest',
+    description: 'The last seven days against the seven before, with budgets at risk and bills coming up.',
+    frequency: 'weekly',
+  },
+  'monthly-digest': {
+    label: 'Monthly digest',
+    description: 'Last month against the month before, sent on the 1st.',
+    frequency: 'monthly',
+    dayOfMonth: 1,
+  },
+  custom: {
+    label: 'Custom reminder',
+    description: 'Your own message.',
+  },
+} as const;
+
+// Digests are set up from the digests page rather than as reminders
+export const DIGEST_SCHEDULE_KINDS = {
+  weekly: 'weekly-digest',
+  monthly: 'monthly-digest',
+} as const;
+
+// Digests are on until switched off, at these times until changed; matches
+// deliverDigests in functions/src/index.ts
+export const DIGEST_DEFAULTS = {
+  weekday: 1, // Monday, for the week just gone
+  time: '09:00',
+} as const;
+
+export const DIGEST_REPORTS_SHOWN = 24; // Latest digests listed on the digests page
+
+export const REPORT_METRIC_LABELS = {
+  sum: 'Total',
+  count: 'Number of transactions',
+  average: 'Average',
+  median: 'Median',
+} as const;
+
+export const REPORT_GROUP_BY_LABELS = {
+  category: 'Category',
+  tag: 'Tag',
+  weekday: 'Day of the week',
+  month: 'Month',
+  account: 'Account',
+} as const;
+
+export const REPORT_CHART_TYPE_LABELS = {
+  bar: 'Bar chart',
+  line: 'Line chart',
+  area: 'Area chart',
+  pie: 'Pie chart',
+} as const;
+
+export const REPORT_PERIOD_LABELS = {
+  last7: 'Last 7 days',
+  last30: 'Last 30 days',
+  thisMonth: 'This month',
+  lastMonth: 'Last month',
+  thisYear: 'This year',
+  all: 'All time',
+  custom: 'Custom range',
+} as const;
+
+export const NOTIFICATION_FREQUENCY_LABELS = {
+  once: 'Once',
+  daily: 'Every day',
+  weekly: 'Every week',
+  monthly: 'Every month',
+} as const;
+
+export const NOTIFICATION_TIMING = {
+  FALLBACK_TIME: '09:00', // Suggested until there's enough open history
+  MIN_OPENS: 5, // Opened notifications needed before suggesting from history
+  HISTORY_SAMPLE: 100, // Latest delivered notifications looked at
+} as const;
+
+// Dashboard member filter value for the whole household
+export const ALL_MEMBERS = 'all';
+
+// Category stored on transfers; distinct from the "Transfer" income category
+export const TRANSFER_CATEGORY = 'Account Transfer';
+
+// Balance bucket for transactions recorded before accounts existed
+export const UNASSIGNED_ACCOUNT_ID = 'unassigned';
+
+// Currencies
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = [
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'SGD', label: 'Singapore Dollar' },
+  { code: 'MYR', label: 'Malaysian Ringgit' },
+  { code: 'JPY', label: 'Japanese Yen' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'AUD', label: 'Australian Dollar' },
+  { code: 'HKD', label: 'Hong Kong Dollar' },
+  { code: 'CNY', label: 'Chinese Yuan' },
+  { code: 'THB', label: 'Thai Baht' },
+  { code: 'IDR', label: 'Indonesian Rupiah' },
+  { code: 'KRW', label: 'South Korean Won' },
+] as const;
@@ -1,6 +1,13 @@
 
 export type CategoryType = 'income' | 'expense';
-export type TransactionType = 'income' | 'expense';
+export type TransactionType = 'income' | 'expense' | 'transfer'; // Transfers move money between accounts, never counted as income or expense
+
+// Part of a transaction's amount counted towards one category
+export interface TransactionSplit {
+  Category: string;
+  Amount: number; // In the transaction's currency
+  Notes: string;
+}
 
 export interface Transaction {
   id: string;
@@ -9,26 +16,128 @@ export interface Transaction {
   Type: TransactionType;
   Category: string;
   Notes: string;
+  accountId?: string | null; // Optional, older transactions have no account
+  toAccountId?: string | null; // Destination account, transfers only
+  currency?: string; // ISO 4217 code, missing means the user's base currency
+  revision?: string; // Changes on every checked write, see shared/utils/revision
+  baseRevision?: string | null;
+  createdBy?: string; // Household member who entered it, missing means the data owner
+  splits?: TransactionSplit[] | null; // Add up to Amount; Category is then the largest split's
+  tags?: string[]; // Free-form labels across categories, e.g. "JB trip", "reimbursable"
+}
+
+export type AccountType = 'cash' | 'bank' | 'credit-card';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number; // Credit cards hold a negative balance when money is owed
+  createdAt: Date;
+  isArchived?: boolean;
+  lastReconciledAt?: Date | null;
+  lastReconciledBalance?: number | null;
+}
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'yearly';
+
+// How monthly and yearly occurrences pick their day within the month
+export type RecurrenceMonthRule =
+  | { type: 'day-of-month'; day: number } // Clamped to the month's length
+  | { type: 'last-day' }
+  | { type: 'last-business-day' }
+  | { type: 'nth-weekday'; week: 1 | 2 | 3 | 4 | -1; weekday: number }; // week -1 = last, weekday 0 = Sunday
+
+export interface RecurrenceRule {
+  frequency: RecurringFrequency;
+  interval?: number; // Every N weeks/months/years, defaults to 1
+  monthRule?: RecurrenceMonthRule | null;
+  endDate?: Date | null;
+  maxOccurrences?: number | null;
+  timeZone?: string; // IANA zone its days are counted in, the device's when missing
 }
 
 export interface RecurringTransaction {
   id: string;
   Amount: number;
-  Type: TransactionType;
+  Type: Exclude<TransactionType, 'transfer'>; // Transfers are one-off for now
   Category: string;
   Notes: string;
-  frequency: 'weekly' | 'monthly' | 'yearly';
+  accountId?: string | null;
+  currency?: string;
+  frequency: RecurringFrequency;
+  interval?: number;
+  monthRule?: RecurrenceMonthRule | null;
+  endDate?: Date | null;
+  maxOccurrences?: number | null;
+  timeZone?: string; // See RecurrenceRule
+  occurrenceCount?: number; // Occurrences posted so far, compared against maxOccurrences
   nextDueDate: Date;
   isActive: boolean;
   createdAt: Date;
   lastProcessed?: Date;
+  lastSkipped?: Date;
+  revision?: string;
+  baseRevision?: string | null;
+  createdBy?: string; // Copied onto each occurrence it posts
 }
 
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate: Date;
+  savedAmount: number; // Running total of contributions
+  createdAt: Date;
+  lastNotifiedMilestone?: number; // Highest progress milestone (percent) already announced
+  isArchived?: boolean;
+}
+
+export interface SavingsContribution {
+  id: string;
+  goalId: string;
+  amount: number; // Negative for withdrawals
+  date: Date;
+  transactionId?: string | null; // Transaction the money came from, if any
+  notes?: string;
+}
+
+// What's left of a month's budget moves into the next: nothing, only money
+// left unspent, or overspending too, which reduces the next month
+export type BudgetRolloverMode = 'none' | 'surplus' | 'both';
+
 export interface Budget {
   id: string;
   Category: string;
   MonthlyBudget: number;
   type?: CategoryType; // Optional for backward compatibility, defaults to 'expense'
+  rollover?: BudgetRolloverMode; // Defaults to 'none'
+  alertThresholds?: number[]; // Percentages that push an alert, missing means the defaults, empty turns alerts off
+  revision?: string;
+  baseRevision?: string | null;
+}
+
+// One expense budget in a month's snapshot; income budgets don't roll over
+export interface BudgetSnapshotEntry {
+  Category: string;
+  budgeted: number; // MonthlyBudget that month
+  rollover: BudgetRolloverMode;
+  carriedIn: number; // From the month before, negative after overspending
+  spent: number; // Includes spending in child categories
+  carriedOut: number; // Into the month after
+}
+
+/**
+ * A month's budgets as they were, stored under the month's key (yyyy-MM).
+ * Spending is refreshed when older transactions change, the amounts
+ * budgeted are not.
+ */
+export interface BudgetSnapshot {
+  id: string;
+  month: string;
+  entries: BudgetSnapshotEntry[];
+  createdAt: Date;
+  updatedAt?: Date;
 }
 
 export interface CategoryInfo {
@@ -36,6 +145,35 @@ export interface CategoryInfo {
   type: CategoryType;
   status: 'active' | 'archived';
   aliases?: string[]; // For handling renames
+  parent?: string | null; // Spending rolls up into the parent, e.g. Coffee into F&B
+}
+
+// Child category name to parent category name. Missing means top level.
+export type CategoryParents = Record<string, string>;
+
+export type CategoryOperationKind = 'rename' | 'merge';
+
+// Steps run in this order; each is safe to run again after an interruption
+export type CategoryOperationStep = 'profile' | 'transactions' | 'recurring' | 'rules' | 'budgets' | 'done';
+
+/**
+ * A rename (from becomes to) or merge (from is folded into the existing to)
+ * that rewrites history in batches. Progress is saved with every batch so an
+ * interrupted operation can be resumed.
+ */
+export interface CategoryOperation {
+  id: string;
+  kind: CategoryOperationKind;
+  from: string;
+  to: string;
+  type: CategoryType;
+  step: CategoryOperationStep;
+  cursor?: string | null; // Id of the last transaction rewritten
+  processed: number; // Transactions checked so far
+  total: number;
+  createdAt: Date;
+  updatedAt?: Date;
+  completedAt?: Date | null;
 }
 
 export interface User {
@@ -43,8 +181,258 @@ export interface User {
   name: string;
   categories?: string[];
   incomeCategories?: string[];
+  categoryParents?: CategoryParents; // Parents are categories of the same type
+  archivedCategories?: string[]; // Hidden from pickers, kept for history and reports
+  categoryAliases?: Record<string, string>; // Old name to the category it was renamed or merged into
   income?: number; // Deprecated - will be removed in favor of budget-based income
   savings?: number; // Deprecated - will be calculated from budgets
+  baseCurrency?: string; // ISO 4217 code all totals are converted to, defaults to USD
   onboardingCompleted?: boolean; // Flag to track if user has completed onboarding
   isInitialized?: boolean; // Legacy field for backward compatibility
+  householdId?: string | null; // Household whose shared data this user sees
+  notificationSettings?: NotificationSettings;
+}
+
+// "HH:mm" in the user's time zone; may run past midnight, e.g. 22:00 to 07:00
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface NotificationSettings {
+  timeZone: string; // IANA name from the device last used to save reminders
+  quietHours?: QuietHours | null; // Reminders due in them wait until they end
+}
+
+export type NotificationScheduleKind = 'log-reminder' | 'bill-reminder' | 'weekly-digest' | 'monthly-digest' | 'custom';
+
+export type NotificationFrequency = 'once' | 'daily' | 'weekly' | 'monthly';
+
+/**
+ * A reminder delivered by Web Push from the server, so it arrives with the
+ * app closed. Stored under the signed-in user, who receives it.
+ */
+export interface NotificationSchedule {
+  id: string;
+  kind: NotificationScheduleKind;
+  title?: string; // Custom reminders only, the others are written when sent
+  body?: string;
+  frequency: NotificationFrequency;
+  time: string; // "HH:mm" in NotificationSettings.timeZone
+  daysOfWeek?: number[]; // Weekly, 0 is Sunday
+  dayOfMonth?: number; // Monthly, the last day in shorter months
+  date?: string; // Once, yyyy-MM-dd
+  dataOwnerId: string; // Whose transactions and bills it checks, see HouseholdScope
+  isActive: boolean;
+  nextRunAt: Date | null; // null once a one-off reminder has been sent
+  lastSentAt?: Date | null;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+// A delivered reminder; openedAt is set when the user taps it
+export interface NotificationHistoryEntry {
+  id: string;
+  scheduleId: string | null; // null for digests never set up on the digests page
+  kind: NotificationScheduleKind;
+  title: string;
+  sentAt: Date;
+  openedAt: Date | null;
+}
+
+export type DigestPeriod = 'weekly' | 'monthly';
+
+export interface DigestTotals {
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+export interface DigestCategory {
+  category: string;
+  amount: number;
+  previousAmount: number; // Spent in the period before
+}
+
+export interface DigestBudget {
+  category: string;
+  budgeted: number; // Including anything carried in
+  spent: number;
+  percentage: number;
+  isOverBudget: boolean;
+}
+
+export interface DigestRecurringItem {
+  description: string;
+  category: string;
+  amount: number;
+  currency: string;
+  type: TransactionType;
+  dueDate: Date;
+}
+
+/**
+ * A weekly or monthly digest, written by the server when a digest reminder
+ * is sent. Amounts are in currency, the base currency when it was built.
+ */
+export interface DigestReport {
+  id: string;
+  period: DigestPeriod;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive, the start of the day it was sent for
+  currency: string;
+  totals: DigestTotals;
+  previousTotals: DigestTotals;
+  topCategories: DigestCategory[];
+  budgetsAtRisk: DigestBudget[]; // Near or over their limit for the month
+  upcomingRecurring: DigestRecurringItem[];
+  dataOwnerId: string;
+  createdAt: Date;
+}
+
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+export interface HouseholdMember {
+  role: HouseholdRole;
+  name: string;
+}
+
+// Shares the owner's data with its members. The id is the owner's user id.
+export interface Household {
+  id: string;
+  name: string;
+  ownerId: string;
+  members: Record<string, HouseholdMember>; // Keyed by user id, includes the owner
+  createdAt: Date;
+}
+
+export interface HouseholdInvite {
+  id: string; // The invited email, lowercased
+  email: string;
+  role: Exclude<HouseholdRole, 'owner'>;
+  householdId: string;
+  householdName: string;
+  invitedBy: string;
+  invitedByName: string;
+  createdAt: Date;
+}
+
+export interface ExchangeRate {
+  id: string; // The currency code
+  currency: string;
+  rate: number; // Value of 1 unit of `currency` in `baseCurrency`
+  baseCurrency: string; // Base currency when the rate was entered
+  source: 'manual' | 'import';
+  updatedAt: Date;
+}
+
+export type ImportFileFormat = 'csv' | 'ofx' | 'qif' | 'json'; // json reads our own exports
+
+export type ImportDateFormat = 'yyyy-MM-dd' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'dd MMM yyyy';
+
+// Which CSV header holds each field. Banks use either one signed amount
+// column or separate debit and credit columns. The optional columns let our
+// own CSV exports round-trip.
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  invertAmounts?: boolean; // For exports that list spending as positive amounts
+  type?: string; // income, expense or transfer; amounts are then unsigned
+  category?: string;
+  currency?: string;
+  accountId?: string;
+  toAccountId?: string;
+  splits?: string; // As written by the export, e.g. "Groceries: 12.5; Gifts: 10"
+  tags?: string; // Comma separated, e.g. "JB trip, reimbursable"
+}
+
+export interface ImportPreset {
+  id: string;
+  bankName: string;
+  format: ImportFileFormat;
+  dateFormat: ImportDateFormat;
+  columnMapping?: CsvColumnMapping; // CSV only
+  categoryMap: Record<string, string>; // Description key to category, learned from past imports
+  accountId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RuleConditionField = 'notes' | 'amount' | 'type';
+
+export type RuleConditionOperator = 'contains' | 'startsWith' | 'equals' | 'greaterThan' | 'lessThan';
+
+export interface RuleCondition {
+  field: RuleConditionField;
+  operator: RuleConditionOperator;
+  value: string; // Text is compared case-insensitively, amounts as numbers
+}
+
+export interface RuleActions {
+  category?: string | null;
+  type?: CategoryType | null;
+  notes?: string | null; // Replaces the notes, e.g. "GRAB*TRIP 8812 SG" becomes "Grab"
+  tags?: string[] | null; // Added to the transaction's own tags
+}
+
+export interface CategoryRule {
+  id: string;
+  name: string;
+  conditions: RuleCondition[]; // All must match
+  actions: RuleActions;
+  order: number; // Lower runs first
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export type ReportMetric = 'sum' | 'count' | 'average' | 'median';
+
+export type ReportGroupBy = 'category' | 'tag' | 'weekday' | 'month' | 'account';
+
+export type ReportChartType = 'bar' | 'line' | 'area' | 'pie';
+
+// Worked out when the report runs, so a saved report stays current
+export type ReportPeriod = 'last7' | 'last30' | 'thisMonth' | 'lastMonth' | 'thisYear' | 'all' | 'custom';
+
+// TransactionFilters without the date range, which comes from the period
+export interface ReportFilters {
+  categories?: string[];
+  types?: TransactionType[]; // Transfers are left out unless chosen
+  amountRange?: { min: number; max: number };
+  tags?: string[];
+  searchTerm?: string;
+}
+
+/**
+ * A saved custom report, shared with the household so anyone can rerun it
+ */
+export interface ReportDefinition {
+  id: string;
+  name: string;
+  metric: ReportMetric;
+  groupBy: ReportGroupBy;
+  chartType: ReportChartType;
+  period: ReportPeriod;
+  customRange?: { start: Date; end: Date } | null; // Custom period only
+  filters: ReportFilters;
+  createdBy: string; // User ID of whoever saved it
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export type ApiTokenScope = 'transactions:write' | 'transactions:read' | 'budgets:read' | 'profile:write';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenHash: string; // SHA-256 of the secret, the plaintext is never stored
+  prefix: string; // First characters of the token, shown so users can tell tokens apart
+  scopes: ApiTokenScope[];
+  createdAt: Date;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
 }
@@ -0,0 +1,74 @@
+import { type Account, type Transaction } from "@/shared/types";
+import { UNASSIGNED_ACCOUNT_ID } from "@/shared/constants";
+
+export interface AccountBalanceChange {
+  accountId: string;
+  amount: number;
+}
+
+/**
+ * How a transaction moves each account's balance. Income adds, expenses
+ * subtract and transfers move the amount from accountId to toAccountId.
+ * Transactions without an account land in the unassigned bucket.
+ */
+export function getBalanceChanges(transaction: Transaction): AccountBalanceChange[] {
+  const accountId = transaction.accountId || UNASSIGNED_ACCOUNT_ID;
+
+  switch (transaction.Type) {
+    case 'income':
+      return [{ accountId, amount: transaction.Amount }];
+    case 'expense':
+      return [{ accountId, amount: -transaction.Amount }];
+    case 'transfer':
+      return [
+        { accountId, amount: -transaction.Amount },
+        { accountId: transaction.toAccountId || UNASSIGNED_ACCOUNT_ID, amount: transaction.Amount },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Running balance per account id, starting from each opening balance.
+ * Includes UNASSIGNED_ACCOUNT_ID when any transaction has no account.
+ */
+export function calculateAccountBalances(accounts: Account[], transactions: Transaction[]): Record<string, number> {
+  const balances: Record<string, number> = {};
+  accounts.forEach(account => {
+    balances[account.id] = account.openingBalance || 0;
+  });
+
+  transactions.forEach(transaction => {
+    getBalanceChanges(transaction).forEach(({ accountId, amount }) => {
+      balances[accountId] = (balances[accountId] || 0) + amount;
+    });
+  });
+
+  return balances;
+}
+
+/**
+ * Transactions that touch the account, as source or transfer destination
+ */
+export function getAccountTransactions(accountId: string, transactions: Transaction[]): Transaction[] {
+  return transactions.filter(transaction =>
+    getBalanceChanges(transaction).some(change => change.accountId === accountId)
+  );
+}
+
+/**
+ * Signed effect of a transaction on one account, e.g. -20 for a transfer out
+ */
+export function getAccountAmount(accountId: string, transaction: Transaction): number {
+  return getBalanceChanges(transaction)
+    .filter(change => change.accountId === accountId)
+    .reduce((sum, change) => sum + change.amount, 0);
+}
+
+/**
+ * Opening balance that makes the tracked balance match a statement balance
+ */
+export function getReconciledOpeningBalance(account: Account, currentBalance: number, statementBalance: number): number {
+  return (account.openingBalance || 0) + (statementBalance - currentBalance);
+}
@@ -1,5 +1,6 @@
 import { type Budget, type CategoryType } from "@/shared/types";
-import { BUDGET_STATUS } from "@/shared/constants/budget";
+import { BUDGET_STATUS, DEFAULT_BUDGET_ALERT_THRESHOLDS } from "@/shared/constants/budget";
+import { formatCurrency } from "@/shared/utils/currency";
 
 /**
  * Calculate budget status based on income vs expense budgets
@@ -19,10 +20,10 @@ export function getBudgetStatus(incomeBudget: number, expenseBudget: number) {
 /**
  * Format budget amount with currency symbol
  */
-export function formatBudgetAmount(amount: number, showSign: boolean = false): string {
-  const formatted = Math.abs(amount).toFixed(2);
+export function formatBudgetAmount(amount: number, showSign: boolean = false, currency?: string): string {
+  const formatted = formatCurrency(Math.abs(amount), currency);
   const sign = showSign && amount !== 0 ? (amount > 0 ? '+' : '-') : '';
-  return `${sign}$${formatted}`;
+  return `${sign}${formatted}`;
 }
 
 /**
@@ -44,6 +45,33 @@ export function calculateBudgetProgress(spent: number, budget: number): {
   };
 }
 
+/**
+ * Percentages that push an alert for a budget, lowest first
+ */
+export function getAlertThresholds(budget: Pick<Budget, 'alertThresholds'> | undefined): number[] {
+  return [...(budget?.alertThresholds || DEFAULT_BUDGET_ALERT_THRESHOLDS)].sort((a, b) => a - b);
+}
+
+/**
+ * Thresholds as one line of text, e.g. "80, 100". Read back by parseAlertThresholds.
+ */
+export function formatAlertThresholds(thresholds: number[]): string {
+  return thresholds.join(', ');
+}
+
+/**
+ * Whole percentages from text like "50, 80, 100", without repeats. Returns
+ * null if any part isn't a percentage between 1 and 1000.
+ */
+export function parseAlertThresholds(text: string): number[] | null {
+  const parts = text.split(/[,;\s]+/).filter(Boolean);
+  const thresholds = parts.map(part => Number(part.replace(/%$/, '')));
+  if (thresholds.some(threshold => !Number.isInteger(threshold) || threshold < 1 || threshold > 1000)) {
+    return null;
+  }
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
 /**
  * Validate category name
  */
@@ -0,0 +1,234 @@
+import {
+  type Budget,
+  type BudgetSnapshotEntry,
+  type CategoryInfo,
+  type CategoryOperationKind,
+  type CategoryParents,
+  type CategoryType,
+  type TransactionSplit,
+  type User,
+} from "@/shared/types";
+import { DEFAULT_INCOME_CATEGORIES } from "@/shared/constants";
+
+export interface CategoryTreeItem {
+  name: string;
+  depth: number; // 0 for top-level categories
+  parent: string | null;
+}
+
+/**
+ * Parents of a category, nearest first. Stops at a parent that isn't a
+ * known category or that would loop back, so bad data can't hang the app.
+ */
+export function getAncestors(category: string, parents: CategoryParents, categories?: string[]): string[] {
+  const ancestors: string[] = [];
+  let parent = parents[category];
+  while (parent && parent !== category && !ancestors.includes(parent) && (!categories || categories.includes(parent))) {
+    ancestors.push(parent);
+    parent = parents[parent];
+  }
+  return ancestors;
+}
+
+export function getChildren(category: string, parents: CategoryParents, categories: string[]): string[] {
+  return categories.filter(c => c !== category && parents[c] === category);
+}
+
+/**
+ * A category's path from the top, e.g. "F&B > Coffee"
+ */
+export function formatCategoryPath(category: string, parents: CategoryParents, categories?: string[]): string {
+  return [...getAncestors(category, parents, categories).reverse(), category].join(' > ');
+}
+
+/**
+ * Whether a category can be moved under newParent: not under itself or one
+ * of its own children, and only within the same list of categories
+ */
+export function canReparent(category: string, newParent: string | null, parents: CategoryParents, categories: string[]): boolean {
+  if (!newParent) return true;
+  if (newParent === category || !categories.includes(newParent)) return false;
+  return !getAncestors(newParent, parents, categories).includes(category);
+}
+
+/**
+ * Categories in tree order, each parent followed by its children
+ */
+export function getCategoryTree(categories: string[], parents: CategoryParents): CategoryTreeItem[] {
+  const tree: CategoryTreeItem[] = [];
+  const visit = (name: string, depth: number) => {
+    if (tree.some(item => item.name === name)) return;
+    tree.push({ name, depth, parent: depth > 0 ? parents[name] : null });
+    getChildren(name, parents, categories).forEach(child => visit(child, depth + 1));
+  };
+
+  categories
+    .filter(category => getAncestors(category, parents, categories).length === 0)
+    .forEach(category => visit(category, 0));
+  // Categories stuck in a loop have no top-level ancestor; list them at the top
+  categories.forEach(category => visit(category, 0));
+  return tree;
+}
+
+/**
+ * Amounts per category with each child's amount added to all its parents,
+ * e.g. Coffee's spending also counts towards F&B
+ */
+export function rollUpAmounts(amounts: Record<string, number>, parents: CategoryParents): Record<string, number> {
+  const rolledUp: Record<string, number> = {};
+  Object.entries(amounts).forEach(([category, amount]) => {
+    [category, ...getAncestors(category, parents)].forEach(name => {
+      rolledUp[name] = (rolledUp[name] || 0) + amount;
+    });
+  });
+  return rolledUp;
+}
+
+/**
+ * Budgets that aren't inside another budgeted category. A parent's budget
+ * already covers its children's, so only these are added up for totals.
+ */
+export function getTopLevelBudgets<T extends Pick<Budget, 'Category'>>(budgets: T[], parents: CategoryParents = {}): T[] {
+  const budgeted = new Set(budgets.map(budget => budget.Category));
+  return budgets.filter(budget => !getAncestors(budget.Category, parents).some(ancestor => budgeted.has(ancestor)));
+}
+
+/**
+ * Parent links after a category is removed: its children move up to its parent
+ */
+export function removeFromTree(category: string, parents: CategoryParents): CategoryParents {
+  const next: CategoryParents = {};
+  Object.entries(parents).forEach(([child, parent]) => {
+    if (child === category) return;
+    if (parent !== category) {
+      next[child] = parent;
+    } else if (parents[category]) {
+      next[child] = parents[category];
+    }
+  });
+  return next;
+}
+
+/**
+ * The name a category goes by now, following renames and merges
+ */
+export function resolveCategoryAlias(category: string, aliases: Record<string, string> = {}): string {
+  const seen: string[] = [];
+  let name = category;
+  while (aliases[name] && !seen.includes(name)) {
+    seen.push(name);
+    name = aliases[name];
+  }
+  return name;
+}
+
+export function getCategoryInfo(user: User, category: string): CategoryInfo | null {
+  const incomeCategories: string[] = user.incomeCategories || [...DEFAULT_INCOME_CATEGORIES];
+  const type: CategoryType | null = incomeCategories.includes(category)
+    ? 'income'
+    : (user.categories || []).includes(category) ? 'expense' : null;
+  if (!type) return null;
+
+  return {
+    name: category,
+    type,
+    status: user.archivedCategories?.includes(category) ? 'archived' : 'active',
+    aliases: Object.keys(user.categoryAliases || {}).filter(alias => user.categoryAliases![alias] === category),
+    parent: user.categoryParents?.[category] || null,
+  };
+}
+
+/**
+ * Categories to offer when picking one, without archived ones. Categories in
+ * keep stay listed so editing an older transaction doesn't lose its own.
+ */
+export function getPickerCategories(categories: string[], archived: string[] = [], keep: string[] = []): string[] {
+  return categories.filter(category => !archived.includes(category) || keep.includes(category));
+}
+
+/**
+ * User profile fields after renaming from to to, or merging from into to.
+ * Running it again on the result changes nothing, so an interrupted
+ * operation can be resumed from the start of its profile step.
+ */
+export function applyCategoryChangeToProfile(
+  user: Pick<User, 'categories' | 'incomeCategories' | 'categoryParents' | 'archivedCategories' | 'categoryAliases'>,
+  kind: CategoryOperationKind,
+  from: string,
+  to: string
+): Required<Pick<User, 'categories' | 'incomeCategories' | 'categoryParents' | 'archivedCategories' | 'categoryAliases'>> {
+  const replace = (list: string[]) => {
+    if (!list.includes(from)) return list;
+    return kind === 'rename' && !list.includes(to)
+      ? list.map(category => (category === from ? to : category))
+      : list.filter(category => category !== from);
+  };
+
+  // Children follow the category; a merged category's own parent link goes
+  const parents: CategoryParents = {};
+  Object.entries(user.categoryParents || {}).forEach(([child, parent]) => {
+    const newChild = child === from ? to : child;
+    const newParent = parent === from ? to : parent;
+    if (child === from && kind === 'merge') return;
+    if (newChild !== newParent) parents[newChild] = newParent;
+  });
+
+  const aliases: Record<string, string> = {};
+  Object.entries(user.categoryAliases || {}).forEach(([alias, target]) => {
+    if (alias !== to) aliases[alias] = target === from ? to : target;
+  });
+  aliases[from] = to;
+
+  const archived = user.archivedCategories || [];
+  return {
+    categories: replace(user.categories || []),
+    incomeCategories: replace(user.incomeCategories || [...DEFAULT_INCOME_CATEGORIES]),
+    categoryParents: parents,
+    archivedCategories: kind === 'rename' && archived.includes(from)
+      ? Array.from(new Set(archived.map(category => (category === from ? to : category))))
+      : archived.filter(category => category !== from),
+    categoryAliases: aliases,
+  };
+}
+
+/**
+ * Splits with from renamed to to. Splits that end up in the same category
+ * are combined, as after a merge.
+ */
+export function replaceSplitCategory(splits: TransactionSplit[], from: string, to: string): TransactionSplit[] {
+  const combined: TransactionSplit[] = [];
+  splits.forEach(split => {
+    const category = split.Category === from ? to : split.Category;
+    const existing = combined.find(s => s.Category === category);
+    if (existing) {
+      existing.Amount += split.Amount;
+      existing.Notes = [existing.Notes, split.Notes].filter(Boolean).join(', ');
+    } else {
+      combined.push({ ...split, Category: category });
+    }
+  });
+  return combined;
+}
+
+/**
+ * Snapshot entries with from renamed to to. After a merge both entries are
+ * added together under to, keeping to's rollover mode.
+ */
+export function replaceSnapshotCategory(entries: BudgetSnapshotEntry[], from: string, to: string): BudgetSnapshotEntry[] {
+  const moved = entries.find(entry => entry.Category === from);
+  const target = entries.find(entry => entry.Category === to);
+  if (!moved) return entries;
+
+  return entries
+    .filter(entry => entry.Category !== from)
+    .map(entry => (entry === target
+      ? {
+          ...entry,
+          budgeted: entry.budgeted + moved.budgeted,
+          carriedIn: entry.carriedIn + moved.carriedIn,
+          spent: entry.spent + moved.spent,
+          carriedOut: entry.carriedOut + moved.carriedOut,
+        }
+      : entry))
+    .concat(target ? [] : [{ ...moved, Category: to }]);
+}
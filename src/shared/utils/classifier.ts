@@ -0,0 +1,176 @@
+import { type CategoryType, type Transaction } from "@/shared/types";
+import { LEARNED_CATEGORIES } from "@/shared/constants";
+import { toRecurrenceDate } from "./recurrence";
+import { expandSplits } from "./splits";
+
+// What the classifier looks at. Date is missing while a transaction is being typed in.
+export interface ClassifierInput {
+  Notes: string;
+  Amount: number;
+  Date?: unknown;
+}
+
+export interface CategoryModelEntry {
+  examples: number; // Transactions in this category
+  featureTotal: number; // Sum of counts, the naive Bayes denominator
+  counts: Record<string, number>;
+  types: Record<CategoryType, number>; // How often the category was income or expense
+}
+
+/**
+ * Naive Bayes counts over notes words, amount bucket and time of day.
+ * Counts only ever go up or down by one example, so the model can be
+ * updated as transactions change instead of being rebuilt.
+ */
+export interface CategoryModel {
+  examples: number;
+  categories: Record<string, CategoryModelEntry>;
+  vocabulary: Record<string, number>; // Examples using each feature
+}
+
+export interface TrainingExample {
+  category: string;
+  type: CategoryType;
+  features: string[];
+}
+
+export interface CategoryPrediction {
+  category: string;
+  probability: number;
+}
+
+export interface ClassifierAccuracy {
+  checked: number;
+  topOne: number; // Share of transactions whose category was the first suggestion
+  topThree: number;
+}
+
+// Upper bounds of the amount buckets; amounts above the last share one bucket
+const AMOUNT_BUCKETS = [5, 10, 20, 50, 100, 250, 500, 1000];
+
+export function getAmountBucket(amount: number): string {
+  const bucket = AMOUNT_BUCKETS.find(limit => Math.abs(amount) < limit);
+  return bucket ? `<${bucket}` : `${AMOUNT_BUCKETS[AMOUNT_BUCKETS.length - 1]}+`;
+}
+
+export function getTimeOfDay(date: Date): string {
+  const hour = date.getHours();
+  if (hour < 6) return 'night';
+  if (hour < 12) return 'morning';
+  if (hour < 18) return 'afternoon';
+  return 'evening';
+}
+
+/**
+ * Features for one transaction, e.g. ["w:jb", "w:coke", "a:<5", "t:evening"]
+ */
+export function getClassifierFeatures(input: ClassifierInput): string[] {
+  const words = Array.from(new Set((input.Notes || '').toLowerCase().match(/[a-z0-9]+/g) || []));
+  const features = [...words.map(word => `w:${word}`), `a:${getAmountBucket(input.Amount)}`];
+
+  const date = input.Date ? toRecurrenceDate(input.Date) : null;
+  if (date && !isNaN(date.getTime())) {
+    features.push(`t:${getTimeOfDay(date)}`);
+  }
+  return features;
+}
+
+export function createCategoryModel(): CategoryModel {
+  return { examples: 0, categories: {}, vocabulary: {} };
+}
+
+/**
+ * Training examples for transactions, one per split. Transfers say
+ * nothing about spending categories and are left out.
+ */
+export function toTrainingExamples(transaction: Transaction): TrainingExample[] {
+  if (transaction.Type === 'transfer' || !transaction.Category) return [];
+
+  return expandSplits([transaction]).map(part => ({
+    category: part.Category,
+    type: part.Type as CategoryType,
+    features: getClassifierFeatures(part),
+  }));
+}
+
+/**
+ * Add an example to the model (weight 1) or take it back out (weight -1)
+ */
+export function trainExample(model: CategoryModel, example: TrainingExample, weight: 1 | -1 = 1): void {
+  if (!model.categories[example.category]) {
+    model.categories[example.category] = { examples: 0, featureTotal: 0, counts: {}, types: { income: 0, expense: 0 } };
+  }
+  const entry = model.categories[example.category];
+
+  model.examples += weight;
+  entry.examples += weight;
+  entry.types[example.type] += weight;
+  example.features.forEach(feature => {
+    entry.counts[feature] = (entry.counts[feature] || 0) + weight;
+    entry.featureTotal += weight;
+    model.vocabulary[feature] = (model.vocabulary[feature] || 0) + weight;
+    if (entry.counts[feature] <= 0) delete entry.counts[feature];
+    if (model.vocabulary[feature] <= 0) delete model.vocabulary[feature];
+  });
+  if (entry.examples <= 0) delete model.categories[example.category];
+}
+
+/**
+ * Categories ranked by how likely they are, most likely first. Only
+ * categories in candidates are ranked, when given.
+ */
+export function predictCategories(
+  model: CategoryModel,
+  features: string[],
+  candidates?: string[]
+): CategoryPrediction[] {
+  const vocabularySize = Object.keys(model.vocabulary).length + 1;
+  const scores = Object.entries(model.categories)
+    .filter(([category]) => !candidates || candidates.includes(category))
+    .map(([category, entry]) => ({
+      category,
+      // Log space with add-one smoothing, so unseen words don't rule a category out
+      score: Math.log(entry.examples / model.examples) + features.reduce(
+        (sum, feature) => sum + Math.log(((entry.counts[feature] || 0) + 1) / (entry.featureTotal + vocabularySize)),
+        0
+      ),
+    }));
+  if (scores.length === 0) return [];
+
+  const best = Math.max(...scores.map(s => s.score));
+  const total = scores.reduce((sum, s) => sum + Math.exp(s.score - best), 0);
+  return scores
+    .map(s => ({ category: s.category, probability: Math.exp(s.score - best) / total }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+/**
+ * Whether the model has seen enough transactions for its guesses to be shown
+ */
+export function isModelReady(model: CategoryModel): boolean {
+  return model.examples >= LEARNED_CATEGORIES.MIN_EXAMPLES && Object.keys(model.categories).length > 1;
+}
+
+/**
+ * Leave-one-out accuracy: each example is taken out, predicted from the
+ * rest, then put back. The model is unchanged afterwards.
+ */
+export function evaluateCategoryModel(model: CategoryModel, examples: TrainingExample[]): ClassifierAccuracy {
+  let topOne = 0;
+  let topThree = 0;
+
+  examples.forEach(example => {
+    trainExample(model, example, -1);
+    const ranked = predictCategories(model, example.features).slice(0, 3).map(p => p.category);
+    trainExample(model, example, 1);
+
+    if (ranked[0] === example.category) topOne++;
+    if (ranked.includes(example.category)) topThree++;
+  });
+
+  return {
+    checked: examples.length,
+    topOne: examples.length ? topOne / examples.length : 0,
+    topThree: examples.length ? topThree / examples.length : 0,
+  };
+}
@@ -0,0 +1,153 @@
+import { type ExchangeRate, type Transaction } from "@/shared/types";
+import { DEFAULT_BASE_CURRENCY } from "@/shared/constants";
+import { hasSplits } from "@/shared/utils/splits";
+
+// Keep in sync with convertToBase in functions/src/calculations.ts
+
+// Value of 1 unit of each currency in the base currency
+export type ExchangeRateMap = Record<string, number>;
+
+/**
+ * Format an amount in its currency, e.g. "S$12.50" or "¥1,200"
+ */
+export function formatCurrency(amount: number, currency: string = DEFAULT_BASE_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes still render
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * Symbol shown in front of amount inputs, e.g. "$" or "RM"
+ */
+export function getCurrencySymbol(currency: string = DEFAULT_BASE_CURRENCY): string {
+  try {
+    const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0);
+    return parts.find(part => part.type === 'currency')?.value || currency;
+  } catch {
+    return currency;
+  }
+}
+
+/**
+ * Rates against `baseCurrency`. Rates entered against an earlier base
+ * currency are converted through that currency's own rate when possible,
+ * so changing the base currency doesn't require re-entering every rate.
+ */
+export function buildRateMap(rates: ExchangeRate[], baseCurrency: string): ExchangeRateMap {
+  const map: ExchangeRateMap = {};
+
+  rates.forEach(rate => {
+    if (rate.baseCurrency === baseCurrency && rate.rate > 0) {
+      map[rate.currency] = rate.rate;
+    }
+  });
+
+  // The new base currency's rate against the old base gives the old base's rate
+  rates.forEach(rate => {
+    if (rate.currency === baseCurrency && rate.baseCurrency !== baseCurrency && rate.rate > 0) {
+      map[rate.baseCurrency] = map[rate.baseCurrency] || 1 / rate.rate;
+    }
+  });
+
+  rates.forEach(rate => {
+    if (rate.baseCurrency === baseCurrency || rate.currency === baseCurrency || map[rate.currency]) return;
+    const pivot = map[rate.baseCurrency];
+    if (pivot && rate.rate > 0) {
+      map[rate.currency] = rate.rate * pivot;
+    }
+  });
+
+  return map;
+}
+
+/**
+ * Convert an amount to the base currency. Amounts in a currency without a
+ * rate are returned unchanged; use getMissingRates to warn about them.
+ */
+export function convertToBase(amount: number, currency: string | undefined, baseCurrency: string, rates: ExchangeRateMap): number {
+  if (!currency || currency === baseCurrency) return amount;
+  const rate = rates[currency];
+  return rate ? amount * rate : amount;
+}
+
+/**
+ * Copies of the transactions with Amount in the base currency, for totals.
+ * Rows should keep showing the original transaction.
+ */
+export function toBaseCurrency(transactions: Transaction[], baseCurrency: string, rates: ExchangeRateMap): Transaction[] {
+  return transactions.map(transaction => {
+    if (!transaction.currency || transaction.currency === baseCurrency) return transaction;
+    const currency = transaction.currency;
+    return {
+      ...transaction,
+      Amount: convertToBase(transaction.Amount, currency, baseCurrency, rates),
+      ...(hasSplits(transaction) && {
+        splits: transaction.splits.map(split => ({
+          ...split,
+          Amount: convertToBase(split.Amount, currency, baseCurrency, rates),
+        })),
+      }),
+    };
+  });
+}
+
+/**
+ * Currencies used by the transactions that have no rate to the base currency
+ */
+export function getMissingRates(transactions: Transaction[], baseCurrency: string, rates: ExchangeRateMap): string[] {
+  const missing = new Set<string>();
+  transactions.forEach(transaction => {
+    if (transaction.currency && transaction.currency !== baseCurrency && !rates[transaction.currency]) {
+      missing.add(transaction.currency);
+    }
+  });
+  return Array.from(missing).sort();
+}
+
+/**
+ * Parse pasted rates, one "CODE,rate" or "CODE=rate" per line, or a JSON
+ * object such as {"SGD": 0.74}
+ */
+export function parseExchangeRates(text: string): { rates: ExchangeRateMap; errors: string[] } {
+  const rates: ExchangeRateMap = {};
+  const errors: string[] = [];
+  const trimmed = text.trim();
+
+  let entries: [string, unknown][];
+  if (trimmed.startsWith('{')) {
+    try {
+      entries = Object.entries(JSON.parse(trimmed));
+    } catch {
+      return { rates, errors: ['Invalid JSON'] };
+    }
+  } else {
+    entries = trimmed
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'))
+      .map(line => {
+        const [code, value] = line.split(/[,=\t;]/).map(part => part.trim());
+        return [code, value];
+      });
+  }
+
+  entries.forEach(([code, value]) => {
+    const currency = String(code || '').toUpperCase();
+    const rate = typeof value === 'number' ? value : parseFloat(String(value));
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`"${code}" is not a currency code`);
+    } else if (!rate || rate <= 0 || isNaN(rate)) {
+      errors.push(`${currency}: rate must be a positive number`);
+    } else {
+      rates[currency] = rate;
+    }
+  });
+
+  return { rates, errors };
+}
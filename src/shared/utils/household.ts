@@ -0,0 +1,37 @@
+import { type Household, type HouseholdRole, type Transaction } from "@/shared/types";
+
+/**
+ * The role a user holds in a household, or null if they are not a member.
+ */
+export function getMemberRole(household: Household | null | undefined, userId: string | undefined): HouseholdRole | null {
+  if (!household || !userId) return null;
+  return household.members?.[userId]?.role || null;
+}
+
+/**
+ * Owners and editors can change shared data; viewers only read it.
+ */
+export function canEditHouseholdData(role: HouseholdRole | null): boolean {
+  return role === null || role === 'owner' || role === 'editor';
+}
+
+/**
+ * Who entered a transaction. Transactions from before households existed
+ * belong to the owner of the data they live in.
+ */
+export function getTransactionMemberId(transaction: Transaction, ownerId: string): string {
+  return transaction.createdBy || ownerId;
+}
+
+export function filterTransactionsByMember<T extends Transaction>(
+  transactions: T[],
+  memberId: string,
+  ownerId: string
+): T[] {
+  return transactions.filter(transaction => getTransactionMemberId(transaction, ownerId) === memberId);
+}
+
+// Invites are keyed by email, so both sides must agree on its form
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,220 @@
+import { type RecurrenceRule, type RecurrenceMonthRule } from "@/shared/types";
+import { getDeviceTimeZone, getZonedDateKey, getZonedParts, zonedTimeToDate } from "@/shared/utils/schedules";
+
+// Keep in sync with calculateNextDueDate in functions/src/calculations.ts.
+// Days are counted in the rule's time zone, so the app and the scheduled
+// function pick the same instant, and the same occurrence id, for each date.
+
+/**
+ * Normalize Date, Firestore Timestamp, ISO string or epoch values to a Date
+ */
+export function toRecurrenceDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof value === 'object') {
+    if ('toDate' in value && typeof (value as { toDate: unknown }).toDate === 'function') {
+      return (value as { toDate: () => Date }).toDate();
+    }
+    if ('seconds' in value) {
+      return new Date((value as { seconds: number }).seconds * 1000);
+    }
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return new Date(value);
+  }
+  return new Date(NaN);
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * The wall clock date and time of `date` in a time zone, held in the UTC
+ * fields of a Date so calendar maths doesn't depend on the device's zone
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(
+    parts.year, parts.month - 1, parts.day, parts.hour, parts.minute,
+    date.getUTCSeconds(), date.getUTCMilliseconds()
+  ));
+}
+
+/**
+ * Reverse of toWallClock
+ */
+function fromWallClock(wallClock: Date, timeZone: string): Date {
+  const instant = zonedTimeToDate(
+    wallClock.getUTCFullYear(), wallClock.getUTCMonth() + 1, wallClock.getUTCDate(),
+    wallClock.getUTCHours(), wallClock.getUTCMinutes(), timeZone
+  );
+  return new Date(instant.getTime() + wallClock.getUTCSeconds() * 1000 + wallClock.getUTCMilliseconds());
+}
+
+/**
+ * Pick the day within the month of `monthStart` according to the rule.
+ * Works on a wall clock date from toWallClock.
+ */
+export function applyMonthRule(monthStart: Date, monthRule: RecurrenceMonthRule): Date {
+  const result = new Date(monthStart);
+  const daysInMonth = getDaysInMonth(result.getUTCFullYear(), result.getUTCMonth());
+
+  switch (monthRule.type) {
+    case 'day-of-month':
+      result.setUTCDate(Math.min(Math.max(monthRule.day, 1), daysInMonth));
+      break;
+    case 'last-day':
+      result.setUTCDate(daysInMonth);
+      break;
+    case 'last-business-day':
+      result.setUTCDate(daysInMonth);
+      while (result.getUTCDay() === 0 || result.getUTCDay() === 6) {
+        result.setUTCDate(result.getUTCDate() - 1);
+      }
+      break;
+    case 'nth-weekday':
+      if (monthRule.week === -1) {
+        result.setUTCDate(daysInMonth);
+        result.setUTCDate(daysInMonth - ((result.getUTCDay() - monthRule.weekday + 7) % 7));
+      } else {
+        result.setUTCDate(1);
+        const offset = (monthRule.weekday - result.getUTCDay() + 7) % 7;
+        result.setUTCDate(1 + offset + (monthRule.week - 1) * 7);
+      }
+      break;
+  }
+
+  return result;
+}
+
+/**
+ * Occurrence that follows `current`, ignoring end date and occurrence limits
+ */
+export function getNextOccurrence(rule: RecurrenceRule, current: Date): Date {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const timeZone = rule.timeZone || getDeviceTimeZone();
+  const wallClock = toWallClock(current, timeZone);
+
+  if (rule.frequency === 'weekly') {
+    const next = new Date(wallClock);
+    next.setUTCDate(wallClock.getUTCDate() + 7 * interval);
+    return fromWallClock(next, timeZone);
+  }
+
+  const monthsToAdd = rule.frequency === 'yearly' ? 12 * interval : interval;
+  const monthStart = new Date(wallClock);
+  monthStart.setUTCDate(1);
+  monthStart.setUTCMonth(wallClock.getUTCMonth() + monthsToAdd);
+
+  return fromWallClock(applyMonthRule(
+    monthStart,
+    rule.monthRule || { type: 'day-of-month', day: wallClock.getUTCDate() }
+  ), timeZone);
+}
+
+/**
+ * Whether an occurrence on `date` is still part of the series, given how many
+ * occurrences have already been posted
+ */
+export function isWithinRecurrence(rule: RecurrenceRule, date: Date, occurrenceCount: number = 0): boolean {
+  if (rule.maxOccurrences && occurrenceCount >= rule.maxOccurrences) {
+    return false;
+  }
+  if (rule.endDate && date > toRecurrenceDate(rule.endDate)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Transaction id for one occurrence, same as getRecurringOccurrenceId in
+ * functions/src/calculations.ts, so an occurrence posted here and by the
+ * scheduled function lands on one document. The date is the rule's local date.
+ */
+export function getRecurringOccurrenceId(recurringId: string, dueDate: Date, timeZone: string): string {
+  return `recurring_${recurringId}_${getZonedDateKey(dueDate, timeZone)}`;
+}
+
+/**
+ * The next `count` dates of the series starting at `nextDueDate`
+ */
+export function getUpcomingOccurrences(
+  rule: RecurrenceRule,
+  nextDueDate: Date,
+  count: number = 5,
+  occurrenceCount: number = 0
+): Date[] {
+  const dates: Date[] = [];
+  let date = nextDueDate;
+  let posted = occurrenceCount;
+
+  while (dates.length < count && !isNaN(date.getTime()) && isWithinRecurrence(rule, date, posted)) {
+    dates.push(date);
+    date = getNextOccurrence(rule, date);
+    posted++;
+  }
+
+  return dates;
+}
+
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Human readable summary, e.g. "Every 3 months on the last business day"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const unit = rule.frequency === 'weekly' ? 'week' : rule.frequency === 'monthly' ? 'month' : 'year';
+  let description = interval === 1
+    ? rule.frequency.charAt(0).toUpperCase() + rule.frequency.slice(1)
+    : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency !== 'weekly' && rule.monthRule) {
+    switch (rule.monthRule.type) {
+      case 'day-of-month':
+        description += ` on day ${rule.monthRule.day}`;
+        break;
+      case 'last-day':
+        description += ' on the last day';
+        break;
+      case 'last-business-day':
+        description += ' on the last business day';
+        break;
+      case 'nth-weekday':
+        description += ` on the ${ORDINALS[rule.monthRule.week]} ${WEEKDAYS[rule.monthRule.weekday]}`;
+        break;
+    }
+  }
+
+  if (rule.maxOccurrences) {
+    description += `, ${rule.maxOccurrences} times`;
+  } else if (rule.endDate) {
+    const endDate = toRecurrenceDate(rule.endDate);
+    description += `, until ${endDate.toLocaleDateString()}`;
+  }
+
+  return description;
+}
+
+/**
+ * First occurrence on or after `startDate`. Monthly and yearly rules move the
+ * start onto the rule's day, e.g. the last business day of that month.
+ */
+export function getFirstOccurrence(rule: RecurrenceRule, startDate: Date): Date {
+  if (rule.frequency === 'weekly' || !rule.monthRule) {
+    return startDate;
+  }
+
+  const timeZone = rule.timeZone || getDeviceTimeZone();
+  const start = toWallClock(startDate, timeZone);
+  const monthStart = new Date(start);
+  monthStart.setUTCDate(1);
+  const aligned = applyMonthRule(monthStart, rule.monthRule);
+  if (aligned.getUTCDate() >= start.getUTCDate()) {
+    return fromWallClock(aligned, timeZone);
+  }
+
+  monthStart.setUTCMonth(monthStart.getUTCMonth() + 1);
+  return fromWallClock(applyMonthRule(monthStart, rule.monthRule), timeZone);
+}
@@ -0,0 +1,109 @@
+/**
+ * Per-document revision stamps and three-way merging of concurrent edits.
+ *
+ * A checked write sets a fresh `revision` and names the revision it was made
+ * against in `baseRevision`. Firestore rules reject it when the stored
+ * revision has moved on, which is how stale offline edits are detected.
+ */
+
+// A type alias rather than an interface so stamped data still fits Firestore's UpdateData
+export type RevisionStamp = {
+  revision: string;
+  baseRevision: string | null;
+};
+
+// Bookkeeping fields that never count as a user change
+export const REVISION_IGNORED_FIELDS = ['id', 'revision', 'baseRevision', 'updatedAt'];
+
+const REVISION_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+export function createRevision(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  return Array.from(bytes, byte => REVISION_CHARS[byte % REVISION_CHARS.length]).join('');
+}
+
+/**
+ * Stamp a write made against `base`, the document as the writer last saw it.
+ * Pass null for a document that does not exist yet.
+ */
+export function stampRevision<T extends object>(data: T, base: { revision?: string | null } | null): T & RevisionStamp {
+  return {
+    ...data,
+    revision: createRevision(),
+    baseRevision: base?.revision ?? null,
+  };
+}
+
+// Dates, Firestore Timestamps and their plain {seconds, nanoseconds} form compare by instant
+const toComparable = (value: unknown): unknown => {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof value === 'object') {
+    if ('toMillis' in value && typeof value.toMillis === 'function') return value.toMillis();
+    if ('seconds' in value && 'nanoseconds' in value && Object.keys(value).length === 2) {
+      return Number(value.seconds) * 1000 + Math.floor(Number(value.nanoseconds) / 1e6);
+    }
+  }
+  return value;
+};
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  const left = toComparable(a ?? null);
+  const right = toComparable(b ?? null);
+
+  if (left === right) return true;
+  if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) return false;
+  if (Array.isArray(left) !== Array.isArray(right)) return false;
+
+  const leftRecord = left as Record<string, unknown>;
+  const rightRecord = right as Record<string, unknown>;
+  const keys = new Set([...Object.keys(leftRecord), ...Object.keys(rightRecord)]);
+  return Array.from(keys).every(key => isSameValue(leftRecord[key], rightRecord[key]));
+}
+
+/**
+ * Fields whose value differs between two versions of a document.
+ * Only keys present in `after` are considered unless `allKeys` is set.
+ */
+export function getChangedFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  allKeys = false
+): string[] {
+  const keys = allKeys ? new Set([...Object.keys(before), ...Object.keys(after)]) : new Set(Object.keys(after));
+  return Array.from(keys).filter(
+    key => !REVISION_IGNORED_FIELDS.includes(key) && !isSameValue(before[key], after[key])
+  );
+}
+
+export interface RevisionMergeResult {
+  changes: Record<string, unknown>; // Local changes that apply cleanly on top of the remote version
+  conflicts: string[]; // Fields both sides changed to different values
+}
+
+/**
+ * Three-way merge of a local edit and a remote edit made against the same base.
+ * Fields changed on only one side merge; fields changed differently on both conflict.
+ */
+export function mergeRevisions(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>
+): RevisionMergeResult {
+  const remoteChanged = new Set(getChangedFields(base, remote, true));
+  const changes: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+
+  getChangedFields(base, local).forEach(key => {
+    if (!remoteChanged.has(key) || isSameValue(local[key], remote[key])) {
+      changes[key] = local[key];
+    } else {
+      conflicts.push(key);
+    }
+  });
+
+  Object.keys(changes).forEach(key => {
+    if (isSameValue(changes[key], remote[key])) delete changes[key];
+  });
+
+  return { changes, conflicts };
+}
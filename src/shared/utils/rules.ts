@@ -0,0 +1,150 @@
+import {
+  type CategoryRule,
+  type CategoryType,
+  type RuleCondition,
+  type Transaction,
+  type TransactionType,
+} from "@/shared/types";
+import { RULE_CONDITION_FIELDS } from "@/shared/constants";
+import { cleanTags, hasTag } from "@/shared/utils/tags";
+
+// What rules look at: a saved transaction, a form being filled in or an import row
+export interface RuleTarget {
+  Amount: number;
+  Type: TransactionType;
+  Notes: string;
+}
+
+export interface RuleChanges {
+  Category?: string;
+  Type?: CategoryType;
+  Notes?: string;
+  tags?: string[]; // Added to the transaction's tags
+}
+
+// Amounts from forms and statements may differ from the rule by rounding
+const AMOUNT_TOLERANCE = 0.005;
+
+const normalizeText = (text: string | undefined): string =>
+  (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export function matchesCondition(condition: RuleCondition, target: RuleTarget): boolean {
+  if (condition.field === 'amount') {
+    const value = parseFloat(condition.value);
+    if (isNaN(value)) return false;
+
+    const amount = Math.abs(target.Amount);
+    if (condition.operator === 'greaterThan') return amount > value;
+    if (condition.operator === 'lessThan') return amount < value;
+    return Math.abs(amount - value) < AMOUNT_TOLERANCE;
+  }
+
+  const text = normalizeText(condition.field === 'type' ? target.Type : target.Notes);
+  const value = normalizeText(condition.value);
+  if (condition.operator === 'contains') return text.includes(value);
+  if (condition.operator === 'startsWith') return text.startsWith(value);
+  return text === value;
+}
+
+/**
+ * Whether an active rule's conditions all hold. Transfers are never matched.
+ */
+export function matchesRule(rule: CategoryRule, target: RuleTarget): boolean {
+  return rule.isActive &&
+    target.Type !== 'transfer' &&
+    rule.conditions.length > 0 &&
+    rule.conditions.every(condition => matchesCondition(condition, target));
+}
+
+export function sortRules(rules: CategoryRule[]): CategoryRule[] {
+  return [...rules].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Run the rules in order. Each change comes from the first matching rule
+ * that sets it, so earlier rules win over later ones. Tags add up instead:
+ * every matching rule adds its own.
+ */
+export function applyRules(rules: CategoryRule[], target: RuleTarget): { changes: RuleChanges; ruleIds: string[] } {
+  const changes: RuleChanges = {};
+  const ruleIds: string[] = [];
+
+  sortRules(rules).forEach(rule => {
+    if (!matchesRule(rule, target)) return;
+
+    const { category, type, notes, tags } = rule.actions;
+    let applied = false;
+    if (category && changes.Category === undefined) {
+      changes.Category = category;
+      applied = true;
+    }
+    if (type && changes.Type === undefined) {
+      changes.Type = type;
+      applied = true;
+    }
+    if (notes && changes.Notes === undefined) {
+      changes.Notes = notes;
+      applied = true;
+    }
+    if (tags?.length) {
+      changes.tags = cleanTags([...(changes.tags || []), ...tags]);
+      applied = true;
+    }
+    if (applied) ruleIds.push(rule.id);
+  });
+
+  return { changes, ruleIds };
+}
+
+/**
+ * The changes one rule would make to a transaction, leaving out the ones
+ * it already has
+ */
+export function getRuleChanges(rule: CategoryRule, transaction: Transaction): RuleChanges {
+  if (!matchesRule(rule, transaction)) return {};
+
+  const { category, type, notes, tags } = rule.actions;
+  const newTags = cleanTags(tags || []).filter(tag => !hasTag(transaction, tag));
+  return {
+    ...(category && category !== transaction.Category && { Category: category }),
+    ...(type && type !== transaction.Type && { Type: type }),
+    ...(notes && notes !== transaction.Notes && { Notes: notes }),
+    ...(newTags.length > 0 && { tags: newTags }),
+  };
+}
+
+/**
+ * Transactions a rule would change if it had been in place when they were added
+ */
+export function previewRule(rule: CategoryRule, transactions: Transaction[]): Transaction[] {
+  return transactions.filter(transaction => Object.keys(getRuleChanges(rule, transaction)).length > 0);
+}
+
+/**
+ * Why the rule can't be saved, or null if it can
+ */
+export function validateRule(rule: Pick<CategoryRule, 'name' | 'conditions' | 'actions'>): string | null {
+  if (!rule.name.trim()) {
+    return 'Rule name is required';
+  }
+  if (rule.conditions.length === 0) {
+    return 'Add at least one condition';
+  }
+  for (const condition of rule.conditions) {
+    const field = RULE_CONDITION_FIELDS.find(f => f.value === condition.field);
+    if (!field || !(field.operators as readonly string[]).includes(condition.operator)) {
+      return 'Choose a condition the field supports';
+    }
+    if (!condition.value.trim()) {
+      return 'Every condition needs a value';
+    }
+    if (condition.field === 'amount' && isNaN(parseFloat(condition.value))) {
+      return 'Amount conditions need a number';
+    }
+  }
+  const { category, type, notes, tags } = rule.actions;
+  if (!category && !type && !notes?.trim() && !cleanTags(tags || []).length) {
+    return 'Choose what the rule changes';
+  }
+  return null;
+}
@@ -0,0 +1,220 @@
+import { type NotificationSchedule, type NotificationScheduleKind, type QuietHours } from "@/shared/types";
+import { DIGEST_SCHEDULE_KINDS, NOTIFICATION_TIMING } from "@/shared/constants";
+
+// Keep in sync with the schedule timing in functions/src/calculations.ts
+
+export type ScheduleTiming = Pick<NotificationSchedule, 'frequency' | 'time' | 'daysOfWeek' | 'dayOfMonth' | 'date'>;
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 is Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Looked at day by day, so a year and a month covers every monthly and yearly gap
+const MAX_DAYS_AHEAD = 400;
+
+/**
+ * The device's IANA time zone, e.g. "Asia/Singapore"
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Wall clock date and time of an instant in a time zone. Unknown zones
+ * fall back to UTC rather than throwing.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+  } catch {
+    return getZonedParts(date, 'UTC');
+  }
+
+  const parts: Record<string, string> = {};
+  format.formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * The instant a wall clock time happens in a time zone. Times skipped by a
+ * daylight saving change land just after it.
+ */
+export function zonedTimeToDate(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - instant;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  // Checked again at the guess, in case it crossed a change in offset
+  return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * Hours and minutes of an "HH:mm" time, or null if it isn't one
+ */
+export function parseTime(time: string): { hour: number; minute: number } | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+}
+
+/**
+ * The calendar date of an instant in a time zone, as yyyy-MM-dd
+ */
+export function getZonedDateKey(date: Date, timeZone: string, addDays: number = 0): string {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day + addDays)).toISOString().slice(0, 10);
+}
+
+export function isDigestKind(kind: NotificationScheduleKind): boolean {
+  return (Object.values(DIGEST_SCHEDULE_KINDS) as NotificationScheduleKind[]).includes(kind);
+}
+
+/**
+ * What's wrong with a reminder, or null if it can be saved
+ */
+export function validateSchedule(schedule: ScheduleTiming & Pick<NotificationSchedule, 'kind' | 'title'>): string | null {
+  if (schedule.kind === 'custom' && !schedule.title?.trim()) {
+    return 'Give the reminder a title';
+  }
+  if (!parseTime(schedule.time)) {
+    return 'Pick a time';
+  }
+  if (schedule.frequency === 'weekly' && !schedule.daysOfWeek?.length) {
+    return 'Pick at least one day';
+  }
+  if (schedule.frequency === 'once' && !schedule.date) {
+    return 'Pick a date';
+  }
+  return null;
+}
+
+function matchesDay(timing: ScheduleTiming, year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  switch (timing.frequency) {
+    case 'once':
+      return date.toISOString().slice(0, 10) === timing.date;
+    case 'daily':
+      return true;
+    case 'weekly':
+      return (timing.daysOfWeek || []).includes(date.getUTCDay());
+    case 'monthly': {
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      return day === Math.min(Math.max(timing.dayOfMonth || 1, 1), daysInMonth);
+    }
+  }
+}
+
+/**
+ * When a reminder is next due after the given instant, or null if it never
+ * is again (a one-off that has passed, or a weekly one without days)
+ */
+export function getNextRunAt(timing: ScheduleTiming, after: Date, timeZone: string): Date | null {
+  const time = parseTime(timing.time);
+  if (!time) return null;
+
+  const today = getZonedParts(after, timeZone);
+  for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    if (!matchesDay(timing, year, month, day.getUTCDate())) continue;
+
+    const runAt = zonedTimeToDate(year, month, day.getUTCDate(), time.hour, time.minute, timeZone);
+    if (runAt > after) return runAt;
+  }
+  return null;
+}
+
+function toMinutes(time: string): number | null {
+  const parsed = parseTime(time);
+  return parsed ? parsed.hour * 60 + parsed.minute : null;
+}
+
+/**
+ * Whether an instant falls in the quiet hours. A start equal to the end
+ * means no quiet hours.
+ */
+export function isInQuietHours(date: Date, quietHours: QuietHours | null | undefined, timeZone: string): boolean {
+  if (!quietHours) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const parts = getZonedParts(date, timeZone);
+  const minutes = parts.hour * 60 + parts.minute;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * The next time quiet hours end after the given instant
+ */
+export function getQuietHoursEnd(date: Date, quietHours: QuietHours, timeZone: string): Date {
+  return getNextRunAt({ frequency: 'daily', time: quietHours.end }, date, timeZone) || date;
+}
+
+/**
+ * The hour the user most often opens notifications, as "HH:00" in their
+ * time zone. Falls back to NOTIFICATION_TIMING.FALLBACK_TIME until there
+ * are enough opens to go on.
+ */
+export function suggestNotificationTime(openedAt: Date[], timeZone: string): string {
+  if (openedAt.length < NOTIFICATION_TIMING.MIN_OPENS) {
+    return NOTIFICATION_TIMING.FALLBACK_TIME;
+  }
+
+  const counts = new Array<number>(24).fill(0);
+  openedAt.forEach(date => {
+    counts[getZonedParts(date, timeZone).hour]++;
+  });
+  // Earliest of the busiest hours, so ties don't push reminders late
+  const hour = counts.indexOf(Math.max(...counts));
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/**
+ * A schedule's timing in words, e.g. "Every Mon, Fri at 21:00"
+ */
+export function describeScheduleTiming(timing: ScheduleTiming): string {
+  switch (timing.frequency) {
+    case 'once':
+      return `On ${timing.date} at ${timing.time}`;
+    case 'daily':
+      return `Every day at ${timing.time}`;
+    case 'weekly': {
+      const days = [...(timing.daysOfWeek || [])].sort((a, b) => a - b).map(day => WEEKDAYS[day]);
+      return `Every ${days.join(', ') || 'week'} at ${timing.time}`;
+    }
+    case 'monthly':
+      return `Monthly on day ${timing.dayOfMonth || 1} at ${timing.time}`;
+  }
+}
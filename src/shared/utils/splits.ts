@@ -0,0 +1,107 @@
+import { type Transaction, type TransactionSplit } from "@/shared/types";
+
+// Splits may differ from the total by rounding, never by a whole cent
+const SPLIT_TOLERANCE = 0.005;
+
+export function hasSplits(transaction: Pick<Transaction, 'splits'>): transaction is { splits: TransactionSplit[] } {
+  return Array.isArray(transaction.splits) && transaction.splits.length > 0;
+}
+
+export function getSplitTotal(splits: TransactionSplit[]): number {
+  return splits.reduce((sum, split) => sum + split.Amount, 0);
+}
+
+/**
+ * Why the splits can't be saved for this total, or null if they can
+ */
+export function validateSplits(splits: TransactionSplit[], total: number): string | null {
+  if (splits.length < 2) {
+    return 'Split into at least two parts';
+  }
+  if (splits.some(split => !split.Category)) {
+    return 'Every split needs a category';
+  }
+  if (splits.some(split => !(split.Amount > 0))) {
+    return 'Every split needs a positive amount';
+  }
+  if (Math.abs(getSplitTotal(splits) - total) > SPLIT_TOLERANCE) {
+    return 'Splits must add up to the total';
+  }
+  return null;
+}
+
+/**
+ * The category a split transaction is listed under: its largest split's
+ */
+export function getPrimarySplitCategory(splits: TransactionSplit[]): string {
+  return splits.reduce((largest, split) => (split.Amount > largest.Amount ? split : largest), splits[0]).Category;
+}
+
+/**
+ * Every category a transaction counts towards
+ */
+export function getTransactionCategories(transaction: Transaction): string[] {
+  return hasSplits(transaction)
+    ? Array.from(new Set(transaction.splits.map(split => split.Category)))
+    : [transaction.Category];
+}
+
+/**
+ * One entry per category amount: split transactions become one copy per
+ * split, others are kept as they are. Use for per-category totals.
+ */
+export function expandSplits<T extends Transaction>(transactions: T[]): T[] {
+  return transactions.flatMap(transaction =>
+    hasSplits(transaction)
+      ? transaction.splits.map(split => ({
+          ...transaction,
+          Category: split.Category,
+          Amount: split.Amount,
+          Notes: split.Notes || transaction.Notes,
+          splits: null,
+        }))
+      : [transaction]
+  );
+}
+
+// A backslash escapes ';' and backslashes in categories and notes, so their text reads back unchanged
+const escapeSplitText = (text: string): string => text.replace(/[\\;]/g, match => `\\${match}`);
+
+const splitOnSeparators = (text: string): string[] => {
+  const parts: string[] = [];
+  let part = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      part += text[++i];
+    } else if (text[i] === ';') {
+      parts.push(part);
+      part = '';
+    } else {
+      part += text[i];
+    }
+  }
+  parts.push(part);
+  return parts;
+};
+
+/**
+ * Splits as one line of text, e.g. "Groceries: 12.5; Gifts: 10 (Card for Sam)".
+ * Read back by parseSplits.
+ */
+export function formatSplits(splits: TransactionSplit[]): string {
+  return splits
+    .map(split => `${escapeSplitText(split.Category)}: ${split.Amount}${split.Notes ? ` (${escapeSplitText(split.Notes)})` : ''}`)
+    .join('; ');
+}
+
+export function parseSplits(text: string): TransactionSplit[] | null {
+  if (!text.trim()) return null;
+
+  const splits: TransactionSplit[] = [];
+  for (const part of splitOnSeparators(text)) {
+    const match = part.trim().match(/^(.+):\s*(\d+(?:\.\d+)?)(?:\s*\(([\s\S]*)\))?$/);
+    if (!match) return null;
+    splits.push({ Category: match[1].trim(), Amount: parseFloat(match[2]), Notes: (match[3] || '').trim() });
+  }
+  return splits;
+}
@@ -0,0 +1,65 @@
+import { type Transaction } from "@/shared/types";
+
+// Tags are compared ignoring case, so "JB trip" and "jb trip" are one tag
+const tagKey = (tag: string): string => tag.toLowerCase();
+
+/**
+ * Tidy a tag as typed: trimmed, inner whitespace collapsed, no leading "#"
+ */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalized tags without blanks or repeats, keeping the first spelling
+ */
+export function cleanTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags.map(normalizeTag).filter(tag => {
+    if (!tag || seen.has(tagKey(tag))) return false;
+    seen.add(tagKey(tag));
+    return true;
+  });
+}
+
+export function hasTag(transaction: Pick<Transaction, 'tags'>, tag: string): boolean {
+  return (transaction.tags || []).some(t => tagKey(t) === tagKey(tag));
+}
+
+/**
+ * Whether a transaction has any of the tags
+ */
+export function matchesTags(transaction: Pick<Transaction, 'tags'>, tags: string[]): boolean {
+  return tags.some(tag => hasTag(transaction, tag));
+}
+
+/**
+ * Every tag in use, most used first, for autocomplete and tag pickers
+ */
+export function getAllTags(transactions: Pick<Transaction, 'tags'>[]): string[] {
+  const counts = new Map<string, { tag: string; count: number }>();
+  transactions.forEach(transaction => {
+    (transaction.tags || []).forEach(tag => {
+      const entry = counts.get(tagKey(tag));
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(tagKey(tag), { tag, count: 1 });
+      }
+    });
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .map(entry => entry.tag);
+}
+
+/**
+ * Tags as one line of text, e.g. "JB trip, reimbursable". Read back by parseTags.
+ */
+export function formatTags(tags: string[] | undefined | null): string {
+  return (tags || []).join(', ');
+}
+
+export function parseTags(text: string): string[] {
+  return cleanTags(text.split(/[,;]/));
+}
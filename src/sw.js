@@ -398,4 +398,222 @@ self.addEventListener('fetch', (event) => {
       reason: event.reason
     });
   });
-})();
\ No newline at end of file
+})();
+// Offline write outbox replay
+// Tabs queue writes in the pgb-cache IndexedDB (see src/lib/background-sync.ts)
+// and register a `sync`; this drains them through the Firestore REST API when
+// no tab is open to do it with the SDK.
+(() => {
+  const OUTBOX_SYNC_TAG = 'pgb-outbox-sync';
+  const LOCK_NAME = 'pgb-outbox';
+  const MAX_ATTEMPTS = 5;
+
+  // Keep in step with src/lib/pgb-db.ts
+  const DB_NAME = 'pgb-cache';
+  const DB_VERSION = 3;
+
+  // Rejected for good: bad data, rules or a missing document
+  const PERMANENT_STATUSES = [400, 403, 404, 409];
+
+  function openDatabase() {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        ['transactions', 'budgets', 'userData', 'syncState', 'deadLetters', 'conflicts'].forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+        if (!db.objectStoreNames.contains('outbox')) {
+          db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+        }
+      };
+    });
+  }
+
+  function runTransaction(db, storeNames, mode, work) {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      let result;
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+      work(transaction, (value) => { result = value; });
+    });
+  }
+
+  function getSyncState(db) {
+    return runTransaction(db, 'syncState', 'readonly', (transaction, done) => {
+      const request = transaction.objectStore('syncState').get('current');
+      request.onsuccess = () => done(request.result);
+    });
+  }
+
+  function getEntries(db, userId) {
+    return runTransaction(db, 'outbox', 'readonly', (transaction, done) => {
+      const request = transaction.objectStore('outbox').getAll();
+      request.onsuccess = () => done(request.result.filter((entry) => (entry.queuedBy || entry.userId) === userId));
+    });
+  }
+
+  // Exchange the stored refresh token for an ID token
+  async function getIdToken(db, state) {
+    const response = await fetch(`https://securetoken.googleapis.com/v1/token?key=${encodeURIComponent(state.apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: state.refreshToken }).toString()
+    });
+    if (!response.ok) {
+      throw new Error(`Token refresh failed: ${response.status}`);
+    }
+
+    const token = await response.json();
+    if (token.refresh_token && token.refresh_token !== state.refreshToken) {
+      await runTransaction(db, 'syncState', 'readwrite', (transaction) => {
+        transaction.objectStore('syncState').put({ ...state, refreshToken: token.refresh_token });
+      });
+    }
+    return token.id_token;
+  }
+
+  // Encode a stored value the way the Firestore REST API expects
+  function toFirestoreValue(value) {
+    if (value === null || value === undefined) return { nullValue: null };
+    if (value instanceof Date) return { timestampValue: value.toISOString() };
+    if (typeof value === 'boolean') return { booleanValue: value };
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+    }
+    if (typeof value === 'string') return { stringValue: value };
+    if (Array.isArray(value)) return { arrayValue: { values: value.map(toFirestoreValue) } };
+    return { mapValue: { fields: toFirestoreFields(value) } };
+  }
+
+  function toFirestoreFields(data) {
+    const fields = {};
+    Object.entries(data || {}).forEach(([key, value]) => {
+      if (value !== undefined) fields[key] = toFirestoreValue(value);
+    });
+    return fields;
+  }
+
+  function toFieldPath(key) {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key)
+      ? key
+      : '`' + key.replace(/\\/g, '\\\\').replace(/`/g, '\\`') + '`';
+  }
+
+  // Same semantics as BackgroundSyncManager.replay
+  function toWrite(entry, documentsPath) {
+    const name = `${documentsPath}/users/${entry.userId}/${entry.collection}/${entry.docId}`;
+
+    switch (entry.operation) {
+      case 'create':
+        return { update: { name, fields: toFirestoreFields(entry.data) } };
+      case 'update':
+        return {
+          update: { name, fields: toFirestoreFields(entry.data) },
+          updateMask: { fieldPaths: Object.keys(entry.data || {}).map(toFieldPath) },
+          ...(!entry.upsert && { currentDocument: { exists: true } })
+        };
+      case 'delete':
+        return { delete: name };
+      default:
+        throw new Error(`Unknown outbox operation: ${entry.operation}`);
+    }
+  }
+
+  function moveToDeadLetters(db, entry, error) {
+    return runTransaction(db, ['outbox', 'deadLetters'], 'readwrite', (transaction) => {
+      transaction.objectStore('outbox').delete(entry.seq);
+      // Dead letters are keyed by id, the outbox's seq isn't kept
+      const deadLetter = { ...entry, failedAt: Date.now(), error };
+      delete deadLetter.seq;
+      transaction.objectStore('deadLetters').put(deadLetter);
+    });
+  }
+
+  async function drainOutbox() {
+    const db = await openDatabase();
+    try {
+      const state = await getSyncState(db);
+      if (!state) {
+        console.log('[SW Sync] No signed-in user, leaving outbox for the app');
+        return;
+      }
+
+      const entries = await getEntries(db, state.userId);
+      if (entries.length === 0) return;
+
+      const idToken = await getIdToken(db, state);
+      const documentsPath = `projects/${state.projectId}/databases/(default)/documents`;
+
+      for (const entry of entries) {
+        let status = 0;
+        let message;
+        try {
+          const response = await fetch(`https://firestore.googleapis.com/v1/${documentsPath}:commit`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${idToken}`
+            },
+            body: JSON.stringify({ writes: [toWrite(entry, documentsPath)] })
+          });
+          if (response.ok) {
+            await runTransaction(db, 'outbox', 'readwrite', (transaction) => {
+              transaction.objectStore('outbox').delete(entry.seq);
+            });
+            console.log('[SW Sync] Write synced:', entry.id);
+            continue;
+          }
+          status = response.status;
+          const body = await response.json().catch(() => null);
+          message = body?.error?.message || `Firestore responded ${response.status}`;
+        } catch (error) {
+          message = error.message || String(error);
+        }
+
+        // A checked update rejected by the rules may be stale. Merging needs
+        // the app, so leave it and everything after it for the next open tab.
+        if (status === 403 && entry.operation === 'update' && entry.data && 'baseRevision' in entry.data) {
+          console.log('[SW Sync] Write may conflict, leaving it for the app:', entry.id);
+          return;
+        }
+
+        const attempts = entry.attempts + 1;
+        if (PERMANENT_STATUSES.includes(status) || attempts >= MAX_ATTEMPTS) {
+          console.warn('[SW Sync] Write moved to dead letters:', entry.id, message);
+          await moveToDeadLetters(db, { ...entry, attempts }, message);
+          continue;
+        }
+
+        // Keep order: stop here and let the browser retry the sync later
+        await runTransaction(db, 'outbox', 'readwrite', (transaction) => {
+          transaction.objectStore('outbox').put({ ...entry, attempts, lastError: message });
+        });
+        throw new Error(message);
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  async function notifyClients() {
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    clients.forEach((client) => client.postMessage({ type: 'OUTBOX_SYNCED' }));
+  }
+
+  self.addEventListener('sync', (event) => {
+    if (event.tag !== OUTBOX_SYNC_TAG) return;
+    console.log('[SW Sync] Draining outbox');
+
+    const drain = self.navigator.locks
+      ? self.navigator.locks.request(LOCK_NAME, drainOutbox)
+      : drainOutbox();
+
+    event.waitUntil(drain.finally(notifyClients));
+  });
+})();
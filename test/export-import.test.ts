@@ -0,0 +1,79 @@
+import { describe, expect, it } from '@jest/globals';
+import { ExportUtils } from '@/modules/reports/utils/export.utils';
+import { ImportUtils } from '@/modules/transactions/utils/import.utils';
+import { formatSplits, parseSplits } from '@/shared/utils/splits';
+import type { RecurringTransaction, Transaction } from '@/shared/types';
+
+const recurring: RecurringTransaction = {
+  id: 'rent',
+  Amount: 1200,
+  Type: 'expense',
+  Category: 'Bills',
+  Notes: 'Rent',
+  accountId: 'bank',
+  frequency: 'monthly',
+  interval: 1,
+  monthRule: { type: 'last-day' },
+  endDate: new Date('2026-12-31T00:00:00.000Z'),
+  maxOccurrences: null,
+  timeZone: 'Asia/Singapore',
+  occurrenceCount: 4,
+  nextDueDate: new Date('2025-05-30T16:00:00.000Z'),
+  isActive: true,
+  createdAt: new Date('2025-01-01T00:00:00.000Z'),
+};
+
+const splitTransaction: Transaction = {
+  id: 't1',
+  Date: '2025-03-01T00:00:00.000Z',
+  Amount: 30,
+  Type: 'expense',
+  Category: 'Groceries',
+  Notes: 'Market',
+  splits: [
+    { Category: 'Groceries', Amount: 20, Notes: 'Milk; eggs' },
+    { Category: 'Gifts', Amount: 10, Notes: 'Card for Sam \\ Alex (birthday)' },
+  ],
+};
+
+describe('formatSplits', () => {
+  it('reads back notes with separators and backslashes unchanged', () => {
+    expect(parseSplits(formatSplits(splitTransaction.splits!))).toEqual(splitTransaction.splits);
+  });
+});
+
+describe('CSV export', () => {
+  it('imports split notes unchanged', () => {
+    const csv = ExportUtils.toCsv(ExportUtils.toTransactionRows([splitTransaction]));
+    const table = ImportUtils.parseCsv(csv);
+    const { rows, errors } = ImportUtils.mapCsvRows(table, ImportUtils.guessCsvMapping(table.headers), 'yyyy-MM-dd');
+
+    expect(errors).toEqual([]);
+    expect(rows[0].splits).toEqual(splitTransaction.splits);
+  });
+});
+
+describe('JSON export', () => {
+  it('imports recurring transactions with their schedule and progress', () => {
+    const { rows, recurring: imported } = ImportUtils.parseJson(ExportUtils.toJson([splitTransaction], [recurring]));
+
+    expect(rows).toHaveLength(1);
+    expect(imported).toEqual([{
+      id: 'rent',
+      Amount: 1200,
+      Type: 'expense',
+      Category: 'Bills',
+      Notes: 'Rent',
+      accountId: 'bank',
+      frequency: 'monthly',
+      interval: 1,
+      monthRule: { type: 'last-day' },
+      endDate: recurring.endDate,
+      maxOccurrences: null,
+      timeZone: 'Asia/Singapore',
+      occurrenceCount: 4,
+      nextDueDate: recurring.nextDueDate,
+      isActive: true,
+    }]);
+  });
+});
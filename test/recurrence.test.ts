@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@jest/globals';
+import { getNextOccurrence, getRecurringOccurrenceId } from '@/shared/utils/recurrence';
+
+describe('getNextOccurrence', () => {
+  it('counts days in the rule\'s time zone, like the scheduled function', () => {
+    // Midnight on the 15th in Singapore is the 14th in UTC
+    expect(getNextOccurrence(
+      { frequency: 'monthly', monthRule: { type: 'day-of-month', day: 15 }, timeZone: 'Asia/Singapore' },
+      new Date('2025-01-14T16:00:00.000Z')
+    ).toISOString()).toBe('2025-02-14T16:00:00.000Z');
+    expect(getNextOccurrence(
+      { frequency: 'monthly', monthRule: { type: 'last-day' }, timeZone: 'Asia/Singapore' },
+      new Date('2025-01-30T16:00:00.000Z')
+    ).toISOString()).toBe('2025-02-27T16:00:00.000Z');
+  });
+
+  it('keeps the local time across a change in offset', () => {
+    expect(getNextOccurrence(
+      { frequency: 'weekly', timeZone: 'America/New_York' },
+      new Date('2025-03-03T14:00:00.000Z')
+    ).toISOString()).toBe('2025-03-10T13:00:00.000Z');
+  });
+});
+
+describe('getRecurringOccurrenceId', () => {
+  it('names each occurrence by its date in the rule\'s time zone', () => {
+    const dueDate = new Date('2025-02-14T16:00:00.000Z');
+    expect(getRecurringOccurrenceId('r1', dueDate, 'UTC')).toBe('recurring_r1_2025-02-14');
+    expect(getRecurringOccurrenceId('r1', dueDate, 'Asia/Singapore')).toBe('recurring_r1_2025-02-15');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyRules, previewRule, validateRule } from '@/shared/utils/rules';
+import { ImportUtils } from '@/modules/transactions/utils/import.utils';
+import type { CategoryRule, RuleActions, Transaction } from '@/shared/types';
+
+const rule = (id: string, order: number, actions: RuleActions, value = 'grab'): CategoryRule => ({
+  id,
+  name: id,
+  conditions: [{ field: 'notes', operator: 'contains', value }],
+  actions,
+  order,
+  isActive: true,
+  createdAt: new Date('2025-01-01T00:00:00.000Z'),
+});
+
+const transaction = (id: string, Notes: string, tags?: string[]): Transaction => ({
+  id,
+  Date: '2025-03-01T00:00:00.000Z',
+  Amount: 12,
+  Type: 'expense',
+  Category: 'Transport',
+  Notes,
+  ...(tags && { tags }),
+});
+
+describe('applyRules', () => {
+  it('adds the tags of every matching rule', () => {
+    expect(applyRules([
+      rule('first', 0, { category: 'Transport', tags: ['#Work', 'taxi'] }),
+      rule('second', 1, { tags: ['work', 'Reimbursable'] }),
+    ], { Amount: 12, Type: 'expense', Notes: 'GRAB*TRIP' })).toEqual({
+      changes: { Category: 'Transport', tags: ['Work', 'taxi', 'Reimbursable'] },
+      ruleIds: ['first', 'second'],
+    });
+  });
+});
+
+describe('previewRule', () => {
+  it('counts transactions that would only gain a tag', () => {
+    const tagRule = rule('tag', 0, { tags: ['Work'] });
+    expect(previewRule(tagRule, [
+      transaction('untagged', 'Grab to office'),
+      transaction('tagged', 'Grab home', ['work']),
+      transaction('other', 'Bus'),
+    ]).map(t => t.id)).toEqual(['untagged']);
+  });
+});
+
+describe('validateRule', () => {
+  it('accepts a rule that only adds tags', () => {
+    expect(validateRule(rule('tag', 0, { tags: ['Work'] }))).toBeNull();
+    expect(validateRule(rule('blank', 0, { tags: [' '] }))).toBe('Choose what the rule changes');
+  });
+});
+
+describe('ImportUtils.buildPreview', () => {
+  it('adds rule tags to the row\'s own', () => {
+    const [row] = ImportUtils.buildPreview(
+      [{ date: '2025-03-01T00:00:00.000Z', amount: 12, description: 'GRAB*TRIP', tags: ['JB trip'] }],
+      {
+        existingTransactions: [],
+        categoryMap: {},
+        categories: ['Transport'],
+        incomeCategories: [],
+        accountIds: [],
+        rules: [rule('tag', 0, { category: 'Transport', tags: ['Work'] })],
+      }
+    );
+    expect(row.category).toBe('Transport');
+    expect(ImportUtils.toCreateDto(row).tags).toEqual(['JB trip', 'Work']);
+  });
+});